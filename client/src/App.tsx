@@ -10,6 +10,11 @@ import Dashboard from "@/pages/dashboard";
 import Cases from "@/pages/cases";
 import CaseDetail from "@/pages/case-detail";
 import NewCase from "@/pages/new-case";
+import EditCase from "@/pages/edit-case";
+import CaseTrash from "@/pages/case-trash";
+import Patients from "@/pages/patients";
+import PatientDetail from "@/pages/patient-detail";
+import PatientReview from "@/pages/patient-review";
 import BulkUpload from "@/pages/bulk-upload";
 import Analytics from "@/pages/analytics";
 import Reports from "@/pages/reports";
@@ -36,7 +41,12 @@ function AuthenticatedLayout() {
             <Route path="/dashboard" component={Dashboard} />
             <Route path="/cases" component={Cases} />
             <Route path="/cases/new" component={NewCase} />
+            <Route path="/cases/trash" component={CaseTrash} />
+            <Route path="/cases/:id/edit" component={EditCase} />
             <Route path="/cases/:id" component={CaseDetail} />
+            <Route path="/patients" component={Patients} />
+            <Route path="/patients/review" component={PatientReview} />
+            <Route path="/patients/:id" component={PatientDetail} />
             <Route path="/bulk-upload" component={BulkUpload} />
             <Route path="/analytics" component={Analytics} />
             <Route path="/reports" component={Reports} />
@@ -9,9 +9,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { ImportJob } from "@shared/schema";
+import { ATTACHMENT_MAPPING_TARGET, CASE_NUMBER_MAPPING_TARGET, EXTRA_FIELD_PREFIX, IMPORT_CASE_FIELDS, isOwnerExtraField, type ImportDuplicateDecision, type ImportMappingPreset, type ImportMode } from "@shared/schema";
 
 interface FileUploadState {
   file: File | null;
@@ -19,31 +29,115 @@ interface FileUploadState {
   preview: any[] | null;
   headers: string[] | null;
   mapping: Record<string, string>;
+  // ZIP upload whose manifest can refer to files packed alongside it
+  isBundle: boolean;
   validation: {
     valid: number;
     warnings: number;
     errors: number;
+    updates: number;
+    unchanged: number;
+    attachments: number;
+    issues: ImportIssue[];
+    rows: ValidatedRow[];
+    duplicates: DuplicateRow[];
+    errorFileUrl: string | null;
   } | null;
 }
 
-const caseFields = [
-  { value: "patientName", label: "Patient Name" },
-  { value: "species", label: "Species" },
-  { value: "breed", label: "Breed" },
-  { value: "sex", label: "Sex" },
-  { value: "ageYears", label: "Age (Years)" },
-  { value: "ageMonths", label: "Age (Months)" },
-  { value: "diagnosisDate", label: "Diagnosis Date" },
-  { value: "tumourTypeCustom", label: "Tumour Type" },
-  { value: "anatomicalSiteCustom", label: "Anatomical Site" },
-  { value: "laterality", label: "Laterality" },
-  { value: "stage", label: "Stage" },
-  { value: "diagnosisMethod", label: "Diagnosis Method" },
-  { value: "treatmentPlan", label: "Treatment Plan" },
-  { value: "treatmentStart", label: "Treatment Start Date" },
-  { value: "notes", label: "Notes" },
+// Shape returned by /api/imports/recent
+interface RecentImport {
+  id: string;
+  filename: string;
+  status: string;
+  mode: ImportMode;
+  total_rows: number;
+  success: number;
+  failed: number;
+  error_file_url: string | null;
+  // False for imports that updated existing cases, which a rollback cannot restore
+  can_roll_back: boolean;
+  created_at: string;
+}
+
+// Payload of the progress events streamed from /api/imports/:id/events
+interface ImportProgress {
+  status: string;
+  total_rows: number;
+  processed_rows: number;
+  success: number;
+  failed: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+interface ImportIssue {
+  row: number;
+  level: 'error' | 'warning';
+  message: string;
+}
+
+interface ValidatedRow {
+  row: number;
+  values: Record<string, string>;
+  data: Record<string, any> | null;
+  update: { caseId: string; caseNumber: string; diff: { before: Record<string, unknown>; after: Record<string, unknown> } } | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Matches an existing case, or with matchesRow an earlier row of the same file
+interface DuplicateRow {
+  row: number;
+  caseId: string | null;
+  caseNumber: string | null;
+  matchesRow?: number;
+  score: number;
+}
+
+const duplicateDecisions: Array<{ value: ImportDuplicateDecision; label: string }> = [
+  { value: "skip", label: "Skip row" },
+  { value: "merge", label: "Merge into existing" },
+  { value: "keep", label: "Keep both" },
 ];
 
+const MAX_LISTED_ISSUES = 100;
+
+// Import endpoints answer with { success, error } bodies, including on 4xx responses
+async function postImportAction(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data) {
+    throw new Error(data?.error || data?.message || `Server error ${response.status}`);
+  }
+  return data;
+}
+
+const VALIDATION_POLL_MS = 1000;
+
+// Validation runs as a background job; waits for it to finish and returns its outcome
+async function waitForValidation(id: string) {
+  for (;;) {
+    const response = await fetch(`/api/imports/${id}/validation`, { credentials: 'include' });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data) {
+      throw new Error(data?.error || data?.message || `Server error ${response.status}`);
+    }
+    if (data.status !== 'VALIDATING') return data;
+    await new Promise(resolve => setTimeout(resolve, VALIDATION_POLL_MS));
+  }
+}
+
+const requiredFields = IMPORT_CASE_FIELDS.filter(field => "required" in field && field.required);
+
+// Columns without a matching case field can still be kept in the case's extra data
+const extraFieldFor = (column: string) =>
+  EXTRA_FIELD_PREFIX + (column.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "") || "column");
+
 const allowedFileTypes = [
   'text/csv',
   'application/vnd.ms-excel',
@@ -64,6 +158,7 @@ export default function BulkUploadWizard() {
     preview: null,
     headers: null,
     mapping: {},
+    isBundle: false,
     validation: null,
   });
 
@@ -71,24 +166,20 @@ export default function BulkUploadWizard() {
   const [currentStep, setCurrentStep] = useState<'upload' | 'mapping' | 'validation'>('upload');
 
   const [importId, setImportId] = useState<string | null>(null);
-  const [pollingStatus, setPollingStatus] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [decisions, setDecisions] = useState<Record<number, ImportDuplicateDecision>>({});
+  const [jobToRollback, setJobToRollback] = useState<{ id: string; filename: string } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("CREATE");
+  const [matchKey, setMatchKey] = useState<string>(CASE_NUMBER_MAPPING_TARGET);
 
   // Fetch import jobs history
-  const { data: importJobs, isLoading: jobsLoading } = useQuery<ImportJob[]>({
+  const { data: importJobs, isLoading: jobsLoading } = useQuery<RecentImport[]>({
     queryKey: ["/api/imports/recent"],
   });
 
-  // Poll import status
-  const { data: importStatus } = useQuery({
-    queryKey: ["/api/imports/status", importId],
-    queryFn: async () => {
-      if (!importId) return null;
-      const response = await fetch(`/api/imports/${importId}/status`, { credentials: 'include' });
-      if (!response.ok) return null;
-      return response.json();
-    },
-    enabled: pollingStatus && !!importId,
-    refetchInterval: 2000,
+  const { data: mappingPresets } = useQuery<ImportMappingPreset[]>({
+    queryKey: ["/api/imports/mapping-presets"],
   });
 
   // File upload mutation
@@ -116,38 +207,17 @@ export default function BulkUploadWizard() {
 
       return data;
     },
-    onSuccess: async (data) => {
-      if (data.import_id) {
-        setImportId(data.import_id);
-        
-        // Start the import processing
-        try {
-          const startResponse = await fetch(`/api/imports/${data.import_id}/start`, {
-            method: 'POST',
-            credentials: 'include',
-            headers: { 'Content-Type': 'application/json' }
-          });
-          
-          if (startResponse.ok) {
-            setPollingStatus(true);
-            toast({
-              title: "Import started",
-              description: "Processing your file...",
-            });
-          } else {
-            const errorData = await startResponse.json();
-            throw new Error(errorData.error || 'Failed to start import');
-          }
-        } catch (error) {
-          setUploadState(prev => ({ ...prev, uploading: false }));
-          setPollingStatus(false);
-          toast({
-            title: "Failed to start import",
-            description: error instanceof Error ? error.message : "Please try again.",
-            variant: "destructive",
-          });
-        }
-      }
+    onSuccess: (data) => {
+      setImportId(data.import_id);
+      setUploadState(prev => ({
+        ...prev,
+        uploading: false,
+        headers: data.headers,
+        preview: data.preview,
+        mapping: data.suggested_mapping || {},
+        isBundle: !!data.is_bundle,
+      }));
+      setCurrentStep('mapping');
     },
     onError: (error) => {
       setUploadState(prev => ({ ...prev, uploading: false }));
@@ -159,29 +229,169 @@ export default function BulkUploadWizard() {
     },
   });
 
-  // Watch import status changes
+  // Dry run over the whole file; nothing is saved until the commit step
+  const validateMutation = useMutation({
+    mutationFn: async ({ id, mapping, mode, matchKey }: { id: string; mapping: Record<string, string>; mode: ImportMode; matchKey: string | null }) => {
+      await postImportAction(`/api/imports/${id}/validate`, { mapping, mode, matchKey });
+      return waitForValidation(id);
+    },
+    onSuccess: (data) => {
+      const issues: ImportIssue[] = [
+        ...data.errors.map((e: { row: number; error: string }) => ({ row: e.row, level: 'error' as const, message: e.error })),
+        ...data.warnings.map((w: { row: number; warning: string }) => ({ row: w.row, level: 'warning' as const, message: w.warning })),
+      ].sort((a, b) => a.row - b.row);
+
+      setUploadState(prev => ({
+        ...prev,
+        validation: {
+          valid: data.valid_rows,
+          warnings: data.warning_rows,
+          errors: data.error_rows,
+          updates: data.update_rows || 0,
+          unchanged: data.unchanged_rows || 0,
+          attachments: data.attachment_count || 0,
+          issues,
+          rows: data.preview,
+          duplicates: data.duplicates,
+          errorFileUrl: data.error_file_url,
+        },
+      }));
+      setDecisions({});
+      setCurrentStep('validation');
+    },
+    onError: (error) => {
+      toast({
+        title: "Validation failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Inserts the valid rows in a single transaction on the server
+  const commitMutation = useMutation({
+    mutationFn: ({ id, decisions }: { id: string; decisions: Record<number, ImportDuplicateDecision> }) =>
+      postImportAction(`/api/imports/${id}/commit`, { decisions }),
+    onSuccess: () => {
+      setImportProgress({ status: 'PROCESSING', total_rows: 0, processed_rows: 0, success: 0, failed: 0, errors: [] });
+      queryClient.invalidateQueries({ queryKey: ["/api/imports/recent"] });
+      setUploadState(prev => ({ ...prev, headers: null, preview: null, mapping: {}, validation: null }));
+      setCurrentStep('upload');
+      toast({
+        title: "Import started",
+        description: "Processing your file...",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start import",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (id: string) => postImportAction(`/api/imports/${id}/rollback`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/imports/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      toast({
+        title: "Import rolled back",
+        description: `Removed ${data.removed} imported cases.`,
+      });
+      setJobToRollback(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to roll back import",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      setJobToRollback(null);
+    },
+  });
+
+  // The worker stops at its next checkpoint and rolls the import back
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => postImportAction(`/api/imports/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/imports/recent"] });
+      toast({
+        title: "Cancelling import",
+        description: "No cases from this import will be saved.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel import",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const savePresetMutation = useMutation({
+    mutationFn: async (preset: { name: string; mapping: Record<string, string> }) => {
+      const response = await apiRequest("POST", "/api/imports/mapping-presets", preset);
+      return response.json();
+    },
+    onSuccess: (preset: ImportMappingPreset) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/imports/mapping-presets"] });
+      setPresetName("");
+      toast({
+        title: "Preset saved",
+        description: `Mapping saved as "${preset.name}".`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save preset",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Follow a running import over Server-Sent Events until it finishes
+  const isImporting = importProgress !== null;
   useEffect(() => {
-    if (importStatus && pollingStatus) {
-      const status = importStatus.status;
-      if (status === 'COMPLETED' || status === 'FAILED') {
-        setPollingStatus(false);
-        queryClient.invalidateQueries({ queryKey: ["/api/imports/recent"] });
+    if (!importId || !isImporting) return;
+
+    const source = new EventSource(`/api/imports/${importId}/events`, { withCredentials: true });
+
+    source.addEventListener('progress', (event) => {
+      setImportProgress(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('done', (event) => {
+      source.close();
+      const progress: ImportProgress = JSON.parse((event as MessageEvent).data);
+      queryClient.invalidateQueries({ queryKey: ["/api/imports/recent"] });
+
+      if (progress.status === 'CANCELLED') {
+        toast({
+          title: "Import cancelled",
+          description: "No cases were saved.",
+        });
+      } else {
         queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
-        
-        const successCount = importStatus.success || 0;
-        const failedCount = importStatus.failed || 0;
-        
         toast({
-          title: status === 'COMPLETED' ? "Import complete" : "Import failed",
-          description: `Successfully imported ${successCount} cases. ${failedCount > 0 ? `${failedCount} failed.` : ''}`,
-          variant: status === 'FAILED' ? "destructive" : "default",
+          title: progress.status === 'COMPLETED' ? "Import complete" : "Import failed",
+          description: `Successfully imported ${progress.success} cases. ${progress.failed > 0 ? `${progress.failed} failed.` : ''}`,
+          variant: progress.status === 'COMPLETED' ? "default" : "destructive",
         });
-        
-        setImportId(null);
-        setUploadState(prev => ({ ...prev, uploading: false }));
       }
-    }
-  }, [importStatus, pollingStatus, queryClient, toast]);
+
+      setImportProgress(null);
+      setImportId(null);
+      setUploadState(prev => ({ ...prev, uploading: false }));
+    });
+
+    // EventSource reconnects by itself after a dropped connection, and the server
+    // sends the current state again when it does
+    return () => source.close();
+  }, [importId, isImporting, queryClient, toast]);
 
   const generateMockPreview = () => [
     { patient_name: "Max", species: "Canine", breed: "Golden Retriever", tumour_type: "Mammary Gland Tumour", diagnosis_date: "2024-01-15" },
@@ -196,9 +406,11 @@ export default function BulkUploadWizard() {
       preview: null,
       headers: null,
       mapping: {},
+      isBundle: false,
       validation: null,
     });
     setCurrentStep('upload');
+    setImportId(null);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -268,8 +480,58 @@ export default function BulkUploadWizard() {
     });
   };
 
+  // Presets only apply to columns present in the current file
+  const applyPreset = (presetId: string) => {
+    const preset = mappingPresets?.find(p => p.id === presetId);
+    if (!preset || !uploadState.headers) return;
+
+    const mapping: Record<string, string> = {};
+    for (const column of uploadState.headers) {
+      if (preset.mapping[column]) mapping[column] = preset.mapping[column];
+    }
+    setUploadState(prev => ({ ...prev, mapping }));
+  };
+
+  // Keeps a preset's extra key selectable even when it differs from the column name
+  const extraTargetFor = (column: string) => {
+    const current = uploadState.mapping[column];
+    return current?.startsWith(EXTRA_FIELD_PREFIX) ? current : extraFieldFor(column);
+  };
+
+  const mappedFields = new Set(Object.values(uploadState.mapping));
+  // Rows that update a case only need the columns they change; new rows are checked one by one
+  const missingRequired = importMode === "UPSERT" ? [] : requiredFields.filter(field => !mappedFields.has(field.field));
+  const matchKeyOptions = [
+    CASE_NUMBER_MAPPING_TARGET,
+    ...Array.from(mappedFields).filter(target => target.startsWith(EXTRA_FIELD_PREFIX)),
+  ];
+  const missingMatchKey = importMode === "UPSERT" && !mappedFields.has(matchKey);
+
+  const skippedDuplicates = uploadState.validation?.duplicates.filter(d => decisions[d.row] === "skip").length || 0;
+  const undecidedDuplicates = uploadState.validation?.duplicates.filter(d => !decisions[d.row]).length || 0;
+  const rowsToImport = (uploadState.validation?.valid || 0) - skippedDuplicates - (uploadState.validation?.unchanged || 0);
+
+  const handleValidate = () => {
+    if (!importId) return;
+    validateMutation.mutate({
+      id: importId,
+      mapping: uploadState.mapping,
+      mode: importMode,
+      matchKey: importMode === "UPSERT" ? matchKey : null,
+    });
+  };
+
+  const handleImport = () => {
+    if (!importId) return;
+    commitMutation.mutate({ id: importId, decisions });
+  };
+
+  const downloadErrorFile = (id: string) => {
+    window.open(`/api/imports/${id}/errors.csv`, '_blank');
+  };
+
   const downloadTemplate = () => {
-    window.open('/api/imports/template.csv', '_blank');
+    window.open('/api/imports/template.xlsx', '_blank');
   };
 
   return (
@@ -299,6 +561,9 @@ export default function BulkUploadWizard() {
             <p className="text-muted-foreground mb-4">
               Supports CSV, XLSX, JSON, ZIP files, and PDF table extraction
             </p>
+            <p className="text-xs text-muted-foreground mb-4">
+              A ZIP can hold a CSV or XLSX manifest plus the images and PDFs it lists, one or more per row, separated by semicolons
+            </p>
             
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Button
@@ -324,8 +589,8 @@ export default function BulkUploadWizard() {
                 onClick={downloadTemplate}
                 data-testid="button-download-template"
               >
-                <i className="fas fa-download mr-2"></i>
-                Download Template
+                <i className="fas fa-file-excel mr-2"></i>
+                Download XLSX Template
               </Button>
             </div>
             
@@ -355,12 +620,77 @@ export default function BulkUploadWizard() {
             </p>
           </CardHeader>
           <CardContent>
+            <div className="flex flex-col md:flex-row gap-3 mb-4 p-4 bg-muted/30 rounded-lg">
+              <Select value={importMode} onValueChange={(value) => setImportMode(value as ImportMode)}>
+                <SelectTrigger className="md:w-64" data-testid="select-import-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="CREATE">Add new cases</SelectItem>
+                  <SelectItem value="UPSERT">Update existing cases</SelectItem>
+                </SelectContent>
+              </Select>
+              {importMode === "UPSERT" && (
+                <Select value={matchKey} onValueChange={setMatchKey}>
+                  <SelectTrigger className="md:w-64" data-testid="select-match-key">
+                    <SelectValue placeholder="Match existing cases on" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {matchKeyOptions.map((key) => (
+                      <SelectItem key={key} value={key}>
+                        Match on {key === CASE_NUMBER_MAPPING_TARGET ? "case number" : key.slice(EXTRA_FIELD_PREFIX.length)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {importMode === "UPSERT" && (
+              <p className="text-sm text-muted-foreground mb-4">
+                Rows that match an existing case update only the mapped columns that have a value. Rows matched on an
+                extra field that finds no case are added as new cases; unknown case numbers are rejected.
+              </p>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-3 mb-6 p-4 bg-muted/30 rounded-lg">
+              <Select onValueChange={applyPreset} disabled={!mappingPresets?.length}>
+                <SelectTrigger className="md:w-64" data-testid="select-mapping-preset">
+                  <SelectValue placeholder={mappingPresets?.length ? "Apply a saved preset" : "No saved presets"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {mappingPresets?.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-1 gap-2">
+                <Input
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Preset name"
+                  maxLength={100}
+                  data-testid="input-preset-name"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => savePresetMutation.mutate({ name: presetName.trim(), mapping: uploadState.mapping })}
+                  disabled={!presetName.trim() || Object.keys(uploadState.mapping).length === 0 || savePresetMutation.isPending}
+                  data-testid="button-save-preset"
+                >
+                  <i className="fas fa-save mr-2"></i>
+                  Save Preset
+                </Button>
+              </div>
+            </div>
+
             <div className="space-y-4">
               {uploadState.headers.map((column) => (
                 <div key={column} className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
                   <div>
                     <Label className="text-sm font-medium text-foreground">
-                      CSV Column: <span className="font-mono bg-muted px-2 py-1 rounded">{column}</span>
+                      Column: <span className="font-mono bg-muted px-2 py-1 rounded">{column}</span>
                     </Label>
                   </div>
                   <div>
@@ -373,11 +703,22 @@ export default function BulkUploadWizard() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="__skip">Don't map</SelectItem>
-                        {caseFields.map((field) => (
-                          <SelectItem key={field.value} value={field.value}>
-                            {field.label}
+                        {IMPORT_CASE_FIELDS.map((field) => (
+                          <SelectItem key={field.field} value={field.field}>
+                            {field.label}{"required" in field && field.required ? " *" : ""}
                           </SelectItem>
                         ))}
+                        {!isOwnerExtraField(extraTargetFor(column)) && (
+                          <SelectItem value={extraTargetFor(column)}>
+                            Extra field: {extraTargetFor(column).slice(EXTRA_FIELD_PREFIX.length)}
+                          </SelectItem>
+                        )}
+                        {importMode === "UPSERT" && (
+                          <SelectItem value={CASE_NUMBER_MAPPING_TARGET}>Case Number (to match existing cases)</SelectItem>
+                        )}
+                        {uploadState.isBundle && (
+                          <SelectItem value={ATTACHMENT_MAPPING_TARGET}>Attachment files from ZIP</SelectItem>
+                        )}
                       </SelectContent>
                     </Select>
                   </div>
@@ -385,31 +726,18 @@ export default function BulkUploadWizard() {
               ))}
             </div>
 
-            {/* Validation Preview */}
-            {uploadState.validation && (
-              <div className="mt-6 p-4 bg-muted/30 rounded-lg">
-                <h4 className="text-md font-medium text-foreground mb-3">Validation Preview</h4>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-green-600" data-testid="validation-valid-count">
-                      {uploadState.validation.valid}
-                    </div>
-                    <div className="text-muted-foreground">Valid rows</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-yellow-600" data-testid="validation-warning-count">
-                      {uploadState.validation.warnings}
-                    </div>
-                    <div className="text-muted-foreground">Warnings</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-red-600" data-testid="validation-error-count">
-                      {uploadState.validation.errors}
-                    </div>
-                    <div className="text-muted-foreground">Errors</div>
-                  </div>
-                </div>
-              </div>
+            {missingMatchKey && (
+              <p className="mt-6 text-sm text-destructive" data-testid="text-missing-match-key">
+                <i className="fas fa-exclamation-triangle mr-2"></i>
+                Map a column to {matchKey === CASE_NUMBER_MAPPING_TARGET ? "Case Number" : matchKey.slice(EXTRA_FIELD_PREFIX.length)} so rows can be matched to existing cases
+              </p>
+            )}
+
+            {missingRequired.length > 0 && (
+              <p className="mt-6 text-sm text-destructive" data-testid="text-missing-required">
+                <i className="fas fa-exclamation-triangle mr-2"></i>
+                Map a column to each required field before importing: {missingRequired.map(f => f.label).join(", ")}
+              </p>
             )}
 
             {/* Preview Data */}
@@ -455,26 +783,19 @@ export default function BulkUploadWizard() {
               
               <div className="space-x-3">
                 <Button
-                  variant="outline"
-                  onClick={() => setCurrentStep('validation')}
-                  data-testid="button-preview-data"
-                >
-                  Preview Data
-                </Button>
-                <Button
-                  onClick={handleImport}
-                  disabled={importMutation.isPending || Object.keys(uploadState.mapping).length === 0}
-                  data-testid="button-import-data"
+                  onClick={handleValidate}
+                  disabled={validateMutation.isPending || missingRequired.length > 0 || missingMatchKey}
+                  data-testid="button-validate-data"
                 >
-                  {importMutation.isPending ? (
+                  {validateMutation.isPending ? (
                     <>
                       <i className="fas fa-spinner fa-spin mr-2"></i>
-                      Importing...
+                      Validating...
                     </>
                   ) : (
                     <>
-                      <i className="fas fa-upload mr-2"></i>
-                      Import Data
+                      <i className="fas fa-check-double mr-2"></i>
+                      Validate
                     </>
                   )}
                 </Button>
@@ -484,6 +805,298 @@ export default function BulkUploadWizard() {
         </Card>
       )}
 
+      {/* Validation Step */}
+      {currentStep === 'validation' && uploadState.validation && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Validation Results</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Every row has been checked. Nothing has been saved yet; rows with errors will be skipped.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {/* Validation Summary */}
+            <div className="p-4 bg-muted/30 rounded-lg">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-green-600" data-testid="validation-valid-count">
+                    {uploadState.validation.valid}
+                  </div>
+                  <div className="text-muted-foreground">Valid rows</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-yellow-600" data-testid="validation-warning-count">
+                    {uploadState.validation.warnings}
+                  </div>
+                  <div className="text-muted-foreground">Warnings</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-red-600" data-testid="validation-error-count">
+                    {uploadState.validation.errors}
+                  </div>
+                  <div className="text-muted-foreground">Errors</div>
+                </div>
+              </div>
+              {(uploadState.validation.updates > 0 || uploadState.validation.unchanged > 0) && (
+                <p className="text-sm text-muted-foreground text-center mt-4" data-testid="validation-update-count">
+                  <i className="fas fa-pen mr-2"></i>
+                  {uploadState.validation.updates} valid rows update existing cases; {uploadState.validation.unchanged} match a case but change nothing
+                </p>
+              )}
+              {uploadState.validation.attachments > 0 && (
+                <p className="text-sm text-muted-foreground text-center mt-4" data-testid="validation-attachment-count">
+                  <i className="fas fa-paperclip mr-2"></i>
+                  {uploadState.validation.attachments} files from the ZIP will be attached to the imported cases
+                </p>
+              )}
+            </div>
+
+            {uploadState.validation.duplicates.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-md font-medium text-foreground mb-1">Possible Duplicates</h4>
+                <p className="text-sm text-muted-foreground mb-3">
+                  These rows look like cases already in your clinic, or like an earlier row of this file. Choose an action
+                  for each before importing. Merging only fills in fields the existing case is missing.
+                </p>
+                <div className="max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead>Matches</TableHead>
+                        <TableHead className="w-24">Match</TableHead>
+                        <TableHead className="w-56">Action</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {uploadState.validation.duplicates.map((duplicate) => (
+                        <TableRow key={duplicate.row} data-testid={`duplicate-row-${duplicate.row}`}>
+                          <TableCell className="text-sm">{duplicate.row}</TableCell>
+                          <TableCell className="text-sm">
+                            {duplicate.caseId ? (
+                              <a href={`/cases/${duplicate.caseId}`} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                                {duplicate.caseNumber}
+                              </a>
+                            ) : (
+                              `Row ${duplicate.matchesRow} of this file`
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">{Math.round(duplicate.score * 100)}%</TableCell>
+                          <TableCell>
+                            <Select
+                              value={decisions[duplicate.row] ?? ""}
+                              onValueChange={(value) => setDecisions(prev => ({ ...prev, [duplicate.row]: value as ImportDuplicateDecision }))}
+                            >
+                              <SelectTrigger data-testid={`duplicate-decision-${duplicate.row}`}>
+                                <SelectValue placeholder="Choose action" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {duplicateDecisions.filter(d => duplicate.caseId || d.value !== "merge").map((decision) => (
+                                  <SelectItem key={decision.value} value={decision.value}>
+                                    {decision.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {uploadState.validation.issues.length > 0 && (
+              <div className="mt-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-md font-medium text-foreground">Row Issues</h4>
+                  {uploadState.validation.errorFileUrl && importId && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadErrorFile(importId)}
+                      data-testid="button-download-validation-errors"
+                    >
+                      <i className="fas fa-download mr-2"></i>
+                      Download Failed Rows
+                    </Button>
+                  )}
+                </div>
+                <div className="max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead className="w-24">Level</TableHead>
+                        <TableHead>Message</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {uploadState.validation.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                        <TableRow key={index} data-testid={`validation-issue-${index}`}>
+                          <TableCell className="text-sm">{issue.row || "—"}</TableCell>
+                          <TableCell>
+                            <Badge className={issue.level === 'error' ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"}>
+                              {issue.level === 'error' ? "Error" : "Warning"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">{issue.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {uploadState.validation.issues.length > MAX_LISTED_ISSUES && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Showing the first {MAX_LISTED_ISSUES} of {uploadState.validation.issues.length} issues.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {uploadState.validation.rows.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-md font-medium text-foreground mb-3">Import Preview</h4>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Patient</TableHead>
+                        <TableHead>Species</TableHead>
+                        <TableHead>Breed</TableHead>
+                        <TableHead>State</TableHead>
+                        <TableHead>Diagnosis Date</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {uploadState.validation.rows.map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell className="text-sm">{row.row}</TableCell>
+                          <TableCell className="text-sm">{row.data?.patientName || "—"}</TableCell>
+                          <TableCell className="text-sm">{row.data?.species || "—"}</TableCell>
+                          <TableCell className="text-sm">{row.data?.breed || "—"}</TableCell>
+                          <TableCell className="text-sm">{row.data?.state || "—"}</TableCell>
+                          <TableCell className="text-sm">
+                            {row.data?.diagnosisDate ? new Date(row.data.diagnosisDate).toLocaleDateString() : "—"}
+                          </TableCell>
+                          <TableCell>
+                            {row.update ? (
+                              <Badge
+                                className="bg-blue-100 text-blue-800"
+                                title={Object.keys(row.update.diff.after).join(", ") || undefined}
+                              >
+                                {Object.keys(row.update.diff.after).length > 0
+                                  ? `Updates ${row.update.caseNumber}: ${Object.keys(row.update.diff.after).join(", ")}`
+                                  : `No changes to ${row.update.caseNumber}`}
+                              </Badge>
+                            ) : row.data ? (
+                              <Badge className={row.warnings.length > 0 ? "bg-yellow-100 text-yellow-800" : "bg-green-100 text-green-800"}>
+                                {row.warnings.length > 0 ? "Valid with warnings" : "Valid"}
+                              </Badge>
+                            ) : (
+                              <Badge className="bg-red-100 text-red-800">Will be skipped</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Showing the first {uploadState.validation.rows.length} rows as they will be saved.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setCurrentStep('mapping')}
+                data-testid="button-back-to-mapping"
+              >
+                Back to Mapping
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={commitMutation.isPending || rowsToImport === 0 || undecidedDuplicates > 0}
+                data-testid="button-import-data"
+              >
+                {commitMutation.isPending ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin mr-2"></i>
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <i className="fas fa-upload mr-2"></i>
+                    Import {rowsToImport} Rows
+                  </>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Live Import Progress */}
+      {importProgress && (
+        <Card data-testid="card-import-progress">
+          <CardHeader>
+            <CardTitle>Importing {uploadState.file?.name || "cases"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Progress
+                value={importProgress.total_rows > 0 ? Math.min(100, (importProgress.processed_rows / importProgress.total_rows) * 100) : 0}
+                data-testid="progress-import"
+              />
+              <div className="flex items-center justify-between mt-2 text-sm text-muted-foreground">
+                <span data-testid="text-import-processed">
+                  {importProgress.processed_rows} of {importProgress.total_rows || "?"} rows processed
+                </span>
+                <span>
+                  <span className="text-green-600" data-testid="text-import-success">{importProgress.success} saved</span>
+                  {" · "}
+                  <span className="text-red-600" data-testid="text-import-failed">{importProgress.failed} failed</span>
+                </span>
+              </div>
+            </div>
+
+            {importProgress.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border rounded-lg divide-y" data-testid="list-import-progress-errors">
+                {importProgress.errors.map((error, index) => (
+                  <div key={`${error.row}-${index}`} className="flex items-start gap-2 p-2 text-sm">
+                    <i className="fas fa-times-circle text-red-600 mt-0.5"></i>
+                    <span>
+                      {error.row > 0 && <span className="font-medium">Row {error.row}: </span>}
+                      {error.error}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {importId && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => cancelMutation.mutate(importId)}
+                  disabled={cancelMutation.isPending}
+                  data-testid="button-cancel-running-import"
+                >
+                  <i className="fas fa-ban mr-2"></i>
+                  Cancel Import
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Import History */}
       <Card>
         <CardHeader>
@@ -533,16 +1146,16 @@ export default function BulkUploadWizard() {
                     </TableCell>
                     <TableCell>
                       <span data-testid={`job-records-${job.id}`}>
-                        {job.successRows || 0} / {job.totalRows || 0}
+                        {job.success} / {job.total_rows}
                       </span>
-                      {job.errorRows && job.errorRows > 0 && (
+                      {job.failed > 0 && (
                         <span className="text-destructive ml-2">
-                          ({job.errorRows} errors)
+                          ({job.failed} errors)
                         </span>
                       )}
                     </TableCell>
                     <TableCell>
-                      {new Date(job.createdAt).toLocaleDateString()}
+                      {new Date(job.created_at).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
@@ -555,10 +1168,34 @@ export default function BulkUploadWizard() {
                             <i className="fas fa-list mr-1"></i>View Log
                           </Button>
                         )}
-                        {job.errorFileUrl && (
+                        {job.can_roll_back && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => setJobToRollback({ id: job.id, filename: job.filename })}
+                            data-testid={`button-rollback-${job.id}`}
+                          >
+                            <i className="fas fa-undo mr-1"></i>Roll Back
+                          </Button>
+                        )}
+                        {job.status === "PROCESSING" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => cancelMutation.mutate(job.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-import-${job.id}`}
+                          >
+                            <i className="fas fa-times mr-1"></i>Cancel
+                          </Button>
+                        )}
+                        {job.error_file_url && (
                           <Button
                             variant="ghost"
                             size="sm"
+                            onClick={() => downloadErrorFile(job.id)}
                             data-testid={`button-download-errors-${job.id}`}
                           >
                             <i className="fas fa-download mr-1"></i>Download Errors
@@ -581,6 +1218,29 @@ export default function BulkUploadWizard() {
           )}
         </CardContent>
       </Card>
+
+      {/* Rollback Confirmation Dialog */}
+      <AlertDialog open={!!jobToRollback} onOpenChange={(open) => !open && setJobToRollback(null)}>
+        <AlertDialogContent data-testid="rollback-import-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Import</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to remove every case imported from <strong>{jobToRollback?.filename}</strong>? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="cancel-rollback-import">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => jobToRollback && rollbackMutation.mutate(jobToRollback.id)}
+              disabled={rollbackMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="confirm-rollback-import"
+            >
+              {rollbackMutation.isPending ? "Rolling back..." : "Roll Back"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
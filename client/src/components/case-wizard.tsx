@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,16 +15,34 @@ import { Combobox } from "@/components/ui/combobox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
-import type { TumourType, AnatomicalSite, Clinic } from "@shared/schema";
+import type { TumourType, AnatomicalSite, Clinic, CaseWithDetails, TreatmentInput, TreatmentWithCreator, PatientWithCaseCount } from "@shared/schema";
 import { NIGERIA_STATES, getZoneForState, formatStateName, formatZoneName, SPECIES_BREEDS } from "@/lib/constants";
 import { useAttachmentQueue } from "@/hooks/use-attachment-queue";
+import TreatmentForm, { describeTreatment } from "@/components/cases/treatment-form";
+import { findStagingScheme, formatStaging, STAGING_FIELDS } from "@shared/staging";
+import { caseSignalmentFromPatient } from "@shared/patients";
 import { Paperclip, X, Upload, FileText, Image as ImageIcon } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 
 const caseSchema = z.object({
   state: z.string().min(1, "State is required"),
   clinicId: z.string().min(1, "Clinic is required"),
+  // A registered patient; when empty the patient is registered with the case
+  patientId: z.string().optional(),
   patientName: z.string().optional(),
+  patientDateOfBirth: z.string().optional(),
+  microchipNumber: z.string().optional(),
   species: z.string().min(1, "Species is required"),
   breed: z.string().min(1, "Breed is required"),
   sex: z.enum(["MALE_NEUTERED", "MALE_INTACT", "FEMALE_SPAYED", "FEMALE_INTACT"]).optional(),
@@ -37,6 +55,12 @@ const caseSchema = z.object({
   anatomicalSiteCustom: z.string().transform(val => val === "" ? undefined : val).optional(),
   laterality: z.string().optional(),
   stage: z.string().optional(),
+  stagingScheme: z.string().optional(),
+  tnmT: z.string().optional(),
+  tnmN: z.string().optional(),
+  tnmM: z.string().optional(),
+  clinicalStage: z.string().optional(),
+  stageSubstage: z.string().optional(),
   diagnosisMethod: z.string().optional(),
   treatmentPlan: z.string().optional(),
   treatmentStart: z.string().transform(val => val === "" ? undefined : val).optional(),
@@ -45,14 +69,152 @@ const caseSchema = z.object({
 
 type CaseFormData = z.infer<typeof caseSchema>;
 
+// Returned by /api/cases/duplicate-check
+interface DuplicateMatch {
+  caseId: string;
+  caseNumber: string;
+  patientName: string | null;
+  species: string;
+  breed: string;
+  diagnosisDate: string;
+  score: number;
+  reasons: string[];
+}
+
 const steps = [
   { id: 1, title: "Patient & Signalment", description: "Basic patient information" },
   { id: 2, title: "Tumour Details", description: "Tumour type and location" },
   { id: 3, title: "Diagnosis & Treatment", description: "Diagnostic and treatment details" },
-  { id: 4, title: "Review", description: "Review and submit" },
+  { id: 4, title: "Treatments", description: "Surgery, chemotherapy, radiation" },
+  { id: 5, title: "Review", description: "Review and submit" },
+];
+
+// Select value for a case without a registered patient; Radix selects cannot hold an empty string
+const NEW_PATIENT = "NEW_PATIENT";
+
+// Fields listed on the review step when editing, in the order the wizard asks for them
+const reviewFields = [
+  { key: "state", label: "State" },
+  { key: "patientId", label: "Patient" },
+  { key: "patientName", label: "Patient Name" },
+  { key: "species", label: "Species" },
+  { key: "breed", label: "Breed" },
+  { key: "sex", label: "Sex" },
+  { key: "ageYears", label: "Age (Years)" },
+  { key: "ageMonths", label: "Age (Months)" },
+  { key: "diagnosisDate", label: "Diagnosis Date" },
+  { key: "tumourType", label: "Tumour Type" },
+  { key: "anatomicalSite", label: "Anatomical Site" },
+  { key: "laterality", label: "Laterality" },
+  { key: "stage", label: "Stage" },
+  { key: "diagnosisMethod", label: "Diagnosis Method" },
+  { key: "treatmentPlan", label: "Treatment Plan" },
+  { key: "treatmentStart", label: "Treatment Start Date" },
+  { key: "notes", label: "Notes" },
 ];
 
-export default function CaseWizard() {
+// Treatments added on the wizard, saved once the case is
+interface QueuedTreatment {
+  id: string;
+  data: TreatmentInput;
+}
+
+// e.g. "2 file(s) failed to upload and 1 treatment(s) failed to save"
+const describeQueueFailures = (failedFiles: number, failedTreatments: number) => [
+  failedFiles > 0 ? `${failedFiles} file(s) failed to upload` : "",
+  failedTreatments > 0 ? `${failedTreatments} treatment(s) failed to save` : "",
+].filter(Boolean).join(" and ");
+
+const toDateInput = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toISOString().split('T')[0] : "";
+
+// Loads a saved case into the form; custom tumour types and sites use the "OTHER" option
+function caseToFormValues(existing: CaseWithDetails): CaseFormData {
+  return {
+    state: existing.state || "",
+    clinicId: existing.clinicId,
+    patientId: existing.patientId || "",
+    patientName: existing.patientName || "",
+    patientDateOfBirth: "",
+    microchipNumber: "",
+    species: existing.species,
+    breed: existing.breed,
+    sex: existing.sex || undefined,
+    ageYears: existing.ageYears ?? undefined,
+    ageMonths: existing.ageMonths ?? undefined,
+    diagnosisDate: toDateInput(existing.diagnosisDate),
+    tumourTypeId: existing.tumourTypeId || (existing.tumourTypeCustom ? "OTHER" : ""),
+    tumourTypeCustom: existing.tumourTypeCustom || "",
+    anatomicalSiteId: existing.anatomicalSiteId || (existing.anatomicalSiteCustom ? "OTHER" : ""),
+    anatomicalSiteCustom: existing.anatomicalSiteCustom || "",
+    laterality: existing.laterality || "",
+    // Structured staging is shown by its pickers; the stored stage is only its formatted form
+    stage: existing.stagingScheme ? "" : existing.stage || "",
+    stagingScheme: existing.stagingScheme || "",
+    tnmT: existing.tnmT || "",
+    tnmN: existing.tnmN || "",
+    tnmM: existing.tnmM || "",
+    clinicalStage: existing.clinicalStage || "",
+    stageSubstage: existing.stageSubstage || "",
+    diagnosisMethod: existing.diagnosisMethod || "",
+    treatmentPlan: existing.treatmentPlan || "",
+    treatmentStart: toDateInput(existing.treatmentStart),
+    notes: existing.notes || "",
+  };
+}
+
+// Transform data to properly handle custom vs selected values
+const toCasePayload = (data: CaseFormData) => ({
+  ...data,
+  patientId: data.patientId || undefined,
+  // Only used when the case registers a new patient
+  patientDateOfBirth: data.patientId ? undefined : data.patientDateOfBirth || undefined,
+  microchipNumber: data.patientId ? undefined : data.microchipNumber || undefined,
+  // If tumourTypeId is "OTHER", clear it and use tumourTypeCustom instead
+  tumourTypeId: data.tumourTypeId === "OTHER" ? undefined : data.tumourTypeId,
+  tumourTypeCustom: data.tumourTypeId === "OTHER" ? data.tumourTypeCustom : undefined,
+  // If anatomicalSiteId is "OTHER", clear it and use anatomicalSiteCustom instead  
+  anatomicalSiteId: data.anatomicalSiteId === "OTHER" ? undefined : data.anatomicalSiteId,
+  anatomicalSiteCustom: data.anatomicalSiteId === "OTHER" ? data.anatomicalSiteCustom : undefined,
+});
+
+// Form fields behind a review entry; tumour type and site are an id or a custom value
+const formFieldsFor = (key: string): (keyof CaseFormData)[] => {
+  if (key === "tumourType") return ["tumourTypeId", "tumourTypeCustom"];
+  if (key === "anatomicalSite") return ["anatomicalSiteId", "anatomicalSiteCustom"];
+  if (key === "stage") return ["stage", ...STAGING_FIELDS];
+  return [key as keyof CaseFormData];
+};
+
+const copyReviewField = (target: CaseFormData, source: CaseFormData, key: string) => {
+  for (const field of formFieldsFor(key)) {
+    (target as Record<string, unknown>)[field] = source[field];
+  }
+};
+
+// The case was saved by someone else after this form loaded it
+class CaseConflictError extends Error {
+  constructor(message: string, public current: CaseWithDetails, public attempted: CaseFormData) {
+    super(message);
+    this.name = "CaseConflictError";
+  }
+}
+
+interface CaseConflict {
+  current: CaseWithDetails;
+  // The attempted edit with the other user's changes to untouched fields applied
+  merged: CaseFormData;
+  // Fields both users changed to different values
+  fields: Array<{ key: string; label: string; mine: string; theirs: string }>;
+  autoMerged: string[];
+}
+
+interface CaseWizardProps {
+  // When set, the wizard edits this case instead of creating a new one
+  existingCase?: CaseWithDetails;
+}
+
+export default function CaseWizard({ existingCase }: CaseWizardProps = {}) {
   const [currentStep, setCurrentStep] = useState(1);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -63,13 +225,27 @@ export default function CaseWizard() {
   const attachmentQueue = useAttachmentQueue();
   const [uploadProgress, setUploadProgress] = useState<Record<string, { progress: number; error?: string }>>({});
   const [isUploadingFiles, setIsUploadingFiles] = useState(false);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const [pendingSubmit, setPendingSubmit] = useState<CaseFormData | null>(null);
+  const [queuedTreatments, setQueuedTreatments] = useState<QueuedTreatment[]>([]);
+  const [isAddingTreatment, setIsAddingTreatment] = useState(false);
+
+  const isEditing = !!existingCase;
+  // The saved version edits are compared against; replaced after a conflict is merged
+  const [baseCase, setBaseCase] = useState(existingCase);
+  const [conflict, setConflict] = useState<CaseConflict | null>(null);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, "mine" | "theirs">>({});
 
   const form = useForm<CaseFormData>({
     resolver: zodResolver(caseSchema),
-    defaultValues: {
+    defaultValues: existingCase ? caseToFormValues(existingCase) : {
       state: "",
       clinicId: userClinic?.id || "",
+      patientId: "",
       patientName: "",
+      patientDateOfBirth: "",
+      microchipNumber: "",
       species: "",
       breed: "",
       diagnosisDate: new Date().toISOString().split('T')[0],
@@ -79,6 +255,12 @@ export default function CaseWizard() {
       anatomicalSiteCustom: "",
       laterality: "",
       stage: "",
+      stagingScheme: "",
+      tnmT: "",
+      tnmN: "",
+      tnmM: "",
+      clinicalStage: "",
+      stageSubstage: "",
       diagnosisMethod: "",
       treatmentPlan: "",
       treatmentStart: "",
@@ -87,19 +269,23 @@ export default function CaseWizard() {
   });
 
   const watchedSpecies = form.watch("species");
+  const watchedPatientId = form.watch("patientId");
+  const watchedDiagnosisDate = form.watch("diagnosisDate");
   const watchedState = form.watch("state");
   const geoZone = watchedState ? getZoneForState(watchedState) : null;
 
-  // Auto-save draft
+  // Auto-save draft; drafts are only kept for new cases
   useEffect(() => {
+    if (isEditing) return;
     const subscription = form.watch((values) => {
       localStorage.setItem("caseWizardDraft", JSON.stringify(values));
     });
     return () => subscription.unsubscribe();
-  }, [form]);
+  }, [form, isEditing]);
 
   // Load draft on mount
   useEffect(() => {
+    if (isEditing) return;
     const draft = localStorage.getItem("caseWizardDraft");
     if (draft) {
       try {
@@ -109,17 +295,43 @@ export default function CaseWizard() {
         console.error("Failed to load draft:", error);
       }
     }
-  }, [form]);
+  }, [form, isEditing]);
 
-  // Reset breed when species changes
+  // Reset breed when the user picks a different species, but not when a draft or
+  // saved case fills the species in
+  const previousSpecies = useRef(watchedSpecies);
   useEffect(() => {
-    form.setValue("breed", "");
+    if (previousSpecies.current && previousSpecies.current !== watchedSpecies) {
+      form.setValue("breed", "");
+    }
+    previousSpecies.current = watchedSpecies;
   }, [watchedSpecies, form]);
 
   const { data: clinics } = useQuery<Clinic[]>({
     queryKey: ["/api/clinics"],
   });
 
+  const { data: patients } = useQuery<PatientWithCaseCount[]>({
+    queryKey: ["/api/patients"],
+  });
+  const selectedPatient = watchedPatientId ? patients?.find(p => p.id === watchedPatientId) : undefined;
+
+  // A case of a registered patient takes its signalment, the same way the server saves it;
+  // the age at diagnosis follows the diagnosis date when the date of birth is known
+  useEffect(() => {
+    if (!selectedPatient) return;
+    const signalment = caseSignalmentFromPatient(selectedPatient, watchedDiagnosisDate || new Date());
+    previousSpecies.current = signalment.species;
+    form.setValue("patientName", signalment.patientName ?? "");
+    form.setValue("species", signalment.species);
+    form.setValue("breed", signalment.breed);
+    form.setValue("sex", signalment.sex ?? undefined);
+    if (signalment.ageYears != null) {
+      form.setValue("ageYears", signalment.ageYears);
+      form.setValue("ageMonths", signalment.ageMonths ?? undefined);
+    }
+  }, [selectedPatient, watchedDiagnosisDate, form]);
+
   const { data: tumourTypes } = useQuery<TumourType[]>({
     queryKey: ["/api/vocabulary/tumour-types", { species: watchedSpecies }],
     enabled: !!watchedSpecies,
@@ -130,6 +342,41 @@ export default function CaseWizard() {
     enabled: !!watchedSpecies,
   });
 
+  // WHO staging scheme of the chosen tumour type, if it has one
+  const watchedTumourTypeId = form.watch("tumourTypeId");
+  const watchedTumourTypeCustom = form.watch("tumourTypeCustom");
+  const tumourTypeName = watchedTumourTypeId === "OTHER"
+    ? watchedTumourTypeCustom
+    : tumourTypes?.find(type => type.id === watchedTumourTypeId)?.name
+      ?? (baseCase?.tumourType?.id === watchedTumourTypeId ? baseCase?.tumourType?.name : undefined);
+  const stagingScheme = findStagingScheme(tumourTypeName, watchedSpecies);
+  const isTumourTypeResolved = !watchedTumourTypeId || watchedTumourTypeId === "OTHER" || !!tumourTypeName;
+
+  // Staging recorded for one scheme does not carry over to another; waits for the
+  // vocabulary so a saved case's staging is not cleared while it loads
+  useEffect(() => {
+    if (!isTumourTypeResolved) return;
+    const schemeId = stagingScheme?.id ?? "";
+    if ((form.getValues("stagingScheme") || "") === schemeId) return;
+    for (const field of STAGING_FIELDS) {
+      form.setValue(field, "");
+    }
+    form.setValue("stagingScheme", schemeId);
+  }, [stagingScheme, isTumourTypeResolved, form]);
+
+  const setTnm = (field: "tnmT" | "tnmN" | "tnmM", value: string) => {
+    form.setValue(field, value);
+    const { tnmT, tnmN, tnmM } = form.getValues();
+    form.setValue("clinicalStage", tnmT && tnmN && tnmM && stagingScheme?.stageFromTnm
+      ? stagingScheme.stageFromTnm(tnmT, tnmN, tnmM)
+      : "");
+  };
+
+  const { data: savedTreatments = [] } = useQuery<TreatmentWithCreator[]>({
+    queryKey: [`/api/cases/${existingCase?.id}/treatments`],
+    enabled: isEditing,
+  });
+
   // Prefill clinic when user clinic is available
   useEffect(() => {
     if (userClinic?.id && !form.getValues("clinicId")) {
@@ -137,80 +384,89 @@ export default function CaseWizard() {
     }
   }, [userClinic, form]);
 
+  // Uploads the files queued on the attachments panel to a saved case
+  const uploadQueuedFiles = async (caseId: string) => {
+    setIsUploadingFiles(true);
+    const failedFiles: string[] = [];
+    const totalFiles = attachmentQueue.fileCount; // Capture count before clearing
+    
+    for (const queuedFile of attachmentQueue.queuedFiles) {
+      try {
+        setUploadProgress(prev => ({ ...prev, [queuedFile.id]: { progress: 0 } }));
+        
+        const formData = new FormData();
+        formData.append('file', queuedFile.file);
+        
+        const response = await fetch(`/api/cases/${caseId}/files`, {
+          method: 'POST',
+          body: formData,
+        });
+        
+        if (!response.ok) {
+          throw new Error(`Upload failed: ${response.statusText}`);
+        }
+        
+        setUploadProgress(prev => ({ ...prev, [queuedFile.id]: { progress: 100 } }));
+      } catch (error) {
+        console.error(`Failed to upload ${queuedFile.file.name}:`, error);
+        failedFiles.push(queuedFile.file.name);
+        setUploadProgress(prev => ({
+          ...prev,
+          [queuedFile.id]: { progress: 0, error: 'Upload failed' }
+        }));
+      }
+    }
+    
+    setIsUploadingFiles(false);
+    attachmentQueue.clearQueue();
+    return { failedFiles, totalFiles };
+  };
+
+  // Saves the treatments queued on the treatments step to a saved case
+  const saveQueuedTreatments = async (caseId: string) => {
+    let failedTreatments = 0;
+
+    for (const queued of queuedTreatments) {
+      try {
+        await apiRequest("POST", `/api/cases/${caseId}/treatments`, queued.data);
+      } catch (error) {
+        console.error("Failed to save treatment:", error);
+        failedTreatments++;
+      }
+    }
+
+    setQueuedTreatments([]);
+    return { failedTreatments };
+  };
+
   const createCaseMutation = useMutation({
     mutationFn: async (data: CaseFormData) => {
-      // Transform data to properly handle custom vs selected values
-      const transformedData = {
-        ...data,
-        // If tumourTypeId is "OTHER", clear it and use tumourTypeCustom instead
-        tumourTypeId: data.tumourTypeId === "OTHER" ? undefined : data.tumourTypeId,
-        tumourTypeCustom: data.tumourTypeId === "OTHER" ? data.tumourTypeCustom : undefined,
-        // If anatomicalSiteId is "OTHER", clear it and use anatomicalSiteCustom instead  
-        anatomicalSiteId: data.anatomicalSiteId === "OTHER" ? undefined : data.anatomicalSiteId,
-        anatomicalSiteCustom: data.anatomicalSiteId === "OTHER" ? data.anatomicalSiteCustom : undefined,
-      };
-
-      const response = await apiRequest("POST", "/api/cases", transformedData);
+      const response = await apiRequest("POST", "/api/cases", toCasePayload(data));
       return response.json();
     },
     onSuccess: async (newCase) => {
       queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
       localStorage.removeItem("caseWizardDraft");
       
-      // Upload queued files if any
-      if (attachmentQueue.hasFiles) {
-        setIsUploadingFiles(true);
-        const failedFiles: string[] = [];
-        const totalFiles = attachmentQueue.fileCount; // Capture count before clearing
-        
-        for (const queuedFile of attachmentQueue.queuedFiles) {
-          try {
-            setUploadProgress(prev => ({ ...prev, [queuedFile.id]: { progress: 0 } }));
-            
-            const formData = new FormData();
-            formData.append('file', queuedFile.file);
-            
-            const response = await fetch(`/api/cases/${newCase.id}/files`, {
-              method: 'POST',
-              body: formData,
-            });
-            
-            if (!response.ok) {
-              throw new Error(`Upload failed: ${response.statusText}`);
-            }
-            
-            setUploadProgress(prev => ({ ...prev, [queuedFile.id]: { progress: 100 } }));
-          } catch (error) {
-            console.error(`Failed to upload ${queuedFile.file.name}:`, error);
-            failedFiles.push(queuedFile.file.name);
-            setUploadProgress(prev => ({
-              ...prev,
-              [queuedFile.id]: { progress: 0, error: 'Upload failed' }
-            }));
-          }
-        }
-        
-        setIsUploadingFiles(false);
-        attachmentQueue.clearQueue();
-        
-        if (failedFiles.length > 0) {
-          toast({
-            title: "Case created with warnings",
-            description: `Case saved successfully, but ${failedFiles.length} file(s) failed to upload. You can try uploading them again from the case details.`,
-            variant: "default",
-          });
-        } else {
-          toast({
-            title: "Case created successfully",
-            description: totalFiles > 0 
-              ? `Case and ${totalFiles} attachment(s) uploaded successfully.`
-              : "The new case has been added to your records.",
-          });
-        }
+      // Upload queued files and save queued treatments if any
+      const { failedFiles, totalFiles } = attachmentQueue.hasFiles
+        ? await uploadQueuedFiles(newCase.id)
+        : { failedFiles: [] as string[], totalFiles: 0 };
+      const { failedTreatments } = await saveQueuedTreatments(newCase.id);
+      const failures = describeQueueFailures(failedFiles.length, failedTreatments);
+
+      if (failures) {
+        toast({
+          title: "Case created with warnings",
+          description: `Case saved successfully, but ${failures}. You can add them again from the case details.`,
+          variant: "default",
+        });
       } else {
         toast({
           title: "Case created successfully",
-          description: "The new case has been added to your records.",
+          description: totalFiles > 0 
+            ? `Case and ${totalFiles} attachment(s) uploaded successfully.`
+            : "The new case has been added to your records.",
         });
       }
       
@@ -225,11 +481,167 @@ export default function CaseWizard() {
     },
   });
 
+  // Sent with the updatedAt it was based on; a 409 carries the case as it is now
+  const updateCaseMutation = useMutation({
+    mutationFn: async ({ data, base }: { data: CaseFormData; base: CaseWithDetails }) => {
+      const response = await fetch(`/api/cases/${base.id}`, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...toCasePayload(data), expectedUpdatedAt: base.updatedAt }),
+      });
+      const body = await response.json().catch(() => null);
+      if (response.status === 409 && body?.current) {
+        throw new CaseConflictError(body.message, body.current, data);
+      }
+      if (!response.ok) {
+        throw new Error(body?.message || `Server error ${response.status}`);
+      }
+      return body;
+    },
+    onSuccess: async () => {
+      const caseId = existingCase!.id;
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}`] });
+
+      const { failedFiles } = attachmentQueue.hasFiles
+        ? await uploadQueuedFiles(caseId)
+        : { failedFiles: [] as string[] };
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/files`] });
+      const { failedTreatments } = await saveQueuedTreatments(caseId);
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/treatments`] });
+      const failures = describeQueueFailures(failedFiles.length, failedTreatments);
+
+      toast({
+        title: failures ? "Case updated with warnings" : "Case updated",
+        description: failures
+          ? `Changes saved, but ${failures}. You can add them again from the case details.`
+          : "Your changes have been saved.",
+      });
+      setLocation(`/cases/${caseId}`);
+    },
+    onError: (error, { base }) => {
+      if (error instanceof CaseConflictError) {
+        openConflict(error.current, error.attempted, base);
+        return;
+      }
+      toast({
+        title: "Failed to update case",
+        description: error instanceof Error ? error.message : "Please check your information and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveCase = (data: CaseFormData) => {
+    if (baseCase) {
+      updateCaseMutation.mutate({ data, base: baseCase });
+    } else {
+      createCaseMutation.mutate(data);
+    }
+  };
+  const isSaving = createCaseMutation.isPending || updateCaseMutation.isPending;
+  // New cases without a registered patient also record its date of birth and microchip
+  const registersPatient = !isEditing && !watchedPatientId;
+  const ageFromBirthDate = !!selectedPatient?.dateOfBirth;
+
+  const describePatient = (patientId: string | undefined) => {
+    if (!patientId) return "";
+    const patient = patients?.find(p => p.id === patientId);
+    if (!patient) return patientId;
+    return `${patient.name || "Unnamed"} (${patient.microchipNumber || `${patient.species}, ${patient.breed}`})`;
+  };
+
+  // Readable values of the form, so an edit can be reviewed field by field
+  const describeCase = (values: CaseFormData, saved = baseCase): Record<string, string> => {
+    const vocabularyName = (
+      terms: Array<{ id: string; name: string }> | undefined,
+      id: string | undefined,
+      custom: string | undefined,
+      saved: { id: string; name: string } | null | undefined,
+    ) => {
+      if (id === "OTHER") return custom || "";
+      if (!id) return "";
+      return terms?.find(term => term.id === id)?.name ?? (saved?.id === id ? saved.name : id);
+    };
+
+    return {
+      state: values.state ? formatStateName(values.state) : "",
+      patientId: describePatient(values.patientId),
+      patientName: values.patientName || "",
+      species: values.species || "",
+      breed: values.breed || "",
+      sex: values.sex ? values.sex.replace(/_/g, " ") : "",
+      ageYears: values.ageYears?.toString() ?? "",
+      ageMonths: values.ageMonths?.toString() ?? "",
+      diagnosisDate: values.diagnosisDate || "",
+      tumourType: vocabularyName(tumourTypes, values.tumourTypeId, values.tumourTypeCustom, saved?.tumourType),
+      anatomicalSite: vocabularyName(anatomicalSites, values.anatomicalSiteId, values.anatomicalSiteCustom, saved?.anatomicalSite),
+      laterality: values.laterality || "",
+      stage: formatStaging(values) || values.stage || "",
+      diagnosisMethod: values.diagnosisMethod || "",
+      treatmentPlan: values.treatmentPlan || "",
+      treatmentStart: values.treatmentStart || "",
+      notes: values.notes || "",
+    };
+  };
+
+  const getCaseChanges = () => {
+    if (!baseCase) return [];
+    const before = describeCase(caseToFormValues(baseCase));
+    const after = describeCase(form.getValues());
+    return reviewFields
+      .filter(({ key }) => before[key].trim() !== after[key].trim())
+      .map(({ key, label }) => ({ key, label, before: before[key], after: after[key] }));
+  };
+
+  // Three-way merge against the version the edit started from: fields only the other
+  // user changed are taken from their save, fields both changed are left to the user
+  const openConflict = (current: CaseWithDetails, attempted: CaseFormData, base: CaseWithDetails) => {
+    const original = describeCase(caseToFormValues(base), base);
+    const theirValues = caseToFormValues(current);
+    const theirs = describeCase(theirValues, current);
+    const mine = describeCase(attempted, base);
+    const merged = { ...attempted };
+    const fields: CaseConflict["fields"] = [];
+    const autoMerged: string[] = [];
+
+    for (const { key, label } of reviewFields) {
+      const theyChanged = theirs[key].trim() !== original[key].trim();
+      const iChanged = mine[key].trim() !== original[key].trim();
+      if (!theyChanged) continue;
+      if (!iChanged) {
+        copyReviewField(merged, theirValues, key);
+        autoMerged.push(label);
+      } else if (mine[key].trim() !== theirs[key].trim()) {
+        fields.push({ key, label, mine: mine[key], theirs: theirs[key] });
+      }
+    }
+
+    setConflictChoices({});
+    setConflict({ current, merged, fields, autoMerged });
+  };
+
+  const saveMergedCase = () => {
+    if (!conflict) return;
+    const theirValues = caseToFormValues(conflict.current);
+    const resolved = { ...conflict.merged };
+    for (const { key } of conflict.fields) {
+      if (conflictChoices[key] === "theirs") copyReviewField(resolved, theirValues, key);
+    }
+
+    previousSpecies.current = resolved.species;
+    form.reset(resolved);
+    setBaseCase(conflict.current);
+    setConflict(null);
+    updateCaseMutation.mutate({ data: resolved, base: conflict.current });
+  };
+
   const nextStep = () => {
     const fieldsToValidate = getFieldsForStep(currentStep);
     form.trigger(fieldsToValidate).then((isValid) => {
       if (isValid) {
-        setCurrentStep(prev => Math.min(4, prev + 1));
+        setCurrentStep(prev => Math.min(steps.length, prev + 1));
       }
     });
   };
@@ -251,8 +663,39 @@ export default function CaseWizard() {
     }
   };
 
-  const onSubmit = (data: CaseFormData) => {
-    createCaseMutation.mutate(data);
+  // Warn before saving a probable duplicate; a failed check never blocks saving
+  const onSubmit = async (data: CaseFormData) => {
+    setIsCheckingDuplicates(true);
+    try {
+      const response = await apiRequest("POST", "/api/cases/duplicate-check", {
+        patientName: data.patientName,
+        species: data.species,
+        breed: data.breed,
+        diagnosisDate: data.diagnosisDate,
+        tumourTypeId: data.tumourTypeId === "OTHER" ? undefined : data.tumourTypeId,
+        tumourTypeCustom: data.tumourTypeId === "OTHER" ? data.tumourTypeCustom : undefined,
+        excludeCaseId: existingCase?.id,
+      });
+      const matches: DuplicateMatch[] = await response.json();
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        setPendingSubmit(data);
+        return;
+      }
+    } catch (error) {
+      console.error("Duplicate check failed:", error);
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+
+    saveCase(data);
+  };
+
+  const confirmSaveDuplicate = () => {
+    if (pendingSubmit) {
+      saveCase(pendingSubmit);
+    }
+    setPendingSubmit(null);
   };
 
   const clearDraft = () => {
@@ -268,7 +711,9 @@ export default function CaseWizard() {
     <div className="max-w-4xl mx-auto">
       {/* Wizard Header */}
       <div className="mb-8">
-        <h2 className="text-2xl font-bold text-foreground mb-4">New Case Entry</h2>
+        <h2 className="text-2xl font-bold text-foreground mb-4">
+          {existingCase ? `Edit Case ${existingCase.caseNumber}` : "New Case Entry"}
+        </h2>
         
         {/* Progress Steps */}
         <div className="flex items-center justify-between">
@@ -352,7 +797,7 @@ export default function CaseWizard() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Clinic *</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
                             <FormControl>
                               <SelectTrigger data-testid="select-clinic">
                                 <SelectValue placeholder="Select Clinic" />
@@ -367,7 +812,9 @@ export default function CaseWizard() {
                             </SelectContent>
                           </Select>
                           <FormDescription className="text-xs">
-                            Prefilled from your profile, can be changed
+                            {isEditing
+                              ? "Cases stay with the clinic that recorded them"
+                              : "Prefilled from your profile, can be changed"}
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -376,6 +823,55 @@ export default function CaseWizard() {
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="patientId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Patient</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === NEW_PATIENT ? "" : value)}
+                            value={field.value || NEW_PATIENT}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-patient">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {/* A linked case can move to another patient but not be unlinked */}
+                              {!existingCase?.patientId && (
+                                <SelectItem value={NEW_PATIENT}>
+                                  {isEditing ? "Not linked to a patient" : "New patient"}
+                                </SelectItem>
+                              )}
+                              {patients?.map((patient) => (
+                                <SelectItem key={patient.id} value={patient.id}>
+                                  {patient.name || "Unnamed"} ({patient.species}, {patient.breed})
+                                  {patient.microchipNumber && ` · ${patient.microchipNumber}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription className="text-xs">
+                            {watchedPatientId
+                              ? "Signalment is taken from the patient record"
+                              : isEditing
+                                ? "Link the case to a registered patient"
+                                : "Pick a registered patient, or the patient is registered with this case"}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div>
+                      <div className="text-sm font-medium text-foreground mb-2">Case ID</div>
+                      <Input value={existingCase?.caseNumber ?? "Auto-generated on save"} disabled className="bg-muted" />
+                    </div>
+                  </div>
+
+                  <div className={`grid grid-cols-1 ${registersPatient ? "md:grid-cols-3" : "md:grid-cols-2"} gap-6`}>
                     <FormField
                       control={form.control}
                       name="patientName"
@@ -383,17 +879,52 @@ export default function CaseWizard() {
                         <FormItem>
                           <FormLabel>Patient Name</FormLabel>
                           <FormControl>
-                            <Input placeholder="Enter patient name" data-testid="input-patient-name" {...field} />
+                            <Input
+                              placeholder="Enter patient name"
+                              data-testid="input-patient-name"
+                              {...field}
+                              disabled={!!watchedPatientId}
+                            />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
-                    <div>
-                      <div className="text-sm font-medium text-foreground mb-2">Case ID</div>
-                      <Input value="Auto-generated on save" disabled className="bg-muted" />
-                    </div>
+                    {registersPatient && (
+                      <>
+                        <FormField
+                          control={form.control}
+                          name="patientDateOfBirth"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Date of Birth</FormLabel>
+                              <FormControl>
+                                <Input type="date" data-testid="input-patient-dob" {...field} />
+                              </FormControl>
+                              <FormDescription className="text-xs">
+                                When known, the age at diagnosis is worked out from it
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="microchipNumber"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Microchip Number</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g., 985112004567890" data-testid="input-microchip" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -403,7 +934,7 @@ export default function CaseWizard() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Species *</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!!watchedPatientId}>
                             <FormControl>
                               <SelectTrigger data-testid="select-species">
                                 <SelectValue placeholder="Select Species" />
@@ -436,7 +967,7 @@ export default function CaseWizard() {
                               placeholder={watchedSpecies ? "Select or type breed" : "Select species first"}
                               searchPlaceholder="Search breeds..."
                               emptyText="No breed found. Type to add custom."
-                              disabled={!watchedSpecies}
+                              disabled={!watchedSpecies || !!watchedPatientId}
                               testId="select-breed"
                             />
                           </FormControl>
@@ -454,7 +985,7 @@ export default function CaseWizard() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Sex</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value ?? ""} disabled={!!watchedPatientId}>
                             <FormControl>
                               <SelectTrigger data-testid="select-sex">
                                 <SelectValue placeholder="Select Sex" />
@@ -475,7 +1006,7 @@ export default function CaseWizard() {
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
-                      <FormLabel>Age</FormLabel>
+                      <FormLabel>Age at Diagnosis</FormLabel>
                       <div className="flex space-x-2 mt-2">
                         <FormField
                           control={form.control}
@@ -490,6 +1021,7 @@ export default function CaseWizard() {
                                   max="30"
                                   data-testid="input-age-years"
                                   {...field}
+                                  disabled={ageFromBirthDate}
                                   onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
                                 />
                               </FormControl>
@@ -510,6 +1042,7 @@ export default function CaseWizard() {
                                   max="11"
                                   data-testid="input-age-months"
                                   {...field}
+                                  disabled={ageFromBirthDate}
                                   onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
                                 />
                               </FormControl>
@@ -673,20 +1206,147 @@ export default function CaseWizard() {
                       )}
                     />
 
-                    <FormField
-                      control={form.control}
-                      name="stage"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Stage</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., T1N0M0, Stage I" data-testid="input-stage" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    {!stagingScheme && (
+                      <FormField
+                        control={form.control}
+                        name="stage"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Stage</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., T1N0M0, Stage I" data-testid="input-stage" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
                   </div>
+
+                  {stagingScheme && (
+                    <div className="space-y-4 border rounded-lg p-4" data-testid="staging-pickers">
+                      <div>
+                        <h4 className="text-sm font-medium">Clinical Stage</h4>
+                        <p className="text-xs text-muted-foreground">{stagingScheme.name} staging</p>
+                      </div>
+
+                      {stagingScheme.tnm ? (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          {([
+                            ["tnmT", "Primary Tumour (T)", stagingScheme.tnm.t],
+                            ["tnmN", "Regional Nodes (N)", stagingScheme.tnm.n],
+                            ["tnmM", "Distant Metastasis (M)", stagingScheme.tnm.m],
+                          ] as const).map(([name, label, options]) => (
+                            <FormField
+                              key={name}
+                              control={form.control}
+                              name={name}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{label}</FormLabel>
+                                  <Select onValueChange={(value) => setTnm(name, value)} value={field.value || undefined}>
+                                    <FormControl>
+                                      <SelectTrigger data-testid={`select-${name}`}>
+                                        <SelectValue placeholder="Select" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {options.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                          {option.label} – {option.description}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </FormItem>
+                              )}
+                            />
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="clinicalStage"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Stage</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value || undefined}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-clinical-stage">
+                                      <SelectValue placeholder="Select stage" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {stagingScheme.stages.map((option) => (
+                                      <SelectItem key={option.value} value={option.value}>
+                                        {option.label} – {option.description}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormItem>
+                            )}
+                          />
+                          {stagingScheme.substages && (
+                            <FormField
+                              control={form.control}
+                              name="stageSubstage"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Substage</FormLabel>
+                                  <Select
+                                    onValueChange={(value) => field.onChange(value === "NONE" ? "" : value)}
+                                    value={field.value || "NONE"}
+                                  >
+                                    <FormControl>
+                                      <SelectTrigger data-testid="select-stage-substage">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="NONE">Not recorded</SelectItem>
+                                      {stagingScheme.substages!.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                          {option.label} – {option.description}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </FormItem>
+                              )}
+                            />
+                          )}
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between gap-4 text-sm">
+                        <span data-testid="text-formatted-stage">
+                          {formatStaging(form.watch()) || "Not staged"}
+                        </span>
+                        {form.watch("clinicalStage") && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              for (const field of STAGING_FIELDS) {
+                                if (field !== "stagingScheme") form.setValue(field, "");
+                              }
+                            }}
+                            data-testid="button-clear-staging"
+                          >
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                      {form.watch("stage") && (
+                        <p className="text-xs text-muted-foreground">
+                          Previously recorded stage: {form.watch("stage")}. It is replaced once a clinical stage is chosen.
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -903,8 +1563,89 @@ export default function CaseWizard() {
                 </div>
               )}
 
-              {/* Step 4: Review */}
+              {/* Step 4: Treatments */}
               {currentStep === 4 && (
+                <div className="space-y-6">
+                  <p className="text-sm text-muted-foreground">
+                    Record each surgery, chemotherapy cycle or radiation course. Treatments are saved together with the
+                    case and can be changed later from the case details.
+                  </p>
+
+                  {isEditing && savedTreatments.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Recorded Treatments ({savedTreatments.length})</h4>
+                      <div className="border rounded-lg divide-y text-sm">
+                        {savedTreatments.map((treatment) => (
+                          <div key={treatment.id} className="flex justify-between gap-4 p-3" data-testid={`saved-treatment-${treatment.id}`}>
+                            <span>{describeTreatment(treatment)}</span>
+                            <span className="text-muted-foreground">{new Date(treatment.startDate).toLocaleDateString()}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {queuedTreatments.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Queued Treatments ({queuedTreatments.length})</h4>
+                      <div className="space-y-2">
+                        {queuedTreatments.map((queued) => (
+                          <div
+                            key={queued.id}
+                            className="flex items-center gap-3 p-3 border rounded-lg bg-muted/30"
+                            data-testid={`queued-treatment-${queued.id}`}
+                          >
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium">{describeTreatment(queued.data)}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {new Date(queued.data.startDate).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setQueuedTreatments(prev => prev.filter(t => t.id !== queued.id))}
+                              data-testid={`button-remove-treatment-${queued.id}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {isAddingTreatment ? (
+                    <div className="border rounded-lg p-4">
+                      <TreatmentForm
+                        submitLabel="Add to Case"
+                        onSubmit={(data) => {
+                          setQueuedTreatments(prev => [
+                            ...prev,
+                            { id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, data },
+                          ]);
+                          setIsAddingTreatment(false);
+                        }}
+                        onCancel={() => setIsAddingTreatment(false)}
+                      />
+                    </div>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsAddingTreatment(true)}
+                      data-testid="button-add-treatment"
+                    >
+                      <i className="fas fa-plus mr-2"></i>
+                      Add Treatment
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {/* Step 5: Review */}
+              {currentStep === 5 && (
                 <div className="space-y-6">
                   <div className="bg-muted/30 p-4 rounded-lg">
                     <h3 className="font-semibold mb-4">Case Summary</h3>
@@ -927,12 +1668,38 @@ export default function CaseWizard() {
                       <div>
                         <strong>Tumour Type:</strong> {form.getValues("tumourTypeCustom") || "Selected from list"}
                       </div>
+                      <div>
+                        <strong>Treatments to add:</strong> {queuedTreatments.length}
+                      </div>
                     </div>
                   </div>
                   
-                  <div className="text-sm text-muted-foreground">
-                    Please review all information before submitting. You can edit the case after creation if needed.
-                  </div>
+                  {isEditing ? (
+                    <div className="space-y-3" data-testid="case-changes">
+                      <h3 className="font-semibold">Changes</h3>
+                      {getCaseChanges().length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          {attachmentQueue.hasFiles || queuedTreatments.length > 0
+                            ? "No field changes. The queued attachments and treatments will be saved."
+                            : "Nothing has changed yet."}
+                        </p>
+                      ) : (
+                        <div className="border rounded-lg divide-y text-sm">
+                          {getCaseChanges().map((change) => (
+                            <div key={change.key} className="grid grid-cols-3 gap-4 p-3" data-testid={`case-change-${change.key}`}>
+                              <span className="font-medium">{change.label}</span>
+                              <span className="text-muted-foreground line-through break-words">{change.before || "Empty"}</span>
+                              <span className="break-words">{change.after || "Empty"}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">
+                      Please review all information before submitting. You can edit the case after creation if needed.
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -944,20 +1711,22 @@ export default function CaseWizard() {
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => setLocation("/cases")}
+                onClick={() => setLocation(existingCase ? `/cases/${existingCase.id}` : "/cases")}
                 data-testid="button-cancel-case"
               >
                 Cancel
               </Button>
               
-              <Button
-                type="button"
-                variant="ghost"
-                onClick={clearDraft}
-                data-testid="button-clear-draft"
-              >
-                Clear Draft
-              </Button>
+              {!isEditing && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={clearDraft}
+                  data-testid="button-clear-draft"
+                >
+                  Clear Draft
+                </Button>
+              )}
             </div>
 
             <div className="flex items-center space-x-4">
@@ -972,7 +1741,7 @@ export default function CaseWizard() {
                 </Button>
               )}
 
-              {currentStep < 4 ? (
+              {currentStep < steps.length ? (
                 <Button
                   type="button"
                   onClick={nextStep}
@@ -983,18 +1752,18 @@ export default function CaseWizard() {
               ) : (
                 <Button
                   type="submit"
-                  disabled={createCaseMutation.isPending}
+                  disabled={isSaving || isCheckingDuplicates || (isEditing && getCaseChanges().length === 0 && !attachmentQueue.hasFiles && queuedTreatments.length === 0)}
                   data-testid="button-submit-case"
                 >
-                  {createCaseMutation.isPending ? (
+                  {isSaving || isCheckingDuplicates ? (
                     <>
                       <i className="fas fa-spinner fa-spin mr-2"></i>
-                      Creating Case...
+                      {isEditing ? "Saving Changes..." : "Creating Case..."}
                     </>
                   ) : (
                     <>
                       <i className="fas fa-save mr-2"></i>
-                      Create Case
+                      {isEditing ? "Save Changes" : "Create Case"}
                     </>
                   )}
                 </Button>
@@ -1003,14 +1772,115 @@ export default function CaseWizard() {
           </div>
 
           {/* Auto-save indicator */}
-          <div className="mt-4 text-center">
-            <span className="text-xs text-muted-foreground">
-              <i className="fas fa-save mr-1"></i>
-              Draft auto-saved
-            </span>
-          </div>
+          {!isEditing && (
+            <div className="mt-4 text-center">
+              <span className="text-xs text-muted-foreground">
+                <i className="fas fa-save mr-1"></i>
+                Draft auto-saved
+              </span>
+            </div>
+          )}
         </form>
       </Form>
+
+      {/* Edit Conflict Dialog */}
+      <Dialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+        <DialogContent className="max-w-2xl" data-testid="case-conflict-dialog">
+          <DialogHeader>
+            <DialogTitle>Case Changed While You Were Editing</DialogTitle>
+            <DialogDescription>
+              {conflict?.current.updatedAt
+                ? `Someone else saved this case at ${new Date(conflict.current.updatedAt).toLocaleString()}.`
+                : "Someone else saved this case."}{" "}
+              {conflict && conflict.fields.length > 0
+                ? "Choose which version to keep for each field you both changed."
+                : "None of their changes overlap with yours."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {conflict && conflict.fields.length > 0 && (
+            <div className="border rounded-lg divide-y text-sm max-h-96 overflow-y-auto">
+              <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 p-3 font-medium text-muted-foreground">
+                <span>Field</span>
+                <span>Your version</span>
+                <span>Their version</span>
+              </div>
+              {conflict.fields.map((field) => {
+                const choice = conflictChoices[field.key] ?? "mine";
+                return (
+                  <div key={field.key} className="grid grid-cols-[8rem_1fr_1fr] gap-3 p-3 items-start" data-testid={`conflict-field-${field.key}`}>
+                    <span className="font-medium">{field.label}</span>
+                    {(["mine", "theirs"] as const).map((side) => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setConflictChoices(prev => ({ ...prev, [field.key]: side }))}
+                        className={`text-left p-2 rounded-md border break-words ${
+                          choice === side ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+                        }`}
+                        data-testid={`conflict-choose-${side}-${field.key}`}
+                      >
+                        <i className={`fas ${choice === side ? "fa-check-circle text-primary" : "fa-circle text-muted-foreground"} mr-2`}></i>
+                        {(side === "mine" ? field.mine : field.theirs) || "Empty"}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {conflict && conflict.autoMerged.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Their changes to {conflict.autoMerged.join(", ")} will be kept as well.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConflict(null)} data-testid="button-cancel-merge">
+              Go Back
+            </Button>
+            <Button onClick={saveMergedCase} disabled={isSaving} data-testid="button-save-merge">
+              <i className="fas fa-code-merge mr-2"></i>
+              Save Merged Case
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Duplicate Warning Dialog */}
+      <AlertDialog open={!!pendingSubmit} onOpenChange={(open) => !open && setPendingSubmit(null)}>
+        <AlertDialogContent data-testid="duplicate-case-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Possible Duplicate Case</AlertDialogTitle>
+            <AlertDialogDescription>
+              This case looks like {duplicateMatches.length === 1 ? "an existing case" : "existing cases"} in your clinic. Check before saving a second record for the same patient.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            {duplicateMatches.map((match) => (
+              <div key={match.caseId} className="p-3 border border-border rounded-lg text-sm" data-testid={`duplicate-match-${match.caseId}`}>
+                <div className="flex items-center justify-between">
+                  <a href={`/cases/${match.caseId}`} target="_blank" rel="noreferrer" className="font-medium text-primary hover:underline">
+                    {match.caseNumber}
+                  </a>
+                  <Badge variant="secondary">{Math.round(match.score * 100)}% match</Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {match.patientName || "Unnamed patient"} · {match.species} · {match.breed} · {new Date(match.diagnosisDate).toLocaleDateString()}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">{match.reasons.join(", ")}</p>
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="cancel-duplicate-save">Go Back</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSaveDuplicate} data-testid="confirm-duplicate-save">
+              Save Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,229 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { IMPORT_CASE_FIELDS, type AnatomicalSite, type CaseHistoryEntry, type TumourType } from "@shared/schema";
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(IMPORT_CASE_FIELDS.map(({ field, label }) => [field, label])),
+  tumourTypeId: "Tumour Type",
+  tumourTypeCustom: "Tumour Type (custom)",
+  anatomicalSiteId: "Anatomical Site",
+  anatomicalSiteCustom: "Anatomical Site (custom)",
+  geoZone: "Geo-political Zone",
+  patientId: "Patient",
+  stagingScheme: "Staging Scheme",
+  tnmT: "T Category",
+  tnmN: "N Category",
+  tnmM: "M Category",
+  clinicalStage: "Clinical Stage",
+  stageSubstage: "Substage",
+  extra: "Extra Fields",
+};
+
+const ENUM_FIELDS = new Set(["state", "geoZone", "sex", "outcome", "status"]);
+
+const ACTIONS: Record<string, { label: string; icon: string; color: string }> = {
+  CREATE: { label: "Created", icon: "fa-plus-circle", color: "text-green-600" },
+  UPDATE: { label: "Edited", icon: "fa-pen", color: "text-blue-600" },
+  REVERT: { label: "Reverted", icon: "fa-undo", color: "text-amber-600" },
+  DELETE: { label: "Deleted", icon: "fa-trash", color: "text-red-600" },
+  RESTORE: { label: "Restored from the trash", icon: "fa-trash-restore", color: "text-green-600" },
+};
+
+// Actions whose resulting version can be restored
+const REVERTIBLE_ACTIONS = ["CREATE", "UPDATE", "REVERT"];
+
+const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field;
+
+function formatValue(field: string, value: unknown, names: Map<string, string>): string {
+  if (value === null || value === undefined || value === "") return "Empty";
+  if ((field === "tumourTypeId" || field === "anatomicalSiteId") && typeof value === "string") {
+    return names.get(value) ?? value;
+  }
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleDateString();
+  }
+  if (ENUM_FIELDS.has(field) && typeof value === "string") {
+    return value.split("_").map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(" ");
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length > 0 ? entries.map(([key, v]) => `${key}: ${v}`).join(", ") : "Empty";
+  }
+  return String(value);
+}
+
+interface CaseHistoryProps {
+  caseId: string;
+  // Managers and admins can restore earlier versions
+  canRevert: boolean;
+}
+
+export default function CaseHistory({ caseId, canRevert }: CaseHistoryProps) {
+  const { toast } = useToast();
+  const [entryToRevert, setEntryToRevert] = useState<CaseHistoryEntry | null>(null);
+
+  const { data: history = [], isLoading, error } = useQuery<CaseHistoryEntry[]>({
+    queryKey: [`/api/cases/${caseId}/history`],
+  });
+
+  const { data: tumourTypes = [] } = useQuery<TumourType[]>({
+    queryKey: ["/api/vocabulary/tumour-types"],
+  });
+
+  const { data: anatomicalSites = [] } = useQuery<AnatomicalSite[]>({
+    queryKey: ["/api/vocabulary/anatomical-sites"],
+  });
+
+  // Vocabulary ids are stored on the case; show their names instead
+  const names = useMemo(
+    () => new Map([...tumourTypes, ...anatomicalSites].map(term => [term.id, term.name] as [string, string])),
+    [tumourTypes, anatomicalSites],
+  );
+
+  const revertMutation = useMutation({
+    mutationFn: async (auditLogId: string) => {
+      const response = await apiRequest("POST", `/api/cases/${caseId}/revert`, { auditLogId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/history`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      toast({
+        title: "Case reverted",
+        description: "The earlier version has been restored.",
+      });
+      setEntryToRevert(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revert case",
+        description: error.message,
+        variant: "destructive",
+      });
+      setEntryToRevert(null);
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading history...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <p>History is only available to the clinic that recorded this case.</p>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <i className="fas fa-history text-3xl mb-2 opacity-50"></i>
+        <p>No changes recorded for this case</p>
+      </div>
+    );
+  }
+
+  const entryDate = (id: string | undefined) => {
+    const entry = history.find(e => e.id === id);
+    return entry ? new Date(entry.createdAt).toLocaleString() : "an earlier version";
+  };
+
+  return (
+    <div className="space-y-4" data-testid="case-history">
+      {history.map((entry, index) => {
+        const action = ACTIONS[entry.action] ?? { label: entry.action, icon: "fa-circle", color: "text-muted-foreground" };
+        const changedFields = entry.action === "UPDATE" || entry.action === "REVERT"
+          ? Object.keys(entry.diff?.after ?? {})
+          : [];
+
+        return (
+          <div key={entry.id} className="border rounded-lg p-4" data-testid={`history-entry-${entry.id}`}>
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <i className={`fas ${action.icon} ${action.color} mt-1`}></i>
+                <div>
+                  <p className="font-medium">
+                    {action.label} by {entry.actorName || "Unknown user"}
+                    {index === 0 && <Badge variant="secondary" className="ml-2">Latest</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</p>
+                  {entry.action === "REVERT" && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Restored the version from {entryDate(entry.diff?.revertOf)}
+                    </p>
+                  )}
+                </div>
+              </div>
+              {canRevert && index > 0 && REVERTIBLE_ACTIONS.includes(entry.action) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEntryToRevert(entry)}
+                  data-testid={`button-revert-${entry.id}`}
+                >
+                  <i className="fas fa-undo mr-2"></i>
+                  Revert to this version
+                </Button>
+              )}
+            </div>
+
+            {changedFields.length > 0 && (
+              <div className="mt-3 border rounded-md divide-y text-sm">
+                {changedFields.map((field) => (
+                  <div key={field} className="grid grid-cols-3 gap-4 p-2">
+                    <span className="font-medium">{fieldLabel(field)}</span>
+                    <span className="text-muted-foreground line-through break-words">
+                      {formatValue(field, entry.diff?.before?.[field], names)}
+                    </span>
+                    <span className="break-words">{formatValue(field, entry.diff?.after?.[field], names)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <AlertDialog open={!!entryToRevert} onOpenChange={(open) => !open && setEntryToRevert(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert Case</AlertDialogTitle>
+            <AlertDialogDescription>
+              The case will be set back to how it was after the change on{" "}
+              {entryToRevert ? new Date(entryToRevert.createdAt).toLocaleString() : ""}. Later changes stay in the
+              history and the revert itself is recorded, so it can be undone the same way. The patient the case belongs to,
+              and the signalment it takes from that patient, are kept as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-revert">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => entryToRevert && revertMutation.mutate(entryToRevert.id)}
+              disabled={revertMutation.isPending}
+              data-testid="button-confirm-revert"
+            >
+              Revert
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
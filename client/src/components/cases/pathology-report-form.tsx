@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  HISTOLOGIC_GRADES,
+  pathologyReportInputSchema,
+  type CaseFile,
+  type PathologyReport,
+  type PathologyReportInput,
+} from "@shared/schema";
+import { MARGIN_LABELS } from "./treatment-form";
+
+export const SAMPLE_TYPE_LABELS: Record<string, string> = {
+  FNA: "Fine-needle aspirate (cytology)",
+  INCISIONAL_BIOPSY: "Incisional biopsy",
+  EXCISIONAL_BIOPSY: "Excisional biopsy",
+};
+
+export const GRADING_SYSTEM_LABELS: Record<string, string> = {
+  PATNAIK: "Patnaik (mast cell tumour)",
+  KIUPEL: "Kiupel (mast cell tumour)",
+  PENA: "Peña (mammary carcinoma)",
+  OTHER: "Other",
+};
+
+const GRADE_LABELS: Record<string, string> = {
+  LOW: "Low grade",
+  HIGH: "High grade",
+};
+
+// Select value of a not-chosen option; Radix selects cannot hold an empty string
+const NONE = "NONE";
+
+// Everything as the inputs hold it; converted with toPathologyReportInput when saved
+export interface PathologyReportFormValues {
+  sampleType: string;
+  labName: string;
+  reportDate: string;
+  gradingSystem: string;
+  grade: string;
+  mitoticCount: string;
+  marginStatus: string;
+  pathologistComment: string;
+  caseFileId: string;
+}
+
+export const emptyPathologyReportValues = (): PathologyReportFormValues => ({
+  sampleType: "",
+  labName: "",
+  reportDate: new Date().toISOString().split("T")[0],
+  gradingSystem: "",
+  grade: "",
+  mitoticCount: "",
+  marginStatus: "",
+  pathologistComment: "",
+  caseFileId: "",
+});
+
+export const pathologyReportToFormValues = (report: PathologyReport): PathologyReportFormValues => ({
+  sampleType: report.sampleType,
+  labName: report.labName ?? "",
+  reportDate: new Date(report.reportDate).toISOString().split("T")[0],
+  gradingSystem: report.gradingSystem ?? "",
+  grade: report.grade ?? "",
+  mitoticCount: report.mitoticCount?.toString() ?? "",
+  marginStatus: report.marginStatus ?? "",
+  pathologistComment: report.pathologistComment ?? "",
+  caseFileId: report.caseFileId ?? "",
+});
+
+const blankToNull = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// Validated with the same rules the server applies; errors are keyed by field
+export function toPathologyReportInput(values: PathologyReportFormValues):
+  | { success: true; data: PathologyReportInput }
+  | { success: false; errors: Record<string, string> } {
+  const result = pathologyReportInputSchema.safeParse({
+    sampleType: values.sampleType || undefined,
+    labName: blankToNull(values.labName),
+    reportDate: values.reportDate || undefined,
+    gradingSystem: blankToNull(values.gradingSystem),
+    grade: blankToNull(values.grade),
+    mitoticCount: values.mitoticCount.trim() === "" ? null : Number(values.mitoticCount),
+    marginStatus: values.sampleType === "EXCISIONAL_BIOPSY" ? blankToNull(values.marginStatus) : null,
+    pathologistComment: blankToNull(values.pathologistComment),
+    caseFileId: blankToNull(values.caseFileId),
+  });
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const field = String(issue.path[0] ?? "sampleType");
+    if (!errors[field]) {
+      errors[field] = field === "sampleType" ? "Choose a sample type" : field === "reportDate" ? "Report date is required" : issue.message;
+    }
+  }
+  return { success: false, errors };
+}
+
+interface PathologyReportFormProps {
+  initialValues?: PathologyReportFormValues;
+  // PDFs uploaded to the case, any of which can be linked as the lab's report
+  pdfFiles: CaseFile[];
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (data: PathologyReportInput) => void;
+  onCancel?: () => void;
+}
+
+export default function PathologyReportForm({ initialValues, pdfFiles, submitLabel, isSubmitting, onSubmit, onCancel }: PathologyReportFormProps) {
+  const [values, setValues] = useState<PathologyReportFormValues>(initialValues ?? emptyPathologyReportValues());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const set = (field: keyof PathologyReportFormValues) => (value: string) => {
+    setValues(prev => ({
+      ...prev,
+      [field]: value === NONE ? "" : value,
+      // Grades of one system mean nothing in another
+      ...(field === "gradingSystem" ? { grade: "" } : {}),
+    }));
+    setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const submit = () => {
+    const result = toPathologyReportInput(values);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.data);
+  };
+
+  const grades = values.gradingSystem ? HISTOLOGIC_GRADES[values.gradingSystem] : undefined;
+
+  const fieldError = (field: keyof PathologyReportFormValues) =>
+    errors[field] ? <p className="text-sm font-medium text-destructive">{errors[field]}</p> : null;
+
+  return (
+    <div className="space-y-4" data-testid="pathology-report-form">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Sample Type *</Label>
+          <Select value={values.sampleType} onValueChange={set("sampleType")}>
+            <SelectTrigger data-testid="select-pathology-sample-type">
+              <SelectValue placeholder="Select sample type" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SAMPLE_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("sampleType")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Report Date *</Label>
+          <Input
+            type="date"
+            value={values.reportDate}
+            onChange={(e) => set("reportDate")(e.target.value)}
+            data-testid="input-pathology-report-date"
+          />
+          {fieldError("reportDate")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Laboratory</Label>
+          <Input
+            value={values.labName}
+            onChange={(e) => set("labName")(e.target.value)}
+            placeholder="e.g., University of Ibadan VTH Pathology"
+            data-testid="input-pathology-lab"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Mitotic Count</Label>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={values.mitoticCount}
+            onChange={(e) => set("mitoticCount")(e.target.value)}
+            placeholder="Per 10 high-power fields"
+            data-testid="input-pathology-mitotic-count"
+          />
+          {fieldError("mitoticCount")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Grading System</Label>
+          <Select value={values.gradingSystem || NONE} onValueChange={set("gradingSystem")}>
+            <SelectTrigger data-testid="select-pathology-grading-system">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not graded</SelectItem>
+              {Object.entries(GRADING_SYSTEM_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("gradingSystem")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Histologic Grade</Label>
+          {grades ? (
+            <Select value={values.grade || undefined} onValueChange={set("grade")}>
+              <SelectTrigger data-testid="select-pathology-grade">
+                <SelectValue placeholder="Select grade" />
+              </SelectTrigger>
+              <SelectContent>
+                {grades.map((grade) => (
+                  <SelectItem key={grade} value={grade}>{GRADE_LABELS[grade] ?? `Grade ${grade}`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={values.grade}
+              onChange={(e) => set("grade")(e.target.value)}
+              placeholder={values.gradingSystem ? "Grade as reported" : "Choose a grading system first"}
+              disabled={!values.gradingSystem}
+              data-testid="input-pathology-grade"
+            />
+          )}
+          {fieldError("grade")}
+        </div>
+
+        {values.sampleType === "EXCISIONAL_BIOPSY" && (
+          <div className="space-y-2">
+            <Label>Margins</Label>
+            <Select value={values.marginStatus || NONE} onValueChange={set("marginStatus")}>
+              <SelectTrigger data-testid="select-pathology-margin">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not recorded</SelectItem>
+                {Object.entries(MARGIN_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError("marginStatus")}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Report PDF</Label>
+          <Select value={values.caseFileId || NONE} onValueChange={set("caseFileId")}>
+            <SelectTrigger data-testid="select-pathology-file">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No file linked</SelectItem>
+              {pdfFiles.map((file) => (
+                <SelectItem key={file.id} value={file.id}>{file.originalName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {pdfFiles.length === 0 && (
+            <p className="text-xs text-muted-foreground">Upload the lab's PDF under Attachments to link it here.</p>
+          )}
+          {fieldError("caseFileId")}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Pathologist's Comment</Label>
+        <Textarea
+          value={values.pathologistComment}
+          onChange={(e) => set("pathologistComment")(e.target.value)}
+          placeholder="Diagnosis and comments as given in the report"
+          className="min-h-20"
+          data-testid="textarea-pathology-comment"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel-pathology-report">
+            Cancel
+          </Button>
+        )}
+        <Button type="button" onClick={submit} disabled={isSubmitting} data-testid="button-save-pathology-report">
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
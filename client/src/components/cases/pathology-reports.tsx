@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatHistologicGrade, type CaseFile, type PathologyReportInput, type PathologyReportWithFile } from "@shared/schema";
+import PathologyReportForm, { pathologyReportToFormValues, SAMPLE_TYPE_LABELS } from "./pathology-report-form";
+import { MARGIN_LABELS } from "./treatment-form";
+
+interface PathologyReportsProps {
+  caseId: string;
+  // Reports can be recorded by whoever can edit the case
+  canEdit: boolean;
+}
+
+export default function PathologyReports({ caseId, canEdit }: PathologyReportsProps) {
+  const { toast } = useToast();
+  // null when the dialog is closed; "new" while adding
+  const [editing, setEditing] = useState<PathologyReportWithFile | "new" | null>(null);
+  const [reportToDelete, setReportToDelete] = useState<PathologyReportWithFile | null>(null);
+
+  const { data: reports = [], isLoading } = useQuery<PathologyReportWithFile[]>({
+    queryKey: [`/api/cases/${caseId}/pathology-reports`],
+  });
+
+  const { data: files = [] } = useQuery<CaseFile[]>({
+    queryKey: [`/api/cases/${caseId}/files`],
+    enabled: canEdit,
+  });
+  const pdfFiles = files.filter(f => f.mimeType === "application/pdf");
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/pathology-reports`] });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ data, reportId }: { data: PathologyReportInput; reportId?: string }) => {
+      const response = reportId
+        ? await apiRequest("PUT", `/api/cases/${caseId}/pathology-reports/${reportId}`, data)
+        : await apiRequest("POST", `/api/cases/${caseId}/pathology-reports`, data);
+      return response.json();
+    },
+    onSuccess: (_, { reportId }) => {
+      invalidate();
+      toast({ title: reportId ? "Pathology report updated" : "Pathology report added" });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save pathology report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (reportId: string) => {
+      const response = await apiRequest("DELETE", `/api/cases/${caseId}/pathology-reports/${reportId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Pathology report deleted" });
+      setReportToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete pathology report",
+        description: error.message,
+        variant: "destructive",
+      });
+      setReportToDelete(null);
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading pathology reports...</div>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="pathology-reports">
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setEditing("new")} data-testid="button-add-pathology-report">
+            <i className="fas fa-plus mr-2"></i>
+            Add Report
+          </Button>
+        </div>
+      )}
+
+      {reports.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <i className="fas fa-microscope text-3xl mb-2 opacity-50"></i>
+          <p>No histopathology or cytology results recorded</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <div key={report.id} className="border rounded-lg p-4" data-testid={`pathology-report-${report.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {SAMPLE_TYPE_LABELS[report.sampleType]}
+                    {report.labName && <span className="text-muted-foreground font-normal"> · {report.labName}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Reported {new Date(report.reportDate).toLocaleDateString()} · recorded by {report.createdByName || "Unknown user"}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {report.grade && <Badge variant="secondary">{formatHistologicGrade(report.gradingSystem, report.grade)}</Badge>}
+                    {report.mitoticCount != null && <Badge variant="outline">Mitotic count {report.mitoticCount}/10 HPF</Badge>}
+                    {report.marginStatus && <Badge variant="outline">{MARGIN_LABELS[report.marginStatus]}</Badge>}
+                  </div>
+                  {report.pathologistComment && (
+                    <p className="text-sm whitespace-pre-wrap">{report.pathologistComment}</p>
+                  )}
+                  {report.file ? (
+                    <a
+                      href={`/api/cases/${caseId}/files/${report.file.id}/download`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                      data-testid={`link-pathology-file-${report.id}`}
+                    >
+                      <FileText className="h-4 w-4" />
+                      {report.file.originalName}
+                    </a>
+                  ) : report.caseFileId && (
+                    <p className="text-xs text-muted-foreground">The linked report file has been deleted.</p>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(report)} data-testid={`button-edit-pathology-report-${report.id}`}>
+                      <i className="fas fa-pen"></i>
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setReportToDelete(report)} data-testid={`button-delete-pathology-report-${report.id}`}>
+                      <i className="fas fa-trash text-destructive"></i>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Pathology Report" : "Edit Pathology Report"}</DialogTitle>
+            <DialogDescription>
+              Record the results of a cytology or histopathology submission as the lab reported them.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <PathologyReportForm
+              key={editing === "new" ? "new" : editing.id}
+              initialValues={editing === "new" ? undefined : pathologyReportToFormValues(editing)}
+              pdfFiles={pdfFiles}
+              submitLabel={editing === "new" ? "Add Report" : "Save Report"}
+              isSubmitting={saveMutation.isPending}
+              onSubmit={(data) => saveMutation.mutate({ data, reportId: editing === "new" ? undefined : editing.id })}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!reportToDelete} onOpenChange={(open) => !open && setReportToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Pathology Report</AlertDialogTitle>
+            <AlertDialogDescription>
+              {reportToDelete
+                ? `The ${SAMPLE_TYPE_LABELS[reportToDelete.sampleType].toLowerCase()} result from ${new Date(reportToDelete.reportDate).toLocaleDateString()} will be removed from this case. A linked PDF stays under Attachments.`
+                : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-pathology-report">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => reportToDelete && deleteMutation.mutate(reportToDelete.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-pathology-report"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { treatmentInputSchema, type Treatment, type TreatmentInput } from "@shared/schema";
+
+export const MODALITY_LABELS: Record<string, string> = {
+  SURGERY: "Surgery",
+  CHEMOTHERAPY: "Chemotherapy",
+  RADIATION: "Radiation",
+  IMMUNOTHERAPY: "Immunotherapy",
+  OTHER: "Other",
+};
+
+export const INTENT_LABELS: Record<string, string> = {
+  CURATIVE: "Curative",
+  PALLIATIVE: "Palliative",
+};
+
+export const DOSE_UNIT_LABELS: Record<string, string> = {
+  MG_PER_M2: "mg/m²",
+  MG_PER_KG: "mg/kg",
+};
+
+export const MARGIN_LABELS: Record<string, string> = {
+  COMPLETE: "Complete (clean margins)",
+  CLOSE: "Close margins",
+  INCOMPLETE: "Incomplete (dirty margins)",
+  NOT_ASSESSED: "Not assessed",
+};
+
+// Select values of a not-chosen option; Radix selects cannot hold an empty string
+const NONE = "NONE";
+
+// Everything as the inputs hold it; converted with toTreatmentInput when saved
+export interface TreatmentFormValues {
+  modality: string;
+  intent: string;
+  protocolName: string;
+  drug: string;
+  dose: string;
+  doseUnit: string;
+  cycleNumber: string;
+  startDate: string;
+  endDate: string;
+  marginStatus: string;
+  notes: string;
+}
+
+export const emptyTreatmentValues = (): TreatmentFormValues => ({
+  modality: "",
+  intent: "",
+  protocolName: "",
+  drug: "",
+  dose: "",
+  doseUnit: "",
+  cycleNumber: "",
+  startDate: new Date().toISOString().split("T")[0],
+  endDate: "",
+  marginStatus: "",
+  notes: "",
+});
+
+const toDateInput = (value: Date | string | null) =>
+  value ? new Date(value).toISOString().split("T")[0] : "";
+
+export const treatmentToFormValues = (treatment: Treatment): TreatmentFormValues => ({
+  modality: treatment.modality,
+  intent: treatment.intent ?? "",
+  protocolName: treatment.protocolName ?? "",
+  drug: treatment.drug ?? "",
+  dose: treatment.dose?.toString() ?? "",
+  doseUnit: treatment.doseUnit ?? "",
+  cycleNumber: treatment.cycleNumber?.toString() ?? "",
+  startDate: toDateInput(treatment.startDate),
+  endDate: toDateInput(treatment.endDate),
+  marginStatus: treatment.marginStatus ?? "",
+  notes: treatment.notes ?? "",
+});
+
+const blankToNull = (value: string) => (value.trim() === "" ? null : value.trim());
+const numberOrNull = (value: string) => (value.trim() === "" ? null : Number(value));
+
+// Validated with the same rules the server applies; errors are keyed by field
+export function toTreatmentInput(values: TreatmentFormValues):
+  | { success: true; data: TreatmentInput }
+  | { success: false; errors: Record<string, string> } {
+  const result = treatmentInputSchema.safeParse({
+    modality: values.modality || undefined,
+    intent: blankToNull(values.intent),
+    protocolName: blankToNull(values.protocolName),
+    drug: blankToNull(values.drug),
+    dose: numberOrNull(values.dose),
+    doseUnit: blankToNull(values.doseUnit),
+    cycleNumber: numberOrNull(values.cycleNumber),
+    startDate: values.startDate || undefined,
+    endDate: blankToNull(values.endDate),
+    marginStatus: values.modality === "SURGERY" ? blankToNull(values.marginStatus) : null,
+    notes: blankToNull(values.notes),
+  });
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const field = String(issue.path[0] ?? "modality");
+    if (!errors[field]) {
+      errors[field] = field === "modality" ? "Choose a modality" : field === "startDate" ? "Start date is required" : issue.message;
+    }
+  }
+  return { success: false, errors };
+}
+
+// One line summary, e.g. "Chemotherapy · CHOP · Doxorubicin 30 mg/m² · cycle 2"
+export function describeTreatment(
+  treatment: Pick<Treatment, "modality"> & Partial<Pick<Treatment, "protocolName" | "drug" | "dose" | "doseUnit" | "cycleNumber">>,
+): string {
+  const dose = treatment.dose != null ? `${treatment.dose} ${DOSE_UNIT_LABELS[treatment.doseUnit ?? ""] ?? ""}`.trim() : "";
+  return [
+    MODALITY_LABELS[treatment.modality] ?? treatment.modality,
+    treatment.protocolName,
+    [treatment.drug, dose].filter(Boolean).join(" "),
+    treatment.cycleNumber ? `cycle ${treatment.cycleNumber}` : "",
+  ].filter(Boolean).join(" · ");
+}
+
+interface TreatmentFormProps {
+  initialValues?: TreatmentFormValues;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (data: TreatmentInput, values: TreatmentFormValues) => void;
+  onCancel?: () => void;
+}
+
+// Not a <form> of its own, so it can sit inside the case wizard's form
+export default function TreatmentForm({ initialValues, submitLabel, isSubmitting, onSubmit, onCancel }: TreatmentFormProps) {
+  const [values, setValues] = useState<TreatmentFormValues>(initialValues ?? emptyTreatmentValues());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const set = (field: keyof TreatmentFormValues) => (value: string) => {
+    setValues(prev => ({ ...prev, [field]: value === NONE ? "" : value }));
+    setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const submit = () => {
+    const result = toTreatmentInput(values);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.data, values);
+  };
+
+  const isDrugTherapy = values.modality === "CHEMOTHERAPY" || values.modality === "IMMUNOTHERAPY";
+
+  const fieldError = (field: keyof TreatmentFormValues) =>
+    errors[field] ? <p className="text-sm font-medium text-destructive">{errors[field]}</p> : null;
+
+  return (
+    <div className="space-y-4" data-testid="treatment-form">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Modality *</Label>
+          <Select value={values.modality} onValueChange={set("modality")}>
+            <SelectTrigger data-testid="select-treatment-modality">
+              <SelectValue placeholder="Select modality" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MODALITY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError("modality")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Intent</Label>
+          <Select value={values.intent || NONE} onValueChange={set("intent")}>
+            <SelectTrigger data-testid="select-treatment-intent">
+              <SelectValue placeholder="Select intent" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not recorded</SelectItem>
+              {Object.entries(INTENT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Protocol</Label>
+          <Input
+            value={values.protocolName}
+            onChange={(e) => set("protocolName")(e.target.value)}
+            placeholder={isDrugTherapy ? "e.g., CHOP, Madison-Wisconsin" : "e.g., Wide local excision"}
+            data-testid="input-treatment-protocol"
+          />
+        </div>
+
+        {values.modality === "SURGERY" ? (
+          <div className="space-y-2">
+            <Label>Surgical Margins</Label>
+            <Select value={values.marginStatus || NONE} onValueChange={set("marginStatus")}>
+              <SelectTrigger data-testid="select-treatment-margin">
+                <SelectValue placeholder="Select margin status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not recorded</SelectItem>
+                {Object.entries(MARGIN_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError("marginStatus")}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Drug</Label>
+            <Input
+              value={values.drug}
+              onChange={(e) => set("drug")(e.target.value)}
+              placeholder="e.g., Doxorubicin, Vincristine"
+              data-testid="input-treatment-drug"
+            />
+          </div>
+        )}
+      </div>
+
+      {values.modality !== "SURGERY" && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Dose</Label>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={values.dose}
+              onChange={(e) => set("dose")(e.target.value)}
+              data-testid="input-treatment-dose"
+            />
+            {fieldError("dose")}
+          </div>
+          <div className="space-y-2">
+            <Label>Dose Unit</Label>
+            <Select value={values.doseUnit || NONE} onValueChange={set("doseUnit")}>
+              <SelectTrigger data-testid="select-treatment-dose-unit">
+                <SelectValue placeholder="Select unit" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {Object.entries(DOSE_UNIT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError("doseUnit")}
+          </div>
+          <div className="space-y-2">
+            <Label>Cycle Number</Label>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={values.cycleNumber}
+              onChange={(e) => set("cycleNumber")(e.target.value)}
+              data-testid="input-treatment-cycle"
+            />
+            {fieldError("cycleNumber")}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Start Date *</Label>
+          <Input
+            type="date"
+            value={values.startDate}
+            onChange={(e) => set("startDate")(e.target.value)}
+            data-testid="input-treatment-start-date"
+          />
+          {fieldError("startDate")}
+        </div>
+        <div className="space-y-2">
+          <Label>End Date</Label>
+          <Input
+            type="date"
+            value={values.endDate}
+            onChange={(e) => set("endDate")(e.target.value)}
+            data-testid="input-treatment-end-date"
+          />
+          {fieldError("endDate")}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Notes</Label>
+        <Textarea
+          value={values.notes}
+          onChange={(e) => set("notes")(e.target.value)}
+          placeholder="Complications, dose reductions, response"
+          className="min-h-16"
+          data-testid="textarea-treatment-notes"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel-treatment">
+            Cancel
+          </Button>
+        )}
+        <Button type="button" onClick={submit} disabled={isSubmitting} data-testid="button-save-treatment">
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TreatmentInput, TreatmentWithCreator } from "@shared/schema";
+import TreatmentForm, {
+  describeTreatment,
+  INTENT_LABELS,
+  MARGIN_LABELS,
+  MODALITY_LABELS,
+  treatmentToFormValues,
+} from "./treatment-form";
+
+const MODALITY_ICONS: Record<string, string> = {
+  SURGERY: "fa-user-md",
+  CHEMOTHERAPY: "fa-syringe",
+  RADIATION: "fa-radiation",
+  IMMUNOTHERAPY: "fa-shield-virus",
+  OTHER: "fa-notes-medical",
+};
+
+const formatPeriod = (start: Date | string, end: Date | string | null) => {
+  const from = new Date(start).toLocaleDateString();
+  return end ? `${from} – ${new Date(end).toLocaleDateString()}` : from;
+};
+
+interface TreatmentTimelineProps {
+  caseId: string;
+  // Treatments can be recorded by whoever can edit the case
+  canEdit: boolean;
+}
+
+export default function TreatmentTimeline({ caseId, canEdit }: TreatmentTimelineProps) {
+  const { toast } = useToast();
+  // null when the dialog is closed; "new" while adding
+  const [editing, setEditing] = useState<TreatmentWithCreator | "new" | null>(null);
+  const [treatmentToDelete, setTreatmentToDelete] = useState<TreatmentWithCreator | null>(null);
+
+  const { data: treatments = [], isLoading } = useQuery<TreatmentWithCreator[]>({
+    queryKey: [`/api/cases/${caseId}/treatments`],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/treatments`] });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ data, treatmentId }: { data: TreatmentInput; treatmentId?: string }) => {
+      const response = treatmentId
+        ? await apiRequest("PUT", `/api/cases/${caseId}/treatments/${treatmentId}`, data)
+        : await apiRequest("POST", `/api/cases/${caseId}/treatments`, data);
+      return response.json();
+    },
+    onSuccess: (_, { treatmentId }) => {
+      invalidate();
+      toast({ title: treatmentId ? "Treatment updated" : "Treatment added" });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save treatment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (treatmentId: string) => {
+      const response = await apiRequest("DELETE", `/api/cases/${caseId}/treatments/${treatmentId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Treatment deleted" });
+      setTreatmentToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete treatment",
+        description: error.message,
+        variant: "destructive",
+      });
+      setTreatmentToDelete(null);
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading treatments...</div>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="treatment-timeline">
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => setEditing("new")} data-testid="button-add-treatment">
+            <i className="fas fa-plus mr-2"></i>
+            Add Treatment
+          </Button>
+        </div>
+      )}
+
+      {treatments.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <i className="fas fa-prescription-bottle-alt text-3xl mb-2 opacity-50"></i>
+          <p>No treatments recorded for this case</p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-border ml-3 space-y-6">
+          {treatments.map((treatment) => (
+            <li key={treatment.id} className="ml-6" data-testid={`treatment-${treatment.id}`}>
+              <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 ring-4 ring-background">
+                <i className={`fas ${MODALITY_ICONS[treatment.modality] ?? "fa-notes-medical"} text-xs text-primary`}></i>
+              </span>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">{describeTreatment(treatment)}</p>
+                  <p className="text-xs text-muted-foreground">{formatPeriod(treatment.startDate, treatment.endDate)}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {treatment.intent && <Badge variant="secondary">{INTENT_LABELS[treatment.intent]}</Badge>}
+                    {treatment.marginStatus && <Badge variant="outline">{MARGIN_LABELS[treatment.marginStatus]}</Badge>}
+                  </div>
+                  {treatment.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{treatment.notes}</p>}
+                  <p className="text-xs text-muted-foreground">Recorded by {treatment.createdByName || "Unknown user"}</p>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(treatment)} data-testid={`button-edit-treatment-${treatment.id}`}>
+                      <i className="fas fa-pen"></i>
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setTreatmentToDelete(treatment)} data-testid={`button-delete-treatment-${treatment.id}`}>
+                      <i className="fas fa-trash text-destructive"></i>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Treatment" : "Edit Treatment"}</DialogTitle>
+            <DialogDescription>
+              Record each surgery, chemotherapy cycle or radiation course as its own treatment.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <TreatmentForm
+              key={editing === "new" ? "new" : editing.id}
+              initialValues={editing === "new" ? undefined : treatmentToFormValues(editing)}
+              submitLabel={editing === "new" ? "Add Treatment" : "Save Treatment"}
+              isSubmitting={saveMutation.isPending}
+              onSubmit={(data) => saveMutation.mutate({ data, treatmentId: editing === "new" ? undefined : editing.id })}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!treatmentToDelete} onOpenChange={(open) => !open && setTreatmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Treatment</AlertDialogTitle>
+            <AlertDialogDescription>
+              {treatmentToDelete
+                ? `${MODALITY_LABELS[treatmentToDelete.modality]} from ${new Date(treatmentToDelete.startDate).toLocaleDateString()} will be removed from this case.`
+                : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-treatment">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => treatmentToDelete && deleteMutation.mutate(treatmentToDelete.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-treatment"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
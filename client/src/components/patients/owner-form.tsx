@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ownerInputSchema, type Owner, type OwnerInput } from "@shared/schema";
+
+export const CONSENT_STATUS_LABELS: Record<string, string> = {
+  PENDING: "Awaiting Decision",
+  GRANTED: "Consent Given",
+  REFUSED: "Refused",
+  WITHDRAWN: "Withdrawn",
+};
+
+// Everything as the inputs hold it; converted with toOwnerInput when saved
+export interface OwnerFormValues {
+  name: string;
+  phone: string;
+  lga: string;
+  consentStatus: string;
+  consentDate: string;
+}
+
+export const emptyOwnerValues: OwnerFormValues = {
+  name: "",
+  phone: "",
+  lga: "",
+  consentStatus: "PENDING",
+  consentDate: "",
+};
+
+export const ownerToFormValues = (owner: Owner): OwnerFormValues => ({
+  name: owner.name,
+  phone: owner.phone ?? "",
+  lga: owner.lga ?? "",
+  consentStatus: owner.consentStatus,
+  consentDate: owner.consentDate ? new Date(owner.consentDate).toISOString().split("T")[0] : "",
+});
+
+const blankToNull = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// Validated with the same rules the server applies; errors are keyed by field
+export function toOwnerInput(values: OwnerFormValues):
+  | { success: true; data: OwnerInput }
+  | { success: false; errors: Record<string, string> } {
+  const result = ownerInputSchema.safeParse({
+    name: values.name,
+    phone: blankToNull(values.phone),
+    lga: blankToNull(values.lga),
+    consentStatus: values.consentStatus,
+    consentDate: blankToNull(values.consentDate),
+  });
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const field = String(issue.path[0] ?? "name");
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  return { success: false, errors };
+}
+
+interface OwnerFormProps {
+  initialValues: OwnerFormValues;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (data: OwnerInput) => void;
+  onCancel?: () => void;
+}
+
+export default function OwnerForm({ initialValues, submitLabel, isSubmitting, onSubmit, onCancel }: OwnerFormProps) {
+  const [values, setValues] = useState<OwnerFormValues>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const set = (field: keyof OwnerFormValues) => (value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const submit = () => {
+    const result = toOwnerInput(values);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.data);
+  };
+
+  const fieldError = (field: keyof OwnerFormValues) =>
+    errors[field] ? <p className="text-sm font-medium text-destructive">{errors[field]}</p> : null;
+
+  return (
+    <div className="space-y-4" data-testid="owner-form">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Owner Name *</Label>
+          <Input
+            value={values.name}
+            onChange={(e) => set("name")(e.target.value)}
+            placeholder="Enter owner name"
+            data-testid="input-owner-name"
+          />
+          {fieldError("name")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Phone</Label>
+          <Input
+            type="tel"
+            value={values.phone}
+            onChange={(e) => set("phone")(e.target.value)}
+            placeholder="e.g., +234 803 123 4567"
+            data-testid="input-owner-phone"
+          />
+          {fieldError("phone")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>LGA</Label>
+          <Input
+            value={values.lga}
+            onChange={(e) => set("lga")(e.target.value)}
+            placeholder="Local Government Area, e.g., Ikeja"
+            data-testid="input-owner-lga"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Research Consent</Label>
+          <Select value={values.consentStatus} onValueChange={set("consentStatus")}>
+            <SelectTrigger data-testid="select-owner-consent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CONSENT_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Consent Date{values.consentStatus !== "PENDING" && " *"}</Label>
+          <Input
+            type="date"
+            value={values.consentDate}
+            onChange={(e) => set("consentDate")(e.target.value)}
+            data-testid="input-owner-consent-date"
+          />
+          <p className="text-xs text-muted-foreground">When the owner gave, refused or withdrew consent</p>
+          {fieldError("consentDate")}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel-owner">
+            Cancel
+          </Button>
+        )}
+        <Button type="button" onClick={submit} disabled={isSubmitting} data-testid="button-save-owner">
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
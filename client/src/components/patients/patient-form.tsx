@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Combobox } from "@/components/ui/combobox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SPECIES_BREEDS } from "@/lib/constants";
+import { patientInputSchema, type Patient, type PatientInput } from "@shared/schema";
+
+export const SEX_LABELS: Record<string, string> = {
+  MALE_NEUTERED: "Male Neutered",
+  MALE_INTACT: "Male Intact",
+  FEMALE_SPAYED: "Female Spayed",
+  FEMALE_INTACT: "Female Intact",
+};
+
+// Select value of a not-chosen option; Radix selects cannot hold an empty string
+const NONE = "NONE";
+
+// Everything as the inputs hold it; converted with toPatientInput when saved
+export interface PatientFormValues {
+  name: string;
+  species: string;
+  breed: string;
+  sex: string;
+  dateOfBirth: string;
+  microchipNumber: string;
+}
+
+export const patientToFormValues = (patient: Patient): PatientFormValues => ({
+  name: patient.name ?? "",
+  species: patient.species,
+  breed: patient.breed,
+  sex: patient.sex ?? "",
+  dateOfBirth: patient.dateOfBirth ? new Date(patient.dateOfBirth).toISOString().split("T")[0] : "",
+  microchipNumber: patient.microchipNumber ?? "",
+});
+
+const blankToNull = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// Validated with the same rules the server applies; errors are keyed by field
+export function toPatientInput(values: PatientFormValues):
+  | { success: true; data: PatientInput }
+  | { success: false; errors: Record<string, string> } {
+  const result = patientInputSchema.safeParse({
+    name: blankToNull(values.name),
+    species: values.species,
+    breed: values.breed.trim(),
+    sex: blankToNull(values.sex),
+    dateOfBirth: blankToNull(values.dateOfBirth),
+    microchipNumber: blankToNull(values.microchipNumber),
+  });
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const field = String(issue.path[0] ?? "species");
+    if (!errors[field]) {
+      errors[field] = field === "species" ? "Species is required" : field === "breed" ? "Breed is required" : issue.message;
+    }
+  }
+  return { success: false, errors };
+}
+
+interface PatientFormProps {
+  initialValues: PatientFormValues;
+  // Species stays fixed once the patient has cases
+  speciesLocked?: boolean;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (data: PatientInput) => void;
+  onCancel?: () => void;
+}
+
+export default function PatientForm({ initialValues, speciesLocked, submitLabel, isSubmitting, onSubmit, onCancel }: PatientFormProps) {
+  const [values, setValues] = useState<PatientFormValues>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const set = (field: keyof PatientFormValues) => (value: string) => {
+    setValues(prev => ({
+      ...prev,
+      [field]: value === NONE ? "" : value,
+      ...(field === "species" && value !== prev.species ? { breed: "" } : {}),
+    }));
+    setErrors(prev => ({ ...prev, [field]: "" }));
+  };
+
+  const submit = () => {
+    const result = toPatientInput(values);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.data);
+  };
+
+  const fieldError = (field: keyof PatientFormValues) =>
+    errors[field] ? <p className="text-sm font-medium text-destructive">{errors[field]}</p> : null;
+
+  return (
+    <div className="space-y-4" data-testid="patient-form">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Patient Name</Label>
+          <Input
+            value={values.name}
+            onChange={(e) => set("name")(e.target.value)}
+            placeholder="Enter patient name"
+            data-testid="input-patient-form-name"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Microchip Number</Label>
+          <Input
+            value={values.microchipNumber}
+            onChange={(e) => set("microchipNumber")(e.target.value)}
+            placeholder="e.g., 985112004567890"
+            data-testid="input-patient-form-microchip"
+          />
+          {fieldError("microchipNumber")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Species *</Label>
+          <Select value={values.species} onValueChange={set("species")} disabled={speciesLocked}>
+            <SelectTrigger data-testid="select-patient-form-species">
+              <SelectValue placeholder="Select Species" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(SPECIES_BREEDS).map((species) => (
+                <SelectItem key={species} value={species}>{species}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {speciesLocked && (
+            <p className="text-xs text-muted-foreground">The species cannot change once the patient has cases</p>
+          )}
+          {fieldError("species")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Breed *</Label>
+          <Combobox
+            value={values.breed}
+            onValueChange={set("breed")}
+            options={values.species ? (SPECIES_BREEDS[values.species] || []) : []}
+            placeholder={values.species ? "Select or type breed" : "Select species first"}
+            searchPlaceholder="Search breeds..."
+            emptyText="No breed found. Type to add custom."
+            disabled={!values.species}
+            testId="select-patient-form-breed"
+          />
+          {fieldError("breed")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Sex</Label>
+          <Select value={values.sex || NONE} onValueChange={set("sex")}>
+            <SelectTrigger data-testid="select-patient-form-sex">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not recorded</SelectItem>
+              {Object.entries(SEX_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Date of Birth</Label>
+          <Input
+            type="date"
+            value={values.dateOfBirth}
+            onChange={(e) => set("dateOfBirth")(e.target.value)}
+            data-testid="input-patient-form-dob"
+          />
+          <p className="text-xs text-muted-foreground">When known, the age at diagnosis of each case is worked out from it</p>
+          {fieldError("dateOfBirth")}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} data-testid="button-cancel-patient">
+            Cancel
+          </Button>
+        )}
+        <Button type="button" onClick={submit} disabled={isSubmitting} data-testid="button-save-patient">
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import OwnerForm, { CONSENT_STATUS_LABELS, emptyOwnerValues, ownerToFormValues } from "@/components/patients/owner-form";
+import type { Owner, OwnerInput, OwnerWithConsentForm, PatientWithCases } from "@shared/schema";
+
+const CONSENT_BADGE_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  PENDING: "secondary",
+  GRANTED: "default",
+  REFUSED: "destructive",
+  WITHDRAWN: "destructive",
+};
+
+interface PatientOwnerProps {
+  patient: PatientWithCases;
+}
+
+// The patient's owner and their research consent. Only rendered for staff of the
+// patient's clinic; the server refuses owner reads to anyone else.
+export default function PatientOwner({ patient }: PatientOwnerProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dialog, setDialog] = useState<"create" | "edit" | "link" | null>(null);
+  const [linkOwnerId, setLinkOwnerId] = useState("");
+
+  const ownerKey = [`/api/patients/${patient.id}/owner`];
+  const { data: owner, isLoading } = useQuery<OwnerWithConsentForm | null>({
+    queryKey: ownerKey,
+  });
+
+  const { data: owners = [] } = useQuery<Owner[]>({
+    queryKey: ["/api/owners"],
+    enabled: dialog === "link",
+  });
+
+  // Consent forms are filed with the patient's most recent case
+  const consentCase = patient.cases[0];
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ownerKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/owners"] });
+    toast({ title });
+    setDialog(null);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: OwnerInput) => {
+      const response = await apiRequest("POST", `/api/patients/${patient.id}/owner`, data);
+      return response.json();
+    },
+    onSuccess: () => onSaved("Owner added"),
+    onError: onError("Failed to add owner"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: OwnerInput) => {
+      const response = await apiRequest("PUT", `/api/owners/${owner!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => onSaved("Owner updated"),
+    onError: onError("Failed to update owner"),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async (ownerId: string | null) => {
+      const response = await apiRequest("PUT", `/api/patients/${patient.id}/owner`, { ownerId });
+      return response.json();
+    },
+    onSuccess: (_data, ownerId) => onSaved(ownerId ? "Owner linked" : "Owner unlinked"),
+    onError: onError("Failed to link owner"),
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("caseId", consentCase!.id);
+
+      const response = await fetch(`/api/owners/${owner!.id}/consent-form`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Upload failed");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ownerKey });
+      toast({ title: "Consent form uploaded" });
+    },
+    onError: onError("Upload failed"),
+    onSettled: () => {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    },
+  });
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const maxSize = 20 * 1024 * 1024; // 20MB
+    if (file.size > maxSize) {
+      toast({
+        title: "File too large",
+        description: "Maximum file size is 20MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploadMutation.mutate(file);
+  };
+
+  const otherOwners = owners.filter(o => o.id !== owner?.id);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Owner &amp; Consent</CardTitle>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setLinkOwnerId("");
+              setDialog("link");
+            }}
+            data-testid="button-link-owner"
+          >
+            {owner ? "Change Owner" : "Link Existing Owner"}
+          </Button>
+          {owner ? (
+            <Button size="sm" onClick={() => setDialog("edit")} data-testid="button-edit-owner">
+              Edit Owner
+            </Button>
+          ) : (
+            <Button size="sm" onClick={() => setDialog("create")} data-testid="button-add-owner">
+              Add Owner
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground mb-4">
+          Owner details are only shown to staff of {patient.clinic.name}. They are never shared with other clinics or
+          included in exports and analytics.
+        </p>
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading owner...</div>
+        ) : !owner ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <i className="fas fa-user text-3xl mb-2 opacity-50"></i>
+            <p>No owner recorded for this patient</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Name</p>
+              <p className="font-medium" data-testid="text-owner-name">{owner.name}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Phone</p>
+              <p className="font-medium">{owner.phone || "Not recorded"}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">LGA</p>
+              <p className="font-medium">{owner.lga || "Not recorded"}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Research Consent</p>
+              <Badge variant={CONSENT_BADGE_VARIANTS[owner.consentStatus]} data-testid="badge-owner-consent">
+                {CONSENT_STATUS_LABELS[owner.consentStatus]}
+              </Badge>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Consent Date</p>
+              <p className="font-medium">
+                {owner.consentDate ? new Date(owner.consentDate).toLocaleDateString() : "—"}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Consent Form</p>
+              {owner.consentForm ? (
+                <a
+                  href={`/api/owners/${owner.id}/consent-form`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium hover:underline"
+                  data-testid="link-consent-form"
+                >
+                  <i className="fas fa-file-signature mr-2"></i>
+                  {owner.consentForm.originalName}
+                </a>
+              ) : (
+                <p className="font-medium">Not on file</p>
+              )}
+              <div className="mt-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*,application/pdf"
+                  className="hidden"
+                  onChange={handleFileSelect}
+                  data-testid="input-consent-form"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!consentCase || uploadMutation.isPending}
+                  data-testid="button-upload-consent-form"
+                >
+                  {uploadMutation.isPending ? "Uploading..." : owner.consentForm ? "Replace Scan" : "Upload Scan"}
+                </Button>
+                {!consentCase && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The form is filed with a case; record one for this patient first
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog === "create" || dialog === "edit"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{dialog === "edit" ? "Edit Owner" : "Add Owner"}</DialogTitle>
+            <DialogDescription>
+              {dialog === "edit"
+                ? "Changes apply to every patient of this owner."
+                : "The owner is registered at this clinic and linked to this patient."}
+            </DialogDescription>
+          </DialogHeader>
+          {dialog === "edit" && owner && (
+            <OwnerForm
+              initialValues={ownerToFormValues(owner)}
+              submitLabel="Save Owner"
+              isSubmitting={updateMutation.isPending}
+              onSubmit={(data) => updateMutation.mutate(data)}
+              onCancel={() => setDialog(null)}
+            />
+          )}
+          {dialog === "create" && (
+            <OwnerForm
+              initialValues={emptyOwnerValues}
+              submitLabel="Add Owner"
+              isSubmitting={createMutation.isPending}
+              onSubmit={(data) => createMutation.mutate(data)}
+              onCancel={() => setDialog(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "link"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{owner ? "Change Owner" : "Link Existing Owner"}</DialogTitle>
+            <DialogDescription>Pick an owner already registered at this clinic, for example for a second pet.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Owner</Label>
+            <Select value={linkOwnerId} onValueChange={setLinkOwnerId}>
+              <SelectTrigger data-testid="select-link-owner">
+                <SelectValue placeholder={otherOwners.length ? "Select Owner" : "No other owners registered"} />
+              </SelectTrigger>
+              <SelectContent>
+                {otherOwners.map((o) => (
+                  <SelectItem key={o.id} value={o.id}>
+                    {o.name}{o.phone && ` · ${o.phone}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-between gap-2">
+            {owner ? (
+              <Button
+                variant="outline"
+                onClick={() => linkMutation.mutate(null)}
+                disabled={linkMutation.isPending}
+                data-testid="button-unlink-owner"
+              >
+                Remove Owner
+              </Button>
+            ) : <span />}
+            <Button
+              onClick={() => linkMutation.mutate(linkOwnerId)}
+              disabled={!linkOwnerId || linkMutation.isPending}
+              data-testid="button-confirm-link-owner"
+            >
+              Link Owner
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
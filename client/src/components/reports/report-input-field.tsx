@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SPECIES_BREEDS } from "@/lib/constants";
+import type { ReportTemplate } from "@shared/schema";
+
+export type ReportInput = ReportTemplate["definition"]["inputs"][number];
+
+export const formatInputLabel = (name: string) =>
+  name
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .replace(/^\w/, (c) => c.toUpperCase());
+
+interface ReportInputFieldProps {
+  input: ReportInput;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function ReportInputField({ input, value, onChange }: ReportInputFieldProps) {
+  const { data: clinics = [] } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["/api/lookups/clinics"],
+    enabled: input.type === "clinic",
+  });
+
+  if (input.type === "clinic" || input.type === "species") {
+    const options =
+      input.type === "clinic"
+        ? clinics.map((c) => ({ value: c.id, label: c.name }))
+        : Object.keys(SPECIES_BREEDS).map((s) => ({ value: s, label: s }));
+
+    return (
+      <Select value={value || "__all"} onValueChange={(next) => onChange(next === "__all" ? "" : next)}>
+        <SelectTrigger data-testid={`select-report-input-${input.name}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {!input.required && <SelectItem value="__all">All</SelectItem>}
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      type={input.type === "date" ? "date" : input.type === "number" ? "number" : "text"}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      data-testid={`input-report-input-${input.name}`}
+    />
+  );
+}
@@ -0,0 +1,420 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reportFormatSchema, reportPeriodSchema } from "@shared/schema";
+import type { ReportTemplate, ScheduledReportWithTemplate } from "@shared/schema";
+import { ReportInputField, formatInputLabel } from "./report-input-field";
+
+const FREQUENCY_PRESETS = [
+  { value: "daily", label: "Daily at 07:00", cron: "0 7 * * *" },
+  { value: "weekly", label: "Weekly on Monday at 07:00", cron: "0 7 * * 1" },
+  { value: "monthly", label: "Monthly on the 1st at 07:00", cron: "0 7 1 * *" },
+  { value: "custom", label: "Custom (cron expression)", cron: "" },
+] as const;
+
+const PERIOD_LABELS: Record<string, string> = {
+  previous_day: "Previous day",
+  previous_week: "Previous week (Mon-Sun)",
+  previous_month: "Previous month",
+  previous_quarter: "Previous quarter",
+  previous_year: "Previous year",
+};
+
+const describeCron = (cron: string) =>
+  FREQUENCY_PRESETS.find((p) => p.cron === cron)?.label ?? cron;
+
+const formatDateTime = (value: string | Date | null) =>
+  value ? `${new Date(value).toLocaleDateString()} ${new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : "-";
+
+const MANAGER_ROLES = ["MANAGER", "ADMIN"];
+
+interface ScheduleReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: ReportTemplate[];
+  initialTemplateId?: string;
+}
+
+export function ScheduleReportDialog({ open, onOpenChange, templates, initialTemplateId }: ScheduleReportDialogProps) {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState("");
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<string>("monthly");
+  const [customCron, setCustomCron] = useState("");
+  const [recipients, setRecipients] = useState("");
+  const [format, setFormat] = useState<string>(reportFormatSchema.options[0]);
+  const [period, setPeriod] = useState<string>("previous_month");
+  const [filters, setFilters] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const template = templates.find((t) => t.id === initialTemplateId);
+    setTemplateId(template?.id ?? "");
+    setName(template?.name ?? "");
+    setFrequency("monthly");
+    setCustomCron("");
+    setRecipients("");
+    setFormat(reportFormatSchema.options[0]);
+    setPeriod("previous_month");
+    setFilters({});
+  }, [open, initialTemplateId, templates]);
+
+  const template = templates.find((t) => t.id === templateId);
+  const dateInputs = template?.definition.inputs.filter((i) => i.type === "date") ?? [];
+  const otherInputs = template?.definition.inputs.filter((i) => i.type !== "date") ?? [];
+
+  const createScheduleMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const response = await apiRequest("POST", "/api/reports/schedules", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+      onOpenChange(false);
+      toast({
+        title: "Schedule created",
+        description: "The report will be emailed to the recipients on each run.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create schedule",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const cron = frequency === "custom" ? customCron.trim() : FREQUENCY_PRESETS.find((p) => p.value === frequency)!.cron;
+    const recipientList = recipients.split(/[,;\s]+/).map((r) => r.trim()).filter(Boolean);
+    const missing = otherInputs.filter((input) => input.required && !filters[input.name]);
+
+    if (!template || !name.trim() || !cron || recipientList.length === 0 || missing.length > 0) {
+      toast({
+        title: "Missing information",
+        description: "Please choose a template and provide a name, frequency, recipients and all required inputs.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createScheduleMutation.mutate({
+      templateId: template.id,
+      name: name.trim(),
+      cron,
+      recipients: recipientList,
+      format,
+      filters: {
+        ...Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== "")),
+        ...(dateInputs.length > 0 ? { period } : {}),
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule Report</DialogTitle>
+          <DialogDescription>
+            The report runs automatically and is emailed to every recipient as an attachment.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Report Template</Label>
+            <Select value={templateId} onValueChange={(value) => { setTemplateId(value); setFilters({}); }}>
+              <SelectTrigger data-testid="select-schedule-template">
+                <SelectValue placeholder="Select a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Schedule Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} data-testid="input-schedule-name" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={setFrequency}>
+              <SelectTrigger data-testid="select-schedule-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FREQUENCY_PRESETS.map((preset) => (
+                  <SelectItem key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {frequency === "custom" && (
+              <Input
+                placeholder="e.g. 30 6 * * 1-5"
+                value={customCron}
+                onChange={(e) => setCustomCron(e.target.value)}
+                data-testid="input-schedule-cron"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Recipients</Label>
+            <Input
+              placeholder="name@clinic.ng, other@clinic.ng"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              data-testid="input-schedule-recipients"
+            />
+            <p className="text-xs text-muted-foreground">Separate multiple email addresses with commas.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={setFormat}>
+              <SelectTrigger data-testid="select-schedule-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reportFormatSchema.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {dateInputs.length > 0 && (
+            <div className="space-y-2">
+              <Label>Reporting Period</Label>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger data-testid="select-schedule-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportPeriodSchema.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {PERIOD_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Calculated from the date of each run.</p>
+            </div>
+          )}
+
+          {otherInputs.map((input) => (
+            <div key={input.name} className="space-y-2">
+              <Label>
+                {formatInputLabel(input.name)}
+                {input.required && <span className="text-destructive ml-1">*</span>}
+              </Label>
+              <ReportInputField
+                input={input}
+                value={filters[input.name] || ""}
+                onChange={(value) => setFilters((prev) => ({ ...prev, [input.name]: value }))}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-schedule">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={createScheduleMutation.isPending}
+              data-testid="button-save-schedule"
+            >
+              {createScheduleMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                "Save Schedule"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ScheduledReportsProps {
+  onCreate: () => void;
+}
+
+export function ScheduledReports({ onCreate }: ScheduledReportsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = MANAGER_ROLES.includes(user?.role || "");
+  const [scheduleToDelete, setScheduleToDelete] = useState<ScheduledReportWithTemplate | null>(null);
+
+  const { data: schedules, isLoading } = useQuery<ScheduledReportWithTemplate[]>({
+    queryKey: ["/api/reports/schedules"],
+  });
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/reports/schedules/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update schedule",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/reports/schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/schedules"] });
+      setScheduleToDelete(null);
+      toast({ title: "Schedule deleted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete schedule",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Scheduled Reports</CardTitle>
+        {canManage && (
+          <Button size="sm" onClick={onCreate} data-testid="button-new-schedule">
+            <i className="fas fa-plus mr-2"></i>New Schedule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading schedules...</p>
+        ) : schedules && schedules.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Frequency</TableHead>
+                <TableHead>Recipients</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Active</TableHead>
+                {canManage && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell>
+                    <p className="font-medium">{schedule.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.templateName} <Badge variant="outline" className="ml-1">{schedule.format}</Badge>
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm">{describeCron(schedule.cron)}</TableCell>
+                  <TableCell className="text-sm">{schedule.recipients.join(", ")}</TableCell>
+                  <TableCell className="text-sm">{formatDateTime(schedule.lastRunAt)}</TableCell>
+                  <TableCell className="text-sm">{schedule.isActive ? formatDateTime(schedule.nextRunAt) : "Paused"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.isActive}
+                      disabled={!canManage || updateScheduleMutation.isPending}
+                      onCheckedChange={(checked) => updateScheduleMutation.mutate({ id: schedule.id, isActive: checked })}
+                      data-testid={`switch-schedule-active-${schedule.id}`}
+                    />
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setScheduleToDelete(schedule)}
+                        data-testid={`button-delete-schedule-${schedule.id}`}
+                      >
+                        <i className="fas fa-trash text-destructive"></i>
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <i className="fas fa-clock text-4xl mb-4"></i>
+            <p className="text-lg font-medium mb-2">No scheduled reports</p>
+            <p className="text-sm">Schedule a report template to have it emailed automatically.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent data-testid="delete-schedule-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete the schedule <strong>{scheduleToDelete?.name}</strong>? Recipients will no longer receive this report.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="cancel-delete-schedule">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => scheduleToDelete && deleteScheduleMutation.mutate(scheduleToDelete.id)}
+              disabled={deleteScheduleMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="confirm-delete-schedule"
+            >
+              {deleteScheduleMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
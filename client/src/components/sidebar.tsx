@@ -8,6 +8,7 @@ import {
   LogOut,
   LayoutDashboard,
   FolderOpen,
+  PawPrint,
   BarChart3,
   FileText,
   Upload,
@@ -29,6 +30,7 @@ export default function Sidebar() {
   const navigation = [
     { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
     { name: "Cases", href: "/cases", icon: FolderOpen },
+    { name: "Patients", href: "/patients", icon: PawPrint },
     { name: "Analytics", href: "/analytics", icon: BarChart3 },
     { name: "Reports", href: "/reports", icon: FileText },
     { name: "Bulk Upload", href: "/bulk-upload", icon: Upload },
@@ -6,6 +6,7 @@ export interface DashboardStats {
   casesByMonth: Array<{month: string; count: number}>;
   topTumourTypes: Array<{name: string; count: number}>;
   casesByState: Array<{state: string; count: number}>;
+  casesByGrade?: Array<{grade: string; count: number}>;
   recentActivity: Array<{
     id: string;
     type: string;
@@ -26,6 +27,7 @@ export interface CaseFilters {
   state?: string[];
   clinicId?: string[];
   tumourTypeId?: string[];
+  clinicalStage?: string[];
   sort?: 'clinic' | 'zone' | 'state' | 'date' | 'case_number';
   order?: 'asc' | 'desc';
   groupBy?: 'none' | 'zone' | 'state' | 'clinic';
@@ -93,6 +93,12 @@ export default function Analytics() {
   });
   const hasTumourDistributionData = tumourDistributionRows.length > 0;
 
+  const gradeRows = (stats.casesByGrade ?? []).map((item) => ({
+    grade: item.grade,
+    cases: item.count,
+  }));
+  const hasGradeData = gradeRows.length > 0;
+
   const handleCasesOverTimeExport = () => {
     if (!hasCasesOverTimeData) {
       return;
@@ -142,6 +148,30 @@ export default function Analytics() {
     }
   };
 
+  const handleGradeExport = () => {
+    if (!hasGradeData) {
+      return;
+    }
+
+    try {
+      exportToCsv({
+        rows: gradeRows,
+        headers: [
+          { key: "grade", label: "grade" },
+          { key: "cases", label: "cases" },
+        ],
+        filename: "cases-by-histologic-grade",
+      });
+    } catch (err) {
+      console.error(err);
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: "We couldn't export the Cases by Histologic Grade data. Please try again.",
+      });
+    }
+  };
+
   return (
     <div className="p-4 sm:p-6">
       {/* Header */}
@@ -293,6 +323,49 @@ export default function Analytics() {
           </CardContent>
         </Card>
 
+        {/* Histologic Grade */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle>Cases by Histologic Grade</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              data-testid="button-export-grade-chart"
+              onClick={handleGradeExport}
+              disabled={!hasGradeData}
+              aria-label={
+                hasGradeData
+                  ? "Export Cases by Histologic Grade as CSV"
+                  : "No histologic grade data to export"
+              }
+            >
+              <i className="fas fa-download mr-2"></i>Export
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              {hasGradeData ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stats.casesByGrade}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="grade" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Cases" fill="hsl(var(--primary))" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center text-muted-foreground">
+                  <div className="text-center">
+                    <i className="fas fa-microscope text-4xl mb-2"></i>
+                    <p>No pathology reports recorded yet</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Species Breakdown */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DeletedCase } from "@shared/schema";
+
+interface CaseTrash {
+  retentionDays: number;
+  cases: Array<DeletedCase & { purgeAt: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function CaseTrash() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [caseToRestore, setCaseToRestore] = useState<DeletedCase | null>(null);
+  const canRestore = user?.role === "MANAGER" || user?.role === "ADMIN";
+
+  const { data: trash, isLoading } = useQuery<CaseTrash>({
+    queryKey: ["/api/cases/trash"],
+    enabled: canRestore,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (caseId: string) => {
+      const response = await apiRequest("POST", `/api/cases/${caseId}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/stats"] });
+      toast({
+        title: "Case restored",
+        description: `${caseToRestore?.caseNumber} is back in the case list.`,
+      });
+      setCaseToRestore(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore case",
+        description: error.message,
+        variant: "destructive",
+      });
+      setCaseToRestore(null);
+    },
+  });
+
+  if (!canRestore) {
+    return (
+      <div className="container mx-auto py-8 text-center">
+        <p data-testid="text-trash-not-allowed">Only clinic managers and admins can view deleted cases.</p>
+      </div>
+    );
+  }
+
+  const daysLeft = (purgeAt: string) => Math.max(0, Math.ceil((new Date(purgeAt).getTime() - Date.now()) / DAY_MS));
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Trash</h2>
+          <p className="text-muted-foreground">
+            Deleted cases of your clinic. They can be restored for {trash?.retentionDays ?? "a number of"} days, after
+            which they are permanently removed.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <Link href="/cases">
+            <Button variant="outline" data-testid="button-back-to-cases">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Cases
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Cases</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !trash || trash.cases.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <i className="fas fa-trash text-3xl mb-2 opacity-50"></i>
+              <p>The trash is empty</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Case Number</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Tumour Type</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Removed In</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trash.cases.map((caseItem) => (
+                  <TableRow key={caseItem.id} data-testid={`trash-row-${caseItem.id}`}>
+                    <TableCell className="font-medium">{caseItem.caseNumber}</TableCell>
+                    <TableCell>
+                      {caseItem.patientName || "Unnamed"}
+                      <span className="text-muted-foreground"> ({caseItem.species})</span>
+                    </TableCell>
+                    <TableCell>{caseItem.tumourTypeName || caseItem.tumourTypeCustom || "Unknown"}</TableCell>
+                    <TableCell>
+                      {caseItem.deletedAt ? new Date(caseItem.deletedAt).toLocaleDateString() : ""}
+                      <div className="text-xs text-muted-foreground">by {caseItem.deletedByName || "Unknown user"}</div>
+                    </TableCell>
+                    <TableCell>
+                      {daysLeft(caseItem.purgeAt) === 0 ? "Pending removal" : `${daysLeft(caseItem.purgeAt)} days`}
+                      {caseItem.holdsConsentForm && (
+                        <div className="text-xs text-muted-foreground" data-testid={`text-consent-hold-${caseItem.id}`}>
+                          Kept while it holds an owner's consent form; upload the form again from the patient page to
+                          release it
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCaseToRestore(caseItem)}
+                        disabled={daysLeft(caseItem.purgeAt) === 0}
+                        data-testid={`button-restore-${caseItem.id}`}
+                      >
+                        <i className="fas fa-trash-restore mr-2"></i>
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!caseToRestore} onOpenChange={(open) => !open && setCaseToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Case</AlertDialogTitle>
+            <AlertDialogDescription>
+              Case <strong>{caseToRestore?.caseNumber}</strong> will return to the case list, analytics and reports
+              with all of its files and follow-ups.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-restore">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => caseToRestore && restoreMutation.mutate(caseToRestore.id)}
+              disabled={restoreMutation.isPending}
+              data-testid="button-confirm-restore"
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -44,6 +44,9 @@ const outcomeLabels = {
   LOST_TO_FOLLOWUP: "Lost to Follow-up",
 };
 
+// Stage groups of the WHO staging schemes (see shared/staging.ts)
+const clinicalStageOptions = ["0", "I", "II", "III", "IV", "V"].map(stage => ({ value: stage, label: `Stage ${stage}` }));
+
 interface NgState {
   code: string;
   name: string;
@@ -198,6 +201,7 @@ export default function Cases() {
     if (params.getAll('state').length) urlFilters.state = params.getAll('state');
     if (params.getAll('clinicId').length) urlFilters.clinicId = params.getAll('clinicId');
     if (params.getAll('tumourTypeId').length) urlFilters.tumourTypeId = params.getAll('tumourTypeId');
+    if (params.getAll('clinicalStage').length) urlFilters.clinicalStage = params.getAll('clinicalStage');
 
     setFilters(urlFilters);
   }, []);
@@ -214,6 +218,7 @@ export default function Cases() {
     if (filters.state) filters.state.forEach(s => params.append('state', s));
     if (filters.clinicId) filters.clinicId.forEach(c => params.append('clinicId', c));
     if (filters.tumourTypeId) filters.tumourTypeId.forEach(t => params.append('tumourTypeId', t));
+    if (filters.clinicalStage) filters.clinicalStage.forEach(s => params.append('clinicalStage', s));
     if (filters.groupBy && filters.groupBy !== 'none') params.set('groupBy', filters.groupBy);
     if (filters.sort) params.set('sort', filters.sort);
     if (filters.order) params.set('order', filters.order);
@@ -256,10 +261,11 @@ export default function Cases() {
       }
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
       toast({
-        title: "Case deleted successfully",
+        title: "Case deleted",
+        description: data.message,
       });
       setDeleteDialogOpen(false);
       setCaseToDelete(null);
@@ -523,6 +529,13 @@ export default function Cases() {
               <i className="fas fa-upload mr-2"></i>Bulk Import
             </a>
           </Button>
+          {(user?.role === 'MANAGER' || user?.role === 'ADMIN') && (
+            <Button asChild variant="outline" data-testid="button-trash">
+              <Link href="/cases/trash">
+                <i className="fas fa-trash-restore mr-2"></i>Trash
+              </Link>
+            </Button>
+          )}
         </div>
       </div>
 
@@ -643,6 +656,15 @@ export default function Cases() {
               testId="filter-tumour-type"
               searchable
             />
+
+            <MultiSelectFilter
+              label="Clinical Stage"
+              options={clinicalStageOptions}
+              selectedValues={filters.clinicalStage || []}
+              onSelectionChange={(values) => handleMultiSelectChange('clinicalStage', values)}
+              placeholder="All Stages"
+              testId="filter-clinical-stage"
+            />
           </div>
 
           {/* Row 3: Grouping and Sorting */}
@@ -765,6 +787,18 @@ export default function Cases() {
                 </button>
               </Badge>
             )}
+            {filters.clinicalStage && filters.clinicalStage.length > 0 && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Stages: {filters.clinicalStage.join(", ")}
+                <button
+                  onClick={() => handleMultiSelectChange('clinicalStage', [])}
+                  className="ml-1 hover:text-destructive"
+                  data-testid="remove-filter-clinical-stage"
+                >
+                  <i className="fas fa-times text-xs"></i>
+                </button>
+              </Badge>
+            )}
             {filters.tumourTypeId && filters.tumourTypeId.length > 0 && (
               <Badge variant="secondary" className="flex items-center gap-1">
                 Tumour Types: {filters.tumourTypeId.length}
@@ -927,7 +961,7 @@ export default function Cases() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Case</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete case <strong>{caseToDelete?.caseNumber}</strong>? This action cannot be undone.
+              Are you sure you want to delete case <strong>{caseToDelete?.caseNumber}</strong>? It will be moved to the trash, where a clinic manager can restore it until it is permanently removed.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,61 @@
+import { useRoute, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import CaseWizard from "@/components/case-wizard";
+import { useAuth } from "@/hooks/use-auth";
+import type { CaseWithDetails } from "@shared/schema";
+
+export default function EditCase() {
+  const [, params] = useRoute("/cases/:id/edit");
+  const caseId = params?.id;
+  const { user, clinic } = useAuth();
+
+  const { data: caseData, isLoading } = useQuery<CaseWithDetails>({
+    queryKey: [`/api/cases/${caseId}`],
+    enabled: !!caseId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!caseData) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center">Case not found</div>
+      </div>
+    );
+  }
+
+  // Same rules as the server: admins, managers of the case's clinic and the case creator
+  const isSameClinic = !!clinic && caseData.clinic?.id === clinic.id;
+  const canEdit = !!user && (
+    user.role === 'ADMIN' ||
+    (isSameClinic && (user.role === 'MANAGER' || caseData.createdBy?.id === user.id))
+  );
+
+  if (!canEdit) {
+    return (
+      <div className="container mx-auto py-8 text-center space-y-4">
+        <p data-testid="text-edit-not-allowed">Only the case creator, clinic managers and admins can edit this case.</p>
+        <Link href={`/cases/${caseData.id}`}>
+          <Button variant="outline" data-testid="button-back-to-case">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Case
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6">
+      <CaseWizard existingCase={caseData} />
+    </div>
+  );
+}
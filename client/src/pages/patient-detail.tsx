@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useRoute, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import PatientForm, { patientToFormValues, SEX_LABELS } from "@/components/patients/patient-form";
+import PatientOwner from "@/components/patients/patient-owner";
+import { ageAt, formatAge } from "@shared/patients";
+import type { PatientInput, PatientWithCases } from "@shared/schema";
+
+export default function PatientDetail() {
+  const [, params] = useRoute("/patients/:id");
+  const patientId = params?.id;
+  const { toast } = useToast();
+  const { user, clinic } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: patient, isLoading } = useQuery<PatientWithCases>({
+    queryKey: [`/api/patients/${patientId}`],
+    enabled: !!patientId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: PatientInput) => {
+      const response = await apiRequest("PUT", `/api/patients/${patientId}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      // The patient's cases carry its signalment
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      patient?.cases.forEach(c => queryClient.invalidateQueries({ queryKey: [`/api/cases/${c.id}`] }));
+      toast({ title: "Patient updated" });
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update patient",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center">Loading patient...</div>
+      </div>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Patient not found</h2>
+          <Link href="/patients">
+            <Button>Back to Patients</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = !!user && user.role !== "RESEARCHER" && (user.role === "ADMIN" || patient.clinic.id === clinic?.id);
+  // Owner details never leave the patient's clinic and are kept from researchers
+  const canViewOwner = !!user && user.role !== "RESEARCHER" && patient.clinic.id === clinic?.id;
+  const currentAge = patient.dateOfBirth ? ageAt(patient.dateOfBirth, new Date()) : null;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/patients">
+            <Button variant="ghost" size="sm" data-testid="button-back-to-patients">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Patients
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold mt-2" data-testid="text-patient-name">{patient.name || "Unnamed Patient"}</h1>
+          <p className="text-muted-foreground">
+            {patient.species} · {patient.breed} · {patient.clinic.name}
+          </p>
+        </div>
+        {canEdit && (
+          <Button variant="outline" onClick={() => setIsEditing(true)} data-testid="button-edit-patient">
+            Edit Patient
+          </Button>
+        )}
+      </div>
+
+      {/* Signalment */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Signalment</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Species</p>
+              <p className="font-medium" data-testid="text-patient-species">{patient.species}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Breed</p>
+              <p className="font-medium" data-testid="text-patient-breed">{patient.breed}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Sex</p>
+              <p className="font-medium">{patient.sex ? SEX_LABELS[patient.sex] : "Not recorded"}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Date of Birth</p>
+              <p className="font-medium">
+                {patient.dateOfBirth ? new Date(patient.dateOfBirth).toLocaleDateString() : "Unknown"}
+                {currentAge && <span className="text-muted-foreground"> ({formatAge(currentAge.years, currentAge.months)})</span>}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Microchip Number</p>
+              <p className="font-medium" data-testid="text-patient-microchip">{patient.microchipNumber || "Not recorded"}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {canViewOwner && <PatientOwner patient={patient} />}
+
+      {/* Cases */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cases ({patient.cases.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {patient.cases.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <i className="fas fa-folder-open text-3xl mb-2 opacity-50"></i>
+              <p>No cases recorded for this patient</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Case Number</TableHead>
+                  <TableHead>Diagnosed</TableHead>
+                  <TableHead>Tumour Type</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Age at Diagnosis</TableHead>
+                  <TableHead>Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patient.cases.map((caseItem) => (
+                  <TableRow key={caseItem.id} data-testid={`patient-case-${caseItem.id}`}>
+                    <TableCell className="font-medium">
+                      <Link href={`/cases/${caseItem.id}`} className="hover:underline">
+                        {caseItem.caseNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{new Date(caseItem.diagnosisDate).toLocaleDateString()}</TableCell>
+                    <TableCell>{caseItem.tumourTypeName || caseItem.tumourTypeCustom || "Unknown"}</TableCell>
+                    <TableCell>{caseItem.stage || "—"}</TableCell>
+                    <TableCell>{formatAge(caseItem.ageYears, caseItem.ageMonths) || "—"}</TableCell>
+                    <TableCell>
+                      {caseItem.outcome ? (
+                        <Badge variant="secondary">{caseItem.outcome.replace(/_/g, " ")}</Badge>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Patient</DialogTitle>
+            <DialogDescription>
+              Changes to the signalment are copied to every case of this patient.
+            </DialogDescription>
+          </DialogHeader>
+          {isEditing && (
+            <PatientForm
+              initialValues={patientToFormValues(patient)}
+              speciesLocked={patient.cases.length > 0}
+              submitLabel="Save Patient"
+              isSubmitting={updateMutation.isPending}
+              onSubmit={(data) => updateMutation.mutate(data)}
+              onCancel={() => setIsEditing(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SEX_LABELS } from "@/components/patients/patient-form";
+import { formatAge } from "@shared/patients";
+
+// Returned by /api/patients/migration
+interface ReviewCase {
+  id: string;
+  caseNumber: string;
+  patientName: string | null;
+  species: string;
+  breed: string;
+  sex: string | null;
+  ageYears: number | null;
+  ageMonths: number | null;
+  diagnosisDate: string;
+  tumourTypeName: string | null;
+}
+
+interface ProposedGroup {
+  patient: { name: string | null; species: string; breed: string; sex: string | null };
+  cases: ReviewCase[];
+  reasons: string[];
+}
+
+interface PatientReview {
+  unlinkedCount: number;
+  groups: ProposedGroup[];
+}
+
+export default function PatientReview() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canReview = user?.role === "MANAGER" || user?.role === "ADMIN";
+  // Cases left unticked stay unlinked and are proposed again next time
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const { data: review, isLoading } = useQuery<PatientReview>({
+    queryKey: ["/api/patients/migration"],
+    enabled: canReview,
+  });
+
+  const groups = review?.groups ?? [];
+  const matchedGroups = groups.filter(g => g.cases.length > 1);
+  const singleGroups = groups.filter(g => g.cases.length === 1);
+
+  const approvedGroups = groups
+    .map(g => g.cases.filter(c => !skipped.has(c.id)).map(c => c.id))
+    .filter(caseIds => caseIds.length > 0);
+  const approvedCaseCount = approvedGroups.reduce((total, caseIds) => total + caseIds.length, 0);
+
+  const toggle = (caseIds: string[], include: boolean) => {
+    setSkipped(prev => {
+      const next = new Set(prev);
+      caseIds.forEach(id => (include ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const migrateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/patients/migration", {
+        groups: approvedGroups.map(caseIds => ({ caseIds })),
+      });
+      return response.json() as Promise<{ patients: number; cases: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients/migration"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      toast({
+        title: "Patients registered",
+        description: `${result.cases} case(s) linked to ${result.patients} new patient(s).`,
+      });
+      setSkipped(new Set());
+      setIsConfirming(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to link cases",
+        description: error.message,
+        variant: "destructive",
+      });
+      setIsConfirming(false);
+    },
+  });
+
+  if (!canReview) {
+    return (
+      <div className="container mx-auto py-8 text-center">
+        <p data-testid="text-review-not-allowed">Only clinic managers and admins can link cases to patients.</p>
+      </div>
+    );
+  }
+
+  const caseRows = (groupCases: ReviewCase[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10"></TableHead>
+          <TableHead>Case Number</TableHead>
+          <TableHead>Patient</TableHead>
+          <TableHead>Diagnosed</TableHead>
+          <TableHead>Age</TableHead>
+          <TableHead>Sex</TableHead>
+          <TableHead>Tumour Type</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groupCases.map((c) => (
+          <TableRow key={c.id} data-testid={`review-case-${c.id}`}>
+            <TableCell>
+              <Checkbox
+                checked={!skipped.has(c.id)}
+                onCheckedChange={(checked) => toggle([c.id], checked === true)}
+                aria-label={`Link ${c.caseNumber}`}
+                data-testid={`checkbox-review-case-${c.id}`}
+              />
+            </TableCell>
+            <TableCell className="font-medium">
+              <Link href={`/cases/${c.id}`} className="hover:underline">{c.caseNumber}</Link>
+            </TableCell>
+            <TableCell>
+              {c.patientName || "Unnamed"}
+              <span className="text-muted-foreground"> ({c.species}, {c.breed})</span>
+            </TableCell>
+            <TableCell>{new Date(c.diagnosisDate).toLocaleDateString()}</TableCell>
+            <TableCell>{formatAge(c.ageYears, c.ageMonths) || "—"}</TableCell>
+            <TableCell>{c.sex ? SEX_LABELS[c.sex] : "—"}</TableCell>
+            <TableCell>{c.tumourTypeName || "Unknown"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Link Cases to Patients</h2>
+          <p className="text-muted-foreground">
+            Cases of your clinic recorded before the patient registry, or bulk imported, are not linked to a patient yet.
+            Each group below becomes one patient; untick any case that belongs to a different animal.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <Link href="/patients">
+            <Button variant="outline" data-testid="button-back-to-patients">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Patients
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : !review || review.unlinkedCount === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8 text-muted-foreground">
+            <i className="fas fa-check-circle text-3xl mb-2 opacity-50"></i>
+            <p>Every case of your clinic is linked to a patient</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <p className="text-sm" data-testid="text-review-summary">
+                {review.unlinkedCount} unlinked case(s): {matchedGroups.length} probable repeat patient(s) and{" "}
+                {singleGroups.length} case(s) with no match. {approvedCaseCount} case(s) ticked for{" "}
+                {approvedGroups.length} new patient(s).
+              </p>
+              <Button
+                onClick={() => setIsConfirming(true)}
+                disabled={approvedGroups.length === 0 || migrateMutation.isPending}
+                data-testid="button-link-cases"
+              >
+                <i className="fas fa-link mr-2"></i>
+                Register Patients
+              </Button>
+            </CardContent>
+          </Card>
+
+          {matchedGroups.map((group) => (
+            <Card key={group.cases[0].id} data-testid={`review-group-${group.cases[0].id}`}>
+              <CardHeader>
+                <div className="flex flex-wrap items-center gap-2">
+                  <CardTitle className="text-lg">
+                    {group.patient.name || "Unnamed"}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}· {group.patient.species} · {group.patient.breed}
+                      {group.patient.sex && ` · ${SEX_LABELS[group.patient.sex]}`}
+                    </span>
+                  </CardTitle>
+                  {group.reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary">{reason}</Badge>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent>{caseRows(group.cases)}</CardContent>
+            </Card>
+          ))}
+
+          {singleGroups.length > 0 && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-lg">Cases With No Match</CardTitle>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggle(singleGroups.map(g => g.cases[0].id), true)}
+                    data-testid="button-tick-all-singles"
+                  >
+                    Tick All
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggle(singleGroups.map(g => g.cases[0].id), false)}
+                    data-testid="button-untick-all-singles"
+                  >
+                    Untick All
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-4">Each ticked case is registered as its own patient.</p>
+                {caseRows(singleGroups.map(g => g.cases[0]))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={isConfirming} onOpenChange={setIsConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Register Patients</AlertDialogTitle>
+            <AlertDialogDescription>
+              {approvedGroups.length} patient(s) will be registered and {approvedCaseCount} case(s) linked to them. Each
+              case takes the name, breed and sex of its patient, as recorded on the group's most recent case. Unticked
+              cases stay unlinked.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-link-cases">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => migrateMutation.mutate()}
+              disabled={migrateMutation.isPending}
+              data-testid="button-confirm-link-cases"
+            >
+              {migrateMutation.isPending ? "Linking..." : "Register"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
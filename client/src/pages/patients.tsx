@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { SEX_LABELS } from "@/components/patients/patient-form";
+import type { PatientWithCaseCount } from "@shared/schema";
+
+export default function Patients() {
+  const { user } = useAuth();
+  const [search, setSearch] = useState("");
+  const canReview = user?.role === "MANAGER" || user?.role === "ADMIN";
+
+  const { data: patients = [], isLoading } = useQuery<PatientWithCaseCount[]>({
+    queryKey: ["/api/patients", { search: search.trim() || undefined }],
+  });
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Patients</h2>
+          <p className="text-muted-foreground">Animals registered at your clinic, each with all of its cases</p>
+        </div>
+        {canReview && (
+          <div className="mt-4 sm:mt-0">
+            <Link href="/patients/review">
+              <Button variant="outline" data-testid="button-review-unlinked">
+                <i className="fas fa-object-group mr-2"></i>
+                Review Unlinked Cases
+              </Button>
+            </Link>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle>Patient Registry</CardTitle>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or microchip"
+            className="max-w-xs"
+            data-testid="input-search-patients"
+          />
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : patients.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <i className="fas fa-paw text-3xl mb-2 opacity-50"></i>
+              <p>{search.trim() ? "No patients match your search" : "No patients registered yet"}</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Breed</TableHead>
+                  <TableHead>Sex</TableHead>
+                  <TableHead>Microchip</TableHead>
+                  <TableHead className="text-right">Cases</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patients.map((patient) => (
+                  <TableRow key={patient.id} data-testid={`patient-row-${patient.id}`}>
+                    <TableCell className="font-medium">
+                      <Link href={`/patients/${patient.id}`} className="hover:underline">
+                        {patient.name || "Unnamed"}
+                      </Link>
+                      <span className="text-muted-foreground"> ({patient.species})</span>
+                    </TableCell>
+                    <TableCell>{patient.breed}</TableCell>
+                    <TableCell>{patient.sex ? SEX_LABELS[patient.sex] : "Not recorded"}</TableCell>
+                    <TableCell>{patient.microchipNumber || "—"}</TableCell>
+                    <TableCell className="text-right">{patient.caseCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,89 +1,115 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReportInputField, formatInputLabel } from "@/components/reports/report-input-field";
+import { ScheduleReportDialog, ScheduledReports } from "@/components/reports/scheduled-reports";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reportFormatSchema } from "@shared/schema";
+import type { ReportTemplate, ReportInstanceWithTemplate } from "@shared/schema";
 
-interface ReportTemplate {
-  id: string;
-  name: string;
-  description: string;
-  lastRun?: string;
-  status: string;
-}
+const REPORT_FORMATS = reportFormatSchema.options;
 
-const mockTemplates: ReportTemplate[] = [
-  {
-    id: "1",
-    name: "Monthly Oncology Summary",
-    description: "Comprehensive monthly report of all oncology cases, outcomes, and trends",
-    lastRun: "2024-01-15",
-    status: "available"
-  },
-  {
-    id: "2", 
-    name: "Tumour Incidence Analysis",
-    description: "Detailed analysis of tumour types by species, breed, and anatomical site",
-    lastRun: "2024-01-10",
-    status: "available"
-  },
-  {
-    id: "3",
-    name: "Treatment Outcomes Report",
-    description: "Success rates and outcome analysis by treatment modality",
-    status: "available"
-  },
-  {
-    id: "4",
-    name: "Clinic Performance Dashboard",
-    description: "Comparative analysis of clinic performance metrics",
-    status: "available"
-  }
-];
-
-const mockReportHistory = [
-  {
-    id: "1",
-    template: "Monthly Oncology Summary",
-    generatedAt: "2024-01-15T10:30:00Z",
-    format: "PDF",
-    status: "completed",
-    downloadUrl: "#"
-  },
-  {
-    id: "2",
-    template: "Tumour Incidence Analysis", 
-    generatedAt: "2024-01-10T14:20:00Z",
-    format: "XLSX",
-    status: "completed",
-    downloadUrl: "#"
-  },
-  {
-    id: "3",
-    template: "Monthly Oncology Summary",
-    generatedAt: "2024-01-01T09:00:00Z",
-    format: "PDF", 
-    status: "failed",
-    error: "Insufficient data for the selected period"
+const statusBadgeClass = (status: string) => {
+  switch (status) {
+    case "COMPLETED":
+      return "bg-green-100 text-green-800";
+    case "FAILED":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-blue-100 text-blue-800";
   }
-];
+};
 
 export default function Reports() {
-  const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canSchedule = user?.role === "MANAGER" || user?.role === "ADMIN";
+  const [activeTab, setActiveTab] = useState("templates");
+  const [selectedTemplate, setSelectedTemplate] = useState<ReportTemplate | null>(null);
+  const [runParams, setRunParams] = useState<Record<string, string>>({});
+  const [runFormat, setRunFormat] = useState<string>(REPORT_FORMATS[0]);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [scheduleTemplateId, setScheduleTemplateId] = useState<string | undefined>();
 
-  // Mock query - would fetch real data in production
-  const { data: templates, isLoading } = useQuery({
+  const { data: templates, isLoading } = useQuery<ReportTemplate[]>({
     queryKey: ["/api/reports/templates"],
-    queryFn: () => Promise.resolve(mockTemplates),
   });
 
-  const { data: reportHistory } = useQuery({
+  const { data: reportHistory } = useQuery<ReportInstanceWithTemplate[]>({
     queryKey: ["/api/reports/history"],
-    queryFn: () => Promise.resolve(mockReportHistory),
+    // Keep polling while any run is still in progress
+    refetchInterval: (query) =>
+      query.state.data?.some((r) => r.status === "PENDING" || r.status === "RUNNING") ? 3000 : false,
+  });
+
+  const runReportMutation = useMutation({
+    mutationFn: async (data: { templateId: string; format: string; params: Record<string, string> }) => {
+      const response = await apiRequest("POST", "/api/reports/run", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/history"] });
+      setSelectedTemplate(null);
+      toast({
+        title: "Report started",
+        description: "Your report is being generated. It will appear in the history below.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to run report",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
   });
 
+  const openRunDialog = (template: ReportTemplate) => {
+    setSelectedTemplate(template);
+    setRunParams({});
+    setRunFormat(REPORT_FORMATS[0]);
+  };
+
+  const openScheduleDialog = (templateId?: string) => {
+    setScheduleTemplateId(templateId);
+    setScheduleDialogOpen(true);
+  };
+
+  const handleRunReport = () => {
+    if (!selectedTemplate) return;
+
+    const missing = selectedTemplate.definition.inputs.filter(
+      (input) => input.required && !runParams[input.name]
+    );
+    if (missing.length > 0) {
+      toast({
+        title: "Missing information",
+        description: `Please provide: ${missing.map((i) => formatInputLabel(i.name)).join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    runReportMutation.mutate({
+      templateId: selectedTemplate.id,
+      format: runFormat,
+      params: runParams,
+    });
+  };
+
+  const lastRunFor = (templateId: string) =>
+    reportHistory?.find((r) => r.templateId === templateId && r.status === "COMPLETED")?.completedAt;
+
   if (isLoading) {
     return (
       <div className="p-4 sm:p-6">
@@ -117,114 +143,226 @@ export default function Reports() {
         <p className="text-muted-foreground">Generate comprehensive reports and schedule automated deliveries</p>
       </div>
 
-      {/* Report Templates */}
-      <div className="mb-8">
-        <h3 className="text-lg font-semibold mb-4">Available Report Templates</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {templates?.map((template) => (
-            <Card key={template.id} className="cursor-pointer hover:shadow-md transition-shadow">
-              <CardHeader>
-                <CardTitle className="text-base">{template.name}</CardTitle>
-                <p className="text-sm text-muted-foreground">{template.description}</p>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  {template.lastRun && (
-                    <p className="text-xs text-muted-foreground">
-                      Last run: {new Date(template.lastRun).toLocaleDateString()}
-                    </p>
-                  )}
-                  <div className="flex gap-2">
-                    <Button 
-                      size="sm" 
-                      className="flex-1"
-                      data-testid={`button-run-report-${template.id}`}
-                    >
-                      <i className="fas fa-play mr-2"></i>Run Report
-                    </Button>
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      data-testid={`button-schedule-report-${template.id}`}
-                    >
-                      <i className="fas fa-clock mr-2"></i>Schedule
-                    </Button>
-                  </div>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="mb-6">
+          <TabsTrigger value="templates" data-testid="tab-report-templates">Templates & History</TabsTrigger>
+          <TabsTrigger value="schedules" data-testid="tab-report-schedules">Schedules</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="templates">
+          {/* Report Templates */}
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold mb-4">Available Report Templates</h3>
+            {templates && templates.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {templates.map((template) => {
+                  const lastRun = lastRunFor(template.id);
+                  return (
+                    <Card key={template.id} className="cursor-pointer hover:shadow-md transition-shadow">
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="text-base">{template.name}</CardTitle>
+                          {template.isSystem && <Badge variant="secondary">System</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{template.description}</p>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          {lastRun && (
+                            <p className="text-xs text-muted-foreground">
+                              Last run: {new Date(lastRun).toLocaleDateString()}
+                            </p>
+                          )}
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => openRunDialog(template)}
+                              data-testid={`button-run-report-${template.id}`}
+                            >
+                              <i className="fas fa-play mr-2"></i>Run Report
+                            </Button>
+                            {canSchedule && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openScheduleDialog(template.id)}
+                                data-testid={`button-schedule-report-${template.id}`}
+                              >
+                                <i className="fas fa-clock mr-2"></i>Schedule
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center text-muted-foreground">
+                  <i className="fas fa-file-alt text-4xl mb-4"></i>
+                  <p className="text-lg font-medium mb-2">No report templates available</p>
+                  <p className="text-sm">Ask an administrator to add a report template for your clinic.</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Report History */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Report History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reportHistory && reportHistory.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Report Template</TableHead>
+                      <TableHead>Generated</TableHead>
+                      <TableHead>Format</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reportHistory.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="font-medium">{report.templateName}</TableCell>
+                        <TableCell>
+                          {new Date(report.createdAt).toLocaleDateString()} at{" "}
+                          {new Date(report.createdAt).toLocaleTimeString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{report.format}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusBadgeClass(report.status)}>
+                            {report.status.toLowerCase()}
+                          </Badge>
+                          {report.redaction && report.redaction.masked.length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="ml-2"
+                              title={`Masked: ${Array.from(new Set(report.redaction.masked.map((m) => m.field))).join(", ")}`}
+                              data-testid={`badge-report-redacted-${report.id}`}
+                            >
+                              <i className="fas fa-user-shield mr-1"></i>Redacted
+                            </Badge>
+                          )}
+                          {report.error && (
+                            <p className="text-xs text-destructive mt-1">{report.error}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {report.status === "COMPLETED" && report.outputUrl && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              asChild
+                              data-testid={`button-download-report-${report.id}`}
+                            >
+                              <a href={report.outputUrl}>
+                                <i className="fas fa-download mr-2"></i>Download
+                              </a>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <i className="fas fa-file-alt text-4xl mb-4"></i>
+                  <p className="text-lg font-medium mb-2">No reports generated yet</p>
+                  <p className="text-sm">Start by running one of the available report templates above.</p>
                 </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="schedules">
+          <ScheduledReports onCreate={() => openScheduleDialog()} />
+        </TabsContent>
+      </Tabs>
+
+      {/* Run Report Dialog */}
+      <Dialog open={!!selectedTemplate} onOpenChange={() => setSelectedTemplate(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Run {selectedTemplate?.name}</DialogTitle>
+            <DialogDescription>
+              Choose the report inputs and output format. Optional inputs left blank include all data.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {selectedTemplate?.definition.inputs.map((input) => (
+              <div key={input.name} className="space-y-2">
+                <Label>
+                  {formatInputLabel(input.name)}
+                  {input.required && <span className="text-destructive ml-1">*</span>}
+                </Label>
+                <ReportInputField
+                  input={input}
+                  value={runParams[input.name] || ""}
+                  onChange={(value) => setRunParams((prev) => ({ ...prev, [input.name]: value }))}
+                />
+              </div>
+            ))}
 
-      {/* Report History */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Report History</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {reportHistory && reportHistory.length > 0 ? (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Report Template</TableHead>
-                  <TableHead>Generated</TableHead>
-                  <TableHead>Format</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {reportHistory.map((report) => (
-                  <TableRow key={report.id}>
-                    <TableCell className="font-medium">{report.template}</TableCell>
-                    <TableCell>
-                      {new Date(report.generatedAt).toLocaleDateString()} at{" "}
-                      {new Date(report.generatedAt).toLocaleTimeString()}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline">{report.format}</Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Badge 
-                        className={
-                          report.status === "completed" 
-                            ? "bg-green-100 text-green-800"
-                            : report.status === "failed"
-                            ? "bg-red-100 text-red-800"
-                            : "bg-blue-100 text-blue-800"
-                        }
-                      >
-                        {report.status}
-                      </Badge>
-                      {report.error && (
-                        <p className="text-xs text-destructive mt-1">{report.error}</p>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      {report.status === "completed" && report.downloadUrl && (
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          data-testid={`button-download-report-${report.id}`}
-                        >
-                          <i className="fas fa-download mr-2"></i>Download
-                        </Button>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          ) : (
-            <div className="text-center py-8 text-muted-foreground">
-              <i className="fas fa-file-alt text-4xl mb-4"></i>
-              <p className="text-lg font-medium mb-2">No reports generated yet</p>
-              <p className="text-sm">Start by running one of the available report templates above.</p>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={runFormat} onValueChange={setRunFormat}>
+                <SelectTrigger data-testid="select-report-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {format}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          )}
-        </CardContent>
-      </Card>
+
+            <div className="flex gap-2 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setSelectedTemplate(null)}
+                data-testid="button-cancel-run-report"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRunReport}
+                disabled={runReportMutation.isPending}
+                data-testid="button-confirm-run-report"
+              >
+                {runReportMutation.isPending ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin mr-2"></i>
+                    Starting...
+                  </>
+                ) : (
+                  "Run Report"
+                )}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ScheduleReportDialog
+        open={scheduleDialogOpen}
+        onOpenChange={setScheduleDialogOpen}
+        templates={templates || []}
+        initialTemplateId={scheduleTemplateId}
+      />
     </div>
   );
 }
@@ -0,0 +1,53 @@
+import { getTableColumns } from "drizzle-orm";
+import { cases, type Case, type InsertCase } from "@shared/schema";
+
+// Field-level change record kept in audit_logs.diff; only changed fields are listed
+export interface CaseFieldDiff {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+const comparable = (value: unknown): unknown => {
+  if (value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+};
+
+const CASE_COLUMNS = Object.keys(getTableColumns(cases)) as Array<keyof Case>;
+
+// The case row alone, without the clinic, creator and vocabulary joined onto it,
+// as recorded in audit logs when a case is created or deleted
+export function caseSnapshot(row: Case): Record<string, unknown> {
+  return Object.fromEntries(CASE_COLUMNS.map(column => [column, row[column] ?? null]));
+}
+
+// Works out which of `updates` would change `existing`. New `extra` keys are merged
+// into the case's existing ones rather than replacing the whole object, unless
+// `replaceExtra` is set (as when restoring an earlier version).
+export function diffCaseFields(
+  existing: Case,
+  updates: Partial<InsertCase>,
+  options: { replaceExtra?: boolean } = {},
+): { changes: Partial<InsertCase>; diff: CaseFieldDiff } {
+  const changes: Record<string, unknown> = {};
+  const diff: CaseFieldDiff = { before: {}, after: {} };
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined || key === 'clinicId' || key === 'createdBy') continue;
+
+    const current = existing[key as keyof Case];
+    const next = key === 'extra' && !options.replaceExtra
+      ? { ...(existing.extra || {}), ...(value as Record<string, unknown>) }
+      : value;
+    if (comparable(current) === comparable(next)) continue;
+
+    changes[key] = next;
+    diff.before[key] = current ?? null;
+    diff.after[key] = next;
+  }
+
+  return { changes: changes as Partial<InsertCase>, diff };
+}
+
+export const hasCaseChanges = (diff: CaseFieldDiff) => Object.keys(diff.after).length > 0;
@@ -0,0 +1,232 @@
+import type { Case, InsertCase } from "@shared/schema";
+import { storage } from "../storage";
+
+// Scores at or above this are reported as probable duplicates. Without a patient name
+// the remaining fields can only just reach it, which takes an exact match on all of them.
+export const DUPLICATE_SCORE_THRESHOLD = 0.65;
+const DATE_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DuplicateCandidate = Pick<InsertCase, 'clinicId' | 'species' | 'breed' | 'diagnosisDate'> &
+  Partial<Pick<InsertCase, 'patientName' | 'tumourTypeId' | 'tumourTypeCustom'>>;
+
+type ExistingCase = Case & { tumourTypeName: string | null };
+
+// What a candidate is scored against: a case on record, or another row of an import file
+type ComparedCase = Omit<DuplicateCandidate, 'clinicId'> & { tumourTypeName?: string | null };
+
+export interface DuplicateMatch {
+  caseId: string;
+  caseNumber: string;
+  patientName: string | null;
+  species: string;
+  breed: string;
+  diagnosisDate: Date;
+  score: number;
+  reasons: string[];
+}
+
+const normalize = (value?: string | null) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Weighted agreement across the identifying fields, between 0 and 1
+export function scoreDuplicate(candidate: DuplicateCandidate, existing: ComparedCase): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const name = normalize(candidate.patientName);
+  const existingName = normalize(existing.patientName);
+  if (name && existingName) {
+    if (name === existingName) {
+      score += 0.35;
+      reasons.push('Same patient name');
+    } else if (Math.min(name.length, existingName.length) >= 4 && editDistance(name, existingName) <= 1) {
+      score += 0.25;
+      reasons.push('Similar patient name');
+    }
+  }
+
+  if (normalize(candidate.species) === normalize(existing.species)) {
+    score += 0.1;
+    reasons.push('Same species');
+  }
+
+  if (normalize(candidate.breed) === normalize(existing.breed)) {
+    score += 0.15;
+    reasons.push('Same breed');
+  }
+
+  const days = Math.abs(new Date(candidate.diagnosisDate).getTime() - new Date(existing.diagnosisDate).getTime()) / DAY_MS;
+  if (days < 1) {
+    score += 0.2;
+    reasons.push('Same diagnosis date');
+  } else if (days <= 7) {
+    score += 0.12;
+    reasons.push('Diagnosed within a week');
+  } else if (days <= DATE_WINDOW_DAYS) {
+    score += 0.05;
+  }
+
+  const tumour = normalize(candidate.tumourTypeCustom);
+  const existingTumour = normalize(existing.tumourTypeCustom || existing.tumourTypeName);
+  if ((candidate.tumourTypeId && candidate.tumourTypeId === existing.tumourTypeId) || (tumour && tumour === existingTumour)) {
+    score += 0.2;
+    reasons.push('Same tumour type');
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+export async function findDuplicateCases(candidate: DuplicateCandidate, options: { excludeCaseId?: string } = {}): Promise<DuplicateMatch[]> {
+  const diagnosisDate = new Date(candidate.diagnosisDate);
+  if (isNaN(diagnosisDate.getTime()) || !candidate.species) return [];
+
+  const existing = await storage.getDuplicateCandidates(
+    candidate.clinicId,
+    candidate.species,
+    new Date(diagnosisDate.getTime() - DATE_WINDOW_DAYS * DAY_MS),
+    new Date(diagnosisDate.getTime() + DATE_WINDOW_DAYS * DAY_MS),
+  );
+
+  return existing
+    .filter(c => c.id !== options.excludeCaseId)
+    .map(c => ({ existing: c, ...scoreDuplicate(candidate, c) }))
+    .filter(m => m.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5)
+    .map(({ existing: c, score, reasons }) => toDuplicateMatch(c, score, reasons));
+}
+
+function toDuplicateMatch(c: ExistingCase, score: number, reasons: string[]): DuplicateMatch {
+  return {
+    caseId: c.id,
+    caseNumber: c.caseNumber,
+    patientName: c.patientName,
+    species: c.species,
+    breed: c.breed,
+    diagnosisDate: c.diagnosisDate,
+    score,
+    reasons,
+  };
+}
+
+// The 30-day period a diagnosis date falls in; a case can only match candidates in its
+// own period or the ones either side
+const periodOf = (time: number) => Math.floor(time / (DATE_WINDOW_DAYS * DAY_MS));
+
+// The best existing match, if any, for each of a batch of import rows. Cases are loaded
+// with one query per species covering the periods the rows fall in, instead of one per row.
+export async function findDuplicateCasesForRows(clinicId: string, candidates: DuplicateCandidate[]): Promise<Array<DuplicateMatch | null>> {
+  const periodsBySpecies = new Map<string, Set<number>>();
+  for (const candidate of candidates) {
+    const time = new Date(candidate.diagnosisDate).getTime();
+    if (isNaN(time) || !candidate.species) continue;
+    const species = candidate.species.toLowerCase();
+    const periods = periodsBySpecies.get(species) || new Set<number>();
+    const period = periodOf(time);
+    periods.add(period - 1).add(period).add(period + 1);
+    periodsBySpecies.set(species, periods);
+  }
+
+  const existingByBucket = new Map<string, ExistingCase[]>();
+  for (const species of Array.from(periodsBySpecies.keys())) {
+    // Neighbouring periods are merged into one date range
+    const ranges: Array<{ from: Date; to: Date }> = [];
+    let start: number | null = null;
+    const periods = Array.from(periodsBySpecies.get(species)!).sort((a, b) => a - b);
+    for (let i = 0; i < periods.length; i++) {
+      if (start === null) start = periods[i];
+      if (periods[i + 1] !== periods[i] + 1) {
+        ranges.push({ from: new Date(start * DATE_WINDOW_DAYS * DAY_MS), to: new Date((periods[i] + 1) * DATE_WINDOW_DAYS * DAY_MS) });
+        start = null;
+      }
+    }
+
+    for (const existing of await storage.getDuplicateCandidatesInRanges(clinicId, species, ranges)) {
+      const key = `${species}:${periodOf(new Date(existing.diagnosisDate).getTime())}`;
+      const bucket = existingByBucket.get(key);
+      if (bucket) bucket.push(existing);
+      else existingByBucket.set(key, [existing]);
+    }
+  }
+
+  return candidates.map(candidate => {
+    const time = new Date(candidate.diagnosisDate).getTime();
+    if (isNaN(time) || !candidate.species) return null;
+    const period = periodOf(time);
+
+    let best: DuplicateMatch | null = null;
+    for (const p of [period - 1, period, period + 1]) {
+      for (const existing of existingByBucket.get(`${candidate.species.toLowerCase()}:${p}`) || []) {
+        // The same window findDuplicateCases searches
+        if (Math.abs(new Date(existing.diagnosisDate).getTime() - time) > DATE_WINDOW_DAYS * DAY_MS) continue;
+        const { score, reasons } = scoreDuplicate(candidate, existing);
+        if (score >= DUPLICATE_SCORE_THRESHOLD && (!best || score > best.score)) {
+          best = toDuplicateMatch(existing, score, reasons);
+        }
+      }
+    }
+    return best;
+  });
+}
+
+// Checks each row of an import file against the rows before it, so a file holding the
+// same case twice is caught before either is saved. Rows are kept by species and 30-day
+// period, so each is only scored against rows diagnosed close enough to match.
+export function importRowDuplicateFinder(): (row: number, candidate: DuplicateCandidate) => { row: number; score: number; reasons: string[] } | null {
+  const earlier = new Map<string, Array<{ row: number; candidate: DuplicateCandidate }>>();
+  const bucketKey = (species: string, period: number) => `${normalize(species)}:${period}`;
+
+  return (row, candidate) => {
+    const time = new Date(candidate.diagnosisDate).getTime();
+    if (isNaN(time) || !candidate.species) return null;
+    const period = periodOf(time);
+
+    let best: { row: number; score: number; reasons: string[] } | null = null;
+    for (const p of [period - 1, period, period + 1]) {
+      for (const other of earlier.get(bucketKey(candidate.species, p)) || []) {
+        const match = scoreDuplicate(candidate, other.candidate);
+        if (match.score >= DUPLICATE_SCORE_THRESHOLD && (!best || match.score > best.score)) {
+          best = { row: other.row, ...match };
+        }
+      }
+    }
+
+    const key = bucketKey(candidate.species, period);
+    const bucket = earlier.get(key);
+    if (bucket) bucket.push({ row, candidate });
+    else earlier.set(key, [{ row, candidate }]);
+    return best;
+  };
+}
+
+// Fills only the fields the existing case is missing; values already on record win
+export function mergeImportedCase(existing: Case, incoming: InsertCase): Partial<InsertCase> {
+  const updates: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(incoming)) {
+    if (key === 'clinicId' || key === 'createdBy' || key === 'extra') continue;
+    const current = existing[key as keyof Case];
+    if ((current === null || current === undefined || current === '') && value !== null && value !== undefined && value !== '') {
+      updates[key] = value;
+    }
+  }
+
+  const extra = { ...(incoming.extra || {}), ...(existing.extra || {}) };
+  if (Object.keys(extra).length > Object.keys(existing.extra || {}).length) {
+    updates.extra = extra;
+  }
+
+  return updates as Partial<InsertCase>;
+}
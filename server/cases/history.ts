@@ -0,0 +1,32 @@
+import type { AuditLog, Case, InsertCase } from "@shared/schema";
+import { caseSnapshot } from "./diff";
+
+// Identity, ownership and bookkeeping columns are never rolled back. Nor is the patient
+// link, which is changed through the patient registry; a linked case's signalment is
+// taken from its patient when it is reverted.
+const NON_REVERTIBLE_FIELDS = new Set([
+  'id', 'caseNumber', 'clinicId', 'createdBy', 'importJobId', 'patientId', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy',
+]);
+
+// Dates come back from the jsonb diff as ISO strings
+const DATE_FIELDS = new Set(['diagnosisDate', 'treatmentStart', 'lastFollowUp']);
+
+// Rebuilds the case as it was straight after the `targetId` entry by undoing every later
+// change, newest first, starting from the current row. `entries` must be newest first,
+// as getCaseHistory returns them. Returns null when the entry is not in the history.
+export function caseVersionAfter(current: Case, entries: AuditLog[], targetId: string): Partial<InsertCase> | null {
+  const index = entries.findIndex(entry => entry.id === targetId);
+  if (index === -1) return null;
+
+  const version = caseSnapshot(current);
+  for (const entry of entries.slice(0, index)) {
+    Object.assign(version, entry.diff?.before ?? {});
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(version)) {
+    if (NON_REVERTIBLE_FIELDS.has(key)) continue;
+    fields[key] = DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+  }
+  return fields as Partial<InsertCase>;
+}
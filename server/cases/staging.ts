@@ -0,0 +1,40 @@
+import { STAGING_FIELDS, findStagingScheme, formatStaging, validateStaging, type CaseStaging } from "@shared/staging";
+import { storage } from "../storage";
+
+export interface CaseStagingFields extends Partial<CaseStaging> {
+  species?: string | null;
+  tumourTypeId?: string | null;
+  tumourTypeCustom?: string | null;
+  stage?: string | null;
+}
+
+// Picks the staging fields a request body sets, so an edit that leaves them out
+// keeps the case's current staging
+export function stagingFieldsOf(body: Record<string, unknown>): Partial<CaseStaging> {
+  const fields: Partial<CaseStaging> = {};
+  for (const field of STAGING_FIELDS) {
+    if (body[field] !== undefined) fields[field] = (body[field] as string | null) || null;
+  }
+  return fields;
+}
+
+// Checks structured staging against the scheme of the case's tumour type and species,
+// as the case will be once saved. Structured staging replaces the free-text stage with
+// its formatted form; without it the free-text stage is kept as entered.
+export async function resolveCaseStaging(fields: CaseStagingFields): Promise<CaseStaging & { stage: string | null }> {
+  const tumourTypeName = fields.tumourTypeId
+    ? (await storage.getTumourType(fields.tumourTypeId))?.name
+    : fields.tumourTypeCustom;
+  const scheme = findStagingScheme(tumourTypeName, fields.species);
+
+  const result = validateStaging(scheme, fields);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+
+  const { staging } = result;
+  return {
+    ...staging,
+    stage: staging.stagingScheme ? formatStaging(staging) : fields.stage || null,
+  };
+}
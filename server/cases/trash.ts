@@ -0,0 +1,78 @@
+import { storage } from "../storage";
+import { deleteObject } from "../storage/files";
+import { enqueueJob, type JobContext, type JobHandler } from "../jobs/queue";
+
+export const CASE_PURGE_JOB = 'CASE_PURGE';
+
+// Deleted cases can be restored for this many days before the purge job removes them for good
+export const CASE_RETENTION_DAYS = parseInt(process.env.CASE_RETENTION_DAYS || '30', 10);
+
+const PURGE_INTERVAL_MS = parseInt(process.env.CASE_PURGE_INTERVAL_MS || String(60 * 60 * 1000), 10);
+const PURGE_BATCH_SIZE = 100;
+
+// Cases deleted before this time are past the retention window
+export const caseRetentionStart = (now: Date = new Date()) =>
+  new Date(now.getTime() - CASE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+export const casePurgeDate = (deletedAt: Date) =>
+  new Date(deletedAt.getTime() + CASE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+// Purges in batches so a large backlog does not hold one long transaction; each batch
+// commits on its own, so a cancelled or failed run keeps what it already removed
+async function purgeExpiredCases(_payload: unknown, context: JobContext): Promise<void> {
+  const deletedBefore = caseRetentionStart();
+
+  for (;;) {
+    await context.checkpoint();
+    const { purged, storageKeys } = await storage.purgeDeletedCases(deletedBefore, PURGE_BATCH_SIZE);
+    if (purged.length === 0) break;
+
+    for (const key of storageKeys) {
+      await deleteObject({ key }).catch(error => console.error(`[cases] Failed to delete ${key}:`, error));
+    }
+
+    for (const row of purged) {
+      await storage.createAuditLog({
+        clinicId: row.clinicId,
+        entityType: 'CASE',
+        entityId: row.id,
+        action: 'PURGE',
+        diff: { before: { caseNumber: row.caseNumber, deletedAt: row.deletedAt } },
+      });
+    }
+    console.log(`[cases] Purged ${purged.length} deleted case(s)`);
+
+    if (purged.length < PURGE_BATCH_SIZE) break;
+  }
+}
+
+export const casePurgeJob: JobHandler = {
+  run: purgeExpiredCases,
+};
+
+let isTickRunning = false;
+
+// Queues a purge unless one is already waiting or running, so several server
+// processes do not pile up purge jobs
+export async function queueCasePurge(): Promise<void> {
+  if (isTickRunning) return;
+  isTickRunning = true;
+
+  try {
+    if (await storage.getActiveBackgroundJobOfType(CASE_PURGE_JOB)) return;
+    await enqueueJob({ type: CASE_PURGE_JOB, payload: {}, maxAttempts: 1 });
+  } finally {
+    isTickRunning = false;
+  }
+}
+
+export function startCasePurgeSchedule(): () => void {
+  queueCasePurge().catch(err => console.error('[cases] Failed to queue case purge:', err));
+
+  const timer = setInterval(() => {
+    queueCasePurge().catch(err => console.error('[cases] Failed to queue case purge:', err));
+  }, PURGE_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
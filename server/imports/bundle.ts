@@ -0,0 +1,238 @@
+import path from "path";
+import { readFile } from "fs/promises";
+import JSZip from "jszip";
+import { insertCaseFileSchema } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  putObject,
+  generateStorageKey,
+  determineFileKind,
+  isAllowedMimeType,
+  mimeTypeFromFilename,
+  MAX_FILE_SIZE,
+  MAX_FILES_PER_CASE,
+} from "../storage/files";
+import { detectImportFormat, ImportParseError } from "./parsers";
+
+// A ZIP holding one manifest (CSV, XLSX or JSON) and the images and PDFs its rows refer to
+export interface ImportBundle {
+  zip: JSZip;
+  manifest: JSZip.JSZipObject;
+  // Finds the entry a manifest cell refers to, or null
+  resolve(reference: string): JSZip.JSZipObject | null;
+}
+
+export interface BundleAttachmentContext {
+  clinicId: string;
+  userId: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+// Sizes once unpacked. Declared sizes are checked before anything is decompressed, and
+// every read stops at its limit in case an entry unpacks to more than it declares.
+const MAX_BUNDLE_SIZE = 500 * 1024 * 1024; // 500 MB
+const MAX_MANIFEST_SIZE = 50 * 1024 * 1024; // 50 MB, as for a rows file uploaded on its own
+
+export const isImportBundle = (filename: string) => path.extname(filename).toLowerCase() === '.zip';
+
+// JSZip keeps the size from the archive's central directory on an internal field
+const declaredSize = (entry: JSZip.JSZipObject): number =>
+  (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+
+const sizeLimitMessage = (limit: number) => `exceeds the ${limit / 1024 / 1024}MB limit`;
+
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+  if (declaredSize(entry) > limit) {
+    return Promise.reject(new Error(sizeLimitMessage(limit)));
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners();
+        reject(new Error(sizeLimitMessage(limit)));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+export async function readBundleManifest(bundle: ImportBundle): Promise<Buffer> {
+  try {
+    return await readEntry(bundle.manifest, MAX_MANIFEST_SIZE);
+  } catch (error) {
+    throw new ImportParseError(`The manifest ${error instanceof Error ? error.message : 'could not be read'}`);
+  }
+}
+
+const normalizeEntryPath = (reference: string) =>
+  path.posix.normalize(reference.trim().replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '').toLowerCase();
+
+// Finder and macOS metadata that archivers add alongside the real files
+const isHiddenEntry = (name: string) =>
+  name.startsWith('__MACOSX/') || name.split('/').some(part => part.startsWith('.'));
+
+export async function openImportBundle(source: Buffer | string): Promise<ImportBundle> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(typeof source === 'string' ? await readFile(source) : source);
+  } catch {
+    throw new ImportParseError('The ZIP file could not be opened');
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !isHiddenEntry(entry.name));
+  if (entries.reduce((total, entry) => total + declaredSize(entry), 0) > MAX_BUNDLE_SIZE) {
+    throw new ImportParseError(`The ZIP file unpacks to more than ${MAX_BUNDLE_SIZE / 1024 / 1024}MB`);
+  }
+
+  // The manifest is the row file nearest the top of the archive, so CSVs kept
+  // as attachments in a subfolder are not mistaken for it
+  const rowFiles = entries.filter(entry => detectImportFormat(entry.name));
+  const depth = (entry: JSZip.JSZipObject) => entry.name.split('/').length;
+  const shallowest = Math.min(...rowFiles.map(depth));
+  const candidates = rowFiles.filter(entry => depth(entry) === shallowest);
+  if (candidates.length === 0) {
+    throw new ImportParseError('The ZIP file must contain a CSV, XLSX or JSON manifest');
+  }
+  if (candidates.length > 1) {
+    throw new ImportParseError(`The ZIP file contains more than one manifest: ${candidates.map(c => c.name).join(', ')}`);
+  }
+  const [manifest] = candidates;
+  const manifestDir = path.posix.dirname(manifest.name.toLowerCase());
+
+  const byPath = new Map<string, JSZip.JSZipObject>();
+  const byName = new Map<string, JSZip.JSZipObject[]>();
+  for (const entry of entries) {
+    if (entry === manifest) continue;
+    const key = normalizeEntryPath(entry.name);
+    byPath.set(key, entry);
+    const base = path.posix.basename(key);
+    byName.set(base, [...(byName.get(base) ?? []), entry]);
+  }
+
+  return {
+    zip,
+    manifest,
+    resolve(reference) {
+      const key = normalizeEntryPath(reference);
+      const sameName = byName.get(path.posix.basename(key)) ?? [];
+      // Paths are tried relative to the manifest, then to the archive root; a bare
+      // file name also matches anywhere in the archive as long as it is unique
+      return byPath.get(path.posix.join(manifestDir, key))
+        ?? byPath.get(key)
+        ?? (sameName.length === 1 ? sameName[0] : null);
+    },
+  };
+}
+
+// Checks the files one row refers to against the same limits as the case file upload,
+// using the sizes the archive declares; attachBundleFiles enforces them as it unpacks
+export async function resolveBundleAttachments(
+  bundle: ImportBundle,
+  references: string[],
+): Promise<{ files: string[]; errors: string[] }> {
+  const files: string[] = [];
+  const errors: string[] = [];
+
+  if (references.length > MAX_FILES_PER_CASE) {
+    errors.push(`Row refers to ${references.length} files; at most ${MAX_FILES_PER_CASE} files are allowed per case`);
+  }
+
+  for (const reference of references) {
+    const entry = bundle.resolve(reference);
+    if (!entry) {
+      errors.push(`File ${JSON.stringify(reference)} was not found in the ZIP file`);
+      continue;
+    }
+    if (!isAllowedMimeType(mimeTypeFromFilename(entry.name))) {
+      errors.push(`File ${JSON.stringify(reference)} is not an allowed type (images and documents: PDF, DOC, CSV)`);
+      continue;
+    }
+    if (declaredSize(entry) > MAX_FILE_SIZE) {
+      errors.push(`File ${JSON.stringify(reference)} ${sizeLimitMessage(MAX_FILE_SIZE)}`);
+      continue;
+    }
+    if (files.includes(entry.name)) continue;
+    files.push(entry.name);
+  }
+
+  return { files, errors };
+}
+
+// Uploads bundle files to cases the import created or merged into, through the same
+// object storage and case_files path as a manual upload. Runs after the case
+// transaction has committed, so a failed upload is reported instead of undoing the import.
+export async function attachBundleFiles(
+  bundle: ImportBundle,
+  attachments: Array<{ caseId: string; files: string[] }>,
+  context: BundleAttachmentContext,
+): Promise<{ attached: number; failures: string[] }> {
+  let attached = 0;
+  const failures: string[] = [];
+
+  for (const { caseId, files } of attachments) {
+    // Cases merged into may already hold files of their own
+    let existing: number;
+    try {
+      existing = (await storage.getCaseFiles(caseId)).length;
+    } catch (error) {
+      failures.push(...files.map(name => `${path.posix.basename(name)} was not attached: ${error instanceof Error ? error.message : 'case files could not be read'}`));
+      continue;
+    }
+
+    for (let index = 0; index < files.length; index++) {
+      const name = files[index];
+      const originalName = path.posix.basename(name);
+      if (existing + index >= MAX_FILES_PER_CASE) {
+        failures.push(`${originalName} was not attached: the case already has ${MAX_FILES_PER_CASE} files`);
+        continue;
+      }
+
+      try {
+        const entry = bundle.zip.file(name);
+        if (!entry) throw new Error('missing from the ZIP file');
+
+        const buffer = await readEntry(entry, MAX_FILE_SIZE);
+        const mimeType = mimeTypeFromFilename(name);
+        const storageKey = generateStorageKey(caseId, originalName);
+        const { publicUrl } = await putObject({ key: storageKey, buffer, contentType: mimeType });
+
+        const caseFile = insertCaseFileSchema.parse({
+          caseId,
+          kind: determineFileKind(mimeType),
+          storageKey,
+          publicUrl,
+          originalName,
+          mimeType,
+          sizeBytes: buffer.length,
+          uploadedBy: context.userId,
+        });
+        const savedFile = await storage.createCaseFile(caseFile);
+
+        await storage.createAuditLog({
+          actorId: context.userId,
+          clinicId: context.clinicId,
+          entityType: 'CASE_FILE',
+          entityId: savedFile.id,
+          action: 'CREATE',
+          diff: { after: { caseId, originalName, mimeType, sizeBytes: buffer.length } },
+          ip: context.ip,
+          userAgent: context.userAgent,
+        });
+        attached++;
+      } catch (error) {
+        failures.push(`${originalName} was not attached: ${error instanceof Error ? error.message : 'upload failed'}`);
+      }
+    }
+  }
+
+  return { attached, failures };
+}
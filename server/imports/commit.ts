@@ -0,0 +1,194 @@
+import path from "path";
+import type { BackgroundJob, ImportJob } from "@shared/schema";
+import { storage, type ImportCommitRow } from "../storage";
+import { mergeImportedCase } from "../cases/duplicates";
+import { hasCaseChanges } from "../cases/diff";
+import type { JobContext, JobHandler } from "../jobs/queue";
+import { attachBundleFiles, openImportBundle, type ImportBundle } from "./bundle";
+import type { ImportMapping } from "./mapping";
+import { detectImportFormat } from "./parsers";
+import { loadImportVocabulary, validateImportRows, type ValidatedImportRow } from "./validation";
+import { importProgressFromJob, publishImportProgress, PROGRESS_ERROR_LIMIT, type ImportProgress } from "./progress";
+
+export const IMPORT_COMMIT_JOB = 'IMPORT_COMMIT';
+
+// Progress is saved and published after this many rows or this long, whichever comes first
+const PROGRESS_EVERY_ROWS = 100;
+const PROGRESS_EVERY_MS = 1000;
+
+export interface ImportCommitPayload {
+  importJobId: string;
+  userId: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+// Rollback deletes the cases an import created; changes it made to existing cases
+// cannot be undone that way, so such imports are never rolled back
+export function importUpdatedExistingCases(importJob: ImportJob): boolean {
+  return importJob.mode === 'UPSERT' || (importJob.duplicates || []).some(d => d.decision === 'merge');
+}
+
+// Inserts every valid row of a validated job in a single transaction. Duplicate
+// decisions were stored on the import job when the commit was queued.
+async function commitImport(payload: ImportCommitPayload, context: JobContext): Promise<void> {
+  const { importJobId, userId } = payload;
+  const importJob = await storage.getImportJobById(importJobId);
+  if (!importJob || importJob.status !== 'PROCESSING') return;
+
+  const clinicId = importJob.clinicId;
+
+  // A retry after the transaction committed but before the job was marked complete
+  // must not insert the cases a second time
+  const alreadyImported = await storage.countImportJobCases(importJobId);
+  if (alreadyImported > 0) {
+    const completed = await storage.updateImportJob(importJobId, {
+      status: 'COMPLETED',
+      processedRows: alreadyImported,
+      successRows: alreadyImported,
+      completedAt: new Date(),
+    });
+    publishImportProgress(importJobId, importProgressFromJob(completed));
+    return;
+  }
+
+  await storage.updateImportJob(importJobId, { processedRows: 0, successRows: 0, errorRows: 0 });
+
+  const progress: ImportProgress = {
+    status: 'PROCESSING',
+    totalRows: importJob.totalRows || 0,
+    processedRows: 0,
+    successRows: 0,
+    failedRows: 0,
+    errors: [],
+  };
+  let reportedAt = Date.now();
+  const reportProgress = async () => {
+    // Cancelling here throws inside the transaction, so nothing is saved
+    await context.checkpoint();
+    await storage.updateImportJob(importJobId, {
+      processedRows: progress.processedRows,
+      successRows: progress.successRows,
+      errorRows: progress.failedRows,
+    });
+    publishImportProgress(importJobId, { ...progress, errors: [...progress.errors] });
+    reportedAt = Date.now();
+  };
+
+  const absoluteFilePath = path.resolve(process.cwd(), importJob.fileUrl);
+  const format = detectImportFormat(importJob.fileUrl)!;
+  const mapping = importJob.mapping as ImportMapping;
+  const duplicates = importJob.duplicates || [];
+  const duplicateByRow = new Map(duplicates.map(d => [d.row, d]));
+  const bundle = importJob.bundleUrl
+    ? await openImportBundle(path.resolve(process.cwd(), importJob.bundleUrl))
+    : undefined;
+
+  async function* commitRows(bundle?: ImportBundle): AsyncGenerator<ImportCommitRow> {
+    const vocabulary = await loadImportVocabulary(clinicId);
+    const options = { bundle, matchKey: importJob!.mode === 'UPSERT' ? importJob!.matchKey : null };
+    for await (const row of validateImportRows(absoluteFilePath, format, mapping, { clinicId, createdBy: userId }, vocabulary, options)) {
+      progress.processedRows++;
+      const commitRow = await toCommitRow(row);
+      if (commitRow) {
+        progress.successRows++;
+        yield commitRow;
+      }
+      if (progress.processedRows % PROGRESS_EVERY_ROWS === 0 || Date.now() - reportedAt >= PROGRESS_EVERY_MS) {
+        await reportProgress();
+      }
+    }
+  }
+
+  // Rows that failed validation are skipped; they were reported on the job at validation time
+  async function toCommitRow(row: ValidatedImportRow): Promise<ImportCommitRow | null> {
+    if (row.update) {
+      if (!hasCaseChanges(row.update.diff) && row.attachments.length === 0) return null;
+      const fields = row.update.fields;
+      return { mergeIntoCaseId: row.update.caseId, updates: () => fields, attachments: row.attachments };
+    }
+    if (!row.data) {
+      progress.failedRows++;
+      progress.errors = [...progress.errors, ...row.errors.map(error => ({ row: row.rowNumber, error }))].slice(-PROGRESS_ERROR_LIMIT);
+      return null;
+    }
+
+    const duplicate = duplicateByRow.get(row.rowNumber);
+    if (duplicate?.decision === 'skip') return null;
+    if (duplicate?.decision === 'merge' && duplicate.caseId) {
+      const existing = await storage.getCase(duplicate.caseId, clinicId);
+      if (existing) {
+        const incoming = row.data;
+        return { mergeIntoCaseId: existing.id, updates: current => mergeImportedCase(current, incoming), attachments: row.attachments };
+      }
+    }
+    return { data: row.data, attachments: row.attachments };
+  }
+
+  const { inserted, merged, attachments } = await storage.commitImportCases(importJobId, commitRows(bundle), {
+    actorId: userId,
+    clinicId,
+    ip: payload.ip,
+    userAgent: payload.userAgent,
+  });
+
+  // Files are uploaded once the cases exist; any that fail are listed as warnings on the job
+  let attached = 0;
+  let warnings = importJob.warnings || [];
+  if (bundle && attachments.length > 0) {
+    const result = await attachBundleFiles(bundle, attachments, { clinicId, userId, ip: payload.ip, userAgent: payload.userAgent });
+    attached = result.attached;
+    warnings = [...warnings, ...result.failures.map(warning => ({ row: 0, warning }))];
+  }
+
+  const completed = await storage.updateImportJob(importJobId, {
+    status: 'COMPLETED',
+    processedRows: progress.processedRows,
+    successRows: inserted + merged,
+    errorRows: progress.failedRows,
+    warnings,
+    completedAt: new Date(),
+  });
+  publishImportProgress(importJobId, { ...importProgressFromJob(completed), errors: progress.errors });
+
+  await storage.createAuditLog({
+    actorId: userId,
+    clinicId,
+    entityType: 'IMPORT_JOB',
+    entityId: importJobId,
+    action: 'CREATE',
+    diff: { after: { filename: importJob.filename, mode: importJob.mode, cases: inserted, merged, files: attached, skipped: duplicates.filter(d => d.decision === 'skip').length } },
+    ip: payload.ip,
+    userAgent: payload.userAgent,
+  });
+}
+
+export const importCommitJob: JobHandler<ImportCommitPayload> = {
+  run: commitImport,
+  async onFailed({ importJobId }, job: BackgroundJob) {
+    const reason = job.status === 'CANCELLED'
+      ? 'Import cancelled, no cases were saved'
+      : `Import rolled back, no cases were saved: ${job.lastError || 'Unknown error'}`;
+    const updated = await storage.updateImportJob(importJobId, {
+      status: job.status === 'CANCELLED' ? 'CANCELLED' : 'FAILED',
+      processedRows: 0,
+      successRows: 0,
+      errors: [{ row: 0, error: reason }],
+      completedAt: new Date(),
+    });
+    publishImportProgress(importJobId, importProgressFromJob(updated));
+  },
+};
+
+// Imports left validating or processing without a queued or running job behind them,
+// such as those started before validation and commits ran as jobs, have nothing left to finish them
+export async function failInterruptedImports(): Promise<void> {
+  for (const importJob of await storage.getInterruptedImportJobs()) {
+    await storage.updateImportJob(importJob.id, {
+      status: 'FAILED',
+      processedRows: 0,
+      errors: [{ row: 0, error: 'Import was interrupted by a server restart, no cases were saved. Validate it again to retry.' }],
+      completedAt: new Date(),
+    });
+  }
+}
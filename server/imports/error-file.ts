@@ -0,0 +1,94 @@
+import { randomUUID } from "crypto";
+import { once } from "events";
+import { createReadStream, createWriteStream } from "fs";
+import { rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ImportJob } from "@shared/schema";
+import { createObjectWriteStream } from "../storage/files";
+import { toCsvLine } from "../reports/writers/csv";
+
+export interface FailedImportRow {
+  values: Record<string, string>;
+  errors: string[];
+}
+
+export function importErrorFileKey(job: Pick<ImportJob, 'id' | 'clinicId'>): string {
+  return `imports/${job.clinicId}/${job.id}-errors.csv`;
+}
+
+// The file holds patient rows, so it is only handed out through the authenticated route
+export function importErrorFileUrl(job: Pick<ImportJob, 'id'>): string {
+  return `/api/imports/${job.id}/errors.csv`;
+}
+
+export interface ImportErrorFile {
+  add(row: FailedImportRow, headers: Record<string, string>): Promise<void>;
+  // Writes the error file and returns its URL, or null when no row failed
+  save(): Promise<string | null>;
+  // Removes the rows collected so far; call once the file is saved or abandoned
+  discard(): Promise<void>;
+}
+
+// Failed rows keep their original columns, under the names the file gave them, so they
+// can be fixed in a spreadsheet and uploaded again on their own; the reason is added as
+// a trailing column. Rows are collected in a temporary file as they are found, since a
+// JSON file's columns are only all known at the end, and the error file is then written
+// from it in one pass, so a large import's failed rows are never held in memory.
+export async function openImportErrorFile(job: Pick<ImportJob, 'id' | 'clinicId'>): Promise<ImportErrorFile> {
+  const spoolPath = path.join(os.tmpdir(), `import-${job.id}-${randomUUID()}-errors.ndjson`);
+  const spool = createWriteStream(spoolPath);
+  await once(spool, 'open');
+
+  const columns = new Map<string, string>();
+  let rowCount = 0;
+
+  const closeSpool = async () => {
+    if (spool.writableEnded) return;
+    spool.end();
+    await once(spool, 'finish');
+  };
+
+  async function* csvLines(): AsyncGenerator<string> {
+    const columnList = Array.from(columns.keys()).map(key => ({ key, label: columns.get(key)! }));
+    const errorColumn = columns.has('error') ? 'import_error' : 'error';
+    // Leading BOM so Excel opens the file as UTF-8
+    yield '\ufeff' + toCsvLine([...columnList.map(column => column.label), errorColumn]) + '\r\n';
+
+    const lines = createInterface({ input: createReadStream(spoolPath, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line) continue;
+      const row: FailedImportRow = JSON.parse(line);
+      yield toCsvLine([...columnList.map(column => row.values[column.key] ?? ''), row.errors.join('; ')]) + '\r\n';
+    }
+  }
+
+  return {
+    async add(row, headers) {
+      Object.keys(row.values).forEach(key => {
+        if (!columns.has(key)) columns.set(key, headers[key] ?? key);
+      });
+      rowCount++;
+      if (!spool.write(JSON.stringify(row) + '\n')) await once(spool, 'drain');
+    },
+
+    async save() {
+      await closeSpool();
+      if (rowCount === 0) return null;
+
+      await pipeline(
+        Readable.from(csvLines()),
+        await createObjectWriteStream({ key: importErrorFileKey(job), contentType: 'text/csv' }),
+      );
+      return importErrorFileUrl(job);
+    },
+
+    async discard() {
+      await closeSpool();
+      await rm(spoolPath, { force: true });
+    },
+  };
+}
@@ -0,0 +1,253 @@
+import { ATTACHMENT_MAPPING_TARGET, CASE_NUMBER_MAPPING_TARGET, EXTRA_FIELD_PREFIX, IMPORT_CASE_FIELDS, insertCaseSchema, type InsertCase } from "@shared/schema";
+import { computeZoneFromState } from "../geo/nigeria-zones";
+
+export type ImportMapping = Record<string, string>;
+
+export interface MappedImportRow {
+  data: InsertCase | null;
+  errors: string[];
+  warnings: string[];
+  // File paths referenced by attachment columns, in column order
+  attachments: string[];
+}
+
+// A row that updates an existing case: only the columns with a value are changed
+export interface MappedImportUpdate {
+  updates: Partial<InsertCase> | null;
+  errors: string[];
+  warnings: string[];
+  attachments: string[];
+}
+
+export interface ImportRowContext {
+  clinicId: string;
+  createdBy: string;
+}
+
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Common header spellings, including the columns of the original CSV template
+const FIELD_ALIASES: Partial<Record<string, string[]>> = {
+  patientName: ['patient', 'name', 'petname', 'animalname'],
+  ageYears: ['age', 'ageyrs', 'years'],
+  ageMonths: ['months'],
+  tumourTypeCustom: ['tumourtype', 'tumortype', 'tumour', 'tumor', 'diagnosis'],
+  anatomicalSiteCustom: ['anatomicalsite', 'site', 'location'],
+  diagnosisDate: ['dateofdiagnosis', 'diagnosed', 'date'],
+  treatmentStart: ['treatmentstartdate', 'treatmentdate'],
+  lastFollowUp: ['followup', 'lastfollowupdate'],
+  diagnosisMethod: ['method'],
+};
+
+const ATTACHMENT_ALIASES = ['attachments', 'attachment', 'files', 'file', 'images', 'image', 'photos', 'photo', 'documents', 'docs', 'pdf'];
+
+// A cell may list several files separated by semicolons or pipes
+export const splitAttachmentReferences = (raw: string) =>
+  raw.split(/[;|]/).map(ref => ref.trim()).filter(Boolean);
+
+// Suggests a target for each column by matching field names, labels and aliases.
+// File columns are only suggested for ZIP bundles, where they can be resolved.
+export function suggestImportMapping(headers: string[], options: { attachments?: boolean } = {}): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const key = compact(header);
+    const match = IMPORT_CASE_FIELDS.find(({ field, label }) =>
+      !used.has(field) &&
+      (compact(field) === key || compact(label) === key || FIELD_ALIASES[field]?.includes(key))
+    );
+    if (match) {
+      mapping[header] = match.field;
+      used.add(match.field);
+    } else if (options.attachments && ATTACHMENT_ALIASES.some(alias => key.replace(/\d+$/, '') === alias)) {
+      mapping[header] = ATTACHMENT_MAPPING_TARGET;
+    }
+  }
+
+  return mapping;
+}
+
+const SEX_ALIASES: Record<string, string> = {
+  maleneutered: 'MALE_NEUTERED', mn: 'MALE_NEUTERED', castratedmale: 'MALE_NEUTERED', malecastrated: 'MALE_NEUTERED',
+  maleintact: 'MALE_INTACT', mi: 'MALE_INTACT', male: 'MALE_INTACT', m: 'MALE_INTACT', entiremale: 'MALE_INTACT',
+  femalespayed: 'FEMALE_SPAYED', fs: 'FEMALE_SPAYED', spayedfemale: 'FEMALE_SPAYED',
+  femaleintact: 'FEMALE_INTACT', fi: 'FEMALE_INTACT', female: 'FEMALE_INTACT', f: 'FEMALE_INTACT', entirefemale: 'FEMALE_INTACT',
+};
+
+const OUTCOME_ALIASES: Record<string, string> = {
+  remission: 'REMISSION', inremission: 'REMISSION', cured: 'REMISSION', resolved: 'REMISSION',
+  treatmentongoing: 'TREATMENT_ONGOING', ongoing: 'TREATMENT_ONGOING', undertreatment: 'TREATMENT_ONGOING',
+  deceased: 'DECEASED', dead: 'DECEASED', died: 'DECEASED', euthanized: 'DECEASED', euthanised: 'DECEASED',
+  losttofollowup: 'LOST_TO_FOLLOWUP', lost: 'LOST_TO_FOLLOWUP', ltfu: 'LOST_TO_FOLLOWUP',
+};
+
+const STATUS_VALUES = ['DRAFT', 'ACTIVE', 'COMPLETED', 'ARCHIVED'];
+
+// Accepts ISO dates and the day-first formats used on Nigerian clinic records
+export function parseImportDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : dayFirst
+      ? [Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1])]
+      : [NaN, NaN, NaN];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function toStateEnum(value: string): { state: string; zone: string } | null {
+  const name = value.trim().replace(/_/g, ' ').replace(/\s+/g, ' ');
+  const zone = computeZoneFromState(name);
+  if (zone === 'Unknown') return null;
+
+  const state = name.toLowerCase() === 'abuja' ? 'FCT' : name.toUpperCase().replace(/\s+/g, '_');
+  return { state, zone: zone.toUpperCase().replace(/\s+/g, '_') };
+}
+
+// The raw value a row holds for a mapping target, e.g. the key an update import matches on
+export function importTargetValue(values: Record<string, string>, mapping: ImportMapping, target: string): string {
+  const column = Object.keys(mapping).find(c => mapping[c] === target);
+  return column ? (values[column] ?? '').trim() : '';
+}
+
+interface ConvertedImportRow {
+  caseData: Record<string, any>;
+  errors: string[];
+  warnings: string[];
+  attachments: string[];
+  // Targets whose value was present but could not be converted
+  invalid: Set<string>;
+}
+
+// Converts the mapped columns of one row to case field values. Problems are collected
+// rather than thrown so a whole file can be validated in one pass.
+function convertImportRow(values: Record<string, string>, mapping: ImportMapping): ConvertedImportRow {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const caseData: Record<string, any> = {};
+  const extra: Record<string, string> = {};
+  const attachments: string[] = [];
+  const invalid = new Set<string>();
+  const fail = (target: string, message: string) => {
+    invalid.add(target);
+    errors.push(message);
+  };
+
+  for (const [column, target] of Object.entries(mapping)) {
+    const raw = (values[column] ?? '').trim();
+    if (!raw) continue;
+
+    if (target.startsWith(EXTRA_FIELD_PREFIX)) {
+      extra[target.slice(EXTRA_FIELD_PREFIX.length)] = raw;
+      continue;
+    }
+    if (target === ATTACHMENT_MAPPING_TARGET) {
+      attachments.push(...splitAttachmentReferences(raw));
+      continue;
+    }
+    if (target === CASE_NUMBER_MAPPING_TARGET) continue;
+
+    switch (target) {
+      case 'state': {
+        const resolved = toStateEnum(raw);
+        if (!resolved) fail(target, `Invalid state: ${JSON.stringify(raw)}`);
+        else {
+          caseData.state = resolved.state;
+          caseData.geoZone = resolved.zone;
+        }
+        break;
+      }
+      case 'sex': {
+        const sex = SEX_ALIASES[compact(raw)];
+        if (sex) caseData.sex = sex;
+        else warnings.push(`Unrecognised sex ${JSON.stringify(raw)} was left blank`);
+        break;
+      }
+      case 'outcome': {
+        const outcome = OUTCOME_ALIASES[compact(raw)];
+        if (outcome) caseData.outcome = outcome;
+        else fail(target, `Invalid outcome: ${JSON.stringify(raw)}`);
+        break;
+      }
+      case 'status': {
+        const status = raw.toUpperCase();
+        if (STATUS_VALUES.includes(status)) caseData.status = status;
+        else fail(target, `Invalid record status: ${JSON.stringify(raw)}`);
+        break;
+      }
+      case 'ageYears':
+      case 'ageMonths': {
+        const age = Number(raw);
+        if (!Number.isInteger(age) || age < 0) fail(target, `${target} must be a whole number, got ${JSON.stringify(raw)}`);
+        else caseData[target] = age;
+        break;
+      }
+      case 'diagnosisDate':
+      case 'treatmentStart':
+      case 'lastFollowUp': {
+        const date = parseImportDate(raw);
+        if (!date) fail(target, `Invalid date for ${target}: ${JSON.stringify(raw)} (use YYYY-MM-DD or DD/MM/YYYY)`);
+        else caseData[target] = date;
+        break;
+      }
+      default:
+        caseData[target] = raw;
+    }
+  }
+
+  if (caseData.diagnosisDate && caseData.diagnosisDate > new Date()) {
+    warnings.push('Diagnosis date is in the future');
+  }
+  if (Object.keys(extra).length > 0) {
+    caseData.extra = extra;
+  }
+
+  return { caseData, errors, warnings, attachments, invalid };
+}
+
+const schemaErrors = (error: { errors: Array<{ path: (string | number)[]; message: string }> }) =>
+  error.errors.map(e => `${e.path.join('.') || 'row'}: ${e.message}`);
+
+// Applies a column mapping to one parsed row and converts values to a new case
+export function mapImportRow(values: Record<string, string>, mapping: ImportMapping, context: ImportRowContext): MappedImportRow {
+  const { caseData, errors, warnings, attachments, invalid } = convertImportRow(values, mapping);
+
+  for (const { field, label } of IMPORT_CASE_FIELDS.filter(f => 'required' in f && f.required)) {
+    if (caseData[field] === undefined && !invalid.has(field)) {
+      errors.push(`${label} is required`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors, warnings, attachments };
+  }
+
+  const parsed = insertCaseSchema.safeParse({ ...caseData, clinicId: context.clinicId, createdBy: context.createdBy });
+  if (!parsed.success) {
+    return { data: null, errors: schemaErrors(parsed.error), warnings, attachments };
+  }
+
+  return { data: parsed.data, errors, warnings, attachments };
+}
+
+// Same conversion for a row that updates an existing case; required fields may be left out
+export function mapImportUpdateRow(values: Record<string, string>, mapping: ImportMapping): MappedImportUpdate {
+  const { caseData, errors, warnings, attachments } = convertImportRow(values, mapping);
+
+  if (errors.length > 0) {
+    return { updates: null, errors, warnings, attachments };
+  }
+
+  const parsed = insertCaseSchema.omit({ clinicId: true, createdBy: true }).partial().safeParse(caseData);
+  if (!parsed.success) {
+    return { updates: null, errors: schemaErrors(parsed.error), warnings, attachments };
+  }
+
+  return { updates: parsed.data, errors, warnings, attachments };
+}
@@ -0,0 +1,322 @@
+import { createReadStream } from "fs";
+import path from "path";
+import ExcelJS from "exceljs";
+
+export type ImportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ImportRow {
+  // Row number as the user sees it in the source file (the CSV/XLSX header is row 1)
+  rowNumber: number;
+  values: Record<string, string>;
+  // Column names as written in the file, keyed by the normalized names used in values
+  headers: Record<string, string>;
+}
+
+export class ImportParseError extends Error {
+  constructor(message: string, public rowNumber?: number) {
+    super(rowNumber ? `Row ${rowNumber}: ${message}` : message);
+    this.name = 'ImportParseError';
+  }
+}
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  '.csv': 'csv',
+  '.txt': 'csv',
+  '.xlsx': 'xlsx',
+  '.json': 'json',
+};
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  return EXTENSION_FORMATS[path.extname(filename).toLowerCase()] ?? null;
+}
+
+export const normalizeHeader = (header: string) => header.replace(/^\ufeff/, '').trim().toLowerCase();
+
+// When two columns normalize to the same name the later one wins, as in the row values
+function headerLabels(headers: string[], values: string[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    if (header) labels[header] = values[index].replace(/^\ufeff/, '').trim();
+  });
+  return labels;
+}
+
+const isBlankRecord = (values: string[]) => values.every(v => v.trim() === '');
+
+// RFC 4180 parser that works on chunks as they are read, so quoted fields may
+// contain commas, escaped quotes and line breaks, and may span chunk boundaries.
+async function* parseCsvRecords(filePath: string): AsyncGenerator<string[]> {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // saw a quote inside a quoted field; next char decides escape vs close
+  let skipLineFeed = false;
+  let started = false;
+
+  const stream = createReadStream(filePath, { encoding: 'utf8', highWaterMark: 64 * 1024 });
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    const completed: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (!started) {
+        started = true;
+        if (char === '\ufeff') continue;
+      }
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') quotePending = true;
+        else field += char;
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        record.push(field);
+        completed.push(record);
+        field = '';
+        record = [];
+        skipLineFeed = char === '\r';
+      } else {
+        field += char;
+      }
+    }
+
+    for (const values of completed) yield values;
+  }
+
+  if (inQuotes && !quotePending) {
+    throw new ImportParseError('Unterminated quoted field at end of file');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+async function* parseCsv(filePath: string): AsyncGenerator<ImportRow> {
+  let headers: string[] | null = null;
+  let originalHeaders: Record<string, string> = {};
+  let rowNumber = 0;
+
+  for await (const values of parseCsvRecords(filePath)) {
+    rowNumber++;
+    if (isBlankRecord(values)) continue;
+
+    if (!headers) {
+      headers = values.map(normalizeHeader);
+      originalHeaders = headerLabels(headers, values);
+      continue;
+    }
+
+    if (values.length > headers.length && !isBlankRecord(values.slice(headers.length))) {
+      throw new ImportParseError(`Expected ${headers.length} columns but found ${values.length}`, rowNumber);
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (header) row[header] = (values[index] ?? '').trim();
+    });
+    yield { rowNumber, values: row, headers: originalHeaders };
+  }
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Date-only cells are stored as UTC midnight; keep times only when they carry information
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('error' in value) return '';
+  }
+  return String(value);
+}
+
+// Reads only the first worksheet, row by row, without loading the workbook into memory
+async function* parseXlsx(filePath: string): AsyncGenerator<ImportRow> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'cache',
+    worksheets: 'emit',
+  });
+
+  for await (const worksheet of workbook) {
+    let headers: string[] | null = null;
+    let originalHeaders: Record<string, string> = {};
+
+    for await (const row of worksheet as AsyncIterable<ExcelJS.Row>) {
+      // row.values is 1-indexed with an empty first slot
+      const values = (row.values as ExcelJS.CellValue[]).slice(1).map(cellToString);
+      if (isBlankRecord(values)) continue;
+
+      if (!headers) {
+        headers = values.map(normalizeHeader);
+        originalHeaders = headerLabels(headers, values);
+        continue;
+      }
+
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        if (header) record[header] = (values[index] ?? '').trim();
+      });
+      yield { rowNumber: row.number, values: record, headers: originalHeaders };
+    }
+
+    return;
+  }
+}
+
+function jsonValueToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+// Streams the elements of a top-level JSON array, parsing one element at a time
+async function* parseJson(filePath: string): AsyncGenerator<ImportRow> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let sawArray = false;
+  let finished = false;
+  let element = '';
+  let index = 0;
+
+  const emit = (): ImportRow | null => {
+    const text = element.trim();
+    element = '';
+    if (!text) return null;
+
+    index++;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new ImportParseError('Invalid JSON value', index);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ImportParseError('Each array element must be an object', index);
+    }
+
+    const values: Record<string, string> = {};
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+      values[normalizeHeader(key)] = jsonValueToString(value);
+      headers[normalizeHeader(key)] = key.replace(/^\ufeff/, '').trim();
+    }
+    return { rowNumber: index, values, headers };
+  };
+
+  const stream = createReadStream(filePath, { encoding: 'utf8', highWaterMark: 64 * 1024 });
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    const rows: ImportRow[] = [];
+
+    for (const char of chunk) {
+      if (finished) {
+        if (!/\s/.test(char)) throw new ImportParseError('Unexpected content after the JSON array');
+        continue;
+      }
+
+      if (!sawArray) {
+        if (char === '\ufeff' || /\s/.test(char)) continue;
+        if (char !== '[') throw new ImportParseError('JSON imports must contain an array of objects');
+        sawArray = true;
+        depth = 1;
+        continue;
+      }
+
+      if (inString) {
+        element += char;
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+      }
+
+      if (depth === 0) {
+        const row = emit();
+        if (row) rows.push(row);
+        finished = true;
+      } else if (depth === 1 && char === ',') {
+        const row = emit();
+        if (row) rows.push(row);
+      } else {
+        element += char;
+      }
+    }
+
+    for (const row of rows) yield row;
+  }
+
+  if (!sawArray || !finished) {
+    throw new ImportParseError('JSON array is incomplete');
+  }
+}
+
+export function parseImportFile(filePath: string, format: ImportFormat): AsyncGenerator<ImportRow> {
+  switch (format) {
+    case 'csv':
+      return parseCsv(filePath);
+    case 'xlsx':
+      return parseXlsx(filePath);
+    case 'json':
+      return parseJson(filePath);
+  }
+}
+
+// A separate counting pass keeps memory flat and gives the progress bar a denominator
+export async function countImportRows(filePath: string, format: ImportFormat): Promise<number> {
+  let count = 0;
+  for await (const _row of parseImportFile(filePath, format)) count++;
+  return count;
+}
+
+// Reads the first rows for the mapping step. Headers are the union of keys in file
+// order, since JSON objects do not all have to share the same properties.
+export async function readImportPreview(filePath: string, format: ImportFormat, limit = 5): Promise<{ headers: string[]; rows: Array<Record<string, string>> }> {
+  const headers = new Set<string>();
+  const rows: Array<Record<string, string>> = [];
+
+  for await (const { values } of parseImportFile(filePath, format)) {
+    Object.keys(values).forEach(key => headers.add(key));
+    rows.push(values);
+    if (rows.length >= limit) break;
+  }
+
+  return { headers: Array.from(headers), rows };
+}
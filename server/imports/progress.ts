@@ -0,0 +1,42 @@
+import { EventEmitter } from "events";
+import type { ImportJob } from "@shared/schema";
+
+// Latest row errors kept in a progress event; the full list is in the error file
+export const PROGRESS_ERROR_LIMIT = 20;
+
+export interface ImportProgress {
+  status: string;
+  totalRows: number;
+  processedRows: number;
+  successRows: number;
+  failedRows: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+// Progress published by commits running in this process. Workers in other processes
+// are followed through the import job row instead.
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+export function publishImportProgress(importJobId: string, progress: ImportProgress): void {
+  events.emit(importJobId, progress);
+}
+
+export function subscribeImportProgress(importJobId: string, listener: (progress: ImportProgress) => void): () => void {
+  events.on(importJobId, listener);
+  return () => events.off(importJobId, listener);
+}
+
+export function importProgressFromJob(job: ImportJob): ImportProgress {
+  return {
+    status: job.status,
+    totalRows: job.totalRows || 0,
+    processedRows: job.processedRows || 0,
+    successRows: job.successRows || 0,
+    failedRows: job.errorRows || 0,
+    errors: (job.errors || []).slice(-PROGRESS_ERROR_LIMIT),
+  };
+}
+
+export const isImportFinished = (status: string) =>
+  ['COMPLETED', 'FAILED', 'CANCELLED', 'ROLLED_BACK'].includes(status);
@@ -0,0 +1,210 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { IMPORT_CASE_FIELDS, insertCaseSchema, type ImportCaseField } from "@shared/schema";
+import type { ImportVocabulary } from "./validation";
+
+export const IMPORT_TEMPLATE_FILENAME = '9ja-vetonco-bulk-template.xlsx';
+export const IMPORT_TEMPLATE_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const HEADER_FILL = 'FF0F766E';
+const REQUIRED_HEADER_FILL = 'FF9A3412';
+// Rows of the data sheet that get dropdowns and date formatting
+const TEMPLATE_ROWS = 1000;
+
+// The species the case wizard offers; vocabulary terms restricted to other species add to these
+const DEFAULT_SPECIES = ['Dog', 'Cat'];
+
+const DATE_FIELDS: ImportCaseField[] = ['diagnosisDate', 'treatmentStart', 'lastFollowUp'];
+
+const FIELD_NOTES: Partial<Record<ImportCaseField, string>> = {
+  patientName: "The animal's name",
+  species: 'Choose from the list; other species are accepted',
+  sex: 'Choose from the list; M, F, MN and FS are also understood',
+  ageYears: 'Whole number',
+  ageMonths: 'Whole number, in addition to the years',
+  state: 'Choose from the list; the geopolitical zone is filled in from the state',
+  tumourTypeCustom: 'Choose from the list to link the vocabulary term; other values are saved as a custom tumour type',
+  anatomicalSiteCustom: 'Choose from the list to link the vocabulary term; other values are saved as a custom site',
+  laterality: 'Left, right, bilateral or central',
+  diagnosisDate: 'YYYY-MM-DD or DD/MM/YYYY',
+  treatmentStart: 'YYYY-MM-DD or DD/MM/YYYY',
+  outcome: 'Choose from the list',
+  lastFollowUp: 'YYYY-MM-DD or DD/MM/YYYY',
+  status: 'Choose from the list; new cases are saved as Draft when left blank',
+};
+
+// Fields whose dropdown is advisory because the importer also accepts values outside the list
+const OPEN_LIST_FIELDS: ImportCaseField[] = ['species', 'tumourTypeCustom', 'anatomicalSiteCustom'];
+
+// Words kept in capitals when enum values are shown to users
+const ACRONYMS = new Set(['FCT']);
+
+interface TemplateColumn {
+  field: ImportCaseField;
+  label: string;
+  required: boolean;
+  options: string[] | null;
+  note: string;
+}
+
+const formatEnumValue = (value: string) =>
+  value.split('_').map(word => ACRONYMS.has(word) ? word : word.charAt(0) + word.slice(1).toLowerCase()).join(' ');
+
+function enumValues(schema: z.ZodTypeAny): string[] | null {
+  let current = schema;
+  while (current instanceof z.ZodOptional || current instanceof z.ZodNullable || current instanceof z.ZodDefault) {
+    current = current instanceof z.ZodDefault ? current.removeDefault() : current.unwrap();
+  }
+  return current instanceof z.ZodEnum ? (current.options as string[]).map(formatEnumValue) : null;
+}
+
+const uniqueNames = (values: Array<string | null>) =>
+  Array.from(new Set(values.filter((v): v is string => !!v && v.trim() !== '').map(v => v.trim())))
+    .sort((a, b) => a.localeCompare(b));
+
+// One column per importable case field. Required flags and enum values come from the
+// case insert schema, so the template follows schema changes without being edited.
+function templateColumns(vocabulary: ImportVocabulary): TemplateColumn[] {
+  const shape = insertCaseSchema.shape as Record<string, z.ZodTypeAny>;
+  const vocabularyOptions: Partial<Record<ImportCaseField, string[]>> = {
+    species: uniqueNames([
+      ...DEFAULT_SPECIES,
+      ...vocabulary.tumourTypes.map(t => t.species),
+      ...vocabulary.anatomicalSites.map(s => s.species),
+    ]),
+    tumourTypeCustom: uniqueNames(vocabulary.tumourTypes.map(t => t.name)),
+    anatomicalSiteCustom: uniqueNames(vocabulary.anatomicalSites.map(s => s.name)),
+  };
+
+  return IMPORT_CASE_FIELDS.filter(({ field }) => shape[field]).map(({ field, label, ...rest }) => ({
+    field,
+    label,
+    required: ('required' in rest && rest.required) || !shape[field].isOptional(),
+    options: vocabularyOptions[field] ?? enumValues(shape[field]),
+    note: FIELD_NOTES[field] ?? 'Free text',
+  }));
+}
+
+function styleHeaderRow(row: ExcelJS.Row, columns: TemplateColumn[]): void {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell((cell, index) => {
+    const column = columns[index - 1];
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: column?.required ? REQUIRED_HEADER_FILL : HEADER_FILL } };
+    if (column) cell.note = `${column.required ? 'Required. ' : ''}${column.note}`;
+  });
+}
+
+const columnLetter = (index: number) => {
+  let letter = '';
+  for (let n = index; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Dropdown values live on a hidden sheet because inline lists are limited to 255 characters
+function addListsSheet(workbook: ExcelJS.Workbook, columns: TemplateColumn[]): Map<ImportCaseField, string> {
+  const sheet = workbook.addWorksheet('Lists', { state: 'veryHidden' });
+  const ranges = new Map<ImportCaseField, string>();
+
+  columns.filter(column => column.options && column.options.length > 0).forEach((column, index) => {
+    const letter = columnLetter(index + 1);
+    sheet.getCell(`${letter}1`).value = column.label;
+    column.options!.forEach((option, row) => {
+      sheet.getCell(`${letter}${row + 2}`).value = option;
+    });
+    ranges.set(column.field, `Lists!$${letter}$2:$${letter}$${column.options!.length + 1}`);
+  });
+
+  return ranges;
+}
+
+function addDataSheet(workbook: ExcelJS.Workbook, columns: TemplateColumn[]): ExcelJS.Worksheet {
+  const sheet = workbook.addWorksheet('Cases', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(column => ({
+    header: column.label,
+    key: column.field,
+    width: Math.max(column.label.length + 4, 16),
+    style: DATE_FIELDS.includes(column.field) ? { numFmt: 'yyyy-mm-dd' } : {},
+  }));
+  styleHeaderRow(sheet.getRow(1), columns);
+  return sheet;
+}
+
+function addDropdowns(sheet: ExcelJS.Worksheet, columns: TemplateColumn[], ranges: Map<ImportCaseField, string>): void {
+  columns.forEach((column, index) => {
+    const range = ranges.get(column.field);
+    if (!range) return;
+
+    const open = OPEN_LIST_FIELDS.includes(column.field);
+    const validation: ExcelJS.DataValidation = {
+      type: 'list',
+      allowBlank: !column.required,
+      formulae: [range],
+      showErrorMessage: true,
+      errorStyle: open ? 'warning' : 'stop',
+      errorTitle: column.label,
+      error: open
+        ? `${column.label} is not in the list. It will be imported as a custom value.`
+        : `Choose a ${column.label.toLowerCase()} from the list.`,
+    };
+    const letter = columnLetter(index + 1);
+    for (let row = 2; row <= TEMPLATE_ROWS; row++) {
+      sheet.getCell(`${letter}${row}`).dataValidation = validation;
+    }
+  });
+}
+
+function addInstructionsSheet(workbook: ExcelJS.Workbook, columns: TemplateColumn[], generatedAt: Date): void {
+  const sheet = workbook.addWorksheet('Instructions');
+  sheet.columns = [{ width: 24 }, { width: 12 }, { width: 60 }, { width: 60 }];
+
+  sheet.addRow(['Bulk case import template']).font = { bold: true, size: 14 };
+  sheet.addRow([`Generated ${generatedAt.toISOString().slice(0, 10)} from your clinic's current vocabulary.`]);
+  sheet.addRow([]);
+
+  [
+    'Enter one case per row on the Cases sheet, starting on row 2. Keep the header row and keep Cases as the first sheet.',
+    'Required columns have an orange header and must be filled in on every row.',
+    'Dates can be typed as YYYY-MM-DD or DD/MM/YYYY, or entered as Excel dates.',
+    'Dropdown columns only accept the listed values, except species, tumour type and anatomical site, which also accept values of your own.',
+    'Columns you add yourself can be kept as extra fields when you map columns during import.',
+    'To update existing cases, add a Case Number column and choose "Update existing cases" when importing.',
+  ].forEach((text, index) => {
+    sheet.addRow([`${index + 1}. ${text}`]);
+  });
+  sheet.addRow([]);
+
+  const header = sheet.addRow(['Column', 'Required', 'Notes', 'Accepted values']);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  });
+
+  for (const column of columns) {
+    const row = sheet.addRow([
+      column.label,
+      column.required ? 'Yes' : 'No',
+      column.note,
+      column.options ? column.options.join(', ') : '',
+    ]);
+    row.alignment = { vertical: 'top', wrapText: true };
+  }
+}
+
+// Workbook with an empty Cases sheet first (the importer reads only the first sheet),
+// an Instructions sheet and the hidden lists behind the dropdowns
+export async function buildImportTemplate(vocabulary: ImportVocabulary, generatedAt = new Date()): Promise<Buffer> {
+  const columns = templateColumns(vocabulary);
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = '9ja VetOncoData';
+  workbook.created = generatedAt;
+  workbook.title = 'Bulk case import template';
+
+  const dataSheet = addDataSheet(workbook, columns);
+  addInstructionsSheet(workbook, columns, generatedAt);
+  addDropdowns(dataSheet, columns, addListsSheet(workbook, columns));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,459 @@
+import path from "path";
+import { CASE_NUMBER_MAPPING_TARGET, EXTRA_FIELD_PREFIX, type AnatomicalSite, type BackgroundJob, type Case, type ImportJob, type InsertCase, type Patient, type TumourType } from "@shared/schema";
+import { caseSignalmentFromPatient, type CaseSignalment } from "@shared/patients";
+import { storage } from "../storage";
+import { findDuplicateCasesForRows, importRowDuplicateFinder } from "../cases/duplicates";
+import { diffCaseFields, hasCaseChanges, type CaseFieldDiff } from "../cases/diff";
+import { resolveCaseStaging, stagingFieldsOf } from "../cases/staging";
+import type { JobContext, JobHandler } from "../jobs/queue";
+import { openImportBundle, resolveBundleAttachments, type ImportBundle } from "./bundle";
+import { openImportErrorFile, type ImportErrorFile } from "./error-file";
+import { importTargetValue, mapImportRow, mapImportUpdateRow, type ImportMapping, type ImportRowContext } from "./mapping";
+import { detectImportFormat, parseImportFile, ImportParseError, type ImportFormat } from "./parsers";
+import { importProgressFromJob, publishImportProgress } from "./progress";
+
+// Row-level issues kept on the job and returned to the wizard; counts are always exact
+export const MAX_REPORTED_ISSUES = 500;
+const PREVIEW_ROWS = 20;
+// Validation progress is saved, and cancellation checked, after this many rows
+const VALIDATION_PROGRESS_ROWS = 500;
+// Update imports look up existing cases for this many rows at a time
+const MATCH_LOOKUP_BATCH = 500;
+// New rows are checked for duplicates of existing cases this many at a time
+const DUPLICATE_LOOKUP_BATCH = 500;
+
+export interface ImportVocabulary {
+  tumourTypes: TumourType[];
+  anatomicalSites: AnatomicalSite[];
+}
+
+// Set on update imports when a row matched an existing case; changes is empty when
+// the row holds nothing new. The commit diffs `fields` again against the locked case.
+export interface ImportRowUpdate {
+  caseId: string;
+  caseNumber: string;
+  fields: Partial<InsertCase>;
+  changes: Partial<InsertCase>;
+  diff: CaseFieldDiff;
+}
+
+export interface ValidatedImportRow {
+  rowNumber: number;
+  values: Record<string, string>;
+  // Column names as written in the file, keyed like values
+  headers: Record<string, string>;
+  // The new case, or null for invalid rows and rows that update an existing case
+  data: InsertCase | null;
+  update: ImportRowUpdate | null;
+  errors: string[];
+  warnings: string[];
+  // Bundle entries to attach to the case
+  attachments: string[];
+}
+
+export interface ImportRowOptions {
+  bundle?: ImportBundle;
+  // Update imports: rows whose key matches an existing case change that case instead of adding one
+  matchKey?: string | null;
+}
+
+export interface ImportValidationSummary {
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  warningRows: number;
+  // Valid rows that change an existing case, and those that match one but change nothing
+  updateRows: number;
+  unchangedRows: number;
+  // Files valid rows will attach from the ZIP bundle
+  attachmentCount: number;
+  errors: Array<{ row: number; error: string }>;
+  warnings: Array<{ row: number; warning: string }>;
+  preview: Array<{ row: number; values: Record<string, string>; data: InsertCase | null; update: ImportRowUpdate | null; errors: string[]; warnings: string[] }>;
+  // Valid rows that probably repeat an existing case, with the best match for each
+  duplicates: NonNullable<ImportJob['duplicates']>;
+  // Set when the file could not be read to the end; such a job cannot be committed
+  readError?: string;
+}
+
+export async function loadImportVocabulary(clinicId: string): Promise<ImportVocabulary> {
+  const [tumourTypes, anatomicalSites] = await Promise.all([
+    storage.getTumourTypes(clinicId),
+    storage.getAnatomicalSites(clinicId),
+  ]);
+  return { tumourTypes, anatomicalSites };
+}
+
+function findTerm<T extends { name: string; species: string | null }>(terms: T[], name: string, species: string): T | undefined {
+  const key = name.trim().toLowerCase();
+  return terms.find(t => t.name.toLowerCase() === key && (!t.species || t.species.toLowerCase() === species.toLowerCase()));
+}
+
+// Links free-text tumour types and sites to vocabulary entries where the names match,
+// the same way the case wizard stores either an id or a custom value
+export function applyImportVocabulary(data: Partial<InsertCase> & Pick<InsertCase, 'species'>, vocabulary: ImportVocabulary): string[] {
+  const warnings: string[] = [];
+
+  if (data.tumourTypeCustom) {
+    const match = findTerm(vocabulary.tumourTypes, data.tumourTypeCustom, data.species);
+    if (match) {
+      data.tumourTypeId = match.id;
+      data.tumourTypeCustom = null;
+    } else {
+      warnings.push(`Tumour type ${JSON.stringify(data.tumourTypeCustom)} is not in the vocabulary and will be saved as a custom value`);
+    }
+  }
+
+  if (data.anatomicalSiteCustom) {
+    const match = findTerm(vocabulary.anatomicalSites, data.anatomicalSiteCustom, data.species);
+    if (match) {
+      data.anatomicalSiteId = match.id;
+      data.anatomicalSiteCustom = null;
+    } else {
+      warnings.push(`Anatomical site ${JSON.stringify(data.anatomicalSiteCustom)} is not in the vocabulary and will be saved as a custom value`);
+    }
+  }
+
+  return warnings;
+}
+
+const matchKeyLabel = (matchKey: string) =>
+  matchKey === CASE_NUMBER_MAPPING_TARGET ? 'case number' : matchKey.slice(EXTRA_FIELD_PREFIX.length);
+
+// Fields that decide the staging scheme, or hold the stage itself
+const STAGING_INPUTS = ['species', 'tumourTypeId', 'tumourTypeCustom', 'stage'] as const;
+
+// Signalment columns as named in warnings
+const SIGNALMENT_LABELS: Record<keyof CaseSignalment, string> = {
+  patientName: 'name',
+  species: 'species',
+  breed: 'breed',
+  sex: 'sex',
+  ageYears: 'age',
+  ageMonths: 'age',
+};
+
+// Maps a row that matched an existing case to the fields it would change. A case of a
+// patient keeps the patient's signalment, as when the case is edited.
+async function validateImportUpdate(
+  values: Record<string, string>,
+  mapping: ImportMapping,
+  vocabulary: ImportVocabulary,
+  existing: Case,
+  patient?: Patient,
+): Promise<{ update: ImportRowUpdate | null; errors: string[]; warnings: string[]; attachments: string[] }> {
+  const mapped = mapImportUpdateRow(values, mapping);
+  if (!mapped.updates) {
+    return { update: null, errors: mapped.errors, warnings: mapped.warnings, attachments: mapped.attachments };
+  }
+
+  const fromFile = mapped.updates;
+  const signalment: Partial<CaseSignalment> = patient
+    ? caseSignalmentFromPatient(patient, fromFile.diagnosisDate ?? existing.diagnosisDate)
+    : {};
+  const ignored = (Object.keys(signalment) as Array<keyof CaseSignalment>)
+    .filter(key => fromFile[key] != null && fromFile[key] !== signalment[key])
+    .map(key => SIGNALMENT_LABELS[key]);
+
+  const fields = { ...fromFile, ...signalment };
+  const updates = { ...fields, species: fields.species ?? existing.species };
+  const warnings = [...mapped.warnings, ...applyImportVocabulary(updates, vocabulary)];
+  if (ignored.length > 0) {
+    warnings.push(`Case ${existing.caseNumber} belongs to a patient, so its ${Array.from(new Set(ignored)).join(', ')} from the file ${ignored.length > 1 ? 'were' : 'was'} ignored`);
+  }
+  if (!fields.species) delete (updates as Partial<InsertCase>).species;
+  // A custom value replaces the vocabulary link the case had, and the other way round
+  if (updates.tumourTypeCustom) updates.tumourTypeId = null;
+  if (updates.anatomicalSiteCustom) updates.anatomicalSiteId = null;
+
+  // Staging is checked as the case will be after the update, like an edit; staging under
+  // a scheme the new tumour type or species does not use is cleared
+  if (STAGING_INPUTS.some(key => updates[key] !== undefined && updates[key] !== existing[key])) {
+    const next = {
+      species: updates.species ?? existing.species,
+      tumourTypeId: updates.tumourTypeId !== undefined ? updates.tumourTypeId : existing.tumourTypeId,
+      tumourTypeCustom: updates.tumourTypeCustom !== undefined ? updates.tumourTypeCustom : existing.tumourTypeCustom,
+    };
+    try {
+      Object.assign(updates, await resolveCaseStaging({
+        ...stagingFieldsOf(existing),
+        ...next,
+        stage: updates.stage !== undefined ? updates.stage : existing.stage,
+      }));
+    } catch {
+      // The old stage text is the formatted staging being cleared, so only a stage from the file is kept
+      Object.assign(updates, await resolveCaseStaging({ ...next, stage: updates.stage ?? null }));
+      warnings.push(`The structured staging of case ${existing.caseNumber} does not fit its new tumour type or species and will be cleared`);
+    }
+  }
+
+  const { changes, diff } = diffCaseFields(existing, updates);
+  return {
+    update: { caseId: existing.id, caseNumber: existing.caseNumber, fields: updates, changes, diff },
+    errors: [],
+    warnings,
+    attachments: mapped.attachments,
+  };
+}
+
+export async function* validateImportRows(
+  filePath: string,
+  format: ImportFormat,
+  mapping: ImportMapping,
+  context: ImportRowContext,
+  vocabulary: ImportVocabulary,
+  options: ImportRowOptions = {},
+): AsyncGenerator<ValidatedImportRow> {
+  const { bundle, matchKey } = options;
+  // Rows after the first with the same key are rejected, so no case is changed twice
+  const keyRows = new Map<string, number>();
+
+  for await (const batch of inBatches(parseImportFile(filePath, format), MATCH_LOOKUP_BATCH)) {
+    const keys = matchKey ? batch.map(({ values }) => importTargetValue(values, mapping, matchKey)) : [];
+    const matchesByKey = matchKey
+      ? await storage.findCasesByImportKeys(context.clinicId, matchKey, keys.filter(Boolean))
+      : new Map<string, Case[]>();
+    const patientIds = Array.from(matchesByKey.values()).flat().map(c => c.patientId).filter((id): id is string => !!id);
+    const patients = new Map((await storage.getPatientsByIds(patientIds)).map(patient => [patient.id, patient]));
+
+    for (let i = 0; i < batch.length; i++) {
+      yield { ...(await validateImportRow(batch[i], keys[i] || '', matchesByKey.get(keys[i]) || [], patients)), headers: batch[i].headers };
+    }
+  }
+
+  async function validateImportRow(
+    { rowNumber, values }: { rowNumber: number; values: Record<string, string> },
+    key: string,
+    matches: Case[],
+    patients: Map<string, Patient>,
+  ): Promise<Omit<ValidatedImportRow, 'headers'>> {
+    let data: InsertCase | null = null;
+    let update: ImportRowUpdate | null = null;
+    let errors: string[];
+    let warnings: string[];
+    let references: string[];
+
+    if (key) {
+      const firstRow = keyRows.get(key);
+      if (firstRow !== undefined) {
+        return { rowNumber, values, data: null, update: null, errors: [`Row ${firstRow} has the same ${matchKeyLabel(matchKey!)} ${JSON.stringify(key)}`], warnings: [], attachments: [] };
+      }
+      keyRows.set(key, rowNumber);
+    }
+
+    if (matches.length > 1) {
+      return { rowNumber, values, data: null, update: null, errors: [`More than one case has ${matchKeyLabel(matchKey!)} ${JSON.stringify(key)}`], warnings: [], attachments: [] };
+    }
+    if (key && matches.length === 0 && matchKey === CASE_NUMBER_MAPPING_TARGET) {
+      // Case numbers are assigned by the registry, so an unknown one cannot become a new case
+      return { rowNumber, values, data: null, update: null, errors: [`No case with case number ${JSON.stringify(key)}`], warnings: [], attachments: [] };
+    }
+
+    if (matches.length === 1) {
+      ({ update, errors, warnings, attachments: references } = await validateImportUpdate(values, mapping, vocabulary, matches[0], matches[0].patientId ? patients.get(matches[0].patientId) : undefined));
+    } else {
+      const mapped = mapImportRow(values, mapping, context);
+      data = mapped.data;
+      errors = mapped.errors;
+      warnings = mapped.data ? [...mapped.warnings, ...applyImportVocabulary(mapped.data, vocabulary)] : mapped.warnings;
+      references = mapped.attachments;
+    }
+
+    // A row whose files cannot be attached is rejected whole, like any other invalid field
+    let attachments: string[] = [];
+    if (references.length > 0) {
+      if (!bundle) {
+        errors = [...errors, 'Attachment columns can only be imported from a ZIP file'];
+      } else {
+        const resolved = await resolveBundleAttachments(bundle, references);
+        attachments = resolved.files;
+        errors = [...errors, ...resolved.errors];
+      }
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, values, data: null, update: null, errors, warnings, attachments: [] };
+    }
+    return { rowNumber, values, data, update, errors, warnings, attachments };
+  }
+}
+
+async function* inBatches<T>(items: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  let batch: T[] = [];
+  for await (const item of items) {
+    batch.push(item);
+    if (batch.length === size) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
+
+// Reads the whole file without writing any cases. Rejected rows go to the error file as
+// they are found; onProgress is called every VALIDATION_PROGRESS_ROWS rows.
+export async function validateImportFile(
+  filePath: string,
+  format: ImportFormat,
+  mapping: ImportMapping,
+  context: ImportRowContext,
+  errorFile: ImportErrorFile,
+  options: ImportRowOptions = {},
+  onProgress?: (rowsRead: number) => Promise<void>,
+): Promise<ImportValidationSummary> {
+  const vocabulary = await loadImportVocabulary(context.clinicId);
+  const summary: ImportValidationSummary = {
+    totalRows: 0,
+    validRows: 0,
+    errorRows: 0,
+    warningRows: 0,
+    updateRows: 0,
+    unchangedRows: 0,
+    attachmentCount: 0,
+    errors: [],
+    warnings: [],
+    preview: [],
+    duplicates: [],
+  };
+  const findEarlierRow = importRowDuplicateFinder();
+
+  try {
+    for await (const batch of inBatches(validateImportRows(filePath, format, mapping, context, vocabulary, options), DUPLICATE_LOOKUP_BATCH)) {
+      const newRows = batch.filter(row => row.data);
+      const matches = await findDuplicateCasesForRows(context.clinicId, newRows.map(row => row.data!));
+      const matchByRow = new Map(newRows.map((row, index) => [row.rowNumber, matches[index]]));
+
+      for (const row of batch) {
+        summary.totalRows++;
+
+        if (row.data) {
+          const match = matchByRow.get(row.rowNumber);
+          const earlierRow = findEarlierRow(row.rowNumber, row.data);
+          if (match) {
+            summary.duplicates.push({ row: row.rowNumber, caseId: match.caseId, caseNumber: match.caseNumber, score: match.score });
+            row.warnings.push(`Possible duplicate of case ${match.caseNumber} (${match.reasons.join(', ').toLowerCase()})`);
+          } else if (earlierRow) {
+            summary.duplicates.push({ row: row.rowNumber, caseId: null, caseNumber: null, matchesRow: earlierRow.row, score: earlierRow.score });
+            row.warnings.push(`Possible duplicate of row ${earlierRow.row} (${earlierRow.reasons.join(', ').toLowerCase()})`);
+          }
+        }
+
+        if (row.update && !hasCaseChanges(row.update.diff)) {
+          row.warnings.push(`Matches case ${row.update.caseNumber} but changes nothing`);
+        }
+
+        if (row.data || row.update) {
+          summary.validRows++;
+          summary.attachmentCount += row.attachments.length;
+          if (row.update) {
+            if (hasCaseChanges(row.update.diff)) summary.updateRows++;
+            else summary.unchangedRows++;
+          }
+        } else {
+          summary.errorRows++;
+          await errorFile.add({ values: row.values, errors: row.errors }, row.headers);
+        }
+        if (row.warnings.length > 0) summary.warningRows++;
+
+        for (const error of row.errors) {
+          if (summary.errors.length < MAX_REPORTED_ISSUES) summary.errors.push({ row: row.rowNumber, error });
+        }
+        for (const warning of row.warnings) {
+          if (summary.warnings.length < MAX_REPORTED_ISSUES) summary.warnings.push({ row: row.rowNumber, warning });
+        }
+        if (summary.preview.length < PREVIEW_ROWS) {
+          summary.preview.push({ row: row.rowNumber, values: row.values, data: row.data, update: row.update, errors: row.errors, warnings: row.warnings });
+        }
+        if (onProgress && summary.totalRows % VALIDATION_PROGRESS_ROWS === 0) {
+          await onProgress(summary.totalRows);
+        }
+      }
+    }
+  } catch (parseError) {
+    summary.readError = parseError instanceof Error ? parseError.message : 'Failed to read file';
+    summary.errors.push({
+      row: parseError instanceof ImportParseError ? parseError.rowNumber ?? 0 : 0,
+      error: summary.readError,
+    });
+  }
+
+  return summary;
+}
+
+export const IMPORT_VALIDATE_JOB = 'IMPORT_VALIDATE';
+
+export interface ImportValidatePayload {
+  importJobId: string;
+  userId: string;
+}
+
+// Dry run of a VALIDATING import with the mapping and mode saved on it when it was queued
+async function validateImport({ importJobId, userId }: ImportValidatePayload, context: JobContext): Promise<void> {
+  const importJob = await storage.getImportJobById(importJobId);
+  if (!importJob || importJob.status !== 'VALIDATING') return;
+
+  const absoluteFilePath = path.resolve(process.cwd(), importJob.fileUrl);
+  const format = detectImportFormat(importJob.fileUrl)!;
+  const matchKey = importJob.mode === 'UPSERT' ? importJob.matchKey : null;
+  const bundle = importJob.bundleUrl
+    ? await openImportBundle(path.resolve(process.cwd(), importJob.bundleUrl))
+    : undefined;
+
+  const errorFile = await openImportErrorFile(importJob);
+  try {
+    const summary = await validateImportFile(
+      absoluteFilePath,
+      format,
+      importJob.mapping as ImportMapping,
+      { clinicId: importJob.clinicId, createdBy: userId },
+      errorFile,
+      { bundle, matchKey },
+      async rowsRead => {
+        await context.checkpoint();
+        const updated = await storage.updateImportJob(importJobId, { processedRows: rowsRead });
+        publishImportProgress(importJobId, importProgressFromJob(updated));
+      },
+    );
+    const failed = !!summary.readError || summary.totalRows === 0;
+    if (summary.totalRows === 0 && !summary.readError) {
+      summary.errors.push({ row: 0, error: 'File is empty or contains only headers' });
+    }
+
+    const updated = await storage.updateImportJob(importJobId, {
+      status: failed ? 'FAILED' : 'VALIDATED',
+      totalRows: summary.totalRows,
+      processedRows: 0,
+      successRows: 0,
+      errorRows: summary.errorRows,
+      errors: summary.errors,
+      warnings: summary.warnings,
+      duplicates: summary.duplicates,
+      errorFileUrl: await errorFile.save(),
+      validation: {
+        validRows: summary.validRows,
+        warningRows: summary.warningRows,
+        updateRows: summary.updateRows,
+        unchangedRows: summary.unchangedRows,
+        attachmentCount: summary.attachmentCount,
+        preview: summary.preview,
+      },
+    });
+    publishImportProgress(importJobId, importProgressFromJob(updated));
+  } finally {
+    await errorFile.discard();
+  }
+}
+
+export const importValidateJob: JobHandler<ImportValidatePayload> = {
+  run: validateImport,
+  // Leaves the import where it can be validated again instead of stuck in VALIDATING
+  async onFailed({ importJobId }, job: BackgroundJob) {
+    const error = job.status === 'CANCELLED' ? 'Validation was cancelled' : `Validation failed: ${job.lastError || 'Unknown error'}`;
+    const updated = await storage.updateImportJob(importJobId, {
+      status: job.status === 'CANCELLED' ? 'CANCELLED' : 'FAILED',
+      processedRows: 0,
+      errors: [{ row: 0, error }],
+    });
+    publishImportProgress(importJobId, importProgressFromJob(updated));
+  },
+};
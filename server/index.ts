@@ -2,6 +2,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import path from "path";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReportScheduler } from "./reports/scheduler";
+import { startBackgroundJobs } from "./jobs";
+import { ensureSystemReportTemplates } from "./reports/system-templates";
 
 const app = express();
 app.use(express.json());
@@ -73,5 +76,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    ensureSystemReportTemplates().catch(err => console.error('[reports] Failed to seed system report templates:', err));
+    startReportScheduler();
+    startBackgroundJobs();
   });
 })();
@@ -0,0 +1,25 @@
+import { failInterruptedImports, importCommitJob, IMPORT_COMMIT_JOB } from "../imports/commit";
+import { importValidateJob, IMPORT_VALIDATE_JOB } from "../imports/validation";
+import { reportGenerateJob, REPORT_GENERATE_JOB } from "../reports/engine";
+import { scheduledReportJob, SCHEDULED_REPORT_JOB } from "../reports/scheduler";
+import { casePurgeJob, CASE_PURGE_JOB, startCasePurgeSchedule } from "../cases/trash";
+import { registerJobHandler, startJobWorkers } from "./queue";
+
+export { enqueueJob, cancelJob } from "./queue";
+export { IMPORT_VALIDATE_JOB, IMPORT_COMMIT_JOB, REPORT_GENERATE_JOB, SCHEDULED_REPORT_JOB, CASE_PURGE_JOB };
+
+export function startBackgroundJobs(): () => void {
+  registerJobHandler(IMPORT_VALIDATE_JOB, importValidateJob);
+  registerJobHandler(IMPORT_COMMIT_JOB, importCommitJob);
+  registerJobHandler(REPORT_GENERATE_JOB, reportGenerateJob);
+  registerJobHandler(SCHEDULED_REPORT_JOB, scheduledReportJob);
+  registerJobHandler(CASE_PURGE_JOB, casePurgeJob);
+
+  failInterruptedImports().catch(err => console.error('[jobs] Failed to clean up interrupted imports:', err));
+  const stopPurgeSchedule = startCasePurgeSchedule();
+  const stopWorkers = startJobWorkers();
+  return () => {
+    stopPurgeSchedule();
+    stopWorkers();
+  };
+}
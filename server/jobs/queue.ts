@@ -0,0 +1,188 @@
+import os from "os";
+import type { BackgroundJob, InsertBackgroundJob } from "@shared/schema";
+import { storage } from "../storage";
+
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A running job without a heartbeat for this long is assumed to have lost its worker
+const STALE_AFTER_MS = parseInt(process.env.JOB_STALE_AFTER_MS || String(2 * 60 * 1000), 10);
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Thrown by a handler for a failure that would happen again on every attempt; the
+// job fails straight away instead of being retried
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export interface JobContext {
+  job: BackgroundJob;
+  // Records progress so the job is not taken for orphaned, and throws
+  // JobCancelledError once cancellation has been requested
+  checkpoint(): Promise<void>;
+}
+
+export interface JobHandler<P = any> {
+  run(payload: P, context: JobContext): Promise<void>;
+  // Called once a job will not run again because it failed its last attempt or was cancelled
+  onFailed?(payload: P, job: BackgroundJob): Promise<void>;
+}
+
+const handlers = new Map<string, JobHandler>();
+
+export function registerJobHandler<P>(type: string, handler: JobHandler<P>): void {
+  handlers.set(type, handler);
+}
+
+export async function enqueueJob(job: InsertBackgroundJob): Promise<BackgroundJob> {
+  return await storage.createBackgroundJob(job);
+}
+
+async function finishFailedJob(job: BackgroundJob): Promise<void> {
+  try {
+    await handlers.get(job.type)?.onFailed?.(job.payload, job);
+  } catch (error) {
+    console.error(`[jobs] Failure handler for ${job.type} ${job.id} failed:`, error);
+  }
+}
+
+// Pending jobs are cancelled straight away; running ones stop at their next checkpoint
+export async function cancelJob(id: string): Promise<BackgroundJob | undefined> {
+  const job = await storage.getBackgroundJobById(id);
+  if (!job || !['PENDING', 'RUNNING'].includes(job.status)) return job;
+
+  if (job.status === 'PENDING') {
+    const cancelled = await storage.updateBackgroundJob(id, { status: 'CANCELLED', cancelRequested: true, completedAt: new Date() });
+    await finishFailedJob(cancelled);
+    return cancelled;
+  }
+  return await storage.updateBackgroundJob(id, { cancelRequested: true });
+}
+
+async function runJob(job: BackgroundJob): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await storage.updateBackgroundJob(job.id, { status: 'FAILED', lastError: `No handler for job type ${job.type}`, completedAt: new Date() });
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    storage.touchBackgroundJob(job.id).catch(err => console.error(`[jobs] Heartbeat for ${job.id} failed:`, err));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  const context: JobContext = {
+    job,
+    async checkpoint() {
+      const current = await storage.touchBackgroundJob(job.id);
+      if (current?.cancelRequested) throw new JobCancelledError();
+    },
+  };
+
+  try {
+    await handler.run(job.payload, context);
+    await storage.updateBackgroundJob(job.id, { status: 'COMPLETED', lastError: null, completedAt: new Date() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Job failed';
+
+    if (error instanceof JobCancelledError) {
+      await finishFailedJob(await storage.updateBackgroundJob(job.id, { status: 'CANCELLED', lastError: message, completedAt: new Date() }));
+    } else if (job.attempts < job.maxAttempts && !(error instanceof PermanentJobError)) {
+      console.error(`[jobs] ${job.type} ${job.id} failed on attempt ${job.attempts}, retrying:`, error);
+      await storage.updateBackgroundJob(job.id, {
+        status: 'PENDING',
+        lockedBy: null,
+        lastError: message,
+        runAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+      });
+    } else {
+      console.error(`[jobs] ${job.type} ${job.id} failed:`, error);
+      await finishFailedJob(await storage.updateBackgroundJob(job.id, { status: 'FAILED', lastError: message, completedAt: new Date() }));
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Puts jobs whose worker died (e.g. a server restart) back in the queue, or fails
+// them if they have used up their attempts
+export async function recoverOrphanedJobs(now: Date = new Date()): Promise<void> {
+  const stale = await storage.getStaleBackgroundJobs(new Date(now.getTime() - STALE_AFTER_MS));
+
+  for (const job of stale) {
+    const exhausted = job.attempts >= job.maxAttempts;
+    const released = await storage.releaseStaleBackgroundJob(job.id, job.heartbeatAt, exhausted
+      ? { status: 'FAILED', lastError: 'Worker stopped before the job finished', completedAt: now }
+      : { status: 'PENDING', lockedBy: null, runAt: now });
+    if (!released) continue;
+
+    console.log(`[jobs] Recovered orphaned ${job.type} ${job.id} (${exhausted ? 'failed' : 'requeued'})`);
+    if (exhausted) await finishFailedJob(released);
+  }
+}
+
+let activeJobs = 0;
+let isTickRunning = false;
+
+export async function runDueJobs(): Promise<void> {
+  if (isTickRunning) return;
+  isTickRunning = true;
+
+  try {
+    while (activeJobs < WORKER_CONCURRENCY) {
+      const job = await storage.claimBackgroundJob(workerId, new Date());
+      if (!job) break;
+
+      activeJobs++;
+      runJob(job)
+        .catch(err => console.error(`[jobs] Error running ${job.type} ${job.id}:`, err))
+        .finally(() => {
+          activeJobs--;
+          // Pick up the next job without waiting for the poll interval
+          setImmediate(() => runDueJobs().catch(err => console.error('[jobs] Tick failed:', err)));
+        });
+    }
+  } catch (error) {
+    console.error('[jobs] Error claiming jobs:', error);
+  } finally {
+    isTickRunning = false;
+  }
+}
+
+export function startJobWorkers(): () => void {
+  if (process.env.JOB_WORKERS_DISABLED === 'true') {
+    console.log('[jobs] Job workers disabled');
+    return () => undefined;
+  }
+
+  recoverOrphanedJobs()
+    .catch(err => console.error('[jobs] Orphan recovery failed:', err))
+    .finally(() => runDueJobs());
+
+  const pollTimer = setInterval(() => {
+    runDueJobs().catch(err => console.error('[jobs] Tick failed:', err));
+  }, POLL_INTERVAL_MS);
+  pollTimer.unref();
+
+  const recoveryTimer = setInterval(() => {
+    recoverOrphanedJobs().catch(err => console.error('[jobs] Orphan recovery failed:', err));
+  }, STALE_AFTER_MS);
+  recoveryTimer.unref();
+
+  return () => {
+    clearInterval(pollTimer);
+    clearInterval(recoveryTimer);
+  };
+}
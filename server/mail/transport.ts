@@ -0,0 +1,128 @@
+import sgMail from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "9ja VetOncoData <no-reply@vetoncodata.ng>";
+// Outside the statically served uploads folder, since messages carry report attachments
+const LOCAL_OUTBOX_PATH = path.join(process.cwd(), "mail-outbox");
+
+function getFromAddress(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+export function createSendGridTransport(apiKey: string): MailTransport {
+  sgMail.setApiKey(apiKey);
+
+  return {
+    name: "sendgrid",
+    async send(message) {
+      await sgMail.send({
+        to: message.to,
+        from: getFromAddress(),
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map(a => ({
+          filename: a.filename,
+          content: a.content.toString("base64"),
+          type: a.contentType,
+          disposition: "attachment",
+        })),
+      });
+    },
+  };
+}
+
+// Any SMTP server works, including local sinks such as MailHog or smtp4dev
+export function createSmtpTransport(url: string): MailTransport {
+  const transporter = nodemailer.createTransport(url);
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ ...message, from: getFromAddress() });
+    },
+  };
+}
+
+// Writes each message as an .eml file so deliveries can be inspected without a mail server
+export function createFileTransport(directory: string = LOCAL_OUTBOX_PATH): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({ ...message, from: getFromAddress() });
+      await mkdir(directory, { recursive: true });
+      const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().substring(0, 8)}.eml`;
+      await writeFile(path.join(directory, filename), info.message as Buffer);
+    },
+  };
+}
+
+// The file transport is only used when asked for by name, so a missing or mistyped
+// setting fails deliveries instead of quietly writing them to disk
+function createTransportFromEnv(): MailTransport {
+  const configured = (process.env.MAIL_TRANSPORT || "").toLowerCase();
+
+  if (configured === "smtp" || (!configured && process.env.SMTP_URL)) {
+    if (!process.env.SMTP_URL) {
+      throw new Error("SMTP_URL must be set when MAIL_TRANSPORT=smtp");
+    }
+    return createSmtpTransport(process.env.SMTP_URL);
+  }
+
+  if (configured === "sendgrid" || (!configured && process.env.SENDGRID_API_KEY)) {
+    if (!process.env.SENDGRID_API_KEY) {
+      throw new Error("SENDGRID_API_KEY must be set when MAIL_TRANSPORT=sendgrid");
+    }
+    return createSendGridTransport(process.env.SENDGRID_API_KEY);
+  }
+
+  if (configured === "file") {
+    return createFileTransport(process.env.MAIL_OUTBOX_DIR || LOCAL_OUTBOX_PATH);
+  }
+
+  if (configured) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}". Use smtp, sendgrid or file.`);
+  }
+  throw new Error("No mail transport configured. Set SMTP_URL, SENDGRID_API_KEY or MAIL_TRANSPORT=file.");
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+  }
+  return activeTransport;
+}
+
+export function setMailTransport(transport: MailTransport | null): void {
+  activeTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,90 @@
+import type { Case, InsertPatient } from "@shared/schema";
+
+// Estimated birth dates further apart than this are taken to be different animals
+const BIRTH_WINDOW_MONTHS = 12;
+
+export type UnlinkedCase = Case & { tumourTypeName: string | null };
+
+// Cases the review proposes to register as one patient
+export interface ProposedPatientGroup {
+  patient: Pick<InsertPatient, 'name' | 'species' | 'breed' | 'sex'>;
+  cases: UnlinkedCase[];
+  reasons: string[];
+}
+
+const normalize = (value?: string | null) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Neutering changes the sex recorded between cases, so only male and female are compared
+const baseSex = (sex: Case['sex']) => (sex ? sex.split('_')[0] : null);
+
+// Months since an approximate date of birth, counted from the diagnosis date back by the recorded age
+function estimatedBirthMonth(c: Case): number | null {
+  if (c.ageYears == null && c.ageMonths == null) return null;
+  const diagnosed = c.diagnosisDate;
+  return diagnosed.getFullYear() * 12 + diagnosed.getMonth() - ((c.ageYears ?? 0) * 12 + (c.ageMonths ?? 0));
+}
+
+function fitsGroup(group: UnlinkedCase[], candidate: UnlinkedCase): boolean {
+  const sex = baseSex(candidate.sex);
+  const born = estimatedBirthMonth(candidate);
+  return group.every(member => {
+    const memberSex = baseSex(member.sex);
+    if (sex && memberSex && sex !== memberSex) return false;
+    const memberBorn = estimatedBirthMonth(member);
+    return born === null || memberBorn === null || Math.abs(born - memberBorn) <= BIRTH_WINDOW_MONTHS;
+  });
+}
+
+// The patient's signalment as recorded on its most recent case, taking the name and
+// sex from the latest case that has them
+export function patientFromCases(groupCases: Case[]): ProposedPatientGroup['patient'] {
+  const newestFirst = [...groupCases].sort((a, b) => b.diagnosisDate.getTime() - a.diagnosisDate.getTime());
+  const latest = newestFirst[0];
+  return {
+    name: newestFirst.find(c => c.patientName?.trim())?.patientName?.trim() ?? null,
+    species: latest.species,
+    breed: latest.breed,
+    sex: newestFirst.find(c => c.sex)?.sex ?? null,
+  };
+}
+
+// Groups cases that are probably the same animal: same name, species and breed, no
+// conflicting sex, and ages that agree on when it was born. Unnamed cases cannot be
+// matched and each stand alone. Groups of several cases come first.
+export function proposePatientGroups(unlinked: UnlinkedCase[]): ProposedPatientGroup[] {
+  const byIdentity = new Map<string, UnlinkedCase[]>();
+  const groups: UnlinkedCase[][] = [];
+
+  for (const c of unlinked) {
+    const name = normalize(c.patientName);
+    if (!name) {
+      groups.push([c]);
+      continue;
+    }
+    const key = [name, normalize(c.species), normalize(c.breed)].join('|');
+    byIdentity.set(key, [...(byIdentity.get(key) ?? []), c]);
+  }
+
+  byIdentity.forEach(candidates => {
+    const clusters: UnlinkedCase[][] = [];
+    for (const c of candidates) {
+      const cluster = clusters.find(existing => fitsGroup(existing, c));
+      if (cluster) {
+        cluster.push(c);
+      } else {
+        clusters.push([c]);
+      }
+    }
+    groups.push(...clusters);
+  });
+
+  return groups
+    .map(groupCases => ({
+      patient: patientFromCases(groupCases),
+      cases: groupCases,
+      reasons: groupCases.length > 1
+        ? ['Same name, species and breed', 'Sex and recorded ages agree']
+        : [],
+    }))
+    .sort((a, b) => b.cases.length - a.cases.length || (a.patient.name ?? '').localeCompare(b.patient.name ?? ''));
+}
@@ -0,0 +1,41 @@
+import { patientInputSchema, type Patient, type PatientInput } from "@shared/schema";
+import { caseSignalmentFromPatient, type CaseSignalment } from "@shared/patients";
+import { storage } from "../storage";
+
+// The patient a case is saved against, with the signalment the case takes from it
+export async function resolveCasePatient(
+  patientId: string,
+  clinicId: string,
+  diagnosisDate: Date | string,
+): Promise<{ patient: Patient; signalment: CaseSignalment }> {
+  const patient = await storage.getPatient(patientId);
+  if (!patient || patient.clinicId !== clinicId) {
+    throw new Error("Patient not found in this clinic");
+  }
+  return { patient, signalment: caseSignalmentFromPatient(patient, diagnosisDate) };
+}
+
+// A patient registered from the signalment entered on a new case, with the date of
+// birth and microchip number the wizard asks for alongside it
+export async function newPatientFromCase(body: Record<string, any>, clinicId: string): Promise<PatientInput> {
+  const patient = patientInputSchema.parse({
+    name: body.patientName || null,
+    species: body.species,
+    breed: body.breed,
+    sex: body.sex || null,
+    dateOfBirth: body.patientDateOfBirth || null,
+    microchipNumber: body.microchipNumber || null,
+  });
+  await assertMicrochipAvailable(clinicId, patient.microchipNumber);
+  return patient;
+}
+
+// Microchips are unique within a clinic; another clinic may hold its own record of the same animal
+export async function assertMicrochipAvailable(clinicId: string, microchipNumber: string | null | undefined, patientId?: string): Promise<void> {
+  if (!microchipNumber) return;
+  const holder = await storage.getPatientByMicrochip(clinicId, microchipNumber);
+  if (holder && holder.id !== patientId) {
+    throw new Error(`Microchip ${microchipNumber} is already registered to another patient of this clinic`);
+  }
+}
+
@@ -0,0 +1,115 @@
+import { readFile } from "fs/promises";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import path from "path";
+import type { Clinic } from "@shared/schema";
+import { getObject } from "../storage/files";
+import type { ReportBranding } from "./types";
+
+// Remote assets are fetched at report time, so a slow or huge response must not stall the job
+const REMOTE_ASSET_TIMEOUT_MS = 5000;
+const MAX_ASSET_BYTES = 5 * 1024 * 1024; // 5 MB
+
+// Stored branding files live under a per-clinic prefix; any other key belongs to someone else
+function brandingKeyPrefix(clinicId: string): string {
+  return `clinics/${clinicId}/branding/`;
+}
+
+// Loopback, private, link-local and unspecified ranges, which a logo URL must never reach
+function isInternalAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase();
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isInternalAddress(mapped[1]);
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+  }
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+}
+
+async function fetchRemoteAsset(url: string): Promise<Buffer> {
+  const target = new URL(url);
+  if (target.protocol !== 'https:') {
+    throw new Error('Remote assets must be served over HTTPS');
+  }
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new Error('Asset host resolves to an internal address');
+  }
+
+  // Redirects are refused so the host check above cannot be bypassed
+  const response = await fetch(target, { redirect: 'error', signal: AbortSignal.timeout(REMOTE_ASSET_TIMEOUT_MS) });
+  if (!response.ok || !response.body) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_ASSET_BYTES) {
+    throw new Error('Asset is larger than the size limit');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_ASSET_BYTES) {
+      await reader.cancel();
+      throw new Error('Asset is larger than the size limit');
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Clinic assets may be external HTTPS URLs, or files the clinic uploaded under its branding
+// prefix, either served from /uploads or held as object storage keys
+async function loadAsset(url: string, clinicId: string): Promise<Buffer | null> {
+  try {
+    if (/^https?:\/\//i.test(url)) {
+      return await fetchRemoteAsset(url);
+    }
+
+    const prefix = brandingKeyPrefix(clinicId);
+
+    if (url.startsWith('/uploads/')) {
+      const localPath = path.join(process.cwd(), url);
+      if (!localPath.startsWith(path.join(process.cwd(), 'uploads', 'case-files-storage', prefix))) {
+        throw new Error("Asset path is outside the clinic's branding uploads");
+      }
+      return await readFile(localPath);
+    }
+
+    if (!url.startsWith(prefix) || path.posix.normalize(url) !== url) {
+      throw new Error("Asset key is outside the clinic's branding uploads");
+    }
+    const { buffer } = await getObject({ key: url });
+    if (buffer.length > MAX_ASSET_BYTES) {
+      throw new Error('Asset is larger than the size limit');
+    }
+    return buffer;
+  } catch (error) {
+    console.error(`[reports] Could not load clinic asset ${url}:`, error);
+    return null;
+  }
+}
+
+export async function loadReportBranding(clinic: Clinic | undefined): Promise<ReportBranding> {
+  if (!clinic) {
+    return { clinicName: '9ja VetOncoData', logo: null, letterhead: null };
+  }
+
+  const [logo, letterhead] = await Promise.all([
+    clinic.logoUrl ? loadAsset(clinic.logoUrl, clinic.id) : Promise.resolve(null),
+    clinic.letterheadUrl ? loadAsset(clinic.letterheadUrl, clinic.id) : Promise.resolve(null),
+  ]);
+
+  return {
+    clinicName: clinic.name,
+    clinicAddress: [clinic.address, clinic.city].filter(Boolean).join(', ') || null,
+    logo,
+    letterhead,
+  };
+}
@@ -0,0 +1,278 @@
+import { createHash } from "crypto";
+import type { BackgroundJob, ReportDefinition, ReportInstance, ReportTemplate } from "@shared/schema";
+import { pool } from "../db";
+import { storage } from "../storage";
+import { PermanentJobError, type JobHandler } from "../jobs/queue";
+import { putObject } from "../storage/files";
+import { loadReportBranding } from "./branding";
+import { redactReportResults } from "./redaction";
+import { getReportWriter } from "./writers";
+import type { RenderedReport, RenderedSection, ReportBranding, ReportColumn, ReportRow } from "./types";
+
+const QUERY_TIMEOUT_MS = 30_000;
+
+// Postgres error classes worth retrying: connection exceptions, transaction rollbacks
+// (serialization failures, deadlocks), insufficient resources and operator intervention
+// (which includes statement timeouts)
+const TRANSIENT_SQLSTATE_CLASSES = new Set(['08', '40', '53', '57']);
+
+// Template queries are plain SQL, so only a single read-only statement is accepted.
+// They also run inside a READ ONLY transaction, which Postgres enforces regardless.
+export function assertReadOnlyQuery(query: string): void {
+  const normalized = query.trim().replace(/;\s*$/, '');
+  if (normalized.includes(';')) {
+    throw new Error('Report queries must contain a single statement');
+  }
+  if (!/^(select|with)\b/i.test(normalized)) {
+    throw new Error('Report queries must be SELECT statements');
+  }
+}
+
+// Owner records are never reported on, whatever their columns are selected as
+export function assertNoOwnerData(query: string): void {
+  if (/\bowners\b/i.test(query)) {
+    throw new Error('Report queries cannot read owner records');
+  }
+}
+
+export function resolveReportParams(
+  definition: ReportDefinition,
+  rawParams: Record<string, unknown> = {},
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+
+  for (const input of definition.inputs) {
+    const value = rawParams[input.name];
+    const isBlank = value === undefined || value === null || value === '';
+
+    if (isBlank && input.required) {
+      throw new Error(`Missing required report input: ${input.name}`);
+    }
+
+    params[input.name] = isBlank ? null : value;
+  }
+
+  return params;
+}
+
+export async function executeReportQueries(
+  definition: ReportDefinition,
+  params: Record<string, unknown>,
+): Promise<Record<string, ReportRow[]>> {
+  definition.queries.forEach(q => {
+    assertReadOnlyQuery(q.sql);
+    assertNoOwnerData(q.sql);
+  });
+
+  const results: Record<string, ReportRow[]> = {};
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query(`SET LOCAL statement_timeout = ${QUERY_TIMEOUT_MS}`);
+
+    for (const query of definition.queries) {
+      const values = query.params.map(name => params[name] ?? null);
+      const result = await client.query(query.sql.trim().replace(/;\s*$/, ''), values);
+      results[query.id] = result.rows;
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return results;
+}
+
+function interpolate(text: string, params: Record<string, unknown>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = params[name];
+    return value === null || value === undefined ? 'All' : String(value);
+  });
+}
+
+function rowsFor(results: Record<string, ReportRow[]>, queryId: unknown): ReportRow[] {
+  if (typeof queryId !== 'string' || !(queryId in results)) {
+    throw new Error(`Report section references unknown query: ${String(queryId)}`);
+  }
+  return results[queryId];
+}
+
+function renderSection(
+  section: ReportDefinition['layout']['sections'][number],
+  params: Record<string, unknown>,
+  results: Record<string, ReportRow[]>,
+): RenderedSection {
+  const config = section.config || {};
+
+  switch (section.type) {
+    case 'heading':
+    case 'text':
+      return { type: section.type, text: interpolate(String(config.text ?? ''), params) };
+
+    case 'metric': {
+      const [firstRow] = rowsFor(results, config.queryId);
+      return {
+        type: 'metric',
+        label: interpolate(String(config.label ?? config.field), params),
+        value: firstRow ? firstRow[config.field] ?? null : null,
+      };
+    }
+
+    case 'table': {
+      const rows = rowsFor(results, config.queryId);
+      const columns: ReportColumn[] = Array.isArray(config.columns) && config.columns.length > 0
+        ? config.columns.map((c: any) => typeof c === 'string' ? { key: c, label: c } : { key: c.key, label: c.label ?? c.key })
+        : Object.keys(rows[0] ?? {}).map(key => ({ key, label: key }));
+      return {
+        type: 'table',
+        title: config.title ? interpolate(String(config.title), params) : undefined,
+        columns,
+        rows,
+      };
+    }
+
+    case 'chart':
+      return {
+        type: 'chart',
+        title: config.title ? interpolate(String(config.title), params) : undefined,
+        labelKey: String(config.labelKey ?? 'label'),
+        valueKey: String(config.valueKey ?? 'count'),
+        rows: rowsFor(results, config.queryId),
+      };
+
+    default:
+      throw new Error(`Unknown report section type: ${section.type}`);
+  }
+}
+
+export function renderReport(
+  template: ReportTemplate,
+  params: Record<string, unknown>,
+  results: Record<string, ReportRow[]>,
+  branding?: ReportBranding,
+): RenderedReport {
+  return {
+    title: template.name,
+    description: template.description,
+    generatedAt: new Date(),
+    params,
+    sections: template.definition.layout.sections.map(section => renderSection(section, params, results)),
+    branding,
+    results,
+  };
+}
+
+export function reportStorageKey(instance: Pick<ReportInstance, 'id' | 'clinicId' | 'format'>): string {
+  const { extension } = getReportWriter(instance.format);
+  return `reports/${instance.clinicId}/${instance.id}.${extension}`;
+}
+
+// Outputs are only handed out through the download route, which checks who is asking
+export function reportDownloadUrl(instance: Pick<ReportInstance, 'id'>): string {
+  return `/api/reports/instances/${instance.id}/download`;
+}
+
+// Whether a failed run might succeed on another attempt. Template, input, SQL and
+// redaction errors fail the same way every time; lost connections and storage outages may not.
+function isTransientReportError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string') {
+    // Postgres SQLSTATE, or a Node network error such as ECONNRESET
+    return /^[0-9][0-9A-Z]{4}$/.test(code) ? TRANSIENT_SQLSTATE_CLASSES.has(code.slice(0, 2)) : code.startsWith('E');
+  }
+  // HTTP status from object storage
+  return typeof code === 'number' && (code === 429 || code >= 500);
+}
+
+// Runs a PENDING report instance through RUNNING to COMPLETED or FAILED. Failures are
+// recorded on the instance and returned along with what made the run fail.
+async function runReportInstance(instanceId: string): Promise<{ instance: ReportInstance; error?: unknown }> {
+  const instance = await storage.getReportInstanceById(instanceId);
+  if (!instance) {
+    throw new Error(`Report instance not found: ${instanceId}`);
+  }
+
+  await storage.updateReportInstance(instanceId, { status: 'RUNNING' });
+
+  try {
+    const template = await storage.getReportTemplateById(instance.templateId);
+    if (!template) {
+      throw new Error('Report template no longer exists');
+    }
+
+    const writer = getReportWriter(instance.format);
+    const params = resolveReportParams(template.definition, instance.params || {});
+    // Instances queued before redactedFor was recorded fall back to the runner's role
+    const role = instance.redactedFor || (await storage.getUser(instance.runBy))?.role || 'RESEARCHER';
+    const { results, redaction } = redactReportResults(
+      template.definition,
+      await executeReportQueries(template.definition, params),
+      { role, clinicId: instance.clinicId },
+    );
+    const branding = await loadReportBranding(await storage.getClinic(instance.clinicId));
+    const report = renderReport(template, params, results, branding);
+    const buffer = await writer.write(report);
+
+    await putObject({
+      key: reportStorageKey(instance),
+      buffer,
+      contentType: writer.contentType,
+    });
+
+    const completed = await storage.updateReportInstance(instanceId, {
+      status: 'COMPLETED',
+      outputUrl: reportDownloadUrl(instance),
+      checksum: createHash('sha256').update(buffer).digest('hex'),
+      queryIds: template.definition.queries.map(q => q.id),
+      redaction,
+      error: null,
+      completedAt: new Date(),
+    });
+    return { instance: completed };
+  } catch (error) {
+    console.error(`[reports] Instance ${instanceId} failed:`, error);
+    const failed = await storage.updateReportInstance(instanceId, {
+      status: 'FAILED',
+      error: error instanceof Error ? error.message : 'Report generation failed',
+      completedAt: new Date(),
+    });
+    return { instance: failed, error };
+  }
+}
+
+// Runs a report instance from a background job. A run that failed for a passing reason
+// is thrown so the job queue retries it before the instance stays FAILED; any other
+// failure is final straight away.
+export async function generateQueuedReportInstance(instanceId: string): Promise<ReportInstance> {
+  const { instance, error } = await runReportInstance(instanceId);
+  if (instance.status === 'FAILED') {
+    const message = instance.error || 'Report generation failed';
+    throw isTransientReportError(error) ? new Error(message) : new PermanentJobError(message);
+  }
+  return instance;
+}
+
+// Leaves the instance FAILED once its job has given up or been cancelled
+export async function failQueuedReportInstance(instanceId: string, job: BackgroundJob): Promise<void> {
+  await storage.updateReportInstance(instanceId, {
+    status: 'FAILED',
+    error: job.status === 'CANCELLED' ? 'Report was cancelled' : job.lastError || 'Report generation failed',
+    completedAt: new Date(),
+  });
+}
+
+export const REPORT_GENERATE_JOB = 'REPORT_GENERATE';
+
+export const reportGenerateJob: JobHandler<{ instanceId: string }> = {
+  async run({ instanceId }) {
+    await generateQueuedReportInstance(instanceId);
+  },
+  async onFailed({ instanceId }, job) {
+    await failQueuedReportInstance(instanceId, job);
+  },
+};
@@ -0,0 +1,91 @@
+import type { ReportDefinition, ReportInstance } from "@shared/schema";
+import type { ReportRow } from "./types";
+
+export const REDACTED_VALUE = '[REDACTED]';
+
+// Always protected in shared output, on top of whatever the template declares.
+// A trailing `*` matches by prefix, so `owner*` covers every owner-identifying column.
+export const PROTECTED_REPORT_FIELDS = ['patientName', 'notes', 'owner*'];
+
+// Masked in every report, including a clinic's own: owner details are never exported
+export const PRIVATE_REPORT_FIELDS = ['owner*'];
+
+// Roles that only ever see de-identified output
+export const RESTRICTED_REPORT_ROLES = ['RESEARCHER'];
+
+export const isRestrictedReportRole = (role: string) => RESTRICTED_REPORT_ROLES.includes(role);
+
+// Output may be shown to a viewer only when it was redacted at least as strictly as the
+// viewer's own role requires. Output of unknown redaction is treated as unredacted.
+export function canViewRedactedReport(redactedFor: string | null, viewerRole: string): boolean {
+  return (redactedFor !== null && isRestrictedReportRole(redactedFor)) || !isRestrictedReportRole(viewerRole);
+}
+
+type AppliedRedaction = NonNullable<ReportInstance['redaction']>;
+
+export interface RedactionContext {
+  role: string;
+  clinicId: string;
+}
+
+// Query columns may be snake_case or camelCase, so names are compared without separators or case
+const normalizeField = (field: string) => field.toLowerCase().replace(/[^a-z0-9*]/g, '');
+
+function fieldMatcher(fields: string[]): (key: string) => boolean {
+  const exact = new Set<string>();
+  const prefixes: string[] = [];
+
+  for (const field of fields.map(normalizeField)) {
+    if (field.endsWith('*')) prefixes.push(field.slice(0, -1));
+    else exact.add(field);
+  }
+
+  return key => {
+    const normalized = normalizeField(key);
+    return exact.has(normalized) || prefixes.some(prefix => normalized.startsWith(prefix));
+  };
+}
+
+function rowClinicId(row: ReportRow): string | undefined {
+  const value = row.clinic_id ?? row.clinicId;
+  return value ? String(value) : undefined;
+}
+
+// Researchers only ever see de-identified output. Other roles see identifying fields
+// for their own clinic's cases; rows that belong to another clinic, or that cannot be
+// attributed to a clinic because the query does not select one, are masked. Owner
+// fields are masked in every row.
+export function redactReportResults(
+  definition: ReportDefinition,
+  results: Record<string, ReportRow[]>,
+  context: RedactionContext,
+): { results: Record<string, ReportRow[]>; redaction: AppliedRedaction } {
+  const fields = Array.from(new Set([...PROTECTED_REPORT_FIELDS, ...(definition.redaction?.fields || [])]));
+  const isProtected = fieldMatcher(fields);
+  const isPrivate = fieldMatcher(PRIVATE_REPORT_FIELDS);
+
+  const masked: AppliedRedaction['masked'] = [];
+  const redacted: Record<string, ReportRow[]> = {};
+
+  for (const [queryId, rows] of Object.entries(results)) {
+    const counts = new Map<string, number>();
+
+    redacted[queryId] = rows.map(row => {
+      const restricted = isRestrictedReportRole(context.role) || rowClinicId(row) !== context.clinicId;
+
+      let copy: ReportRow | null = null;
+      for (const key of Object.keys(row)) {
+        const hide = isPrivate(key) || (restricted && isProtected(key));
+        if (!hide || row[key] === null || row[key] === undefined || row[key] === '') continue;
+        copy = copy || { ...row };
+        copy[key] = REDACTED_VALUE;
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+      return copy || row;
+    });
+
+    counts.forEach((count, field) => masked.push({ queryId, field, rows: count }));
+  }
+
+  return { results: redacted, redaction: { role: context.role, fields, masked } };
+}
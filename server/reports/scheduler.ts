@@ -0,0 +1,221 @@
+import parser from "cron-parser";
+import type { ReportInstance, ReportPeriod, ScheduledReport } from "@shared/schema";
+import { storage } from "../storage";
+import { getObject } from "../storage/files";
+import { sendMail } from "../mail/transport";
+import { enqueueJob, PermanentJobError, type JobHandler } from "../jobs/queue";
+import { failQueuedReportInstance, generateQueuedReportInstance, reportStorageKey } from "./engine";
+import { getReportWriter } from "./writers";
+
+export const DEFAULT_REPORT_TIMEZONE = 'Africa/Lagos';
+
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.REPORT_SCHEDULER_INTERVAL_MS || '60000', 10);
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parser.parseExpression(expression);
+    return expression.trim().split(/\s+/).length === 5;
+  } catch {
+    return false;
+  }
+}
+
+export function nextCronRun(expression: string, after: Date = new Date(), timezone: string = DEFAULT_REPORT_TIMEZONE): Date {
+  return parser.parseExpression(expression, { currentDate: after, tz: timezone }).next().toDate();
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Recurring schedules store a relative period instead of fixed dates, so a monthly
+// schedule always reports on the month that just ended. The period fills the
+// template's first two date inputs as the start and end of the range.
+export function resolveScheduleFilters(
+  filters: Record<string, any>,
+  dateInputs: string[],
+  now: Date = new Date(),
+): Record<string, any> {
+  const { period, ...rest } = filters;
+  if (!period || dateInputs.length === 0) return rest;
+
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  let from: Date;
+  let to: Date;
+
+  switch (period as ReportPeriod) {
+    case 'previous_day':
+      from = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+      to = from;
+      break;
+    case 'previous_week': {
+      // Monday to Sunday of the last full week
+      const weekday = (today.getUTCDay() + 6) % 7;
+      to = new Date(today.getTime() - (weekday + 1) * 24 * 60 * 60 * 1000);
+      from = new Date(to.getTime() - 6 * 24 * 60 * 60 * 1000);
+      break;
+    }
+    case 'previous_month':
+      from = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+      to = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0));
+      break;
+    case 'previous_quarter': {
+      const quarterStartMonth = Math.floor(today.getUTCMonth() / 3) * 3;
+      from = new Date(Date.UTC(today.getUTCFullYear(), quarterStartMonth - 3, 1));
+      to = new Date(Date.UTC(today.getUTCFullYear(), quarterStartMonth, 0));
+      break;
+    }
+    case 'previous_year':
+      from = new Date(Date.UTC(today.getUTCFullYear() - 1, 0, 1));
+      to = new Date(Date.UTC(today.getUTCFullYear() - 1, 11, 31));
+      break;
+    default:
+      throw new Error(`Unknown report period: ${period}`);
+  }
+
+  const [startInput, endInput] = dateInputs;
+  return {
+    ...rest,
+    [startInput]: toDateString(from),
+    ...(endInput ? { [endInput]: toDateString(to) } : {}),
+  };
+}
+
+async function getClinicTimezone(clinicId: string): Promise<string> {
+  const clinic = await storage.getClinic(clinicId);
+  return clinic?.settings?.timezone || DEFAULT_REPORT_TIMEZONE;
+}
+
+export async function computeNextRunAt(schedule: Pick<ScheduledReport, 'cron' | 'clinicId'>, after: Date = new Date()): Promise<Date> {
+  return nextCronRun(schedule.cron, after, await getClinicTimezone(schedule.clinicId));
+}
+
+export const SCHEDULED_REPORT_JOB = 'SCHEDULED_REPORT';
+
+interface ScheduledReportPayload {
+  scheduleId: string;
+  instanceId: string;
+  runDate: string;
+}
+
+// Creates the schedule's report instance and queues its generation and delivery, so a
+// slow report does not hold up other due schedules
+export async function runScheduledReport(schedule: ScheduledReport, now: Date = new Date()): Promise<void> {
+  const template = await storage.getReportTemplateById(schedule.templateId);
+  if (!template) {
+    throw new Error('Report template no longer exists');
+  }
+
+  const dateInputs = template.definition.inputs.filter(i => i.type === 'date').map(i => i.name);
+  const creator = await storage.getUser(schedule.createdBy);
+  const instance = await storage.createReportInstance({
+    templateId: schedule.templateId,
+    clinicId: schedule.clinicId,
+    runBy: schedule.createdBy,
+    redactedFor: creator?.role || 'RESEARCHER',
+    status: 'PENDING',
+    params: resolveScheduleFilters(schedule.filters || {}, dateInputs, now),
+    format: schedule.format,
+  });
+
+  const payload: ScheduledReportPayload = { scheduleId: schedule.id, instanceId: instance.id, runDate: now.toISOString().slice(0, 10) };
+  await enqueueJob({ type: SCHEDULED_REPORT_JOB, payload, clinicId: schedule.clinicId, entityId: instance.id });
+  await storage.updateScheduledReport(schedule.id, { lastRunAt: now });
+}
+
+async function deliverScheduledReport(schedule: ScheduledReport, instance: ReportInstance, runDate: string): Promise<void> {
+  const template = await storage.getReportTemplateById(instance.templateId);
+  const writer = getReportWriter(instance.format);
+  const { buffer } = await getObject({ key: reportStorageKey(instance) });
+  const params = Object.entries(instance.params || {})
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([name, value]) => `  ${name}: ${value}`);
+
+  await sendMail({
+    to: schedule.recipients,
+    subject: `${schedule.name} - ${runDate}`,
+    text: [
+      `Your scheduled report "${schedule.name}" (${template?.name || 'report'}) is attached.`,
+      ...(params.length > 0 ? ['', 'Report inputs:', ...params] : []),
+      '',
+      `Checksum (SHA-256): ${instance.checksum}`,
+      '',
+      '9ja VetOncoData',
+    ].join('\n'),
+    attachments: [{
+      filename: `${schedule.name.replace(/[^a-zA-Z0-9_-]+/g, '-')}_${runDate}.${writer.extension}`,
+      content: buffer,
+      contentType: writer.contentType,
+    }],
+  });
+}
+
+// Generates the report, then emails it. A retry after a failed send finds the instance
+// already COMPLETED and only sends again.
+export const scheduledReportJob: JobHandler<ScheduledReportPayload> = {
+  async run({ scheduleId, instanceId, runDate }, context) {
+    let instance = await storage.getReportInstanceById(instanceId);
+    if (!instance) {
+      throw new PermanentJobError(`Report instance not found: ${instanceId}`);
+    }
+    if (instance.status !== 'COMPLETED') {
+      instance = await generateQueuedReportInstance(instanceId);
+    }
+
+    await context.checkpoint();
+    const schedule = await storage.getScheduledReportById(scheduleId);
+    if (!schedule) {
+      console.log(`[scheduler] Schedule ${scheduleId} was removed; report ${instanceId} not sent`);
+      return;
+    }
+    await deliverScheduledReport(schedule, instance, runDate);
+  },
+  async onFailed({ scheduleId, instanceId }, job) {
+    const instance = await storage.getReportInstanceById(instanceId);
+    if (instance?.status === 'COMPLETED') {
+      console.error(`[scheduler] Scheduled report ${scheduleId} was generated but not delivered: ${job.lastError}`);
+      return;
+    }
+    await failQueuedReportInstance(instanceId, job);
+  },
+};
+
+let isTickRunning = false;
+
+export async function runDueScheduledReports(now: Date = new Date()): Promise<void> {
+  if (isTickRunning) return;
+  isTickRunning = true;
+
+  try {
+    const due = await storage.getDueScheduledReports(now);
+
+    for (const schedule of due) {
+      try {
+        // Advance the schedule before running so a slow or failing report is not retried every tick
+        const nextRunAt = await computeNextRunAt(schedule, now);
+        const claimed = await storage.claimScheduledReport(schedule.id, schedule.nextRunAt!, nextRunAt);
+        if (!claimed) continue;
+
+        await runScheduledReport(claimed, now);
+      } catch (error) {
+        console.error(`[scheduler] Error running scheduled report ${schedule.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[scheduler] Error loading due scheduled reports:', error);
+  } finally {
+    isTickRunning = false;
+  }
+}
+
+export function startReportScheduler(): () => void {
+  if (process.env.REPORT_SCHEDULER_DISABLED === 'true') {
+    console.log('[scheduler] Report scheduler disabled');
+    return () => undefined;
+  }
+
+  const timer = setInterval(() => {
+    runDueScheduledReports().catch(err => console.error('[scheduler] Tick failed:', err));
+  }, SCHEDULER_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
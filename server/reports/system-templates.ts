@@ -0,0 +1,315 @@
+import type { InsertReportTemplate, ReportDefinition } from "@shared/schema";
+import { storage } from "../storage";
+
+// Built-in templates are global (clinicId null) so every clinic can run them without setup.
+// Bump `version` whenever a definition changes so existing databases pick up the new SQL.
+type SystemReportTemplate = Pick<InsertReportTemplate, 'name' | 'description' | 'version'> & {
+  definition: ReportDefinition;
+};
+
+const FILTER_INPUTS = (dateRequired: boolean): ReportDefinition['inputs'] => [
+  { name: 'from', type: 'date', required: dateRequired },
+  { name: 'to', type: 'date', required: dateRequired },
+  { name: 'clinic', type: 'clinic', required: false },
+  { name: 'species', type: 'species', required: false },
+];
+
+const FILTER_PARAMS = ['from', 'to', 'clinic', 'species'];
+
+// Blank inputs arrive as NULL, so each filter is skipped when its parameter is not set.
+// Cases in the trash are never reported on.
+const CASE_FILTERS = `
+  c.deleted_at IS NULL
+  AND ($1::date IS NULL OR c.diagnosis_date >= $1::date)
+  AND ($2::date IS NULL OR c.diagnosis_date < $2::date + INTERVAL '1 day')
+  AND ($3::uuid IS NULL OR c.clinic_id = $3::uuid)
+  AND ($4::text IS NULL OR c.species = $4::text)`;
+
+const TUMOUR_TYPE = `COALESCE(tt.name, NULLIF(c.tumour_type_custom, ''), 'Unknown')`;
+const ANATOMICAL_SITE = `COALESCE(s.name, NULLIF(c.anatomical_site_custom, ''), 'Unknown')`;
+
+const filteredCases = (select: string, groupBy?: string, orderBy = 'cases DESC', limit?: number) => `
+SELECT ${select}
+FROM cases c
+LEFT JOIN tumour_types tt ON tt.id = c.tumour_type_id
+LEFT JOIN anatomical_sites s ON s.id = c.anatomical_site_id
+WHERE ${CASE_FILTERS}
+${groupBy ? `GROUP BY ${groupBy}\nORDER BY ${orderBy}` : ''}
+${limit ? `LIMIT ${limit}` : ''}`.trim();
+
+const query = (id: string, sql: string) => ({ id, sql, params: FILTER_PARAMS });
+
+const table = (queryId: string, title: string, columns: Array<{ key: string; label: string }>) => ({
+  type: 'table',
+  config: { queryId, title, columns },
+});
+
+const chart = (queryId: string, title: string, labelKey: string, valueKey = 'cases') => ({
+  type: 'chart',
+  config: { queryId, title, labelKey, valueKey },
+});
+
+const metric = (queryId: string, field: string, label: string) => ({
+  type: 'metric',
+  config: { queryId, field, label },
+});
+
+const FILTER_SUMMARY = 'Diagnosis dates {{from}} to {{to}}. Species: {{species}}.';
+
+const OUTCOME_COLUMNS = [
+  { key: 'remission', label: 'Remission' },
+  { key: 'ongoing', label: 'Treatment ongoing' },
+  { key: 'deceased', label: 'Deceased' },
+  { key: 'lost', label: 'Lost to follow-up' },
+  { key: 'not_recorded', label: 'Not recorded' },
+  { key: 'remission_rate', label: 'Remission rate (%)' },
+];
+
+const OUTCOME_COUNTS = `
+  COUNT(*) FILTER (WHERE c.outcome = 'REMISSION')::int AS remission,
+  COUNT(*) FILTER (WHERE c.outcome = 'TREATMENT_ONGOING')::int AS ongoing,
+  COUNT(*) FILTER (WHERE c.outcome = 'DECEASED')::int AS deceased,
+  COUNT(*) FILTER (WHERE c.outcome = 'LOST_TO_FOLLOWUP')::int AS lost,
+  COUNT(*) FILTER (WHERE c.outcome IS NULL)::int AS not_recorded,
+  ROUND(100.0 * COUNT(*) FILTER (WHERE c.outcome = 'REMISSION') / NULLIF(COUNT(c.outcome), 0), 1) AS remission_rate`;
+
+export const SYSTEM_REPORT_TEMPLATES: SystemReportTemplate[] = [
+  {
+    name: 'Monthly Oncology Summary',
+    description: 'Case volume, tumour types, anatomical sites, breeds and outcomes for a reporting period',
+    version: 2,
+    definition: {
+      inputs: FILTER_INPUTS(true),
+      queries: [
+        query('totals', filteredCases(`
+          COUNT(*)::int AS total_cases,
+          COUNT(DISTINCT c.clinic_id)::int AS clinics,
+          COUNT(DISTINCT ${TUMOUR_TYPE})::int AS tumour_types,
+          ROUND(100.0 * COUNT(*) FILTER (WHERE c.outcome = 'REMISSION') / NULLIF(COUNT(c.outcome), 0), 1) AS remission_rate`)),
+        query('by_month', filteredCases(
+          `TO_CHAR(c.diagnosis_date, 'YYYY-MM') AS month, COUNT(*)::int AS cases`,
+          `TO_CHAR(c.diagnosis_date, 'YYYY-MM')`, 'month')),
+        query('by_tumour_type', filteredCases(
+          `${TUMOUR_TYPE} AS tumour_type, COUNT(*)::int AS cases`, TUMOUR_TYPE)),
+        query('by_site', filteredCases(
+          `${ANATOMICAL_SITE} AS anatomical_site, COUNT(*)::int AS cases`, ANATOMICAL_SITE)),
+        query('by_breed', filteredCases(
+          `c.species, c.breed, COUNT(*)::int AS cases`, 'c.species, c.breed', 'cases DESC', 20)),
+        query('by_outcome', filteredCases(
+          `COALESCE(c.outcome::text, 'NOT_RECORDED') AS outcome, COUNT(*)::int AS cases`, 'c.outcome')),
+      ],
+      layout: {
+        sections: [
+          { type: 'text', config: { text: FILTER_SUMMARY } },
+          { type: 'heading', config: { text: 'Overview' } },
+          metric('totals', 'total_cases', 'Cases diagnosed'),
+          metric('totals', 'clinics', 'Contributing clinics'),
+          metric('totals', 'tumour_types', 'Distinct tumour types'),
+          metric('totals', 'remission_rate', 'Remission rate (%)'),
+          table('by_month', 'Cases by month', [{ key: 'month', label: 'Month' }, { key: 'cases', label: 'Cases' }]),
+          { type: 'heading', config: { text: 'Case mix' } },
+          chart('by_tumour_type', 'Top tumour types', 'tumour_type'),
+          table('by_tumour_type', 'Cases by tumour type', [{ key: 'tumour_type', label: 'Tumour type' }, { key: 'cases', label: 'Cases' }]),
+          table('by_site', 'Cases by anatomical site', [{ key: 'anatomical_site', label: 'Anatomical site' }, { key: 'cases', label: 'Cases' }]),
+          table('by_breed', 'Top breeds', [{ key: 'species', label: 'Species' }, { key: 'breed', label: 'Breed' }, { key: 'cases', label: 'Cases' }]),
+          table('by_outcome', 'Cases by outcome', [{ key: 'outcome', label: 'Outcome' }, { key: 'cases', label: 'Cases' }]),
+        ],
+      },
+      redaction: { fields: [] },
+    },
+  },
+  {
+    name: 'Tumour Incidence Analysis',
+    description: 'Tumour type frequency by species, anatomical site, breed, age and state',
+    version: 2,
+    definition: {
+      inputs: FILTER_INPUTS(false),
+      queries: [
+        query('by_tumour_species', filteredCases(`
+          ${TUMOUR_TYPE} AS tumour_type,
+          COUNT(*) FILTER (WHERE c.species = 'Dog')::int AS dogs,
+          COUNT(*) FILTER (WHERE c.species = 'Cat')::int AS cats,
+          COUNT(*) FILTER (WHERE c.species NOT IN ('Dog', 'Cat'))::int AS other,
+          COUNT(*)::int AS cases,
+          ROUND(100.0 * COUNT(*) / SUM(COUNT(*)) OVER (), 1) AS share`, TUMOUR_TYPE)),
+        query('by_tumour_site', filteredCases(
+          `${TUMOUR_TYPE} AS tumour_type, ${ANATOMICAL_SITE} AS anatomical_site, COUNT(*)::int AS cases`,
+          `${TUMOUR_TYPE}, ${ANATOMICAL_SITE}`, 'cases DESC, tumour_type', 30)),
+        query('by_breed', filteredCases(
+          `c.species, c.breed, ${TUMOUR_TYPE} AS tumour_type, COUNT(*)::int AS cases`,
+          `c.species, c.breed, ${TUMOUR_TYPE}`, 'cases DESC, c.breed', 30)),
+        query('by_age', filteredCases(`
+          CASE
+            WHEN c.age_years IS NULL THEN 'Unknown'
+            WHEN c.age_years < 3 THEN '0-2 years'
+            WHEN c.age_years < 7 THEN '3-6 years'
+            WHEN c.age_years < 11 THEN '7-10 years'
+            ELSE '11+ years'
+          END AS age_group,
+          COUNT(*)::int AS cases`, 'age_group', 'MIN(COALESCE(c.age_years, 999))')),
+        query('by_state', filteredCases(
+          `COALESCE(c.state::text, 'Unknown') AS state, COUNT(*)::int AS cases`, 'c.state')),
+      ],
+      layout: {
+        sections: [
+          { type: 'text', config: { text: FILTER_SUMMARY } },
+          chart('by_tumour_species', 'Tumour types by case count', 'tumour_type'),
+          table('by_tumour_species', 'Incidence by tumour type and species', [
+            { key: 'tumour_type', label: 'Tumour type' },
+            { key: 'dogs', label: 'Dogs' },
+            { key: 'cats', label: 'Cats' },
+            { key: 'other', label: 'Other' },
+            { key: 'cases', label: 'Total' },
+            { key: 'share', label: 'Share (%)' },
+          ]),
+          table('by_tumour_site', 'Tumour type by anatomical site', [
+            { key: 'tumour_type', label: 'Tumour type' },
+            { key: 'anatomical_site', label: 'Anatomical site' },
+            { key: 'cases', label: 'Cases' },
+          ]),
+          table('by_breed', 'Tumour type by breed', [
+            { key: 'species', label: 'Species' },
+            { key: 'breed', label: 'Breed' },
+            { key: 'tumour_type', label: 'Tumour type' },
+            { key: 'cases', label: 'Cases' },
+          ]),
+          table('by_age', 'Cases by age at diagnosis', [{ key: 'age_group', label: 'Age group' }, { key: 'cases', label: 'Cases' }]),
+          table('by_state', 'Cases by state', [{ key: 'state', label: 'State' }, { key: 'cases', label: 'Cases' }]),
+        ],
+      },
+      redaction: { fields: [] },
+    },
+  },
+  {
+    name: 'Treatment Outcomes Report',
+    description: 'Outcome distribution and remission rates by tumour type, anatomical site and breed',
+    version: 2,
+    definition: {
+      inputs: FILTER_INPUTS(false),
+      queries: [
+        query('by_outcome', filteredCases(
+          `COALESCE(c.outcome::text, 'NOT_RECORDED') AS outcome, COUNT(*)::int AS cases`, 'c.outcome')),
+        query('by_tumour_type', filteredCases(
+          `${TUMOUR_TYPE} AS tumour_type, COUNT(*)::int AS cases, ${OUTCOME_COUNTS}`, TUMOUR_TYPE)),
+        query('by_site', filteredCases(
+          `${ANATOMICAL_SITE} AS anatomical_site, COUNT(*)::int AS cases, ${OUTCOME_COUNTS}`, ANATOMICAL_SITE)),
+        query('by_breed', filteredCases(
+          `c.breed, COUNT(*)::int AS cases, ${OUTCOME_COUNTS}`, 'c.breed', 'cases DESC', 20)),
+        query('treatment_timing', filteredCases(`
+          COUNT(*) FILTER (WHERE c.treatment_start IS NOT NULL)::int AS treated,
+          ROUND(AVG(EXTRACT(EPOCH FROM (c.treatment_start - c.diagnosis_date)) / 86400)
+            FILTER (WHERE c.treatment_start >= c.diagnosis_date), 1) AS avg_days_to_treatment,
+          COUNT(*) FILTER (WHERE c.last_follow_up IS NOT NULL)::int AS followed_up`)),
+      ],
+      layout: {
+        sections: [
+          { type: 'text', config: { text: FILTER_SUMMARY } },
+          metric('treatment_timing', 'treated', 'Cases with a recorded treatment start'),
+          metric('treatment_timing', 'avg_days_to_treatment', 'Average days from diagnosis to treatment'),
+          metric('treatment_timing', 'followed_up', 'Cases with a recorded follow-up'),
+          chart('by_outcome', 'Outcome distribution', 'outcome'),
+          table('by_tumour_type', 'Outcomes by tumour type', [{ key: 'tumour_type', label: 'Tumour type' }, { key: 'cases', label: 'Cases' }, ...OUTCOME_COLUMNS]),
+          table('by_site', 'Outcomes by anatomical site', [{ key: 'anatomical_site', label: 'Anatomical site' }, { key: 'cases', label: 'Cases' }, ...OUTCOME_COLUMNS]),
+          table('by_breed', 'Outcomes by breed', [{ key: 'breed', label: 'Breed' }, { key: 'cases', label: 'Cases' }, ...OUTCOME_COLUMNS]),
+        ],
+      },
+      redaction: { fields: [] },
+    },
+  },
+  {
+    name: 'Clinic Performance Dashboard',
+    description: 'Case volume, record completeness and follow-up rates for each contributing clinic',
+    version: 2,
+    definition: {
+      inputs: FILTER_INPUTS(false),
+      queries: [
+        query('by_clinic', `
+SELECT
+  cl.name AS clinic,
+  cl.state::text AS state,
+  COUNT(*)::int AS cases,
+  COUNT(*) FILTER (WHERE c.status = 'DRAFT')::int AS drafts,
+  ROUND(100.0 * COUNT(c.tumour_type_id) / COUNT(*), 1) AS coded_tumour_pct,
+  ROUND(100.0 * COUNT(c.outcome) / COUNT(*), 1) AS outcome_recorded_pct,
+  ROUND(100.0 * COUNT(c.last_follow_up) / COUNT(*), 1) AS follow_up_pct,
+  ROUND(100.0 * COUNT(*) FILTER (WHERE c.outcome = 'REMISSION') / NULLIF(COUNT(c.outcome), 0), 1) AS remission_rate
+FROM cases c
+JOIN clinics cl ON cl.id = c.clinic_id
+WHERE ${CASE_FILTERS}
+GROUP BY cl.id, cl.name, cl.state
+ORDER BY cases DESC`.trim()),
+        query('by_clinic_month', `
+SELECT cl.name AS clinic, TO_CHAR(c.diagnosis_date, 'YYYY-MM') AS month, COUNT(*)::int AS cases
+FROM cases c
+JOIN clinics cl ON cl.id = c.clinic_id
+WHERE ${CASE_FILTERS}
+GROUP BY cl.name, TO_CHAR(c.diagnosis_date, 'YYYY-MM')
+ORDER BY month, cl.name`.trim()),
+        query('top_tumours_by_clinic', `
+SELECT clinic, tumour_type, cases
+FROM (
+  SELECT
+    cl.name AS clinic,
+    ${TUMOUR_TYPE} AS tumour_type,
+    COUNT(*)::int AS cases,
+    ROW_NUMBER() OVER (PARTITION BY cl.id ORDER BY COUNT(*) DESC) AS tumour_rank
+  FROM cases c
+  JOIN clinics cl ON cl.id = c.clinic_id
+  LEFT JOIN tumour_types tt ON tt.id = c.tumour_type_id
+  WHERE ${CASE_FILTERS}
+  GROUP BY cl.id, cl.name, ${TUMOUR_TYPE}
+) ranked
+WHERE tumour_rank <= 3
+ORDER BY clinic, cases DESC`.trim()),
+      ],
+      layout: {
+        sections: [
+          { type: 'text', config: { text: FILTER_SUMMARY } },
+          chart('by_clinic', 'Cases by clinic', 'clinic'),
+          table('by_clinic', 'Clinic summary', [
+            { key: 'clinic', label: 'Clinic' },
+            { key: 'state', label: 'State' },
+            { key: 'cases', label: 'Cases' },
+            { key: 'drafts', label: 'Drafts' },
+            { key: 'coded_tumour_pct', label: 'Coded tumour (%)' },
+            { key: 'outcome_recorded_pct', label: 'Outcome recorded (%)' },
+            { key: 'follow_up_pct', label: 'Followed up (%)' },
+            { key: 'remission_rate', label: 'Remission rate (%)' },
+          ]),
+          table('top_tumours_by_clinic', 'Top tumour types per clinic', [
+            { key: 'clinic', label: 'Clinic' },
+            { key: 'tumour_type', label: 'Tumour type' },
+            { key: 'cases', label: 'Cases' },
+          ]),
+          table('by_clinic_month', 'Monthly case volume by clinic', [
+            { key: 'clinic', label: 'Clinic' },
+            { key: 'month', label: 'Month' },
+            { key: 'cases', label: 'Cases' },
+          ]),
+        ],
+      },
+      redaction: { fields: [] },
+    },
+  },
+];
+
+// Creates missing system templates and refreshes outdated ones, matched by name
+export async function ensureSystemReportTemplates(): Promise<void> {
+  const existing = (await storage.getReportTemplates()).filter(t => t.isSystem);
+
+  for (const template of SYSTEM_REPORT_TEMPLATES) {
+    const current = existing.find(t => t.name === template.name);
+
+    if (!current) {
+      await storage.createReportTemplate({ ...template, isSystem: true, clinicId: null, createdBy: null });
+      console.log(`[reports] Seeded system report template "${template.name}"`);
+    } else if (current.version < (template.version ?? 1)) {
+      await storage.updateReportTemplate(current.id, {
+        description: template.description,
+        definition: template.definition,
+        version: template.version,
+      });
+      console.log(`[reports] Updated system report template "${template.name}" to v${template.version}`);
+    }
+  }
+}
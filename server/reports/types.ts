@@ -0,0 +1,37 @@
+export type ReportRow = Record<string, unknown>;
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+export type RenderedSection =
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'metric'; label: string; value: unknown }
+  | { type: 'table'; title?: string; columns: ReportColumn[]; rows: ReportRow[] }
+  | { type: 'chart'; title?: string; labelKey: string; valueKey: string; rows: ReportRow[] };
+
+export interface ReportBranding {
+  clinicName: string;
+  clinicAddress?: string | null;
+  logo: Buffer | null;
+  letterhead: Buffer | null;
+}
+
+export interface RenderedReport {
+  title: string;
+  description?: string | null;
+  generatedAt: Date;
+  params: Record<string, unknown>;
+  sections: RenderedSection[];
+  branding?: ReportBranding;
+  // Raw query results keyed by query id, for writers that export data rather than layout
+  results: Record<string, ReportRow[]>;
+}
+
+export interface ReportWriter {
+  extension: string;
+  contentType: string;
+  write(report: RenderedReport): Promise<Buffer>;
+}
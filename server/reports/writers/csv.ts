@@ -0,0 +1,61 @@
+import type { RenderedReport, ReportWriter } from "../types";
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const stringValue = value instanceof Date ? value.toISOString() : String(value);
+  const shouldQuote = /[",\n\r]/.test(stringValue);
+  const escapedValue = stringValue.replace(/"/g, '""');
+
+  return shouldQuote ? `"${escapedValue}"` : escapedValue;
+}
+
+export function toCsvLine(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(',');
+}
+
+// Sections are written top to bottom, separated by blank lines, so the file
+// opens sensibly in a spreadsheet while keeping the report's reading order.
+export const csvWriter: ReportWriter = {
+  extension: 'csv',
+  contentType: 'text/csv',
+  async write(report: RenderedReport): Promise<Buffer> {
+    const lines: string[] = [
+      toCsvLine([report.title]),
+      toCsvLine(['Generated', report.generatedAt.toISOString()]),
+      '',
+    ];
+
+    for (const section of report.sections) {
+      switch (section.type) {
+        case 'heading':
+        case 'text':
+          lines.push(toCsvLine([section.text]));
+          break;
+        case 'metric':
+          lines.push(toCsvLine([section.label, section.value]));
+          break;
+        case 'table':
+          if (section.title) lines.push(toCsvLine([section.title]));
+          lines.push(toCsvLine(section.columns.map(c => c.label)));
+          section.rows.forEach(row => {
+            lines.push(toCsvLine(section.columns.map(c => row[c.key])));
+          });
+          lines.push('');
+          break;
+        case 'chart':
+          if (section.title) lines.push(toCsvLine([section.title]));
+          lines.push(toCsvLine([section.labelKey, section.valueKey]));
+          section.rows.forEach(row => {
+            lines.push(toCsvLine([row[section.labelKey], row[section.valueKey]]));
+          });
+          lines.push('');
+          break;
+      }
+    }
+
+    return Buffer.from(`\ufeff${lines.join('\r\n')}`, 'utf8');
+  },
+};
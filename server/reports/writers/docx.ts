@@ -0,0 +1,188 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type { RenderedReport, RenderedSection, ReportBranding, ReportColumn, ReportRow, ReportWriter } from "../types";
+import { formatValue } from "./values";
+
+const PRIMARY_COLOR = '0F766E';
+const HEADER_IMAGE_HEIGHT = 60;
+const LETTERHEAD_MAX_WIDTH = 600;
+
+type ImageType = 'png' | 'jpg';
+
+// Word needs explicit pixel dimensions, so they are read from the PNG or JPEG header
+function readImageInfo(buffer: Buffer): { type: ImageType; width: number; height: number } | null {
+  if (buffer.length > 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+      const marker = buffer[offset + 1];
+      // SOF0-SOF15 markers carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { type: 'jpg', height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+// Unsupported image formats are skipped rather than failing the report
+function imageRun(image: Buffer, maxWidth: number, maxHeight: number): ImageRun | null {
+  const info = readImageInfo(image);
+  if (!info || info.width === 0 || info.height === 0) {
+    console.error('[reports] Skipping unsupported branding image in DOCX output');
+    return null;
+  }
+
+  const scale = Math.min(maxWidth / info.width, maxHeight / info.height, 1);
+  return new ImageRun({
+    type: info.type,
+    data: image,
+    transformation: { width: Math.round(info.width * scale), height: Math.round(info.height * scale) },
+  });
+}
+
+function buildHeader(branding: ReportBranding): Header {
+  const children: Paragraph[] = [];
+  const letterhead = branding.letterhead && imageRun(branding.letterhead, LETTERHEAD_MAX_WIDTH, HEADER_IMAGE_HEIGHT);
+  const logo = branding.logo && imageRun(branding.logo, HEADER_IMAGE_HEIGHT, HEADER_IMAGE_HEIGHT);
+
+  if (letterhead) {
+    children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [letterhead] }));
+  } else {
+    children.push(new Paragraph({
+      children: [
+        ...(logo ? [logo, new TextRun('  ')] : []),
+        new TextRun({ text: branding.clinicName, bold: true, size: 28, color: PRIMARY_COLOR }),
+      ],
+    }));
+    if (branding.clinicAddress) {
+      children.push(new Paragraph({ children: [new TextRun({ text: branding.clinicAddress, size: 18, color: '555555' })] }));
+    }
+  }
+
+  children.push(new Paragraph({
+    border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: PRIMARY_COLOR, space: 4 } },
+    children: [],
+  }));
+
+  return new Header({ children });
+}
+
+function buildFooter(report: RenderedReport): Footer {
+  const generated = report.generatedAt.toISOString().replace('T', ' ').slice(0, 16);
+  return new Footer({
+    children: [new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [
+        new TextRun({ text: `${report.title} | Generated ${generated} UTC | Page `, size: 16, color: '777777' }),
+        new TextRun({ children: [PageNumber.CURRENT], size: 16, color: '777777' }),
+        new TextRun({ text: ' of ', size: 16, color: '777777' }),
+        new TextRun({ children: [PageNumber.TOTAL_PAGES], size: 16, color: '777777' }),
+      ],
+    })],
+  });
+}
+
+function tableCell(text: string, header: boolean): TableCell {
+  return new TableCell({
+    shading: header ? { type: ShadingType.CLEAR, color: 'auto', fill: PRIMARY_COLOR } : undefined,
+    children: [new Paragraph({
+      children: [new TextRun({ text, bold: header, size: 18, color: header ? 'FFFFFF' : undefined })],
+    })],
+  });
+}
+
+function buildTable(columns: ReportColumn[], rows: ReportRow[]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: columns.map(c => tableCell(c.label, true)) }),
+      ...rows.map(row => new TableRow({ children: columns.map(c => tableCell(formatValue(row[c.key]), false)) })),
+    ],
+  });
+}
+
+const emptyNotice = () => new Paragraph({
+  children: [new TextRun({ text: 'No data for the selected inputs.', italics: true, color: '777777', size: 18 })],
+});
+
+const sectionTitle = (title: string) => new Paragraph({ heading: HeadingLevel.HEADING_3, children: [new TextRun(title)] });
+
+// Every section becomes native Word content, so narrative text and tables stay editable
+function buildSection(section: RenderedSection): Array<Paragraph | Table> {
+  switch (section.type) {
+    case 'heading':
+      return [new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun({ text: section.text, color: PRIMARY_COLOR })] })];
+    case 'text':
+      return [new Paragraph({ children: [new TextRun(section.text)] })];
+    case 'metric':
+      return [new Paragraph({
+        children: [new TextRun(`${section.label}: `), new TextRun({ text: formatValue(section.value) || '-', bold: true })],
+      })];
+    case 'table':
+      return [
+        ...(section.title ? [sectionTitle(section.title)] : []),
+        section.columns.length > 0 && section.rows.length > 0 ? buildTable(section.columns, section.rows) : emptyNotice(),
+        new Paragraph({ children: [] }),
+      ];
+    case 'chart':
+      // Charts are written as their underlying data so they can be re-charted in Word or Excel
+      return [
+        ...(section.title ? [sectionTitle(section.title)] : []),
+        section.rows.length > 0
+          ? buildTable([{ key: section.labelKey, label: section.labelKey }, { key: section.valueKey, label: section.valueKey }], section.rows)
+          : emptyNotice(),
+        new Paragraph({ children: [] }),
+      ];
+  }
+}
+
+export const docxWriter: ReportWriter = {
+  extension: 'docx',
+  contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  async write(report: RenderedReport): Promise<Buffer> {
+    const params = Object.entries(report.params)
+      .map(([name, value]) => `${name}: ${value === null || value === undefined ? 'All' : formatValue(value)}`);
+
+    const document = new Document({
+      creator: report.branding?.clinicName || '9ja VetOncoData',
+      title: report.title,
+      description: report.description || undefined,
+      sections: [{
+        headers: report.branding ? { default: buildHeader(report.branding) } : undefined,
+        footers: { default: buildFooter(report) },
+        children: [
+          new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(report.title)] }),
+          ...(report.description ? [new Paragraph({ children: [new TextRun({ text: report.description, color: '555555' })] })] : []),
+          ...(params.length > 0 ? [new Paragraph({ children: [new TextRun({ text: params.join('   '), size: 18, color: '555555' })] })] : []),
+          new Paragraph({ children: [] }),
+          ...report.sections.flatMap(buildSection),
+        ],
+      }],
+    });
+
+    return await Packer.toBuffer(document);
+  },
+};
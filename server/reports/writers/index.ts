@@ -0,0 +1,21 @@
+import type { ReportFormat } from "@shared/schema";
+import type { ReportWriter } from "../types";
+import { csvWriter } from "./csv";
+import { docxWriter } from "./docx";
+import { pdfWriter } from "./pdf";
+import { xlsxWriter } from "./xlsx";
+
+export const REPORT_WRITERS: Record<ReportFormat, ReportWriter> = {
+  PDF: pdfWriter,
+  DOCX: docxWriter,
+  XLSX: xlsxWriter,
+  CSV: csvWriter,
+};
+
+export function getReportWriter(format: string): ReportWriter {
+  const writer = REPORT_WRITERS[format as ReportFormat];
+  if (!writer) {
+    throw new Error(`Unsupported report format: ${format}`);
+  }
+  return writer;
+}
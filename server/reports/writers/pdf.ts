@@ -0,0 +1,274 @@
+import PDFDocument from "pdfkit";
+import type { RenderedReport, RenderedSection, ReportBranding, ReportWriter } from "../types";
+import { formatValue } from "./values";
+
+const PAGE_MARGIN = 50;
+const HEADER_HEIGHT = 70;
+const FOOTER_HEIGHT = 30;
+const TABLE_ROW_HEIGHT = 18;
+const CHART_BAR_HEIGHT = 14;
+const CHART_MAX_BARS = 15;
+const PRIMARY_COLOR = '#0f766e';
+
+type Doc = PDFKit.PDFDocument;
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function bottomLimit(doc: Doc): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > bottomLimit(doc)) {
+    doc.addPage();
+  }
+}
+
+// PDFKit only decodes PNG and JPEG; anything else is skipped rather than failing the report
+function tryImage(doc: Doc, image: Buffer, x: number, y: number, options: PDFKit.Mixins.ImageOption): boolean {
+  try {
+    doc.image(image, x, y, options);
+    return true;
+  } catch (error) {
+    console.error('[reports] Skipping unsupported branding image:', error);
+    return false;
+  }
+}
+
+function drawHeader(doc: Doc, branding: ReportBranding): void {
+  const { x, y } = doc;
+  const left = PAGE_MARGIN;
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const top = 20;
+
+  let drewLetterhead = false;
+  if (branding.letterhead) {
+    drewLetterhead = tryImage(doc, branding.letterhead, left, top, {
+      fit: [width, HEADER_HEIGHT],
+      align: 'center',
+      valign: 'center',
+    });
+  }
+
+  let textLeft = left;
+  if (branding.logo) {
+    // With a letterhead the logo sits on the right so it does not cover the banner artwork
+    const logoX = drewLetterhead ? left + width - HEADER_HEIGHT : left;
+    if (tryImage(doc, branding.logo, logoX, top, { fit: [HEADER_HEIGHT, HEADER_HEIGHT], valign: 'center' }) && !drewLetterhead) {
+      textLeft = left + HEADER_HEIGHT + 10;
+    }
+  }
+
+  if (!drewLetterhead) {
+    doc.font('Helvetica-Bold').fontSize(14).fillColor(PRIMARY_COLOR)
+      .text(branding.clinicName, textLeft, top + 18, { width: left + width - textLeft, lineBreak: false });
+    if (branding.clinicAddress) {
+      doc.font('Helvetica').fontSize(9).fillColor('#555555')
+        .text(branding.clinicAddress, textLeft, top + 38, { width: left + width - textLeft, lineBreak: false });
+    }
+  }
+
+  doc.moveTo(left, top + HEADER_HEIGHT + 6).lineTo(left + width, top + HEADER_HEIGHT + 6)
+    .lineWidth(1).strokeColor(PRIMARY_COLOR).stroke();
+
+  doc.fillColor('black').font('Helvetica').fontSize(10);
+  doc.x = x;
+  doc.y = y;
+}
+
+function drawFooters(doc: Doc, report: RenderedReport): void {
+  const range = doc.bufferedPageRange();
+  const generated = report.generatedAt.toISOString().replace('T', ' ').slice(0, 16);
+
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger an automatic page break
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(8).fillColor('#777777').text(
+      `${report.title} | Generated ${generated} UTC | Page ${i - range.start + 1} of ${range.count}`,
+      PAGE_MARGIN,
+      doc.page.height - PAGE_MARGIN + 10,
+      { width: doc.page.width - PAGE_MARGIN * 2, align: 'center', lineBreak: false },
+    );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+function drawTitle(doc: Doc, report: RenderedReport): void {
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('black').text(report.title);
+  if (report.description) {
+    doc.moveDown(0.2).font('Helvetica').fontSize(10).fillColor('#555555').text(report.description);
+  }
+
+  const params = Object.entries(report.params)
+    .map(([name, value]) => `${name}: ${value === null || value === undefined ? 'All' : formatValue(value)}`);
+  if (params.length > 0) {
+    doc.moveDown(0.3).fontSize(9).fillColor('#555555').text(params.join('   '));
+  }
+  doc.moveDown(1).fillColor('black');
+}
+
+function drawTableRow(doc: Doc, cells: string[], widths: number[], options: { header?: boolean; shade?: boolean }): void {
+  const left = doc.page.margins.left;
+  const y = doc.y;
+  const totalWidth = widths.reduce((sum, w) => sum + w, 0);
+
+  if (options.header) {
+    doc.rect(left, y, totalWidth, TABLE_ROW_HEIGHT).fill(PRIMARY_COLOR);
+  } else if (options.shade) {
+    doc.rect(left, y, totalWidth, TABLE_ROW_HEIGHT).fill('#f1f5f9');
+  }
+
+  doc.font(options.header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5)
+    .fillColor(options.header ? 'white' : 'black');
+
+  let x = left;
+  cells.forEach((cell, i) => {
+    doc.text(cell, x + 4, y + 5, { width: widths[i] - 8, height: TABLE_ROW_HEIGHT - 6, ellipsis: true, lineBreak: false });
+    x += widths[i];
+  });
+
+  doc.fillColor('black');
+  doc.x = left;
+  doc.y = y + TABLE_ROW_HEIGHT;
+}
+
+function drawTable(doc: Doc, section: Extract<RenderedSection, { type: 'table' }>): void {
+  if (section.title) {
+    ensureSpace(doc, 40);
+    doc.font('Helvetica-Bold').fontSize(11).text(section.title).moveDown(0.3);
+  }
+
+  if (section.columns.length === 0 || section.rows.length === 0) {
+    doc.font('Helvetica-Oblique').fontSize(9).fillColor('#777777').text('No data for the selected inputs.').fillColor('black');
+    doc.moveDown(1);
+    return;
+  }
+
+  const width = contentWidth(doc);
+  const widths = section.columns.map(() => width / section.columns.length);
+  const headers = section.columns.map(c => c.label);
+
+  ensureSpace(doc, TABLE_ROW_HEIGHT * 2);
+  drawTableRow(doc, headers, widths, { header: true });
+
+  section.rows.forEach((row, index) => {
+    if (doc.y + TABLE_ROW_HEIGHT > bottomLimit(doc)) {
+      doc.addPage();
+      drawTableRow(doc, headers, widths, { header: true });
+    }
+    drawTableRow(doc, section.columns.map(c => formatValue(row[c.key])), widths, { shade: index % 2 === 1 });
+  });
+
+  doc.moveDown(1);
+}
+
+function drawChart(doc: Doc, section: Extract<RenderedSection, { type: 'chart' }>): void {
+  const rows = section.rows.slice(0, CHART_MAX_BARS);
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const labelWidth = width * 0.35;
+  const barAreaWidth = width - labelWidth - 40;
+  const maxValue = Math.max(1, ...rows.map(r => Number(r[section.valueKey]) || 0));
+
+  ensureSpace(doc, 30 + rows.length * (CHART_BAR_HEIGHT + 4));
+
+  if (section.title) {
+    doc.font('Helvetica-Bold').fontSize(11).text(section.title, left).moveDown(0.3);
+  }
+
+  if (rows.length === 0) {
+    doc.font('Helvetica-Oblique').fontSize(9).fillColor('#777777').text('No data for the selected inputs.').fillColor('black');
+    doc.moveDown(1);
+    return;
+  }
+
+  rows.forEach(row => {
+    const y = doc.y;
+    const value = Number(row[section.valueKey]) || 0;
+    const barWidth = Math.max(1, (value / maxValue) * barAreaWidth);
+
+    doc.font('Helvetica').fontSize(8.5).fillColor('black')
+      .text(formatValue(row[section.labelKey]) || 'Unknown', left, y + 3, { width: labelWidth - 6, ellipsis: true, lineBreak: false });
+    doc.rect(left + labelWidth, y, barWidth, CHART_BAR_HEIGHT).fill(PRIMARY_COLOR);
+    doc.fillColor('black').text(formatValue(value), left + labelWidth + barWidth + 4, y + 3, { lineBreak: false });
+
+    doc.x = left;
+    doc.y = y + CHART_BAR_HEIGHT + 4;
+  });
+
+  doc.moveDown(1);
+}
+
+function drawSection(doc: Doc, section: RenderedSection): void {
+  const left = doc.page.margins.left;
+
+  switch (section.type) {
+    case 'heading':
+      ensureSpace(doc, 40);
+      doc.font('Helvetica-Bold').fontSize(14).fillColor(PRIMARY_COLOR).text(section.text, left).fillColor('black').moveDown(0.5);
+      break;
+    case 'text':
+      doc.font('Helvetica').fontSize(10).text(section.text, left).moveDown(0.5);
+      break;
+    case 'metric':
+      ensureSpace(doc, 24);
+      doc.font('Helvetica').fontSize(10).text(`${section.label}: `, left, doc.y, { continued: true })
+        .font('Helvetica-Bold').text(formatValue(section.value) || '-').moveDown(0.3);
+      break;
+    case 'table':
+      drawTable(doc, section);
+      break;
+    case 'chart':
+      drawChart(doc, section);
+      break;
+  }
+}
+
+export const pdfWriter: ReportWriter = {
+  extension: 'pdf',
+  contentType: 'application/pdf',
+  write(report: RenderedReport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const branding = report.branding;
+      const doc = new PDFDocument({
+        size: 'A4',
+        bufferPages: true,
+        margins: {
+          top: branding ? PAGE_MARGIN + HEADER_HEIGHT : PAGE_MARGIN,
+          bottom: PAGE_MARGIN + FOOTER_HEIGHT,
+          left: PAGE_MARGIN,
+          right: PAGE_MARGIN,
+        },
+        info: {
+          Title: report.title,
+          Author: branding?.clinicName || '9ja VetOncoData',
+          CreationDate: report.generatedAt,
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      try {
+        // Letterhead goes on every page, including those added by table overflow
+        if (branding) {
+          drawHeader(doc, branding);
+          doc.on('pageAdded', () => drawHeader(doc, branding));
+        }
+
+        drawTitle(doc, report);
+        report.sections.forEach(section => drawSection(doc, section));
+        drawFooters(doc, report);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  },
+};
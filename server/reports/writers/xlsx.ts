@@ -0,0 +1,104 @@
+import ExcelJS from "exceljs";
+import type { RenderedReport, ReportRow, ReportWriter } from "../types";
+
+const HEADER_FILL = 'FF0F766E';
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 50;
+
+// Postgres returns NUMERIC and BIGINT as strings; convert them so the data can be summed and pivoted
+function toCellValue(value: unknown): ExcelJS.CellValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    return /^-?\d+(\.\d+)?$/.test(value) && value.length < 16 ? Number(value) : value;
+  }
+  return JSON.stringify(value);
+}
+
+function uniqueSheetName(workbook: ExcelJS.Workbook, name: string): string {
+  const base = name.replace(/[\\/?*[\]:]/g, '_').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+  let candidate = base;
+  for (let i = 2; workbook.getWorksheet(candidate); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  return candidate;
+}
+
+function styleHeaderRow(row: ExcelJS.Row): void {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  });
+}
+
+function addSummarySheet(workbook: ExcelJS.Workbook, report: RenderedReport): void {
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [{ width: 40 }, { width: 60 }];
+
+  sheet.addRow([report.title]).font = { bold: true, size: 14 };
+  if (report.description) sheet.addRow([report.description]);
+  if (report.branding) sheet.addRow(['Clinic', report.branding.clinicName]);
+  sheet.addRow(['Generated', report.generatedAt]);
+  sheet.addRow([]);
+
+  const params = Object.entries(report.params);
+  if (params.length > 0) {
+    sheet.addRow(['Inputs']).font = { bold: true };
+    params.forEach(([name, value]) => sheet.addRow([name, value === null || value === undefined ? 'All' : toCellValue(value)]));
+    sheet.addRow([]);
+  }
+
+  for (const section of report.sections) {
+    switch (section.type) {
+      case 'heading':
+        sheet.addRow([section.text]).font = { bold: true, size: 12 };
+        break;
+      case 'text':
+        sheet.addRow([section.text]);
+        break;
+      case 'metric':
+        sheet.addRow([section.label, toCellValue(section.value)]);
+        break;
+    }
+  }
+}
+
+function addResultSheet(workbook: ExcelJS.Workbook, queryId: string, rows: ReportRow[]): void {
+  const sheet = workbook.addWorksheet(uniqueSheetName(workbook, queryId), {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  const keys = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  if (keys.length === 0) {
+    sheet.addRow(['No data for the selected inputs.']);
+    return;
+  }
+
+  sheet.columns = keys.map(key => ({ header: key, key }));
+  styleHeaderRow(sheet.getRow(1));
+  rows.forEach(row => sheet.addRow(keys.map(key => toCellValue(row[key]))));
+
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: keys.length } };
+  sheet.columns.forEach((column, index) => {
+    const longest = Math.max(keys[index].length, ...rows.slice(0, 200).map(row => String(row[keys[index]] ?? '').length));
+    column.width = Math.min(MAX_COLUMN_WIDTH, longest + 2);
+  });
+}
+
+// A summary sheet followed by one sheet of raw rows per query, so the data can be re-pivoted
+export const xlsxWriter: ReportWriter = {
+  extension: 'xlsx',
+  contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  async write(report: RenderedReport): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = report.branding?.clinicName || '9ja VetOncoData';
+    workbook.created = report.generatedAt;
+    workbook.title = report.title;
+
+    addSummarySheet(workbook, report);
+    Object.entries(report.results).forEach(([queryId, rows]) => addResultSheet(workbook, queryId, rows));
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  },
+};
@@ -1,19 +1,40 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertClinicSchema, insertCaseSchema, insertTumourTypeSchema, insertAnatomicalSiteSchema, insertFeedPostSchema, updateFeedPostSchema, insertFollowUpSchema, insertCaseFileSchema } from "@shared/schema";
+import { insertUserSchema, insertClinicSchema, insertCaseSchema, insertTumourTypeSchema, insertAnatomicalSiteSchema, insertFeedPostSchema, updateFeedPostSchema, insertFollowUpSchema, insertCaseFileSchema, insertReportTemplateSchema, insertScheduledReportSchema, reportFormatSchema, importMappingSchema, insertImportMappingPresetSchema, importDuplicateDecisionSchema, importModeSchema, importMatchKeySchema, treatmentInputSchema, pathologyReportInputSchema, patientInputSchema, patientMigrationSchema, ownerInputSchema, patientOwnerSchema, type CaseWithDetails, type PatientInput, type Owner, type OwnerInput, type ImportJob } from "@shared/schema";
 import bcrypt from "bcrypt";
 import session from "express-session";
 import ConnectPgSimple from "connect-pg-simple";
 import { pool } from "./db";
 import multer from "multer";
+import os from "os";
 import { z } from "zod";
 import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { putObject, getObject, deleteObject, generateStorageKey, isAllowedMimeType, determineFileKind, MAX_FILE_SIZE, MAX_FILES_PER_CASE } from "./storage/files";
 import { readFile, writeFile, mkdir, rm } from "fs/promises";
 import path from "path";
-import { computeZoneFromState } from "./geo/nigeria-zones";
+import { detectImportFormat, ImportParseError, readImportPreview } from "./imports/parsers";
+import { suggestImportMapping, type ImportMapping } from "./imports/mapping";
+import { isImportBundle, openImportBundle, readBundleManifest, type ImportBundle } from "./imports/bundle";
+import { findDuplicateCases } from "./cases/duplicates";
+import { caseSnapshot, diffCaseFields, hasCaseChanges } from "./cases/diff";
+import { caseVersionAfter } from "./cases/history";
+import { casePurgeDate, caseRetentionStart, CASE_RETENTION_DAYS } from "./cases/trash";
+import { resolveCaseStaging, stagingFieldsOf } from "./cases/staging";
+import { assertMicrochipAvailable, newPatientFromCase, resolveCasePatient } from "./patients/registry";
+import { patientFromCases, proposePatientGroups } from "./patients/grouping";
+import { caseSignalmentFromPatient, type CaseSignalment } from "@shared/patients";
+import { importErrorFileKey } from "./imports/error-file";
+import { loadImportVocabulary } from "./imports/validation";
+import { importUpdatedExistingCases } from "./imports/commit";
+import { buildImportTemplate, IMPORT_TEMPLATE_CONTENT_TYPE, IMPORT_TEMPLATE_FILENAME } from "./imports/template";
+import { importProgressFromJob, isImportFinished, subscribeImportProgress, type ImportProgress } from "./imports/progress";
+import { assertNoOwnerData, assertReadOnlyQuery, reportStorageKey, resolveReportParams } from "./reports/engine";
+import { canViewRedactedReport, isRestrictedReportRole, RESTRICTED_REPORT_ROLES } from "./reports/redaction";
+import { getReportWriter } from "./reports/writers";
+import { computeNextRunAt, isValidCron } from "./reports/scheduler";
+import { cancelJob, enqueueJob, IMPORT_COMMIT_JOB, IMPORT_VALIDATE_JOB, REPORT_GENERATE_JOB } from "./jobs";
 
 const PgSession = ConnectPgSimple(session);
 
@@ -49,10 +70,46 @@ const filterSchema = z.object({
   zone: z.union([z.string(), z.array(z.string())]).optional(),
   state: z.union([z.string(), z.array(z.string())]).optional(),
   tumourTypeId: z.union([z.string(), z.array(z.string())]).optional(),
+  stagingScheme: z.string().optional(),
+  clinicalStage: z.union([z.string(), z.array(z.string())]).optional(),
   sort: z.enum(['clinic', 'zone', 'state', 'date', 'case_number']).optional(),
   order: z.enum(['asc', 'desc']).optional(),
 });
 
+const runReportSchema = z.object({
+  templateId: z.string().uuid(),
+  format: reportFormatSchema.default("CSV"),
+  params: z.record(z.any()).default({}),
+});
+
+const scheduledReportSchema = insertScheduledReportSchema
+  .pick({ templateId: true, name: true, cron: true, recipients: true, format: true, filters: true, accessRoleMin: true, isActive: true })
+  .refine(data => isValidCron(data.cron), { message: "Invalid cron expression", path: ["cron"] });
+
+const updateScheduledReportSchema = insertScheduledReportSchema
+  .pick({ name: true, cron: true, recipients: true, format: true, filters: true, accessRoleMin: true, isActive: true })
+  .partial()
+  .refine(data => !data.cron || isValidCron(data.cron), { message: "Invalid cron expression", path: ["cron"] });
+
+// How often an import progress stream re-reads the job row
+const IMPORT_EVENTS_POLL_MS = 2000;
+
+// Statuses an import can be (re)validated from
+const VALIDATABLE_IMPORT_STATUSES: ImportJob['status'][] = ['PENDING', 'VALIDATED', 'FAILED', 'CANCELLED'];
+
+// Update imports match rows to existing cases on matchKey, which a column must be mapped to
+const validateImportSchema = z.object({
+  mode: importModeSchema.optional(),
+  matchKey: importMatchKeySchema.nullish(),
+}).refine(body => body.mode !== 'UPSERT' || !!body.matchKey, {
+  message: "Choose the field that identifies existing cases",
+});
+
+// Decisions for rows flagged as probable duplicates, keyed by source row number
+const commitImportSchema = z.object({
+  decisions: z.record(importDuplicateDecisionSchema).default({}),
+});
+
 // File upload configuration for bulk import (memory storage so we can validate before persisting)
 const bulkUpload = multer({
   storage: multer.memoryStorage(),
@@ -66,6 +123,7 @@ const bulkUpload = multer({
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       'application/json',
       'application/zip',
+      'application/x-zip-compressed',
       'application/pdf'
     ];
     
@@ -85,6 +143,15 @@ const caseFileUpload = multer({
   },
 });
 
+// Consent forms hold owner details, so even the upload's temporary copy is kept out of
+// the served uploads folder
+const consentFormUpload = multer({
+  dest: path.join(os.tmpdir(), 'consent-forms'),
+  limits: {
+    fileSize: MAX_FILE_SIZE,
+  },
+});
+
 // Auth middleware
 const requireAuth = (req: any, res: any, next: any) => {
   if (!req.session?.userId) {
@@ -93,17 +160,95 @@ const requireAuth = (req: any, res: any, next: any) => {
   next();
 };
 
+const ROLE_HIERARCHY = ["RESEARCHER", "CLINICIAN", "MANAGER", "ADMIN"];
+
+const hasRole = (userRole: string | undefined, minRole: string) =>
+  ROLE_HIERARCHY.indexOf(userRole || "") >= ROLE_HIERARCHY.indexOf(minRole);
+
 const requireRole = (minRole: string) => (req: any, res: any, next: any) => {
-  const roleHierarchy = ["RESEARCHER", "CLINICIAN", "MANAGER", "ADMIN"];
-  const userRoleIndex = roleHierarchy.indexOf(req.session?.userRole || "");
-  const minRoleIndex = roleHierarchy.indexOf(minRole);
-  
-  if (userRoleIndex < minRoleIndex) {
+  if (!hasRole(req.session?.userRole, minRole)) {
     return res.status(403).json({ message: "Insufficient permissions" });
   }
   next();
 };
 
+// Case edits and deletes are allowed for admins (any clinic), managers of the case's
+// clinic and the clinician who created the case. Returns the reason when refused.
+async function caseModifyDenial(caseData: CaseWithDetails, userId: string, clinicId: string, action: 'edit' | 'delete'): Promise<string | null> {
+  const user = await storage.getUser(userId);
+  const isCreator = caseData.createdBy && caseData.createdBy.id === userId;
+  const isAdmin = user?.role === 'ADMIN';
+  const isManager = user?.role === 'MANAGER';
+  const isSameClinic = caseData.clinic && caseData.clinic.id === clinicId;
+
+  if (!isAdmin && !isSameClinic) {
+    return "Cannot access cases from other clinics";
+  }
+  if (!isAdmin && !isManager && !isCreator) {
+    return `Only case creator or admins can ${action} cases`;
+  }
+  return null;
+}
+
+// A pathology report can only link a PDF uploaded to its own case. Returns the reason when refused.
+async function reportFileDenial(caseFileId: string | null | undefined, caseId: string): Promise<string | null> {
+  if (!caseFileId) return null;
+  const file = await storage.getCaseFileById(caseFileId);
+  if (!file || file.caseId !== caseId || file.deletedAt || file.confidential) {
+    return "The linked report must be a file of this case";
+  }
+  if (file.mimeType !== 'application/pdf') {
+    return "The linked report must be a PDF";
+  }
+  return null;
+}
+
+// Owner details are personal data, so unlike cases and patients they are not shared
+// reads: only staff of the owner's clinic see them, and researchers never do.
+// Returns the reason when refused.
+async function ownerAccessDenial(userId: string, clinicId: string, ownerClinicId: string): Promise<string | null> {
+  const user = await storage.getUser(userId);
+  if (!user || user.role === 'RESEARCHER') {
+    return "Researchers cannot see owner details";
+  }
+  if (ownerClinicId !== clinicId) {
+    return "Owner details are only available to staff of the patient's clinic";
+  }
+  return null;
+}
+
+const ownerFields = (input: OwnerInput) => ({
+  name: input.name,
+  phone: input.phone || null,
+  lga: input.lga || null,
+  consentStatus: input.consentStatus ?? 'PENDING' as const,
+  consentDate: input.consentDate ?? null,
+});
+
+// Audit entries keep the consent decision and which details changed, but not the
+// owner's name or contact details
+function ownerAuditDiff(before: Owner | undefined, after: Owner) {
+  const consent = (owner: Owner) => ({ consentStatus: owner.consentStatus, consentDate: owner.consentDate });
+  if (!before) return { after: consent(after) };
+  const changed = (['name', 'phone', 'lga', 'consentStatus', 'consentDate'] as const)
+    .filter(key => String(before[key] ?? '') !== String(after[key] ?? ''));
+  return { before: consent(before), after: consent(after), changed };
+}
+
+// Edits never move a case to another clinic or change who created it
+const updateCaseSchema = insertCaseSchema.omit({ clinicId: true, createdBy: true }).partial();
+
+// Case edits carry the updatedAt of the version they started from
+const casePreconditionSchema = z.object({
+  expectedUpdatedAt: z.coerce.date({ errorMap: () => ({ message: "expectedUpdatedAt is required" }) }),
+});
+
+const caseConflictMessage = "This case was changed by someone else since you opened it";
+
+const revertCaseSchema = z.object({
+  auditLogId: z.string().uuid(),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Ensure SESSION_SECRET is set
   if (!process.env.SESSION_SECRET) {
@@ -629,6 +774,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totals: { totalCases: 0, newThisMonth: 0, remissionRate: 0, activeClinics: 0 },
         casesOverTime: [],
         tumourDistribution: [],
+        gradeDistribution: [],
         warning: "Failed to load analytics stats"
       });
     }
@@ -685,6 +831,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         zones: normalizeToArray(filters.zone),
         states: normalizeToArray(filters.state),
         tumourTypeIds: normalizeToArray(filters.tumourTypeId),
+        clinicalStages: normalizeToArray(filters.clinicalStage),
         sort: filters.sort || 'date',
         order: filters.order || 'desc',
       });
@@ -696,6 +843,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Deleted cases of the manager's clinic, with the date each will be purged.
+  // Registered before /api/cases/:id so "trash" is not taken for a case id.
+  app.get("/api/cases/trash", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const deleted = await storage.getDeletedCases(clinicId);
+      res.json({
+        retentionDays: CASE_RETENTION_DAYS,
+        cases: deleted.map(c => ({ ...c, purgeAt: casePurgeDate(c.deletedAt!) })),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get deleted cases" });
+    }
+  });
+
   app.get("/api/cases/:id", requireAuth, async (req, res) => {
     try {
       // Shared reads - any authenticated user can view any case
@@ -730,22 +892,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         anatomicalSiteCustom = null;
       }
       
+      // A case of a known patient takes its signalment; otherwise the patient is
+      // registered from the signalment entered on the case
+      const diagnosisDate = new Date(req.body.diagnosisDate);
+      let newPatient: PatientInput | undefined;
+      let signalment: CaseSignalment;
+      if (req.body.patientId) {
+        ({ signalment } = await resolveCasePatient(req.body.patientId, clinicId, diagnosisDate));
+      } else {
+        newPatient = await newPatientFromCase(req.body, clinicId);
+        signalment = caseSignalmentFromPatient(newPatient, diagnosisDate);
+      }
+      
+      // Structured staging must fit the tumour type and species
+      const staging = await resolveCaseStaging({
+        ...stagingFieldsOf(req.body),
+        species: signalment.species,
+        tumourTypeId,
+        tumourTypeCustom,
+        stage: req.body.stage,
+      });
+      
       // Transform data before validation
       const transformedData = {
         ...req.body,
         clinicId,
         createdBy: userId,
-        diagnosisDate: new Date(req.body.diagnosisDate),
+        diagnosisDate,
         treatmentStart: req.body.treatmentStart ? new Date(req.body.treatmentStart) : null,
         tumourTypeId,
         tumourTypeCustom,
         anatomicalSiteId,
         anatomicalSiteCustom,
+        ...signalment,
+        ...staging,
       };
       
       const caseData = insertCaseSchema.parse(transformedData);
       
-      const newCase = await storage.createCase(caseData);
+      let newCase;
+      if (newPatient) {
+        const created = await storage.createCaseForNewPatient(caseData, { ...newPatient, clinicId, createdBy: userId });
+        newCase = created.case;
+        await storage.createAuditLog({
+          actorId: userId,
+          clinicId,
+          entityType: 'PATIENT',
+          entityId: created.patient.id,
+          action: 'CREATE',
+          diff: { after: created.patient },
+          ip: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      } else {
+        newCase = await storage.createCase(caseData);
+      }
       
       await storage.createAuditLog({
         actorId: userId,
@@ -753,6 +954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         entityType: 'CASE',
         entityId: newCase.id,
         action: 'CREATE',
+        diff: { after: caseSnapshot(newCase) },
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -763,10 +965,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Probable duplicates of a case being entered, so the wizard can warn before saving
+  app.post("/api/cases/duplicate-check", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const { patientName, species, breed, diagnosisDate, tumourTypeId, tumourTypeCustom, excludeCaseId } = req.body;
+
+      if (!species || !breed || !diagnosisDate) {
+        return res.json([]);
+      }
+
+      const matches = await findDuplicateCases(
+        { clinicId, patientName, species, breed, diagnosisDate, tumourTypeId, tumourTypeCustom },
+        { excludeCaseId },
+      );
+      res.json(matches);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to check for duplicates" });
+    }
+  });
+
   app.put("/api/cases/:id", requireAuth, async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
       const userId = (req.session as any).userId;
+
+      const existing = await storage.getCase(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(existing, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      // The current case is returned with a conflict so the client can merge against it
+      const { expectedUpdatedAt } = casePreconditionSchema.parse(req.body);
+      if (existing.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+        return res.status(409).json({ message: caseConflictMessage, current: existing });
+      }
       
       // Apply mutual exclusivity rules for tumour type and anatomical site
       let tumourTypeId = req.body.tumourTypeId || null;
@@ -782,6 +1020,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         anatomicalSiteCustom = null;
       }
       
+      // A case of a patient keeps the patient's signalment; it can be moved to another
+      // patient of the clinic but not detached from one
+      const patientId = req.body.patientId !== undefined ? req.body.patientId || null : existing.patientId;
+      if (existing.patientId && !patientId) {
+        return res.status(400).json({ message: "A case cannot be detached from its patient; choose another patient instead" });
+      }
+      const patientLink: Partial<CaseSignalment> & { patientId?: string } = patientId
+        ? { patientId, ...(await resolveCasePatient(patientId, existing.clinicId, req.body.diagnosisDate || existing.diagnosisDate)).signalment }
+        : {};
+      
+      // Staging is checked as the case will be after the edit; fields left out keep their values
+      const staging = await resolveCaseStaging({
+        ...stagingFieldsOf(existing),
+        ...stagingFieldsOf(req.body),
+        species: patientLink.species ?? req.body.species ?? existing.species,
+        tumourTypeId,
+        tumourTypeCustom,
+        stage: req.body.stage !== undefined ? req.body.stage : existing.stage,
+      });
+      
       // Transform data before validation for updates
       const transformedUpdates = {
         ...req.body,
@@ -791,11 +1049,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tumourTypeCustom,
         anatomicalSiteId,
         anatomicalSiteCustom,
+        ...patientLink,
+        ...staging,
       };
       
-      const updates = insertCaseSchema.partial().parse(transformedUpdates);
-      
-      const updatedCase = await storage.updateCase(req.params.id, updates, clinicId);
+      const updates = updateCaseSchema.parse(transformedUpdates);
+      const { changes, diff } = diffCaseFields(existing, updates);
+      if (!hasCaseChanges(diff)) {
+        return res.json(existing);
+      }
+
+      // Admins may edit cases of other clinics, so the update is scoped to the case's own clinic
+      const updatedCase = await storage.updateCase(req.params.id, changes, existing.clinicId, expectedUpdatedAt);
+      if (!updatedCase) {
+        // Saved by someone else between the read above and this update
+        return res.status(409).json({ message: caseConflictMessage, current: await storage.getCase(req.params.id) });
+      }
       
       await storage.createAuditLog({
         actorId: userId,
@@ -803,7 +1072,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         entityType: 'CASE',
         entityId: req.params.id,
         action: 'UPDATE',
-        diff: { after: updates },
+        diff,
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -830,26 +1099,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Case not found" });
       }
 
-      // Check permission
-      const user = await storage.getUser(userId);
-      const isCreator = caseData.createdBy && caseData.createdBy.id === userId;
-      const isAdmin = user?.role === 'ADMIN';
-      const isManager = user?.role === 'MANAGER';
-      const isSameClinic = caseData.clinic && caseData.clinic.id === clinicId;
-
-      // Allow if:
-      // 1. User is ADMIN (can delete any case from any clinic)
-      // 2. User is MANAGER from the same clinic
-      // 3. User is the creator of the case from the same clinic
-      if (!isAdmin && !isSameClinic) {
-        return res.status(403).json({ message: "Cannot access cases from other clinics" });
-      }
-
-      if (!isAdmin && !isManager && !isCreator) {
-        return res.status(403).json({ message: "Only case creator or admins can delete cases" });
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'delete');
+      if (denial) {
+        return res.status(403).json({ message: denial });
       }
       
-      await storage.deleteCase(req.params.id, clinicId);
+      // Admins may delete cases of other clinics, so the delete is scoped to the case's own clinic
+      await storage.deleteCase(req.params.id, caseData.clinicId, userId);
       
       await storage.createAuditLog({
         actorId: userId,
@@ -857,199 +1113,1072 @@ export async function registerRoutes(app: Express): Promise<Server> {
         entityType: 'CASE',
         entityId: req.params.id,
         action: 'DELETE',
+        diff: { before: caseSnapshot(caseData) },
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
       
-      res.json({ message: "Case deleted successfully" });
+      res.json({ message: `Case moved to the trash. It can be restored for ${CASE_RETENTION_DAYS} days.` });
     } catch (error) {
       console.error("Delete case error:", error);
       res.status(500).json({ message: "Failed to delete case" });
     }
   });
 
-  // Case file routes
-  app.post("/api/cases/:caseId/files", requireAuth, caseFileUpload.single('file'), async (req, res) => {
+  // Field-level change history of a case, newest first. Unlike the case itself this is
+  // not a shared read: only the case's clinic and admins can see who changed what.
+  app.get("/api/cases/:id/history", requireAuth, async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
       const clinicId = (req.session as any).clinicId;
-      const { caseId } = req.params;
-
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
-      }
+      const userRole = (req.session as any).userRole;
 
-      // Verify case exists and user has access
-      const caseData = await storage.getCase(caseId, clinicId);
+      const caseData = await storage.getCase(req.params.id);
       if (!caseData) {
         return res.status(404).json({ message: "Case not found" });
       }
+      if (caseData.clinicId !== clinicId && userRole !== 'ADMIN') {
+        return res.status(403).json({ message: "Cannot access cases from other clinics" });
+      }
 
-      // Check file count limit
-      const existingFiles = await storage.getCaseFiles(caseId);
-      if (existingFiles.length >= MAX_FILES_PER_CASE) {
-        return res.status(400).json({ message: `Maximum ${MAX_FILES_PER_CASE} files per case allowed` });
+      res.json(await storage.getCaseHistory(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get case history" });
+    }
+  });
+
+  // Restores the case fields as they were straight after the given history entry
+  app.post("/api/cases/:id/revert", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const { auditLogId } = revertCaseSchema.parse(req.body);
+
+      const existing = await storage.getCase(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Case not found" });
       }
 
-      // Validate MIME type
-      if (!isAllowedMimeType(req.file.mimetype)) {
-        return res.status(415).json({ message: "Unsupported file type. Allowed: images and documents (PDF, DOC, CSV)" });
+      const denial = await caseModifyDenial(existing, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
       }
 
-      // Check file size
-      if (req.file.size > MAX_FILE_SIZE) {
-        return res.status(400).json({ message: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit` });
+      const version = caseVersionAfter(existing, await storage.getCaseHistory(req.params.id), auditLogId);
+      if (!version) {
+        return res.status(404).json({ message: "History entry not found for this case" });
+      }
+      // A case of a patient keeps the patient's signalment, as when it is edited
+      if (existing.patientId) {
+        const { signalment } = await resolveCasePatient(existing.patientId, existing.clinicId, version.diagnosisDate ?? existing.diagnosisDate);
+        Object.assign(version, signalment);
       }
 
-      // Check write permission: creator or admin
-      const user = await storage.getUser(userId);
-      const isCreator = caseData.createdBy.id === userId;
-      const isAdmin = user?.role === 'ADMIN' || user?.role === 'MANAGER';
-      
-      if (!isCreator && !isAdmin) {
-        return res.status(403).json({ message: "Only case creator or admins can upload files" });
+      const { changes, diff } = diffCaseFields(existing, version, { replaceExtra: true });
+      if (!hasCaseChanges(diff)) {
+        return res.status(400).json({ message: "The case already matches that version" });
       }
 
-      // Read file buffer
-      const fileBuffer = await readFile(req.file.path);
-      await rm(req.file.path, { force: true });
+      // Conditional on the version the history was read against, like an edit
+      const updatedCase = await storage.updateCase(req.params.id, changes, existing.clinicId, existing.updatedAt);
+      if (!updatedCase) {
+        return res.status(409).json({ message: caseConflictMessage, current: await storage.getCase(req.params.id) });
+      }
 
-      // Generate storage key and upload to object storage
-      const storageKey = generateStorageKey(caseId, req.file.originalname);
-      const { publicUrl } = await putObject({
-        key: storageKey,
-        buffer: fileBuffer,
-        contentType: req.file.mimetype,
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'CASE',
+        entityId: req.params.id,
+        action: 'REVERT',
+        diff: { ...diff, revertOf: auditLogId },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
       });
 
-      // Determine file kind
-      const kind = determineFileKind(req.file.mimetype);
+      res.json(updatedCase);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to revert case" });
+    }
+  });
 
-      // Save to database
-      const caseFile = insertCaseFileSchema.parse({
-        caseId,
-        kind,
-        storageKey,
-        publicUrl,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        sizeBytes: req.file.size,
-        uploadedBy: userId,
-      });
+  app.post("/api/cases/:id/restore", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
 
-      const savedFile = await storage.createCaseFile(caseFile);
+      const restored = await storage.restoreCase(req.params.id, clinicId, caseRetentionStart());
+      if (!restored) {
+        return res.status(404).json({ message: "Case not found in the trash, or its retention period has ended" });
+      }
 
       await storage.createAuditLog({
         actorId: userId,
         clinicId,
-        entityType: 'CASE_FILE',
-        entityId: savedFile.id,
-        action: 'CREATE',
+        entityType: 'CASE',
+        entityId: req.params.id,
+        action: 'RESTORE',
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
 
-      res.status(201).json(savedFile);
+      res.json(restored);
     } catch (error) {
-      console.error('File upload error:', error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload file" });
+      res.status(500).json({ message: "Failed to restore case" });
     }
   });
 
-  app.get("/api/cases/:caseId/files", requireAuth, async (req, res) => {
+  // Patient routes. Patients are read like cases; editing one is open to the staff of
+  // its clinic and to admins, and its signalment is copied onto its cases.
+  app.get("/api/patients", requireAuth, async (req, res) => {
     try {
-      const clinicId = (req.session as any).clinicId;
-      const { caseId } = req.params;
-
-      // Verify case exists and user has access
-      const caseData = await storage.getCase(caseId, clinicId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
-      }
+      const clinicId = typeof req.query.clinicId === 'string' ? req.query.clinicId : (req.session as any).clinicId;
+      const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+      const patients = await storage.getPatients(clinicId, search);
+      res.json(patients);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get patients" });
+    }
+  });
 
-      const files = await storage.getCaseFiles(caseId);
-      res.json(files);
+  // Unlinked cases of the manager's clinic, grouped into the patients they probably
+  // belong to. Registered before /api/patients/:id so "migration" is not taken for an id.
+  app.get("/api/patients/migration", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const unlinked = await storage.getUnlinkedCases(clinicId);
+      const groups = proposePatientGroups(unlinked).map(group => ({
+        ...group,
+        cases: group.cases.map(c => ({
+          id: c.id,
+          caseNumber: c.caseNumber,
+          patientName: c.patientName,
+          species: c.species,
+          breed: c.breed,
+          sex: c.sex,
+          ageYears: c.ageYears,
+          ageMonths: c.ageMonths,
+          diagnosisDate: c.diagnosisDate,
+          tumourTypeName: c.tumourTypeName || c.tumourTypeCustom,
+        })),
+      }));
+      res.json({ unlinkedCount: unlinked.length, groups });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get files" });
+      res.status(500).json({ message: "Failed to group cases into patients" });
     }
   });
 
-  app.get("/api/cases/:caseId/files/:fileId/download", requireAuth, async (req, res) => {
+  // Registers a patient for each group approved in the review and links its cases,
+  // which take the patient's signalment
+  app.post("/api/patients/migration", requireAuth, requireRole("MANAGER"), async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
-      const { caseId, fileId } = req.params;
+      const userId = (req.session as any).userId;
+      const { groups } = patientMigrationSchema.parse(req.body);
 
-      // Verify case exists and user has access
-      const caseData = await storage.getCase(caseId, clinicId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+      const unlinked = new Map((await storage.getUnlinkedCases(clinicId)).map(c => [c.id, c]));
+      const requested = groups.flatMap(group => group.caseIds);
+      if (new Set(requested).size !== requested.length) {
+        return res.status(400).json({ message: "A case can only be linked to one patient" });
+      }
+      if (requested.some(id => !unlinked.has(id))) {
+        return res.status(409).json({ message: "Some cases were linked or deleted since the review was loaded; reload it and try again" });
       }
 
-      // Get file metadata
-      const file = await storage.getCaseFileById(fileId);
-      if (!file || file.caseId !== caseId) {
-        return res.status(404).json({ message: "File not found" });
+      const plan = groups.map(group => {
+        const groupCases = group.caseIds.map(id => unlinked.get(id)!);
+        const patient = patientFromCases(groupCases);
+        return {
+          patient,
+          species: new Set(groupCases.map(c => c.species.trim().toLowerCase())),
+          cases: groupCases.map(existing => {
+            const signalment = caseSignalmentFromPatient(patient, existing.diagnosisDate);
+            return { existing, signalment, diff: diffCaseFields(existing, signalment).diff };
+          }),
+        };
+      });
+      if (plan.some(group => group.species.size > 1)) {
+        return res.status(400).json({ message: "Cases of different species cannot belong to one patient" });
       }
 
-      // Retrieve file from storage
-      const { buffer, contentType } = await getObject({ key: file.storageKey });
+      const created = await storage.linkCasesToNewPatients(plan.map(group => ({
+        patient: { ...group.patient, clinicId, createdBy: userId },
+        cases: group.cases.map(c => ({ id: c.existing.id, changes: c.signalment })),
+      })));
 
-      // Set headers for download
-      res.setHeader('Content-Type', contentType);
-      res.setHeader('Content-Disposition', `inline; filename="${file.originalName}"`);
-      res.setHeader('Content-Length', buffer.length);
+      for (let i = 0; i < created.length; i++) {
+        const patient = created[i];
+        await storage.createAuditLog({
+          actorId: userId,
+          clinicId,
+          entityType: 'PATIENT',
+          entityId: patient.id,
+          action: 'CREATE',
+          diff: { after: patient, caseIds: plan[i].cases.map(c => c.existing.id) },
+          ip: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+        for (const { existing, diff } of plan[i].cases) {
+          await storage.createAuditLog({
+            actorId: userId,
+            clinicId,
+            entityType: 'CASE',
+            entityId: existing.id,
+            action: 'UPDATE',
+            diff: { before: { ...diff.before, patientId: null }, after: { ...diff.after, patientId: patient.id } },
+            ip: req.ip,
+            userAgent: req.get('User-Agent'),
+          });
+        }
+      }
 
-      // Stream file to client
-      res.send(buffer);
+      res.json({ patients: created.length, cases: requested.length });
     } catch (error) {
-      console.error('File download error:', error);
-      res.status(500).json({ message: "Failed to download file" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to link cases to patients" });
     }
   });
 
-  app.delete("/api/cases/:caseId/files/:fileId", requireAuth, async (req, res) => {
+  app.get("/api/patients/:id", requireAuth, async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
-      const clinicId = (req.session as any).clinicId;
-      const { caseId, fileId } = req.params;
-
-      // Verify case exists and user has access
-      const caseData = await storage.getCase(caseId, clinicId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+      const patient = await storage.getPatientWithCases(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
       }
+      res.json(patient);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get patient" });
+    }
+  });
 
-      // Verify file exists
-      const file = await storage.getCaseFileById(fileId);
-      if (!file) {
-        return res.status(404).json({ message: "File not found" });
+  // Replaces the patient's details; optional fields left out are cleared
+  app.put("/api/patients/:id", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const patient = await storage.getPatientWithCases(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
       }
 
-      // Check write permission: creator or admin
       const user = await storage.getUser(userId);
-      const isCreator = caseData.createdBy.id === userId;
-      const isAdmin = user?.role === 'ADMIN' || user?.role === 'MANAGER';
-      
-      if (!isCreator && !isAdmin) {
-        return res.status(403).json({ message: "Only case creator or admins can delete files" });
+      if (user?.role !== 'ADMIN' && (patient.clinicId !== clinicId || user?.role === 'RESEARCHER')) {
+        return res.status(403).json({ message: "Only staff of the patient's clinic or admins can edit patients" });
       }
 
-      // Soft delete
-      await storage.softDeleteCaseFile(fileId);
+      const input = patientInputSchema.parse(req.body);
+      const updates = {
+        name: input.name || null,
+        species: input.species,
+        breed: input.breed,
+        sex: input.sex ?? null,
+        dateOfBirth: input.dateOfBirth ?? null,
+        microchipNumber: input.microchipNumber || null,
+      };
+      // Staging and vocabulary of existing cases depend on the species
+      if (patient.cases.length > 0 && updates.species.trim().toLowerCase() !== patient.species.trim().toLowerCase()) {
+        return res.status(400).json({ message: "The species of a patient with cases cannot be changed" });
+      }
+      await assertMicrochipAvailable(patient.clinicId, updates.microchipNumber, patient.id);
+
+      // Cases in the trash keep the signalment they were deleted with
+      const caseUpdates = patient.cases
+        .map(existing => {
+          const signalment = caseSignalmentFromPatient(updates, existing.diagnosisDate);
+          return { existing, signalment, diff: diffCaseFields(existing, signalment).diff };
+        })
+        .filter(c => hasCaseChanges(c.diff));
+
+      const updated = await storage.updatePatient(
+        patient.id,
+        updates,
+        caseUpdates.map(c => ({ id: c.existing.id, changes: c.signalment })),
+      );
+      if (!updated) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
 
+      const before: Record<string, unknown> = {};
+      const after: Record<string, unknown> = {};
+      for (const key of Object.keys(updates) as Array<keyof typeof updates>) {
+        if (String(patient[key] ?? '') !== String(updated[key] ?? '')) {
+          before[key] = patient[key];
+          after[key] = updated[key];
+        }
+      }
       await storage.createAuditLog({
         actorId: userId,
         clinicId,
-        entityType: 'CASE_FILE',
-        entityId: fileId,
-        action: 'DELETE',
+        entityType: 'PATIENT',
+        entityId: patient.id,
+        action: 'UPDATE',
+        diff: { before, after },
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
+      for (const { existing, diff } of caseUpdates) {
+        await storage.createAuditLog({
+          actorId: userId,
+          clinicId,
+          entityType: 'CASE',
+          entityId: existing.id,
+          action: 'UPDATE',
+          diff,
+          ip: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
 
-      res.json({ message: "File deleted successfully" });
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete file" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update patient" });
+    }
+  });
+
+  // Owner routes, each limited to staff of the owner's clinic (see ownerAccessDenial)
+  app.get("/api/owners", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const denial = await ownerAccessDenial(userId, clinicId, clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+      const owners = await storage.getOwners(clinicId);
+      res.json(owners);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get owners" });
+    }
+  });
+
+  app.get("/api/patients/:id/owner", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const denial = await ownerAccessDenial(userId, clinicId, patient.clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const owner = patient.ownerId ? await storage.getOwnerWithConsentForm(patient.ownerId) : undefined;
+      res.json(owner ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get owner" });
+    }
+  });
+
+  // Registers a new owner for the patient
+  app.post("/api/patients/:id/owner", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const denial = await ownerAccessDenial(userId, clinicId, patient.clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const input = ownerInputSchema.parse(req.body);
+      const owner = await storage.createOwnerForPatient(
+        { ...ownerFields(input), clinicId: patient.clinicId, createdBy: userId },
+        patient.id,
+      );
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'OWNER',
+        entityId: owner.id,
+        action: 'CREATE',
+        diff: ownerAuditDiff(undefined, owner),
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'PATIENT',
+        entityId: patient.id,
+        action: 'UPDATE',
+        diff: { before: { ownerId: patient.ownerId }, after: { ownerId: owner.id } },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(owner);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create owner" });
+    }
+  });
+
+  // Links the patient to another owner of its clinic, or unlinks it with a null ownerId
+  app.put("/api/patients/:id/owner", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const denial = await ownerAccessDenial(userId, clinicId, patient.clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const { ownerId } = patientOwnerSchema.parse(req.body);
+      if (ownerId) {
+        const owner = await storage.getOwner(ownerId);
+        if (!owner || owner.clinicId !== patient.clinicId) {
+          return res.status(400).json({ message: "Owner not found in this clinic" });
+        }
+      }
+
+      const updated = await storage.setPatientOwner(patient.id, ownerId);
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'PATIENT',
+        entityId: patient.id,
+        action: 'UPDATE',
+        diff: { before: { ownerId: patient.ownerId }, after: { ownerId } },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to link owner" });
+    }
+  });
+
+  // Replaces the owner's details and consent; optional fields left out are cleared
+  app.put("/api/owners/:id", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const owner = await storage.getOwner(req.params.id);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      const denial = await ownerAccessDenial(userId, clinicId, owner.clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const input = ownerInputSchema.parse(req.body);
+      const updated = await storage.updateOwner(owner.id, ownerFields(input));
+      if (!updated) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'OWNER',
+        entityId: owner.id,
+        action: 'UPDATE',
+        diff: ownerAuditDiff(owner, updated),
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update owner" });
+    }
+  });
+
+  // Files the scanned consent form with a case of one of the owner's patients. It is a
+  // confidential case file, left out of the case's file list and only downloaded here.
+  app.post("/api/owners/:id/consent-form", requireAuth, consentFormUpload.single('file'), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const owner = await storage.getOwner(req.params.id);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      const denial = await ownerAccessDenial(userId, clinicId, owner.clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const caseData = typeof req.body.caseId === 'string' ? await storage.getCase(req.body.caseId, clinicId) : undefined;
+      const patient = caseData?.patientId ? await storage.getPatient(caseData.patientId) : undefined;
+      if (!caseData || patient?.ownerId !== owner.id) {
+        return res.status(400).json({ message: "The consent form must be filed with a case of one of the owner's patients" });
+      }
+
+      if (!isAllowedMimeType(req.file.mimetype)) {
+        return res.status(415).json({ message: "Unsupported file type. Allowed: images and documents (PDF, DOC, CSV)" });
+      }
+      if (req.file.size > MAX_FILE_SIZE) {
+        return res.status(400).json({ message: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit` });
+      }
+
+      const fileBuffer = await readFile(req.file.path);
+
+      const storageKey = generateStorageKey(caseData.id, req.file.originalname, { confidential: true });
+      const { publicUrl } = await putObject({
+        key: storageKey,
+        buffer: fileBuffer,
+        contentType: req.file.mimetype,
+      });
+
+      const { file, replacedFileId } = await storage.replaceConsentForm(owner.id, insertCaseFileSchema.parse({
+        caseId: caseData.id,
+        kind: determineFileKind(req.file.mimetype),
+        storageKey,
+        publicUrl,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        sizeBytes: req.file.size,
+        uploadedBy: userId,
+        confidential: true,
+      }));
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'CASE_FILE',
+        entityId: file.id,
+        action: 'CREATE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      if (replacedFileId) {
+        await storage.createAuditLog({
+          actorId: userId,
+          clinicId,
+          entityType: 'CASE_FILE',
+          entityId: replacedFileId,
+          action: 'DELETE',
+          ip: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'OWNER',
+        entityId: owner.id,
+        action: 'UPDATE',
+        diff: { before: { consentFileId: replacedFileId }, after: { consentFileId: file.id } },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(await storage.getOwnerWithConsentForm(owner.id));
+    } catch (error) {
+      console.error('Consent form upload error:', error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload consent form" });
+    } finally {
+      if (req.file) {
+        await rm(req.file.path, { force: true }).catch(err => console.error('Failed to remove consent form upload:', err));
+      }
+    }
+  });
+
+  app.get("/api/owners/:id/consent-form", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const owner = await storage.getOwner(req.params.id);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      const denial = await ownerAccessDenial(userId, clinicId, owner.clinicId);
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const file = owner.consentFileId ? await storage.getCaseFileById(owner.consentFileId) : undefined;
+      if (!file || file.deletedAt) {
+        return res.status(404).json({ message: "No consent form on file" });
+      }
+
+      const { buffer, contentType } = await getObject({ key: file.storageKey });
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${file.originalName}"`);
+      res.setHeader('Content-Length', buffer.length);
+      res.send(buffer);
+    } catch (error) {
+      console.error('Consent form download error:', error);
+      res.status(500).json({ message: "Failed to download consent form" });
+    }
+  });
+
+  // Treatment routes. Treatments are read like the case itself; recording them
+  // follows the same rules as editing the case.
+  app.get("/api/cases/:caseId/treatments", requireAuth, async (req, res) => {
+    try {
+      const caseData = await storage.getCase(req.params.caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      res.json(await storage.getTreatments(req.params.caseId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get treatments" });
+    }
+  });
+
+  app.post("/api/cases/:caseId/treatments", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const caseData = await storage.getCase(req.params.caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const data = treatmentInputSchema.parse(req.body);
+      const treatment = await storage.createTreatment({ ...data, caseId: caseData.id, createdBy: userId });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'TREATMENT',
+        entityId: treatment.id,
+        action: 'CREATE',
+        diff: { after: treatment },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(treatment);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create treatment" });
+    }
+  });
+
+  app.put("/api/cases/:caseId/treatments/:treatmentId", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const { caseId, treatmentId } = req.params;
+
+      const caseData = await storage.getCase(caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const existing = await storage.getTreatment(treatmentId, caseId);
+      if (!existing) {
+        return res.status(404).json({ message: "Treatment not found" });
+      }
+
+      // The whole treatment is sent, so fields left out are cleared
+      const data = treatmentInputSchema.parse(req.body);
+      const treatment = await storage.updateTreatment(treatmentId, caseId, {
+        intent: null, protocolName: null, drug: null, dose: null, doseUnit: null,
+        cycleNumber: null, endDate: null, marginStatus: null, notes: null,
+        ...data,
+      });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'TREATMENT',
+        entityId: treatmentId,
+        action: 'UPDATE',
+        diff: { before: existing, after: treatment },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(treatment);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update treatment" });
+    }
+  });
+
+  app.delete("/api/cases/:caseId/treatments/:treatmentId", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const { caseId, treatmentId } = req.params;
+
+      const caseData = await storage.getCase(caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const deleted = await storage.deleteTreatment(treatmentId, caseId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Treatment not found" });
+      }
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'TREATMENT',
+        entityId: treatmentId,
+        action: 'DELETE',
+        diff: { before: deleted },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ message: "Treatment deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete treatment" });
+    }
+  });
+
+  // Pathology report routes, with the same access rules as treatments
+  app.get("/api/cases/:caseId/pathology-reports", requireAuth, async (req, res) => {
+    try {
+      const caseData = await storage.getCase(req.params.caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      res.json(await storage.getPathologyReports(req.params.caseId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get pathology reports" });
+    }
+  });
+
+  app.post("/api/cases/:caseId/pathology-reports", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const caseData = await storage.getCase(req.params.caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const data = pathologyReportInputSchema.parse(req.body);
+      const fileDenial = await reportFileDenial(data.caseFileId, caseData.id);
+      if (fileDenial) {
+        return res.status(400).json({ message: fileDenial });
+      }
+
+      const report = await storage.createPathologyReport({ ...data, caseId: caseData.id, createdBy: userId });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'PATHOLOGY_REPORT',
+        entityId: report.id,
+        action: 'CREATE',
+        diff: { after: report },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(report);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create pathology report" });
+    }
+  });
+
+  app.put("/api/cases/:caseId/pathology-reports/:reportId", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const { caseId, reportId } = req.params;
+
+      const caseData = await storage.getCase(caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const existing = await storage.getPathologyReport(reportId, caseId);
+      if (!existing) {
+        return res.status(404).json({ message: "Pathology report not found" });
+      }
+
+      const data = pathologyReportInputSchema.parse(req.body);
+      // A link kept from before may point at a file deleted since; only a newly chosen file is checked
+      const fileDenial = data.caseFileId !== existing.caseFileId ? await reportFileDenial(data.caseFileId, caseId) : null;
+      if (fileDenial) {
+        return res.status(400).json({ message: fileDenial });
+      }
+
+      // The whole report is sent, so fields left out are cleared
+      const report = await storage.updatePathologyReport(reportId, caseId, {
+        labName: null, gradingSystem: null, grade: null, mitoticCount: null,
+        marginStatus: null, pathologistComment: null, caseFileId: null,
+        ...data,
+      });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'PATHOLOGY_REPORT',
+        entityId: reportId,
+        action: 'UPDATE',
+        diff: { before: existing, after: report },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(report);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update pathology report" });
+    }
+  });
+
+  app.delete("/api/cases/:caseId/pathology-reports/:reportId", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const { caseId, reportId } = req.params;
+
+      const caseData = await storage.getCase(caseId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const denial = await caseModifyDenial(caseData, userId, clinicId, 'edit');
+      if (denial) {
+        return res.status(403).json({ message: denial });
+      }
+
+      const deleted = await storage.deletePathologyReport(reportId, caseId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Pathology report not found" });
+      }
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'PATHOLOGY_REPORT',
+        entityId: reportId,
+        action: 'DELETE',
+        diff: { before: deleted },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ message: "Pathology report deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete pathology report" });
+    }
+  });
+
+  // Case file routes
+  app.post("/api/cases/:caseId/files", requireAuth, caseFileUpload.single('file'), async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const clinicId = (req.session as any).clinicId;
+      const { caseId } = req.params;
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      // Verify case exists and user has access
+      const caseData = await storage.getCase(caseId, clinicId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      // Check file count limit
+      const existingFiles = await storage.getCaseFiles(caseId);
+      if (existingFiles.length >= MAX_FILES_PER_CASE) {
+        return res.status(400).json({ message: `Maximum ${MAX_FILES_PER_CASE} files per case allowed` });
+      }
+
+      // Validate MIME type
+      if (!isAllowedMimeType(req.file.mimetype)) {
+        return res.status(415).json({ message: "Unsupported file type. Allowed: images and documents (PDF, DOC, CSV)" });
+      }
+
+      // Check file size
+      if (req.file.size > MAX_FILE_SIZE) {
+        return res.status(400).json({ message: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit` });
+      }
+
+      // Check write permission: creator or admin
+      const user = await storage.getUser(userId);
+      const isCreator = caseData.createdBy.id === userId;
+      const isAdmin = user?.role === 'ADMIN' || user?.role === 'MANAGER';
+      
+      if (!isCreator && !isAdmin) {
+        return res.status(403).json({ message: "Only case creator or admins can upload files" });
+      }
+
+      // Read file buffer
+      const fileBuffer = await readFile(req.file.path);
+      await rm(req.file.path, { force: true });
+
+      // Generate storage key and upload to object storage
+      const storageKey = generateStorageKey(caseId, req.file.originalname);
+      const { publicUrl } = await putObject({
+        key: storageKey,
+        buffer: fileBuffer,
+        contentType: req.file.mimetype,
+      });
+
+      // Determine file kind
+      const kind = determineFileKind(req.file.mimetype);
+
+      // Save to database
+      const caseFile = insertCaseFileSchema.parse({
+        caseId,
+        kind,
+        storageKey,
+        publicUrl,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        sizeBytes: req.file.size,
+        uploadedBy: userId,
+      });
+
+      const savedFile = await storage.createCaseFile(caseFile);
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'CASE_FILE',
+        entityId: savedFile.id,
+        action: 'CREATE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(savedFile);
+    } catch (error) {
+      console.error('File upload error:', error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload file" });
+    }
+  });
+
+  app.get("/api/cases/:caseId/files", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const { caseId } = req.params;
+
+      // Verify case exists and user has access
+      const caseData = await storage.getCase(caseId, clinicId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      const files = await storage.getCaseFiles(caseId);
+      res.json(files);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get files" });
+    }
+  });
+
+  app.get("/api/cases/:caseId/files/:fileId/download", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const { caseId, fileId } = req.params;
+
+      // Verify case exists and user has access
+      const caseData = await storage.getCase(caseId, clinicId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      // Get file metadata; consent forms are downloaded through their owner
+      const file = await storage.getCaseFileById(fileId);
+      if (!file || file.caseId !== caseId || file.confidential) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Retrieve file from storage
+      const { buffer, contentType } = await getObject({ key: file.storageKey });
+
+      // Set headers for download
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${file.originalName}"`);
+      res.setHeader('Content-Length', buffer.length);
+
+      // Stream file to client
+      res.send(buffer);
+    } catch (error) {
+      console.error('File download error:', error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  app.delete("/api/cases/:caseId/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const clinicId = (req.session as any).clinicId;
+      const { caseId, fileId } = req.params;
+
+      // Verify case exists and user has access
+      const caseData = await storage.getCase(caseId, clinicId);
+      if (!caseData) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      // Verify file exists; consent forms are replaced through their owner
+      const file = await storage.getCaseFileById(fileId);
+      if (!file || file.confidential) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Check write permission: creator or admin
+      const user = await storage.getUser(userId);
+      const isCreator = caseData.createdBy.id === userId;
+      const isAdmin = user?.role === 'ADMIN' || user?.role === 'MANAGER';
+      
+      if (!isCreator && !isAdmin) {
+        return res.status(403).json({ message: "Only case creator or admins can delete files" });
+      }
+
+      // Soft delete
+      await storage.softDeleteCaseFile(fileId);
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'CASE_FILE',
+        entityId: fileId,
+        action: 'DELETE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ message: "File deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete file" });
     }
   });
 
@@ -1057,325 +2186,932 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/vocabulary/tumour-types", requireAuth, async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
-      const { species } = req.query;
-      
-      const tumourTypes = await storage.getTumourTypes(clinicId, species as string);
-      res.json(tumourTypes);
+      const { species } = req.query;
+      
+      const tumourTypes = await storage.getTumourTypes(clinicId, species as string);
+      res.json(tumourTypes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get tumour types" });
+    }
+  });
+
+  app.post("/api/vocabulary/tumour-types", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      
+      const tumourType = insertTumourTypeSchema.parse({
+        ...req.body,
+        clinicId,
+        createdBy: userId,
+      });
+      
+      const newType = await storage.createTumourType(tumourType);
+      res.json(newType);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create tumour type" });
+    }
+  });
+
+  app.get("/api/vocabulary/anatomical-sites", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const { species } = req.query;
+      
+      const sites = await storage.getAnatomicalSites(clinicId, species as string);
+      res.json(sites);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get anatomical sites" });
+    }
+  });
+
+  app.post("/api/vocabulary/anatomical-sites", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      
+      const site = insertAnatomicalSiteSchema.parse({
+        ...req.body,
+        clinicId,
+        createdBy: userId,
+      });
+      
+      const newSite = await storage.createAnatomicalSite(site);
+      res.json(newSite);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create anatomical site" });
+    }
+  });
+
+  // Lookup endpoints for filters
+  app.get("/api/lookups/ng-states", requireAuth, async (req, res) => {
+    try {
+      const states = await storage.getNigerianStates();
+      res.json(states);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get states" });
+    }
+  });
+
+  app.get("/api/lookups/clinics", requireAuth, async (req, res) => {
+    try {
+      const clinics = await storage.getClinicsList();
+      res.json(clinics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get clinics" });
+    }
+  });
+
+  app.get("/api/lookups/tumour-types", requireAuth, async (req, res) => {
+    try {
+      const tumourTypes = await storage.getTumourTypesList();
+      res.json(tumourTypes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get tumour types" });
+    }
+  });
+
+  // Import/Bulk upload routes
+  app.post("/api/imports/upload", requireAuth, requireRole("MANAGER"), bulkUpload.single('file'), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: "No file uploaded" });
+      }
+
+      // A ZIP bundle is kept as uploaded and its manifest is saved beside it as the rows file
+      let bundle: ImportBundle | null = null;
+      let manifest: Buffer | null = null;
+      if (isImportBundle(req.file.originalname)) {
+        try {
+          bundle = await openImportBundle(req.file.buffer);
+          manifest = await readBundleManifest(bundle);
+        } catch (bundleError) {
+          return res.status(400).json({ success: false, error: bundleError instanceof Error ? bundleError.message : "Failed to read ZIP file" });
+        }
+      }
+
+      const rowsFileName = bundle ? path.posix.basename(bundle.manifest.name) : req.file.originalname;
+      const format = detectImportFormat(rowsFileName);
+      if (!format) {
+        return res.status(400).json({ success: false, error: "Unsupported file type. Please upload a CSV, XLSX, JSON or ZIP file." });
+      }
+
+      const saveUpload = async (name: string, buffer: Buffer) => {
+        const relativePath = path.join('uploads', `${Date.now()}-${name.replace(/[^a-zA-Z0-9_.-]/g, '_')}`);
+        const absolutePath = path.resolve(import.meta.dirname, '..', relativePath);
+        await mkdir(path.dirname(absolutePath), { recursive: true });
+        await writeFile(absolutePath, buffer);
+        return relativePath;
+      };
+
+      const bundleUrl = bundle ? await saveUpload(req.file.originalname, req.file.buffer) : null;
+      const relativeFilePath = manifest
+        ? await saveUpload(rowsFileName, manifest)
+        : await saveUpload(req.file.originalname, req.file.buffer);
+      const absoluteFilePath = path.resolve(import.meta.dirname, '..', relativeFilePath);
+
+      const importJob = await storage.createImportJob({
+        clinicId,
+        createdBy: userId,
+        filename: req.file.originalname,
+        fileUrl: relativeFilePath,
+        bundleUrl,
+        mapping: {},
+        status: 'PENDING',
+        totalRows: 0,
+        processedRows: 0,
+        successRows: 0,
+      });
+
+      let preview: Awaited<ReturnType<typeof readImportPreview>>;
+      try {
+        preview = await readImportPreview(absoluteFilePath, format);
+      } catch (parseError) {
+        const error = parseError instanceof Error ? parseError.message : 'Failed to read file';
+        await storage.updateImportJob(importJob.id, {
+          status: 'FAILED',
+          errors: [{ row: parseError instanceof ImportParseError ? parseError.rowNumber ?? 0 : 0, error }]
+        });
+        return res.status(400).json({ success: false, import_id: importJob.id, error });
+      }
+
+      return res.json({
+        success: true,
+        import_id: importJob.id,
+        headers: preview.headers,
+        preview: preview.rows,
+        suggested_mapping: suggestImportMapping(preview.headers, { attachments: !!bundle }),
+        is_bundle: !!bundle,
+        manifest: bundle?.manifest.name ?? null,
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to upload file" });
+    }
+  });
+
+  // Dry run: queues a read of every row through the mapping and vocabulary checks, without
+  // writing cases. The outcome is read from GET /api/imports/:id/validation.
+  app.post("/api/imports/:id/validate", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+      if (!VALIDATABLE_IMPORT_STATUSES.includes(importJob.status)) {
+        return res.status(409).json({ success: false, error: `Import is ${importJob.status.toLowerCase()} and can no longer be validated` });
+      }
+
+      const requestedMapping = req.body?.mapping === undefined ? undefined : importMappingSchema.safeParse(req.body.mapping);
+      if (requestedMapping && !requestedMapping.success) {
+        return res.status(400).json({ success: false, error: requestedMapping.error.errors[0]?.message || "Invalid column mapping" });
+      }
+
+      const requestedMode = validateImportSchema.safeParse(req.body ?? {});
+      if (!requestedMode.success) {
+        return res.status(400).json({ success: false, error: requestedMode.error.errors[0]?.message || "Invalid import mode" });
+      }
+      const mode = requestedMode.data.mode ?? importJob.mode;
+      const matchKey = mode === 'UPSERT' ? requestedMode.data.matchKey ?? importJob.matchKey : null;
+
+      const absoluteFilePath = path.resolve(import.meta.dirname, '..', importJob.fileUrl);
+      const format = detectImportFormat(importJob.fileUrl);
+      if (!format) {
+        const error = 'Unsupported file type. Please upload a CSV, XLSX, JSON or ZIP file.';
+        await storage.updateImportJob(importId, { status: 'FAILED', errors: [{ row: 0, error }] });
+        return res.status(400).json({ success: false, error });
+      }
+
+      // Jobs validated without a mapping (e.g. from the API) fall back to matching column names
+      let mapping: ImportMapping = requestedMapping?.data ?? (importJob.mapping as ImportMapping) ?? {};
+      if (Object.keys(mapping).length === 0) {
+        mapping = suggestImportMapping((await readImportPreview(absoluteFilePath, format)).headers, { attachments: !!importJob.bundleUrl });
+      }
+
+      if (mode === 'UPSERT' && !Object.values(mapping).includes(matchKey!)) {
+        return res.status(400).json({ success: false, error: "Map a column to the field that identifies existing cases" });
+      }
+
+      // The status check above is repeated atomically here, so a second validate queues nothing
+      const started = await storage.startImportValidation(importId, VALIDATABLE_IMPORT_STATUSES, {
+        mapping,
+        mode,
+        matchKey,
+        totalRows: 0,
+        processedRows: 0,
+        errorRows: 0,
+        errors: [],
+        warnings: [],
+        duplicates: [],
+        errorFileUrl: null,
+        validation: null,
+      }, {
+        type: IMPORT_VALIDATE_JOB,
+        payload: { importJobId: importId, userId },
+        clinicId,
+        entityId: importId,
+      });
+      if (!started) {
+        return res.status(409).json({ success: false, error: "This import is already being validated or imported" });
+      }
+
+      res.status(202).json({ success: true, import_id: importId, status: started.status });
+    } catch (error) {
+      console.error('[ERROR] Import validation failed:', error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to validate import" });
+    }
+  });
+
+  // Outcome of the last validation, or its progress while it is still running
+  app.get("/api/imports/:id/validation", requireAuth, async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+      if (importJob.status === 'VALIDATING') {
+        return res.json({ success: true, import_id: importId, status: importJob.status, processed_rows: importJob.processedRows || 0 });
+      }
+
+      const validation = importJob.validation;
+      const failed = importJob.status !== 'VALIDATED';
+      res.json({
+        success: !failed,
+        import_id: importId,
+        status: importJob.status,
+        total_rows: importJob.totalRows || 0,
+        valid_rows: validation?.validRows ?? 0,
+        error_rows: importJob.errorRows || 0,
+        warning_rows: validation?.warningRows ?? 0,
+        update_rows: validation?.updateRows ?? 0,
+        unchanged_rows: validation?.unchangedRows ?? 0,
+        attachment_count: validation?.attachmentCount ?? 0,
+        errors: importJob.errors || [],
+        warnings: importJob.warnings || [],
+        preview: validation?.preview ?? [],
+        duplicates: importJob.duplicates || [],
+        error_file_url: importJob.errorFileUrl,
+        // A read error or job failure is the last error recorded
+        ...(failed ? { error: (importJob.errors || []).slice(-1)[0]?.error || `Import is ${importJob.status.toLowerCase()}` } : {}),
+      });
+    } catch (error) {
+      res.status(500).json({ success: false, error: "Failed to get import validation" });
+    }
+  });
+
+  // Queues the commit; the job worker inserts every valid row in a single transaction
+  app.post("/api/imports/:id/commit", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+      if (importJob.status !== 'VALIDATED') {
+        return res.status(409).json({ success: false, error: "Validate the import before committing it" });
+      }
+
+      const validRows = (importJob.totalRows || 0) - (importJob.errorRows || 0);
+      if (validRows <= 0) {
+        return res.status(400).json({ success: false, error: "There are no valid rows to import" });
+      }
+
+      // Every flagged row needs a decision; rows repeating an earlier row of the file have
+      // no saved case to merge into, so they can only be kept or skipped
+      const { decisions } = commitImportSchema.parse(req.body ?? {});
+      const undecided = (importJob.duplicates || []).filter(d => !decisions[d.row]).map(d => d.row);
+      if (undecided.length > 0) {
+        const rows = undecided.length > 10 ? `${undecided.slice(0, 10).join(', ')} and ${undecided.length - 10} more` : undecided.join(', ');
+        return res.status(400).json({ success: false, error: `Choose what to do with the possible duplicates in rows ${rows}` });
+      }
+      const unmergeable = (importJob.duplicates || []).find(d => !d.caseId && decisions[d.row] === 'merge');
+      if (unmergeable) {
+        return res.status(400).json({ success: false, error: `Row ${unmergeable.row} repeats row ${unmergeable.matchesRow} of the file; keep or skip it` });
+      }
+      const duplicates = (importJob.duplicates || []).map(d => ({ ...d, decision: decisions[d.row] }));
+
+      // The status check above is repeated atomically here, so a double submit queues one commit
+      const started = await storage.startImportCommit(importId, { processedRows: 0, successRows: 0, duplicates }, {
+        type: IMPORT_COMMIT_JOB,
+        payload: { importJobId: importId, userId, ip: req.ip, userAgent: req.get('User-Agent') },
+        clinicId,
+        entityId: importId,
+      });
+      if (!started) {
+        return res.status(409).json({ success: false, error: "This import has already been started" });
+      }
+
+      res.json({ success: true, message: 'Import started' });
+    } catch (error) {
+      console.error('[ERROR] Import commit failed:', error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to start import" });
+    }
+  });
+
+  // Stops a running commit; its transaction is rolled back so no cases are kept
+  app.post("/api/imports/:id/cancel", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+
+      const job = importJob.status === 'PROCESSING' ? await storage.getActiveBackgroundJobForEntity(importId) : undefined;
+      if (!job) {
+        return res.status(409).json({ success: false, error: "Only imports in progress can be cancelled" });
+      }
+
+      await cancelJob(job.id);
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'IMPORT_JOB',
+        entityId: importId,
+        action: 'UPDATE',
+        diff: { after: { status: 'CANCELLED' } },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ success: true, message: 'Import is being cancelled' });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to cancel import" });
+    }
+  });
+
+  // Removes every case a completed import created; imports that changed existing cases are refused
+  app.post("/api/imports/:id/rollback", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+      if (importJob.status !== 'COMPLETED') {
+        return res.status(409).json({ success: false, error: "Only completed imports can be rolled back" });
+      }
+      if (importUpdatedExistingCases(importJob)) {
+        return res.status(409).json({
+          success: false,
+          error: "This import updated existing cases, which a rollback cannot restore. Correct those cases individually.",
+        });
+      }
+
+      let removed: number;
+      let storageKeys: string[];
+      try {
+        ({ removed, storageKeys } = await storage.rollbackImportJob(importId, clinicId));
+      } catch (error) {
+        // Attachments or follow-ups added to imported cases since keep them from being removed
+        console.error('[ERROR] Import rollback failed:', error);
+        return res.status(409).json({
+          success: false,
+          error: "Some imported cases now have attachments, follow-ups or posts. Remove those before rolling back.",
+        });
+      }
+
+      // Files attached from a ZIP bundle went with their cases; clean up the stored objects
+      for (const key of storageKeys) {
+        await deleteObject({ key }).catch(error => console.error(`[ERROR] Failed to delete ${key}:`, error));
+      }
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'IMPORT_JOB',
+        entityId: importId,
+        action: 'DELETE',
+        diff: { before: { filename: importJob.filename, cases: removed } },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ success: true, removed });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to roll back import" });
+    }
+  });
+
+  app.get("/api/imports/:id/status", requireAuth, async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+      
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+
+      res.json({
+        status: importJob.status,
+        total_rows: importJob.totalRows || 0,
+        processed_rows: importJob.processedRows || 0,
+        success: importJob.successRows || 0,
+        failed: importJob.errorRows || 0,
+        errors: importJob.errors || [],
+        warnings: importJob.warnings || [],
+        error_file_url: importJob.errorFileUrl,
+        started_at: importJob.createdAt,
+        finished_at: importJob.completedAt
+      });
+    } catch (error) {
+      res.status(500).json({ success: false, error: "Failed to get import status" });
+    }
+  });
+
+  // Server-Sent Events stream of a running import: counts, progress and the latest row errors.
+  // Commits in this process push updates as they happen; the job row is also re-read
+  // periodically so progress from a worker on another instance still arrives.
+  app.get("/api/imports/:id/events", requireAuth, async (req, res) => {
+    try {
+      const importId = req.params.id;
+      const clinicId = (req.session as any).clinicId;
+
+      const importJob = await storage.getImportJobById(importId);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ success: false, error: "Import job not found" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      let lastSent = '';
+      let closed = false;
+      const send = (progress: ImportProgress) => {
+        const data = JSON.stringify({
+          status: progress.status,
+          total_rows: progress.totalRows,
+          processed_rows: progress.processedRows,
+          success: progress.successRows,
+          failed: progress.failedRows,
+          errors: progress.errors,
+        });
+        if (closed || data === lastSent) return;
+        lastSent = data;
+        res.write(`event: progress\ndata: ${data}\n\n`);
+        if (isImportFinished(progress.status)) {
+          res.write(`event: done\ndata: ${data}\n\n`);
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeImportProgress(importId, send);
+      const poll = setInterval(async () => {
+        try {
+          const current = await storage.getImportJobById(importId);
+          if (current) send(importProgressFromJob(current));
+        } catch (error) {
+          console.error('[ERROR] Import progress poll failed:', error);
+        }
+      }, IMPORT_EVENTS_POLL_MS);
+      // Comment lines keep proxies from closing an idle stream
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(keepAlive);
+        res.end();
+      };
+      req.on('close', close);
+
+      send(importProgressFromJob(importJob));
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(500).json({ success: false, error: "Failed to stream import progress" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  app.get("/api/imports/recent", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const jobs = await storage.getImportJobs(clinicId);
+      res.json(jobs.map(job => ({
+        id: job.id,
+        filename: job.filename,
+        status: job.status,
+        mode: job.mode,
+        total_rows: job.totalRows || 0,
+        success: job.successRows || 0,
+        failed: job.errorRows || 0,
+        error_file_url: job.errorFileUrl,
+        can_roll_back: job.status === 'COMPLETED' && !importUpdatedExistingCases(job),
+        created_at: job.createdAt
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get import jobs" });
+    }
+  });
+
+  // Rejected rows with their original columns plus the reason, ready to fix and re-upload
+  app.get("/api/imports/:id/errors.csv", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const importJob = await storage.getImportJobById(req.params.id);
+      if (!importJob || importJob.clinicId !== clinicId) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (!importJob.errorFileUrl) {
+        return res.status(404).json({ message: "This import has no failed rows" });
+      }
+
+      const { buffer } = await getObject({ key: importErrorFileKey(importJob) });
+      const baseName = path.parse(importJob.filename).name.replace(/[^a-zA-Z0-9_-]+/g, '-');
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}-errors.csv"`);
+      res.setHeader('Content-Length', buffer.length);
+      res.send(buffer);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get tumour types" });
+      console.error('Import error file download error:', error);
+      res.status(500).json({ message: "Failed to download error file" });
     }
   });
 
-  app.post("/api/vocabulary/tumour-types", requireAuth, async (req, res) => {
+  // Column mapping presets, shared by everyone in the clinic
+  app.get("/api/imports/mapping-presets", requireAuth, async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
-      const userId = (req.session as any).userId;
-      
-      const tumourType = insertTumourTypeSchema.parse({
-        ...req.body,
-        clinicId,
-        createdBy: userId,
-      });
-      
-      const newType = await storage.createTumourType(tumourType);
-      res.json(newType);
+      const presets = await storage.getImportMappingPresets(clinicId);
+      res.json(presets);
     } catch (error) {
-      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create tumour type" });
+      res.status(500).json({ message: "Failed to get mapping presets" });
     }
   });
 
-  app.get("/api/vocabulary/anatomical-sites", requireAuth, async (req, res) => {
+  // Saving under an existing name replaces that preset's mapping
+  app.post("/api/imports/mapping-presets", requireAuth, requireRole("MANAGER"), async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
-      const { species } = req.query;
-      
-      const sites = await storage.getAnatomicalSites(clinicId, species as string);
-      res.json(sites);
+      const userId = (req.session as any).userId;
+      const data = insertImportMappingPresetSchema.parse({ ...req.body, clinicId, createdBy: userId });
+
+      const existing = (await storage.getImportMappingPresets(clinicId)).find(p => p.name === data.name);
+      const preset = await storage.saveImportMappingPreset(data);
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'IMPORT_MAPPING_PRESET',
+        entityId: preset.id,
+        action: existing ? 'UPDATE' : 'CREATE',
+        diff: { before: existing?.mapping, after: preset.mapping },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(preset);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get anatomical sites" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save mapping preset" });
     }
   });
 
-  app.post("/api/vocabulary/anatomical-sites", requireAuth, async (req, res) => {
+  app.delete("/api/imports/mapping-presets/:id", requireAuth, requireRole("MANAGER"), async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
       const userId = (req.session as any).userId;
-      
-      const site = insertAnatomicalSiteSchema.parse({
-        ...req.body,
+
+      const deleted = await storage.deleteImportMappingPreset(req.params.id, clinicId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Mapping preset not found" });
+      }
+
+      await storage.createAuditLog({
+        actorId: userId,
         clinicId,
-        createdBy: userId,
+        entityType: 'IMPORT_MAPPING_PRESET',
+        entityId: req.params.id,
+        action: 'DELETE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
       });
-      
-      const newSite = await storage.createAnatomicalSite(site);
-      res.json(newSite);
+
+      res.json({ message: "Mapping preset deleted successfully" });
     } catch (error) {
-      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create anatomical site" });
+      res.status(500).json({ message: "Failed to delete mapping preset" });
     }
   });
 
-  // Lookup endpoints for filters
-  app.get("/api/lookups/ng-states", requireAuth, async (req, res) => {
+  // Built on each request so the dropdowns list the clinic's current vocabulary
+  app.get("/api/imports/template.xlsx", requireAuth, async (req, res) => {
     try {
-      const states = await storage.getNigerianStates();
-      res.json(states);
+      const clinicId = (req.session as any).clinicId;
+      const template = await buildImportTemplate(await loadImportVocabulary(clinicId));
+
+      res.setHeader('Content-Type', IMPORT_TEMPLATE_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${IMPORT_TEMPLATE_FILENAME}"`);
+      res.send(template);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get states" });
+      res.status(500).json({ success: false, error: "Failed to generate import template" });
     }
   });
 
-  app.get("/api/lookups/clinics", requireAuth, async (req, res) => {
+  // Legacy endpoint (redirect to new endpoint)
+  app.post("/api/bulk-upload", requireAuth, requireRole("MANAGER"), bulkUpload.single('file'), async (req, res) => {
+    res.status(301).json({ success: false, error: "Please use /api/imports/upload instead" });
+  });
+
+  app.get("/api/bulk-upload/jobs", requireAuth, async (req, res) => {
     try {
-      const clinics = await storage.getClinicsList();
-      res.json(clinics);
+      const clinicId = (req.session as any).clinicId;
+      const jobs = await storage.getImportJobs(clinicId);
+      res.json(jobs);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get clinics" });
+      res.status(500).json({ message: "Failed to get import jobs" });
     }
   });
 
-  app.get("/api/lookups/tumour-types", requireAuth, async (req, res) => {
+  // Report routes
+  app.get("/api/reports/templates", requireAuth, async (req, res) => {
     try {
-      const tumourTypes = await storage.getTumourTypesList();
-      res.json(tumourTypes);
+      const clinicId = (req.session as any).clinicId;
+      const templates = await storage.getReportTemplates(clinicId);
+      res.json(templates);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get tumour types" });
+      res.status(500).json({ message: "Failed to get report templates" });
     }
   });
 
-  // Import/Bulk upload routes
-  app.post("/api/imports/upload", requireAuth, requireRole("MANAGER"), bulkUpload.single('file'), async (req, res) => {
+  app.post("/api/reports/templates", requireAuth, requireRole("ADMIN"), async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
       const userId = (req.session as any).userId;
 
-      if (!req.file) {
-        return res.status(400).json({ success: false, error: "No file uploaded" });
-      }
-
-      const sanitizedName = req.file.originalname.replace(/[^a-zA-Z0-9_.-]/g, '_');
-      const savedFileName = `${Date.now()}-${sanitizedName}`;
-      const relativeFilePath = path.join('uploads', savedFileName);
-      const absoluteFilePath = path.resolve(import.meta.dirname, '..', relativeFilePath);
+      const template = insertReportTemplateSchema.parse({
+        ...req.body,
+        clinicId,
+        createdBy: userId,
+        isSystem: false,
+      });
+      template.definition.queries.forEach(q => {
+        assertReadOnlyQuery(q.sql);
+        assertNoOwnerData(q.sql);
+      });
 
-      await mkdir(path.dirname(absoluteFilePath), { recursive: true });
-      await writeFile(absoluteFilePath, req.file.buffer);
+      const newTemplate = await storage.createReportTemplate(template);
 
-      const importJob = await storage.createImportJob({
+      await storage.createAuditLog({
+        actorId: userId,
         clinicId,
-        createdBy: userId,
-        filename: req.file.originalname,
-        fileUrl: relativeFilePath,
-        mapping: {},
-        status: 'PENDING',
-        totalRows: 0,
-        processedRows: 0,
-        successRows: 0,
+        entityType: 'REPORT_TEMPLATE',
+        entityId: newTemplate.id,
+        action: 'CREATE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
       });
 
-      return res.json({ success: true, import_id: importJob.id });
+      res.status(201).json(newTemplate);
     } catch (error) {
-      console.error(error);
-      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to upload file" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create report template" });
     }
   });
 
-  app.post("/api/imports/:id/start", requireAuth, async (req, res) => {
-    res.setHeader('Content-Type', 'application/json');
-    
+  app.post("/api/reports/run", requireAuth, async (req, res) => {
     try {
-      const importId = req.params.id;
       const clinicId = (req.session as any).clinicId;
-      
-      const importJob = await storage.getImportJobById(importId);
-      if (!importJob || importJob.clinicId !== clinicId) {
-        return res.status(404).json({ success: false, error: "Import job not found" });
+      const userId = (req.session as any).userId;
+      const userRole = (req.session as any).userRole;
+      const { templateId, format, params } = runReportSchema.parse(req.body);
+
+      const template = await storage.getReportTemplateById(templateId);
+      if (!template || (template.clinicId && template.clinicId !== clinicId)) {
+        return res.status(404).json({ message: "Report template not found" });
       }
 
-      await storage.updateImportJob(importId, {
-        status: 'PROCESSING',
-        processedRows: 0,
-        successRows: 0,
-        errorRows: 0,
-        errors: []
+      // Reject bad inputs up front instead of creating an instance that is bound to fail
+      resolveReportParams(template.definition, params);
+
+      const instance = await storage.createReportInstance({
+        templateId,
+        clinicId,
+        runBy: userId,
+        redactedFor: userRole,
+        status: 'PENDING',
+        params,
+        format,
       });
 
-      const absoluteFilePath = path.resolve(import.meta.dirname, '..', importJob.fileUrl);
-      const fileContent = await readFile(absoluteFilePath, 'utf8');
-      
-      const rows = fileContent
-        .split(/\r?\n/)
-        .map(line => line.trim())
-        .filter(line => line.length > 0);
-      
-      if (rows.length < 2) {
-        await storage.updateImportJob(importId, {
-          status: 'FAILED',
-          errors: [{ row: 0, error: 'File is empty or contains only headers' }]
-        });
-        return res.json({ success: false, error: 'File is empty' });
-      }
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'REPORT_INSTANCE',
+        entityId: instance.id,
+        action: 'CREATE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
 
-      const headers = rows[0].split(',').map(h => h.trim().toLowerCase());
-      const dataRows = rows.slice(1);
-      
-      await storage.updateImportJob(importId, { totalRows: dataRows.length });
+      await enqueueJob({ type: REPORT_GENERATE_JOB, payload: { instanceId: instance.id }, clinicId, entityId: instance.id });
 
-      res.json({ success: true, message: 'Import started' });
+      res.status(202).json(instance);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to run report" });
+    }
+  });
 
-      setImmediate(async () => {
-        const errors: Array<{row: number; error: string}> = [];
-        let successCount = 0;
-        let failedCount = 0;
-
-        for (let i = 0; i < dataRows.length; i++) {
-          try {
-            const values = dataRows[i].split(',').map(v => v.trim());
-            const rowData: any = {};
-            headers.forEach((header, idx) => {
-              rowData[header] = values[idx] || '';
-            });
-
-            if (!rowData.state) {
-              errors.push({ row: i + 2, error: 'State is required' });
-              failedCount++;
-              continue;
-            }
-
-            const zone = computeZoneFromState(rowData.state);
-            if (zone === 'Unknown') {
-              errors.push({ row: i + 2, error: `Invalid state: ${JSON.stringify(rowData.state)}` });
-              failedCount++;
-              continue;
-            }
-
-            // Convert state to database enum format (e.g., "Lagos" -> "LAGOS")
-            const stateEnum = rowData.state.trim().toUpperCase().replace(/\s+/g, '_');
-            
-            // Convert zone to database enum format (e.g., "North East" -> "NORTH_EAST")
-            const zoneEnum = zone.toUpperCase().replace(/\s+/g, '_');
-
-            const caseData: any = {
-              clinicId,
-              createdBy: (req.session as any).userId,
-              state: stateEnum,
-              geoZone: zoneEnum,
-              species: rowData.species || null,
-              breed: rowData.breed || null,
-              diagnosisDate: rowData.diagnosis_date || null,
-              tumourTypeCustom: rowData.tumour_type || null,
-              anatomicalSiteCustom: rowData.anatomical_site || null,
-              notes: rowData.notes || null,
-            };
-
-            await storage.createCase(insertCaseSchema.parse(caseData));
-            successCount++;
-          } catch (err) {
-            errors.push({ row: i + 2, error: err instanceof Error ? err.message : 'Unknown error' });
-            failedCount++;
-          }
-        }
+  app.get("/api/reports/history", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userRole = (req.session as any).userRole;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      // Restricted roles only see reports redacted for a restricted role
+      const instances = await storage.getReportInstances(
+        clinicId,
+        limit,
+        isRestrictedReportRole(userRole) ? RESTRICTED_REPORT_ROLES : undefined,
+      );
+      res.json(instances);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get report history" });
+    }
+  });
 
-        await storage.updateImportJob(importId, {
-          status: failedCount === dataRows.length ? 'FAILED' : 'COMPLETED',
-          processedRows: dataRows.length,
-          successRows: successCount,
-          errorRows: failedCount,
-          errors: errors.slice(0, 100),
-          completedAt: new Date()
-        });
-      });
+  app.get("/api/reports/instances/:id", requireAuth, async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userRole = (req.session as any).userRole;
+      const instance = await storage.getReportInstanceById(req.params.id);
+      if (!instance || instance.clinicId !== clinicId || !canViewRedactedReport(instance.redactedFor, userRole)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      res.json(instance);
     } catch (error) {
-      console.error('[ERROR] Import start failed:', error);
-      res.status(500).json({ success: false, error: error instanceof Error ? error.message : "Failed to start import" });
+      res.status(500).json({ message: "Failed to get report" });
     }
   });
 
-  app.get("/api/imports/:id/status", requireAuth, async (req, res) => {
+  app.get("/api/reports/instances/:id/download", requireAuth, async (req, res) => {
     try {
-      const importId = req.params.id;
       const clinicId = (req.session as any).clinicId;
-      
-      const importJob = await storage.getImportJobById(importId);
-      if (!importJob || importJob.clinicId !== clinicId) {
-        return res.status(404).json({ success: false, error: "Import job not found" });
+      const userRole = (req.session as any).userRole;
+      const instance = await storage.getReportInstanceById(req.params.id);
+      if (!instance || instance.clinicId !== clinicId || !canViewRedactedReport(instance.redactedFor, userRole)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (instance.status !== 'COMPLETED') {
+        return res.status(409).json({ message: "Report is not ready for download" });
       }
 
-      res.json({
-        status: importJob.status,
-        total_rows: importJob.totalRows || 0,
-        success: importJob.successRows || 0,
-        failed: importJob.errorRows || 0,
-        errors: importJob.errors || [],
-        started_at: importJob.createdAt,
-        finished_at: importJob.completedAt
-      });
+      const template = await storage.getReportTemplateById(instance.templateId);
+      const writer = getReportWriter(instance.format);
+      const { buffer } = await getObject({ key: reportStorageKey(instance) });
+
+      const baseName = (template?.name || 'report').replace(/[^a-zA-Z0-9_-]+/g, '-');
+      const dateSuffix = (instance.completedAt || instance.createdAt).toISOString().slice(0, 10);
+
+      res.setHeader('Content-Type', writer.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}_${dateSuffix}.${writer.extension}"`);
+      res.setHeader('Content-Length', buffer.length);
+      if (instance.checksum) {
+        res.setHeader('X-Checksum-SHA256', instance.checksum);
+      }
+      res.send(buffer);
     } catch (error) {
-      res.status(500).json({ success: false, error: "Failed to get import status" });
+      console.error('Report download error:', error);
+      res.status(500).json({ message: "Failed to download report" });
     }
   });
 
-  app.get("/api/imports/recent", requireAuth, async (req, res) => {
+  // Scheduled report routes
+  app.get("/api/reports/schedules", requireAuth, async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
-      const jobs = await storage.getImportJobs(clinicId);
-      res.json(jobs.map(job => ({
-        id: job.id,
-        filename: job.filename,
-        status: job.status,
-        total_rows: job.totalRows || 0,
-        success: job.successRows || 0,
-        failed: job.errorRows || 0,
-        created_at: job.createdAt
-      })));
+      const userRole = (req.session as any).userRole;
+      const schedules = await storage.getScheduledReports(clinicId);
+      res.json(schedules.filter(s => hasRole(userRole, s.accessRoleMin)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get import jobs" });
+      res.status(500).json({ message: "Failed to get scheduled reports" });
     }
   });
 
-  app.get("/api/imports/template.csv", requireAuth, async (req, res) => {
-    const csvContent = `state,species,breed,tumour_type,anatomical_site,diagnosis_date,notes
-Lagos,Canine,Labrador Retriever,Melanoma,Skin,2025-01-15,Sample case from Lagos
-Kano,Feline,Persian,Lymphoma,Lymph Node,2025-01-20,Sample case from Kano
-Akwa Ibom,Canine,German Shepherd,Mammary Tumour,Mammary Gland,2025-01-25,Multi-word state example
-
-# INSTRUCTIONS FOR BULK UPLOAD:
-# 1. REQUIRED FIELDS:
-#    - state: Nigerian state name (e.g., Lagos, Kano, Akwa Ibom)
-#    - All other fields are optional but recommended
-#
-# 2. ACCEPTED NIGERIAN STATES (case-insensitive):
-#    Abia, Adamawa, Akwa Ibom, Anambra, Bauchi, Bayelsa, Benue, Borno,
-#    Cross River, Delta, Ebonyi, Edo, Ekiti, Enugu, FCT, Gombe, Imo,
-#    Jigawa, Kaduna, Kano, Katsina, Kebbi, Kogi, Kwara, Lagos, Nasarawa,
-#    Niger, Ogun, Ondo, Osun, Oyo, Plateau, Rivers, Sokoto, Taraba, Yobe, Zamfara
-#
-# 3. SPECIES: Must be either "Canine" or "Feline"
-#
-# 4. DATE FORMAT: YYYY-MM-DD (e.g., 2025-01-15)
-#
-# 5. DO NOT USE QUOTES around values unless absolutely necessary
-#
-# 6. The geopolitical zone will be automatically derived from the state
-#
-# 7. Remove these instruction lines before uploading`;
-    
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', 'attachment; filename="9ja-vetonco-bulk-template.csv"');
-    res.send(csvContent);
+  app.post("/api/reports/schedules", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+      const data = scheduledReportSchema.parse(req.body);
+
+      const template = await storage.getReportTemplateById(data.templateId);
+      if (!template || (template.clinicId && template.clinicId !== clinicId)) {
+        return res.status(404).json({ message: "Report template not found" });
+      }
+
+      const schedule = await storage.createScheduledReport({
+        ...data,
+        clinicId,
+        createdBy: userId,
+        nextRunAt: await computeNextRunAt({ cron: data.cron, clinicId }),
+      });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'SCHEDULED_REPORT',
+        entityId: schedule.id,
+        action: 'CREATE',
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json(schedule);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create scheduled report" });
+    }
   });
 
-  // Legacy endpoint (redirect to new endpoint)
-  app.post("/api/bulk-upload", requireAuth, requireRole("MANAGER"), bulkUpload.single('file'), async (req, res) => {
-    res.status(301).json({ success: false, error: "Please use /api/imports/upload instead" });
+  app.put("/api/reports/schedules/:id", requireAuth, requireRole("MANAGER"), async (req, res) => {
+    try {
+      const clinicId = (req.session as any).clinicId;
+      const userId = (req.session as any).userId;
+
+      const existing = await storage.getScheduledReportById(req.params.id);
+      if (!existing || existing.clinicId !== clinicId) {
+        return res.status(404).json({ message: "Scheduled report not found" });
+      }
+
+      const updates = updateScheduledReportSchema.parse(req.body);
+      const cron = updates.cron ?? existing.cron;
+      const reactivated = updates.isActive === true && !existing.isActive;
+
+      // Recompute the next run when the timing changes or a paused schedule resumes,
+      // so a schedule does not fire immediately for runs missed while paused
+      const schedule = await storage.updateScheduledReport(req.params.id, {
+        ...updates,
+        ...(updates.cron || reactivated ? { nextRunAt: await computeNextRunAt({ cron, clinicId }) } : {}),
+      });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'SCHEDULED_REPORT',
+        entityId: schedule.id,
+        action: 'UPDATE',
+        diff: { before: existing, after: updates },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(schedule);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update scheduled report" });
+    }
   });
 
-  app.get("/api/bulk-upload/jobs", requireAuth, async (req, res) => {
+  app.delete("/api/reports/schedules/:id", requireAuth, requireRole("MANAGER"), async (req, res) => {
     try {
       const clinicId = (req.session as any).clinicId;
-      const jobs = await storage.getImportJobs(clinicId);
-      res.json(jobs);
+      const userId = (req.session as any).userId;
+
+      const existing = await storage.getScheduledReportById(req.params.id);
+      if (!existing || existing.clinicId !== clinicId) {
+        return res.status(404).json({ message: "Scheduled report not found" });
+      }
+
+      await storage.deleteScheduledReport(req.params.id, clinicId);
+
+      await storage.createAuditLog({
+        actorId: userId,
+        clinicId,
+        entityType: 'SCHEDULED_REPORT',
+        entityId: req.params.id,
+        action: 'DELETE',
+        diff: { before: existing },
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ message: "Scheduled report deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get import jobs" });
+      res.status(500).json({ message: "Failed to delete scheduled report" });
     }
   });
 
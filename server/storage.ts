@@ -3,9 +3,17 @@ import {
   type InsertUser, 
   type Clinic, 
   type InsertClinic,
+  type Owner,
+  type InsertOwner,
+  type OwnerWithConsentForm,
+  type Patient,
+  type InsertPatient,
+  type PatientWithCaseCount,
+  type PatientWithCases,
   type Case,
   type InsertCase,
   type CaseWithDetails,
+  type DeletedCase,
   type UserWithClinic,
   type TumourType,
   type InsertTumourType,
@@ -19,11 +27,32 @@ import {
   type InsertFeedPost,
   type FollowUp,
   type InsertFollowUp,
+  type Treatment,
+  type InsertTreatment,
+  type TreatmentWithCreator,
+  type PathologyReport,
+  type InsertPathologyReport,
+  type PathologyReportWithFile,
   type DashboardStats,
   type Invitation,
   type ImportJob,
+  type ImportMappingPreset,
+  type InsertImportMappingPreset,
+  type BackgroundJob,
+  type InsertBackgroundJob,
+  type ReportTemplate,
+  type InsertReportTemplate,
+  type ReportInstance,
+  type InsertReportInstance,
+  type ReportInstanceWithTemplate,
+  type ScheduledReport,
+  type InsertScheduledReport,
+  type ScheduledReportWithTemplate,
+  type CaseHistoryEntry,
   users,
   clinics,
+  owners,
+  patients,
   cases,
   tumourTypes,
   anatomicalSites,
@@ -31,16 +60,42 @@ import {
   caseFiles,
   feedPosts,
   followUps,
+  treatments,
+  pathologyReports,
   auditLogs,
   invitations,
   importJobs,
-  ngStates
+  importMappingPresets,
+  backgroundJobs,
+  reportTemplates,
+  reportInstances,
+  scheduledReports,
+  ngStates,
+  formatHistologicGrade
 } from "@shared/schema";
+import type { CaseSignalment } from "@shared/patients";
 import { db } from "./db";
-import { eq, and, or, desc, asc, count, sql, ilike, gte, lte, isNull, inArray } from "drizzle-orm";
+import { eq, and, or, not, desc, asc, count, sql, ilike, gte, lt, lte, isNull, isNotNull, inArray, notExists, getTableColumns, type SQL } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
+import { diffCaseFields, hasCaseChanges } from "./cases/diff";
 import { randomBytes } from "crypto";
 
+// A new case to insert, or fields to change on an existing case the row duplicates or
+// updates, plus any bundle files to attach to it once the transaction has committed.
+// Updates are worked out from the case as locked inside the transaction, so an edit
+// saved since validation is neither overwritten by stale values nor missing from the diff.
+export type ImportCommitRow = (
+  | { data: InsertCase }
+  | { mergeIntoCaseId: string; updates: (current: Case) => Partial<InsertCase> }
+) & { attachments?: string[] };
+
+export interface ImportAuditContext {
+  actorId: string;
+  clinicId: string;
+  ip?: string;
+  userAgent?: string;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -85,6 +140,8 @@ export interface IStorage {
     zones?: string[];
     states?: string[];
     tumourTypeIds?: string[];
+    stagingScheme?: string;
+    clinicalStages?: string[];
     sort?: string;
     order?: string;
   }): Promise<CaseWithDetails[]>;
@@ -99,12 +156,38 @@ export interface IStorage {
   }): Promise<Case[]>;
   getCase(id: string, clinicId: string): Promise<CaseWithDetails | undefined>;
   createCase(caseData: InsertCase): Promise<Case>;
-  updateCase(id: string, updates: Partial<InsertCase>, clinicId: string): Promise<Case>;
-  deleteCase(id: string, clinicId: string): Promise<void>;
+  updateCase(id: string, updates: Partial<InsertCase>, clinicId: string, expectedUpdatedAt?: Date): Promise<Case | undefined>;
+  deleteCase(id: string, clinicId: string, deletedBy: string): Promise<void>;
+  getDeletedCases(clinicId: string): Promise<DeletedCase[]>;
+  restoreCase(id: string, clinicId: string, deletedAfter: Date): Promise<Case | undefined>;
+  purgeDeletedCases(deletedBefore: Date, limit: number): Promise<{ purged: Case[]; storageKeys: string[] }>;
   generateCaseNumber(clinicId: string): Promise<string>;
+  getDuplicateCandidates(clinicId: string, species: string, from: Date, to: Date): Promise<Array<Case & { tumourTypeName: string | null }>>;
+  getDuplicateCandidatesInRanges(clinicId: string, species: string, ranges: Array<{ from: Date; to: Date }>): Promise<Array<Case & { tumourTypeName: string | null }>>;
+  
+  // Patients
+  getPatients(clinicId: string, search?: string): Promise<PatientWithCaseCount[]>;
+  getPatient(id: string): Promise<Patient | undefined>;
+  getPatientsByIds(ids: string[]): Promise<Patient[]>;
+  getPatientWithCases(id: string): Promise<PatientWithCases | undefined>;
+  getPatientByMicrochip(clinicId: string, microchipNumber: string): Promise<Patient | undefined>;
+  createCaseForNewPatient(caseData: InsertCase, patient: InsertPatient): Promise<{ patient: Patient; case: Case }>;
+  updatePatient(id: string, updates: Partial<InsertPatient>, caseChanges: Array<{ id: string; changes: Partial<CaseSignalment> }>): Promise<Patient | undefined>;
+  getUnlinkedCases(clinicId: string): Promise<Array<Case & { tumourTypeName: string | null }>>;
+  linkCasesToNewPatients(groups: Array<{ patient: InsertPatient; cases: Array<{ id: string; changes: Partial<CaseSignalment> }> }>): Promise<Patient[]>;
+  
+  // Owners
+  getOwners(clinicId: string): Promise<Owner[]>;
+  getOwner(id: string): Promise<Owner | undefined>;
+  getOwnerWithConsentForm(id: string): Promise<OwnerWithConsentForm | undefined>;
+  createOwnerForPatient(owner: InsertOwner, patientId: string): Promise<Owner>;
+  updateOwner(id: string, updates: Partial<InsertOwner>): Promise<Owner | undefined>;
+  setPatientOwner(patientId: string, ownerId: string | null): Promise<Patient | undefined>;
+  replaceConsentForm(ownerId: string, file: InsertCaseFile): Promise<{ file: CaseFile; replacedFileId: string | null }>;
   
   // Vocabulary
   getTumourTypes(clinicId?: string, species?: string): Promise<TumourType[]>;
+  getTumourType(id: string): Promise<TumourType | undefined>;
   createTumourType(tumourType: InsertTumourType): Promise<TumourType>;
   getAnatomicalSites(clinicId?: string, species?: string): Promise<AnatomicalSite[]>;
   createAnatomicalSite(site: InsertAnatomicalSite): Promise<AnatomicalSite>;
@@ -145,6 +228,20 @@ export interface IStorage {
   updateFollowUp(id: string, updates: Partial<InsertFollowUp>): Promise<FollowUp>;
   getUpcomingFollowUps(clinicId: string, days: number): Promise<FollowUp[]>;
   
+  // Treatments
+  getTreatments(caseId: string): Promise<TreatmentWithCreator[]>;
+  getTreatment(id: string, caseId: string): Promise<Treatment | undefined>;
+  createTreatment(treatment: InsertTreatment): Promise<Treatment>;
+  updateTreatment(id: string, caseId: string, updates: Partial<InsertTreatment>): Promise<Treatment | undefined>;
+  deleteTreatment(id: string, caseId: string): Promise<Treatment | undefined>;
+  
+  // Pathology reports
+  getPathologyReports(caseId: string): Promise<PathologyReportWithFile[]>;
+  getPathologyReport(id: string, caseId: string): Promise<PathologyReport | undefined>;
+  createPathologyReport(report: InsertPathologyReport): Promise<PathologyReport>;
+  updatePathologyReport(id: string, caseId: string, updates: Partial<InsertPathologyReport>): Promise<PathologyReport | undefined>;
+  deletePathologyReport(id: string, caseId: string): Promise<PathologyReport | undefined>;
+  
   // Analytics
   getDashboardStats(clinicId: string): Promise<DashboardStats>;
   getSharedDashboardStats(filters?: {
@@ -182,6 +279,7 @@ export interface IStorage {
     };
     casesOverTime: Array<{ date: string; count: number }>;
     tumourDistribution: Array<{ name: string; count: number }>;
+    gradeDistribution: Array<{ grade: string; count: number }>;
   }>;
   
   // Import jobs
@@ -189,8 +287,50 @@ export interface IStorage {
   updateImportJob(id: string, updates: Partial<ImportJob>): Promise<ImportJob>;
   getImportJobById(id: string): Promise<ImportJob | undefined>;
   getImportJobs(clinicId: string): Promise<ImportJob[]>;
+  commitImportCases(importJobId: string, rows: AsyncIterable<ImportCommitRow>, audit?: ImportAuditContext): Promise<{ inserted: number; merged: number; attachments: Array<{ caseId: string; files: string[] }> }>;
+  rollbackImportJob(importJobId: string, clinicId: string): Promise<{ removed: number; storageKeys: string[] }>;
+  getImportMappingPresets(clinicId: string): Promise<ImportMappingPreset[]>;
+  saveImportMappingPreset(preset: InsertImportMappingPreset): Promise<ImportMappingPreset>;
+  deleteImportMappingPreset(id: string, clinicId: string): Promise<boolean>;
+  
+  // Reports
+  getReportTemplates(clinicId?: string): Promise<ReportTemplate[]>;
+  getReportTemplateById(id: string): Promise<ReportTemplate | undefined>;
+  createReportTemplate(template: InsertReportTemplate): Promise<ReportTemplate>;
+  updateReportTemplate(id: string, updates: Partial<InsertReportTemplate>): Promise<ReportTemplate>;
+  createReportInstance(instance: InsertReportInstance): Promise<ReportInstance>;
+  updateReportInstance(id: string, updates: Partial<ReportInstance>): Promise<ReportInstance>;
+  getReportInstanceById(id: string): Promise<ReportInstance | undefined>;
+  // With redactedFor, only instances whose output was redacted for one of those roles
+  getReportInstances(clinicId: string, limit?: number, redactedFor?: string[]): Promise<ReportInstanceWithTemplate[]>;
+  
+  // Scheduled reports
+  getScheduledReports(clinicId: string): Promise<ScheduledReportWithTemplate[]>;
+  getScheduledReportById(id: string): Promise<ScheduledReport | undefined>;
+  createScheduledReport(schedule: InsertScheduledReport): Promise<ScheduledReport>;
+  updateScheduledReport(id: string, updates: Partial<ScheduledReport>): Promise<ScheduledReport>;
+  deleteScheduledReport(id: string, clinicId: string): Promise<void>;
+  getDueScheduledReports(now: Date): Promise<ScheduledReport[]>;
+  claimScheduledReport(id: string, expectedNextRunAt: Date, nextRunAt: Date): Promise<ScheduledReport | undefined>;
+
+  // Background jobs
+  createBackgroundJob(job: InsertBackgroundJob): Promise<BackgroundJob>;
+  startImportValidation(importJobId: string, fromStatuses: ImportJob['status'][], updates: Partial<ImportJob>, job: InsertBackgroundJob): Promise<ImportJob | undefined>;
+  startImportCommit(importJobId: string, updates: Partial<ImportJob>, job: InsertBackgroundJob): Promise<ImportJob | undefined>;
+  getBackgroundJobById(id: string): Promise<BackgroundJob | undefined>;
+  getActiveBackgroundJobForEntity(entityId: string): Promise<BackgroundJob | undefined>;
+  getActiveBackgroundJobOfType(type: string): Promise<BackgroundJob | undefined>;
+  claimBackgroundJob(workerId: string, now: Date): Promise<BackgroundJob | undefined>;
+  updateBackgroundJob(id: string, updates: Partial<BackgroundJob>): Promise<BackgroundJob>;
+  touchBackgroundJob(id: string): Promise<BackgroundJob | undefined>;
+  getStaleBackgroundJobs(heartbeatBefore: Date): Promise<BackgroundJob[]>;
+  releaseStaleBackgroundJob(id: string, heartbeatAt: Date | null, updates: Partial<BackgroundJob>): Promise<BackgroundJob | undefined>;
+  getInterruptedImportJobs(): Promise<ImportJob[]>;
+  countImportJobCases(importJobId: string): Promise<number>;
+  findCasesByImportKeys(clinicId: string, matchKey: string, values: string[]): Promise<Map<string, Case[]>>;
   
   // Audit
+  getCaseHistory(caseId: string): Promise<CaseHistoryEntry[]>;
   createAuditLog(log: {
     actorId?: string;
     clinicId?: string;
@@ -203,6 +343,136 @@ export interface IStorage {
   }): Promise<void>;
 }
 
+// Deleted cases stay in the table until they are purged, so every read that lists or
+// counts cases starts from this condition
+const caseNotDeleted = () => isNull(cases.deletedAt);
+
+// Files shown with a case. Owner consent forms are confidential and only reached through
+// their owner, so they are left out of case file lists, counts and thumbnails.
+const caseFileListed = () => and(isNull(caseFiles.deletedAt), eq(caseFiles.confidential, false));
+
+// A case whose files include an owner's current consent form. Purging the case would
+// delete the form with it, so such cases are kept until the form is replaced.
+const caseHoldsConsentForm = () => sql<boolean>`exists (
+  select 1 from ${caseFiles} inner join ${owners} on ${owners.consentFileId} = ${caseFiles.id}
+  where ${caseFiles.caseId} = ${cases.id}
+)`;
+
+function caseListConditions(filters: {
+  clinicIds?: string[];
+  species?: string;
+  outcome?: string;
+  startDate?: Date;
+  endDate?: Date;
+  states?: string[];
+  tumourTypeIds?: string[];
+  stagingScheme?: string;
+  clinicalStages?: string[];
+}): SQL[] {
+  const conditions: SQL[] = [caseNotDeleted()];
+  if (filters.clinicIds && filters.clinicIds.length > 0) {
+    conditions.push(inArray(cases.clinicId, filters.clinicIds));
+  }
+  if (filters.species) {
+    conditions.push(eq(cases.species, filters.species));
+  }
+  if (filters.outcome) {
+    conditions.push(eq(cases.outcome, filters.outcome as any));
+  }
+  if (filters.startDate) {
+    conditions.push(gte(cases.diagnosisDate, filters.startDate));
+  }
+  if (filters.endDate) {
+    conditions.push(lte(cases.diagnosisDate, filters.endDate));
+  }
+  if (filters.states && filters.states.length > 0) {
+    conditions.push(inArray(cases.state, filters.states as any));
+  }
+  if (filters.tumourTypeIds && filters.tumourTypeIds.length > 0) {
+    conditions.push(inArray(cases.tumourTypeId, filters.tumourTypeIds));
+  }
+  if (filters.stagingScheme) {
+    conditions.push(eq(cases.stagingScheme, filters.stagingScheme));
+  }
+  if (filters.clinicalStages && filters.clinicalStages.length > 0) {
+    conditions.push(inArray(cases.clinicalStage, filters.clinicalStages));
+  }
+  return conditions;
+}
+
+// Filters of the shared case reads and statistics; zones are resolved to their states
+async function sharedCaseConditions(filters: {
+  from?: string;
+  to?: string;
+  clinicIds?: string[];
+  geoZones?: string[];
+  states?: string[];
+  species?: string[];
+  tumourTypeIds?: string[];
+}): Promise<SQL[]> {
+  const { hasNgStates } = await import('./db/capabilities');
+  const { statesForZones } = await import('./geo/nigeria-zones');
+
+  const conditions: SQL[] = [caseNotDeleted()];
+
+  if (filters.clinicIds && filters.clinicIds.length > 0) {
+    conditions.push(inArray(cases.clinicId, filters.clinicIds));
+  }
+
+  if (filters.geoZones && filters.geoZones.length > 0) {
+    let useJoin = false;
+    try {
+      useJoin = await hasNgStates();
+    } catch (error) {
+      console.error('[sharedCaseConditions] Error checking ng_states capability:', error);
+      useJoin = false;
+    }
+
+    if (useJoin) {
+      // Use ng_states table for zone filtering
+      const allowedStates = await db
+        .select({ code: sql<string>`name` })
+        .from(sql`ng_states`)
+        .where(sql`zone = ANY(ARRAY[${sql.join(filters.geoZones.map(z => sql`${z}`), sql`, `)}])`);
+
+      if (allowedStates.length > 0) {
+        conditions.push(
+          sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`LOWER(TRIM(${s.code}))`), sql`, `)}])`
+        );
+      }
+    } else {
+      const allowedStates = statesForZones(filters.geoZones);
+      if (allowedStates.length > 0) {
+        conditions.push(
+          sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`${s}`), sql`, `)}])`
+        );
+      }
+    }
+  }
+
+  if (filters.states && filters.states.length > 0) {
+    conditions.push(inArray(cases.state, filters.states as any));
+  }
+
+  if (filters.species && filters.species.length > 0) {
+    conditions.push(inArray(cases.species, filters.species));
+  }
+
+  if (filters.tumourTypeIds && filters.tumourTypeIds.length > 0) {
+    conditions.push(inArray(cases.tumourTypeId, filters.tumourTypeIds));
+  }
+
+  if (filters.from) {
+    conditions.push(gte(cases.diagnosisDate, new Date(filters.from)));
+  }
+
+  if (filters.to) {
+    conditions.push(lte(cases.diagnosisDate, new Date(filters.to)));
+  }
+
+  return conditions;
+}
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -356,6 +626,8 @@ export class DatabaseStorage implements IStorage {
     zones?: string[];
     states?: string[];
     tumourTypeIds?: string[];
+    stagingScheme?: string;
+    clinicalStages?: string[];
     sort?: string;
     order?: string;
   } = {}): Promise<CaseWithDetails[]> {
@@ -407,45 +679,23 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Shared reads - filter by clinic(s) if explicitly requested
-      if (filters.clinicIds && filters.clinicIds.length > 0) {
-        query = query.where(inArray(cases.clinicId, filters.clinicIds));
-      } else {
-        query = query.where(sql`1=1`);
-      }
-
-      if (filters.species) {
-        query = query.where(eq(cases.species, filters.species));
-      }
-      if (filters.outcome) {
-        query = query.where(eq(cases.outcome, filters.outcome as any));
-      }
-      if (filters.startDate) {
-        query = query.where(gte(cases.diagnosisDate, filters.startDate));
-      }
-      if (filters.endDate) {
-        query = query.where(lte(cases.diagnosisDate, filters.endDate));
-      }
+      const conditions = caseListConditions(filters);
       
       // Zone filtering - resilient approach
       if (filters.zones && filters.zones.length > 0) {
         if (useJoin) {
-          query = query.where(sql`ng_states.zone = ANY(ARRAY[${sql.join(filters.zones.map(z => sql`${z}`), sql`, `)}])`);
+          conditions.push(sql`ng_states.zone = ANY(ARRAY[${sql.join(filters.zones.map(z => sql`${z}`), sql`, `)}])`);
         } else {
           const allowedStates = statesForZones(filters.zones);
           if (allowedStates.length > 0) {
-            query = query.where(
+            conditions.push(
               sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`${s}`), sql`, `)}])`
             );
           }
         }
       }
-      
-      if (filters.states && filters.states.length > 0) {
-        query = query.where(inArray(cases.state, filters.states as any));
-      }
-      if (filters.tumourTypeIds && filters.tumourTypeIds.length > 0) {
-        query = query.where(inArray(cases.tumourTypeId, filters.tumourTypeIds));
-      }
+
+      query = query.where(and(...conditions));
 
       // Sorting
       const sortField = filters.sort || 'date';
@@ -497,7 +747,7 @@ export class DatabaseStorage implements IStorage {
             .from(caseFiles)
             .where(and(
               inArray(caseFiles.caseId, caseIds),
-              isNull(caseFiles.deletedAt)
+              caseFileListed()
             ))
             .groupBy(caseFiles.caseId);
 
@@ -509,7 +759,7 @@ export class DatabaseStorage implements IStorage {
             .from(caseFiles)
             .where(and(
               inArray(caseFiles.caseId, caseIds),
-              isNull(caseFiles.deletedAt),
+              caseFileListed(),
               eq(caseFiles.kind, 'image')
             ))
             .orderBy(desc(caseFiles.createdAt));
@@ -569,27 +819,7 @@ export class DatabaseStorage implements IStorage {
         .leftJoin(anatomicalSites, eq(cases.anatomicalSiteId, anatomicalSites.id))
         .$dynamic();
 
-      if (filters.clinicIds && filters.clinicIds.length > 0) {
-        query = query.where(inArray(cases.clinicId, filters.clinicIds));
-      }
-      if (filters.species) {
-        query = query.where(eq(cases.species, filters.species));
-      }
-      if (filters.outcome) {
-        query = query.where(eq(cases.outcome, filters.outcome as any));
-      }
-      if (filters.startDate) {
-        query = query.where(gte(cases.diagnosisDate, filters.startDate));
-      }
-      if (filters.endDate) {
-        query = query.where(lte(cases.diagnosisDate, filters.endDate));
-      }
-      if (filters.states && filters.states.length > 0) {
-        query = query.where(inArray(cases.state, filters.states as any));
-      }
-      if (filters.tumourTypeIds && filters.tumourTypeIds.length > 0) {
-        query = query.where(inArray(cases.tumourTypeId, filters.tumourTypeIds));
-      }
+      query = query.where(and(...caseListConditions(filters)));
 
       query = query
         .limit(filters.limit || 50)
@@ -620,7 +850,7 @@ export class DatabaseStorage implements IStorage {
             .from(caseFiles)
             .where(and(
               inArray(caseFiles.caseId, caseIds),
-              isNull(caseFiles.deletedAt)
+              caseFileListed()
             ))
             .groupBy(caseFiles.caseId);
 
@@ -632,7 +862,7 @@ export class DatabaseStorage implements IStorage {
             .from(caseFiles)
             .where(and(
               inArray(caseFiles.caseId, caseIds),
-              isNull(caseFiles.deletedAt),
+              caseFileListed(),
               eq(caseFiles.kind, 'image')
             ))
             .orderBy(desc(caseFiles.createdAt));
@@ -686,7 +916,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(creator, eq(cases.createdBy, creator.id))
       .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
       .leftJoin(anatomicalSites, eq(cases.anatomicalSiteId, anatomicalSites.id))
-      .where(eq(cases.id, id));
+      .where(and(eq(cases.id, id), caseNotDeleted()));
 
     if (!result) return undefined;
 
@@ -722,71 +952,10 @@ export class DatabaseStorage implements IStorage {
     tumourTypeIds?: string[];
   } = {}): Promise<Case[]> {
     try {
-      const { hasNgStates } = await import('./db/capabilities');
-      const { statesForZones } = await import('./geo/nigeria-zones');
-      
-      let useJoin = false;
-      try {
-        useJoin = await hasNgStates();
-      } catch (error) {
-        console.error('[getSharedCases] Error checking ng_states capability:', error);
-        useJoin = false;
-      }
-
-      let query = db
+      const results = await db
         .select()
         .from(cases)
-        .$dynamic();
-
-      // Apply filters only if provided
-      if (filters.clinicIds && filters.clinicIds.length > 0) {
-        query = query.where(inArray(cases.clinicId, filters.clinicIds));
-      }
-
-      if (filters.geoZones && filters.geoZones.length > 0) {
-        if (useJoin) {
-          // Use ng_states table for zone filtering
-          const allowedStates = await db
-            .select({ code: sql<string>`name` })
-            .from(sql`ng_states`)
-            .where(sql`zone = ANY(ARRAY[${sql.join(filters.geoZones.map(z => sql`${z}`), sql`, `)}])`);
-          
-          if (allowedStates.length > 0) {
-            query = query.where(
-              sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`LOWER(TRIM(${s.code}))`), sql`, `)}])`
-            );
-          }
-        } else {
-          const allowedStates = statesForZones(filters.geoZones);
-          if (allowedStates.length > 0) {
-            query = query.where(
-              sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`${s}`), sql`, `)}])`
-            );
-          }
-        }
-      }
-
-      if (filters.states && filters.states.length > 0) {
-        query = query.where(inArray(cases.state, filters.states));
-      }
-
-      if (filters.species && filters.species.length > 0) {
-        query = query.where(inArray(cases.species, filters.species as any));
-      }
-
-      if (filters.tumourTypeIds && filters.tumourTypeIds.length > 0) {
-        query = query.where(inArray(cases.tumourTypeId, filters.tumourTypeIds));
-      }
-
-      if (filters.from) {
-        query = query.where(gte(cases.diagnosisDate, new Date(filters.from)));
-      }
-
-      if (filters.to) {
-        query = query.where(lte(cases.diagnosisDate, new Date(filters.to)));
-      }
-
-      const results = await query;
+        .where(and(...await sharedCaseConditions(filters)));
       return results;
     } catch (error) {
       console.error('[getSharedCases] Error:', error);
@@ -803,27 +972,98 @@ export class DatabaseStorage implements IStorage {
     return newCase;
   }
 
-  async updateCase(id: string, updates: Partial<InsertCase>, clinicId: string): Promise<Case> {
+  // With expectedUpdatedAt the update only applies if nobody has saved the case since,
+  // and undefined is returned otherwise. Postgres keeps microseconds but Dates only
+  // carry milliseconds, so the stored value is truncated before comparing.
+  async updateCase(id: string, updates: Partial<InsertCase>, clinicId: string, expectedUpdatedAt?: Date): Promise<Case | undefined> {
     const [updatedCase] = await db
       .update(cases)
       .set({ ...updates, updatedAt: new Date() })
       .where(and(
         eq(cases.id, id),
-        eq(cases.clinicId, clinicId)
+        eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
+        expectedUpdatedAt
+          ? sql`date_trunc('milliseconds', ${cases.updatedAt}) = ${expectedUpdatedAt.toISOString()}::timestamp`
+          : undefined
       ))
       .returning();
     return updatedCase;
   }
 
-  async deleteCase(id: string, clinicId: string): Promise<void> {
+  // Moves the case to the trash; it is removed for good by the purge job once the
+  // retention window has passed
+  async deleteCase(id: string, clinicId: string, deletedBy: string): Promise<void> {
     await db
-      .delete(cases)
+      .update(cases)
+      .set({ deletedAt: new Date(), deletedBy })
       .where(and(
         eq(cases.id, id),
-        eq(cases.clinicId, clinicId)
+        eq(cases.clinicId, clinicId),
+        caseNotDeleted()
       ));
   }
 
+  // Most recently deleted first
+  async getDeletedCases(clinicId: string): Promise<DeletedCase[]> {
+    const deleter = alias(users, 'deleter');
+    const rows = await db
+      .select({ case: cases, deletedByName: deleter.name, tumourTypeName: tumourTypes.name, holdsConsentForm: caseHoldsConsentForm() })
+      .from(cases)
+      .leftJoin(deleter, eq(cases.deletedBy, deleter.id))
+      .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
+      .where(and(eq(cases.clinicId, clinicId), isNotNull(cases.deletedAt)))
+      .orderBy(desc(cases.deletedAt));
+
+    return rows.map(row => ({
+      ...row.case,
+      deletedByName: row.deletedByName,
+      tumourTypeName: row.tumourTypeName,
+      holdsConsentForm: row.holdsConsentForm,
+    }));
+  }
+
+  // Only cases deleted after `deletedAfter` (the start of the retention window) can come back
+  async restoreCase(id: string, clinicId: string, deletedAfter: Date): Promise<Case | undefined> {
+    const [restored] = await db
+      .update(cases)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+      .where(and(
+        eq(cases.id, id),
+        eq(cases.clinicId, clinicId),
+        gte(cases.deletedAt, deletedAfter)
+      ))
+      .returning();
+    return restored || undefined;
+  }
+
+  // Permanently removes up to `limit` cases deleted before `deletedBefore`, with their
+  // follow-ups, attachments and case files. Storage keys of the files are returned so
+  // the objects can be removed too. Cases holding an owner's consent form are skipped.
+  async purgeDeletedCases(deletedBefore: Date, limit: number): Promise<{ purged: Case[]; storageKeys: string[] }> {
+    return await db.transaction(async (tx) => {
+      const expired = await tx
+        .select({ id: cases.id })
+        .from(cases)
+        .where(and(lt(cases.deletedAt, deletedBefore), not(caseHoldsConsentForm())))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (expired.length === 0) return { purged: [], storageKeys: [] };
+
+      const ids = expired.map(row => row.id);
+      const files = await tx
+        .select({ storageKey: caseFiles.storageKey })
+        .from(caseFiles)
+        .where(inArray(caseFiles.caseId, ids));
+
+      await tx.delete(followUps).where(inArray(followUps.caseId, ids));
+      await tx.delete(attachments).where(inArray(attachments.caseId, ids));
+      const purged = await tx.delete(cases).where(inArray(cases.id, ids)).returning();
+
+      return { purged, storageKeys: files.map(f => f.storageKey) };
+    });
+  }
+
   async generateCaseNumber(clinicId: string): Promise<string> {
     // Atomic generation using sequence - prevents race conditions
     const year = new Date().getFullYear();
@@ -835,6 +1075,267 @@ export class DatabaseStorage implements IStorage {
     return `VC-${year}-${seqNumber.toString().padStart(5, '0')}`;
   }
 
+  // Same clinic and species within a diagnosis date window; scoring happens in the caller
+  async getDuplicateCandidates(clinicId: string, species: string, from: Date, to: Date): Promise<Array<Case & { tumourTypeName: string | null }>> {
+    const rows = await db
+      .select({ case: cases, tumourTypeName: tumourTypes.name })
+      .from(cases)
+      .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
+      .where(and(
+        eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
+        sql`LOWER(${cases.species}) = LOWER(${species})`,
+        gte(cases.diagnosisDate, from),
+        lte(cases.diagnosisDate, to)
+      ))
+      .orderBy(desc(cases.diagnosisDate))
+      .limit(200);
+
+    return rows.map(row => ({ ...row.case, tumourTypeName: row.tumourTypeName }));
+  }
+
+  // Every case of the species diagnosed within any of the ranges, for checking a batch of import rows at once
+  async getDuplicateCandidatesInRanges(clinicId: string, species: string, ranges: Array<{ from: Date; to: Date }>): Promise<Array<Case & { tumourTypeName: string | null }>> {
+    if (ranges.length === 0) return [];
+
+    const rows = await db
+      .select({ case: cases, tumourTypeName: tumourTypes.name })
+      .from(cases)
+      .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
+      .where(and(
+        eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
+        sql`LOWER(${cases.species}) = LOWER(${species})`,
+        or(...ranges.map(range => and(gte(cases.diagnosisDate, range.from), lte(cases.diagnosisDate, range.to))))
+      ));
+
+    return rows.map(row => ({ ...row.case, tumourTypeName: row.tumourTypeName }));
+  }
+
+  // Patients of a clinic by name, matching the name or microchip number when searching
+  async getPatients(clinicId: string, search?: string): Promise<PatientWithCaseCount[]> {
+    const term = search?.trim();
+    const rows = await db
+      .select({
+        patient: patients,
+        caseCount: sql<number>`count(${cases.id})::int`,
+      })
+      .from(patients)
+      .leftJoin(cases, and(eq(cases.patientId, patients.id), caseNotDeleted()))
+      .where(and(
+        eq(patients.clinicId, clinicId),
+        term ? or(ilike(patients.name, `%${term}%`), ilike(patients.microchipNumber, `%${term}%`)) : undefined
+      ))
+      .groupBy(patients.id)
+      .orderBy(asc(patients.name), desc(patients.createdAt))
+      .limit(200);
+
+    return rows.map(row => ({ ...row.patient, caseCount: row.caseCount }));
+  }
+
+  async getPatient(id: string): Promise<Patient | undefined> {
+    const [patient] = await db.select().from(patients).where(eq(patients.id, id));
+    return patient;
+  }
+
+  async getPatientsByIds(ids: string[]): Promise<Patient[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(patients).where(inArray(patients.id, Array.from(new Set(ids))));
+  }
+
+  // Cases newest diagnosis first; deleted cases are left out
+  async getPatientWithCases(id: string): Promise<PatientWithCases | undefined> {
+    const [row] = await db
+      .select({ patient: patients, clinic: { id: clinics.id, name: clinics.name } })
+      .from(patients)
+      .innerJoin(clinics, eq(patients.clinicId, clinics.id))
+      .where(eq(patients.id, id));
+    if (!row) return undefined;
+
+    const caseRows = await db
+      .select({ case: cases, tumourTypeName: tumourTypes.name })
+      .from(cases)
+      .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
+      .where(and(eq(cases.patientId, id), caseNotDeleted()))
+      .orderBy(desc(cases.diagnosisDate));
+
+    return {
+      ...row.patient,
+      clinic: row.clinic,
+      cases: caseRows.map(r => ({ ...r.case, tumourTypeName: r.tumourTypeName })),
+    };
+  }
+
+  async getPatientByMicrochip(clinicId: string, microchipNumber: string): Promise<Patient | undefined> {
+    const [patient] = await db
+      .select()
+      .from(patients)
+      .where(and(eq(patients.clinicId, clinicId), eq(patients.microchipNumber, microchipNumber)));
+    return patient;
+  }
+
+  // Registers the patient and its first case together, so a case that fails to save
+  // leaves no patient behind
+  async createCaseForNewPatient(caseData: InsertCase, patient: InsertPatient): Promise<{ patient: Patient; case: Case }> {
+    const caseNumber = await this.generateCaseNumber(caseData.clinicId);
+    return await db.transaction(async (tx) => {
+      const [newPatient] = await tx.insert(patients).values(patient).returning();
+      const [newCase] = await tx
+        .insert(cases)
+        .values({ ...caseData, diagnosisDate: new Date(caseData.diagnosisDate), caseNumber, patientId: newPatient.id })
+        .returning();
+      return { patient: newPatient, case: newCase };
+    });
+  }
+
+  // Signalment changes are copied onto the patient's cases in the same transaction;
+  // `caseChanges` holds what changes on each case, worked out by the caller
+  async updatePatient(
+    id: string,
+    updates: Partial<InsertPatient>,
+    caseChanges: Array<{ id: string; changes: Partial<CaseSignalment> }>,
+  ): Promise<Patient | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(patients)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(patients.id, id))
+        .returning();
+      if (!updated) return undefined;
+
+      for (const { id: caseId, changes } of caseChanges) {
+        await tx
+          .update(cases)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(and(eq(cases.id, caseId), eq(cases.patientId, id)));
+      }
+      return updated;
+    });
+  }
+
+  // Cases of the clinic not yet linked to a patient, oldest diagnosis first
+  async getUnlinkedCases(clinicId: string): Promise<Array<Case & { tumourTypeName: string | null }>> {
+    const rows = await db
+      .select({ case: cases, tumourTypeName: tumourTypes.name })
+      .from(cases)
+      .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
+      .where(and(eq(cases.clinicId, clinicId), isNull(cases.patientId), caseNotDeleted()))
+      .orderBy(asc(cases.diagnosisDate));
+
+    return rows.map(row => ({ ...row.case, tumourTypeName: row.tumourTypeName }));
+  }
+
+  // Creates a patient per group and links its cases. Everything is rolled back if any
+  // case was linked or deleted by someone else since the review was loaded.
+  async linkCasesToNewPatients(
+    groups: Array<{ patient: InsertPatient; cases: Array<{ id: string; changes: Partial<CaseSignalment> }> }>,
+  ): Promise<Patient[]> {
+    return await db.transaction(async (tx) => {
+      const created: Patient[] = [];
+      for (const group of groups) {
+        const [patient] = await tx.insert(patients).values(group.patient).returning();
+        for (const { id, changes } of group.cases) {
+          const linked = await tx
+            .update(cases)
+            .set({ ...changes, patientId: patient.id, updatedAt: new Date() })
+            .where(and(eq(cases.id, id), isNull(cases.patientId), caseNotDeleted()))
+            .returning({ id: cases.id });
+          if (linked.length === 0) {
+            throw new Error("Some cases were linked or deleted since the review was loaded; reload it and try again");
+          }
+        }
+        created.push(patient);
+      }
+      return created;
+    });
+  }
+
+  async getOwners(clinicId: string): Promise<Owner[]> {
+    return await db
+      .select()
+      .from(owners)
+      .where(eq(owners.clinicId, clinicId))
+      .orderBy(asc(owners.name));
+  }
+
+  async getOwner(id: string): Promise<Owner | undefined> {
+    const [owner] = await db.select().from(owners).where(eq(owners.id, id));
+    return owner;
+  }
+
+  async getOwnerWithConsentForm(id: string): Promise<OwnerWithConsentForm | undefined> {
+    const [row] = await db
+      .select({
+        owner: owners,
+        consentForm: {
+          id: caseFiles.id,
+          caseId: caseFiles.caseId,
+          originalName: caseFiles.originalName,
+          createdAt: caseFiles.createdAt,
+        },
+      })
+      .from(owners)
+      .leftJoin(caseFiles, and(eq(owners.consentFileId, caseFiles.id), isNull(caseFiles.deletedAt)))
+      .where(eq(owners.id, id));
+
+    if (!row) return undefined;
+    return { ...row.owner, consentForm: row.consentForm };
+  }
+
+  async createOwnerForPatient(owner: InsertOwner, patientId: string): Promise<Owner> {
+    return await db.transaction(async (tx) => {
+      const [newOwner] = await tx.insert(owners).values(owner).returning();
+      await tx
+        .update(patients)
+        .set({ ownerId: newOwner.id, updatedAt: new Date() })
+        .where(eq(patients.id, patientId));
+      return newOwner;
+    });
+  }
+
+  async updateOwner(id: string, updates: Partial<InsertOwner>): Promise<Owner | undefined> {
+    const [updated] = await db
+      .update(owners)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(owners.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setPatientOwner(patientId: string, ownerId: string | null): Promise<Patient | undefined> {
+    const [updated] = await db
+      .update(patients)
+      .set({ ownerId, updatedAt: new Date() })
+      .where(eq(patients.id, patientId))
+      .returning();
+    return updated;
+  }
+
+  // Stores a newly scanned consent form for the owner; the form it replaces is soft deleted.
+  // The file is saved first, so a failure afterwards leaves at most an unreferenced confidential file.
+  async replaceConsentForm(ownerId: string, file: InsertCaseFile): Promise<{ file: CaseFile; replacedFileId: string | null }> {
+    const newFile = await this.createCaseFile({ ...file, confidential: true });
+    return await db.transaction(async (tx) => {
+      const [owner] = await tx.select().from(owners).where(eq(owners.id, ownerId));
+      await tx
+        .update(owners)
+        .set({ consentFileId: newFile.id, updatedAt: new Date() })
+        .where(eq(owners.id, ownerId));
+      if (owner?.consentFileId) {
+        await tx
+          .update(caseFiles)
+          .set({ deletedAt: new Date() })
+          .where(eq(caseFiles.id, owner.consentFileId));
+      }
+      return { file: newFile, replacedFileId: owner?.consentFileId ?? null };
+    });
+  }
+
+  async getTumourType(id: string): Promise<TumourType | undefined> {
+    const [tumourType] = await db.select().from(tumourTypes).where(eq(tumourTypes.id, id));
+    return tumourType;
+  }
+
   async getTumourTypes(clinicId?: string, species?: string): Promise<TumourType[]> {
     let query = db.select().from(tumourTypes);
     
@@ -944,7 +1445,7 @@ export class DatabaseStorage implements IStorage {
       .from(caseFiles)
       .where(and(
         eq(caseFiles.caseId, caseId),
-        isNull(caseFiles.deletedAt)
+        caseFileListed()
       ))
       .orderBy(desc(caseFiles.createdAt));
   }
@@ -1149,6 +1650,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(cases, eq(followUps.caseId, cases.id))
       .where(and(
         eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
         eq(followUps.isCompleted, false),
         lte(followUps.scheduledFor, endDate),
         gte(followUps.scheduledFor, new Date())
@@ -1156,12 +1658,104 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(followUps.scheduledFor));
   }
 
+  // In the order they were given
+  async getTreatments(caseId: string): Promise<TreatmentWithCreator[]> {
+    return await db
+      .select({ ...getTableColumns(treatments), createdByName: users.name })
+      .from(treatments)
+      .leftJoin(users, eq(treatments.createdBy, users.id))
+      .where(eq(treatments.caseId, caseId))
+      .orderBy(asc(treatments.startDate), asc(treatments.createdAt));
+  }
+
+  async getTreatment(id: string, caseId: string): Promise<Treatment | undefined> {
+    const [treatment] = await db
+      .select()
+      .from(treatments)
+      .where(and(eq(treatments.id, id), eq(treatments.caseId, caseId)));
+    return treatment || undefined;
+  }
+
+  async createTreatment(treatment: InsertTreatment): Promise<Treatment> {
+    const [newTreatment] = await db.insert(treatments).values(treatment).returning();
+    return newTreatment;
+  }
+
+  async updateTreatment(id: string, caseId: string, updates: Partial<InsertTreatment>): Promise<Treatment | undefined> {
+    const [updated] = await db
+      .update(treatments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(treatments.id, id), eq(treatments.caseId, caseId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteTreatment(id: string, caseId: string): Promise<Treatment | undefined> {
+    const [deleted] = await db
+      .delete(treatments)
+      .where(and(eq(treatments.id, id), eq(treatments.caseId, caseId)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  // Newest first; a linked file that was deleted since is left out
+  async getPathologyReports(caseId: string): Promise<PathologyReportWithFile[]> {
+    const rows = await db
+      .select({
+        report: pathologyReports,
+        createdByName: users.name,
+        fileId: caseFiles.id,
+        fileName: caseFiles.originalName,
+      })
+      .from(pathologyReports)
+      .leftJoin(users, eq(pathologyReports.createdBy, users.id))
+      .leftJoin(caseFiles, and(eq(pathologyReports.caseFileId, caseFiles.id), isNull(caseFiles.deletedAt)))
+      .where(eq(pathologyReports.caseId, caseId))
+      .orderBy(desc(pathologyReports.reportDate), desc(pathologyReports.createdAt));
+
+    return rows.map(row => ({
+      ...row.report,
+      createdByName: row.createdByName,
+      file: row.fileId ? { id: row.fileId, originalName: row.fileName! } : null,
+    }));
+  }
+
+  async getPathologyReport(id: string, caseId: string): Promise<PathologyReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(pathologyReports)
+      .where(and(eq(pathologyReports.id, id), eq(pathologyReports.caseId, caseId)));
+    return report || undefined;
+  }
+
+  async createPathologyReport(report: InsertPathologyReport): Promise<PathologyReport> {
+    const [newReport] = await db.insert(pathologyReports).values(report).returning();
+    return newReport;
+  }
+
+  async updatePathologyReport(id: string, caseId: string, updates: Partial<InsertPathologyReport>): Promise<PathologyReport | undefined> {
+    const [updated] = await db
+      .update(pathologyReports)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(pathologyReports.id, id), eq(pathologyReports.caseId, caseId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deletePathologyReport(id: string, caseId: string): Promise<PathologyReport | undefined> {
+    const [deleted] = await db
+      .delete(pathologyReports)
+      .where(and(eq(pathologyReports.id, id), eq(pathologyReports.caseId, caseId)))
+      .returning();
+    return deleted || undefined;
+  }
+
   async getDashboardStats(clinicId: string): Promise<DashboardStats> {
     // Total cases
     const [totalCasesResult] = await db
       .select({ count: count() })
       .from(cases)
-      .where(eq(cases.clinicId, clinicId));
+      .where(and(eq(cases.clinicId, clinicId), caseNotDeleted()));
 
     // New cases this month
     const thisMonth = new Date();
@@ -1173,6 +1767,7 @@ export class DatabaseStorage implements IStorage {
       .from(cases)
       .where(and(
         eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
         gte(cases.createdAt, thisMonth)
       ));
 
@@ -1185,6 +1780,7 @@ export class DatabaseStorage implements IStorage {
       .from(cases)
       .where(and(
         eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
         sql`${cases.outcome} IS NOT NULL`
       ));
 
@@ -1201,7 +1797,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(cases)
       .leftJoin(tumourTypes, eq(cases.tumourTypeId, tumourTypes.id))
-      .where(eq(cases.clinicId, clinicId))
+      .where(and(eq(cases.clinicId, clinicId), caseNotDeleted()))
       .groupBy(tumourTypes.name, cases.tumourTypeCustom)
       .orderBy(desc(count()))
       .limit(5);
@@ -1223,6 +1819,7 @@ export class DatabaseStorage implements IStorage {
       .from(cases)
       .where(and(
         eq(cases.clinicId, clinicId),
+        caseNotDeleted(),
         gte(cases.diagnosisDate, sixMonthsAgo)
       ))
       .groupBy(sql`TO_CHAR(${cases.diagnosisDate}, 'YYYY-MM')`)
@@ -1254,67 +1851,12 @@ export class DatabaseStorage implements IStorage {
     to?: string;
   } = {}): Promise<DashboardStats> {
     try {
-      const { hasNgStates } = await import('./db/capabilities');
-      const { statesForZones } = await import('./geo/nigeria-zones');
-      
-      let useJoin = false;
-      try {
-        useJoin = await hasNgStates();
-      } catch {
-        useJoin = false;
-      }
-
-      // Build dynamic query with filters
-      let query = db.select().from(cases).$dynamic();
-
-      if (filters.clinicIds && filters.clinicIds.length > 0) {
-        query = query.where(inArray(cases.clinicId, filters.clinicIds));
-      }
-
-      if (filters.geoZones && filters.geoZones.length > 0) {
-        if (useJoin) {
-          const allowedStates = await db
-            .select({ code: sql<string>`name` })
-            .from(sql`ng_states`)
-            .where(sql`zone = ANY(ARRAY[${sql.join(filters.geoZones.map(z => sql`${z}`), sql`, `)}])`);
-          
-          if (allowedStates.length > 0) {
-            query = query.where(
-              sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`LOWER(TRIM(${s.code}))`), sql`, `)}])`
-            );
-          }
-        } else {
-          const allowedStates = statesForZones(filters.geoZones);
-          if (allowedStates.length > 0) {
-            query = query.where(
-              sql`LOWER(TRIM(${cases.state})) = ANY(ARRAY[${sql.join(allowedStates.map(s => sql`${s}`), sql`, `)}])`
-            );
-          }
-        }
-      }
-
-      if (filters.states && filters.states.length > 0) {
-        query = query.where(inArray(cases.state, filters.states));
-      }
-
-      if (filters.species && filters.species.length > 0) {
-        query = query.where(inArray(cases.species, filters.species as any));
-      }
-
-      if (filters.tumourTypeIds && filters.tumourTypeIds.length > 0) {
-        query = query.where(inArray(cases.tumourTypeId, filters.tumourTypeIds));
-      }
-
-      if (filters.from) {
-        query = query.where(gte(cases.diagnosisDate, new Date(filters.from)));
-      }
-
-      if (filters.to) {
-        query = query.where(lte(cases.diagnosisDate, new Date(filters.to)));
-      }
-
       // Execute the filtered query to get all matching cases
-      const allCases = await query;
+      const conditions = await sharedCaseConditions(filters);
+      const allCases = await db
+        .select()
+        .from(cases)
+        .where(and(...conditions));
 
       // Total cases
       const totalCases = allCases.length;
@@ -1374,6 +1916,29 @@ export class DatabaseStorage implements IStorage {
         .sort((a, b) => b.count - a.count)
         .slice(0, 5);
 
+      // Histologic grade, from the newest graded pathology report of each case
+      const gradedReports = await db
+        .selectDistinctOn([pathologyReports.caseId], {
+          gradingSystem: pathologyReports.gradingSystem,
+          grade: pathologyReports.grade,
+        })
+        .from(pathologyReports)
+        .innerJoin(cases, eq(pathologyReports.caseId, cases.id))
+        .where(and(...conditions, isNotNull(pathologyReports.grade)))
+        .orderBy(pathologyReports.caseId, desc(pathologyReports.reportDate));
+
+      const gradeCounts = new Map<string, number>();
+      gradedReports.forEach(r => {
+        const grade = formatHistologicGrade(r.gradingSystem, r.grade);
+        gradeCounts.set(grade, (gradeCounts.get(grade) || 0) + 1);
+      });
+      const casesByGrade = Array.from(gradeCounts.entries())
+        .map(([grade, count]) => ({ grade, count }))
+        .sort((a, b) => a.grade.localeCompare(b.grade));
+      if (totalCases > gradedReports.length) {
+        casesByGrade.push({ grade: 'Not graded', count: totalCases - gradedReports.length });
+      }
+
       return {
         totalCases,
         newThisMonth,
@@ -1382,6 +1947,7 @@ export class DatabaseStorage implements IStorage {
         casesByMonth,
         topTumourTypes,
         casesByState: [],
+        casesByGrade,
         recentActivity: [],
       };
     } catch (error) {
@@ -1416,6 +1982,7 @@ export class DatabaseStorage implements IStorage {
     };
     casesOverTime: Array<{ date: string; count: number }>;
     tumourDistribution: Array<{ name: string; count: number }>;
+    gradeDistribution: Array<{ grade: string; count: number }>;
   }> {
     try {
       // Reuse dashboard stats logic
@@ -1428,7 +1995,8 @@ export class DatabaseStorage implements IStorage {
           date: item.month, // YYYY-MM format
           count: item.count
         })),
-        tumourDistribution: dashboardStats.topTumourTypes
+        tumourDistribution: dashboardStats.topTumourTypes,
+        gradeDistribution: dashboardStats.casesByGrade ?? [],
       };
     } catch (error) {
       console.error('[getSharedAnalyticsStats] Error:', error);
@@ -1441,6 +2009,7 @@ export class DatabaseStorage implements IStorage {
         },
         casesOverTime: [],
         tumourDistribution: [],
+        gradeDistribution: [],
       };
     }
   }
@@ -1459,6 +2028,8 @@ export class DatabaseStorage implements IStorage {
     return updatedJob;
   }
 
+  // Applies the update only while the import is in one of `statuses`, so two requests
+  // cannot both make the same status change
   async getImportJobById(id: string): Promise<ImportJob | undefined> {
     const [job] = await db
       .select()
@@ -1475,6 +2046,456 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(importJobs.createdAt));
   }
 
+  // All rows go in through one transaction, so a failure part-way leaves no cases behind
+  async commitImportCases(
+    importJobId: string,
+    rows: AsyncIterable<ImportCommitRow>,
+    audit?: ImportAuditContext,
+  ): Promise<{ inserted: number; merged: number; attachments: Array<{ caseId: string; files: string[] }> }> {
+    return await db.transaction(async (tx) => {
+      let inserted = 0;
+      let merged = 0;
+      const attachments: Array<{ caseId: string; files: string[] }> = [];
+      for await (const row of rows) {
+        let caseId: string;
+        if ('data' in row) {
+          const caseNumber = await this.generateCaseNumber(row.data.clinicId);
+          const [created] = await tx
+            .insert(cases)
+            .values({ ...row.data, diagnosisDate: new Date(row.data.diagnosisDate), caseNumber, importJobId })
+            .returning({ id: cases.id });
+          caseId = created.id;
+          inserted++;
+        } else {
+          const [current] = await tx
+            .select()
+            .from(cases)
+            .where(eq(cases.id, row.mergeIntoCaseId))
+            .for('update');
+          if (!current) {
+            throw new Error('A case this import updates has been removed; validate the import again');
+          }
+          const { changes, diff } = diffCaseFields(current, row.updates(current));
+          if (hasCaseChanges(diff)) {
+            const { diagnosisDate, ...updates } = changes;
+            await tx
+              .update(cases)
+              .set({ ...updates, ...(diagnosisDate ? { diagnosisDate: new Date(diagnosisDate) } : {}), updatedAt: new Date() })
+              .where(eq(cases.id, row.mergeIntoCaseId));
+            // Written in the same transaction so the history matches what was saved
+            if (audit) {
+              await tx.insert(auditLogs).values({
+                ...audit,
+                entityType: 'CASE',
+                entityId: row.mergeIntoCaseId,
+                action: 'UPDATE',
+                diff,
+              });
+            }
+          }
+          caseId = row.mergeIntoCaseId;
+          merged++;
+        }
+        if (row.attachments?.length) attachments.push({ caseId, files: row.attachments });
+      }
+      return { inserted, merged, attachments };
+    });
+  }
+
+  // Case files go with their cases; their storage keys are returned so the objects can be removed too
+  async rollbackImportJob(importJobId: string, clinicId: string): Promise<{ removed: number; storageKeys: string[] }> {
+    return await db.transaction(async (tx) => {
+      const files = await tx
+        .select({ storageKey: caseFiles.storageKey })
+        .from(caseFiles)
+        .innerJoin(cases, eq(caseFiles.caseId, cases.id))
+        .where(and(
+          eq(cases.importJobId, importJobId),
+          eq(cases.clinicId, clinicId)
+        ));
+
+      const deleted = await tx
+        .delete(cases)
+        .where(and(
+          eq(cases.importJobId, importJobId),
+          eq(cases.clinicId, clinicId)
+        ))
+        .returning({ id: cases.id });
+
+      await tx
+        .update(importJobs)
+        .set({ status: 'ROLLED_BACK', successRows: 0 })
+        .where(eq(importJobs.id, importJobId));
+
+      return { removed: deleted.length, storageKeys: files.map(f => f.storageKey) };
+    });
+  }
+
+  async getImportMappingPresets(clinicId: string): Promise<ImportMappingPreset[]> {
+    return await db
+      .select()
+      .from(importMappingPresets)
+      .where(eq(importMappingPresets.clinicId, clinicId))
+      .orderBy(asc(importMappingPresets.name));
+  }
+
+  // Saving under an existing name replaces that preset's mapping
+  async saveImportMappingPreset(preset: InsertImportMappingPreset): Promise<ImportMappingPreset> {
+    const [saved] = await db
+      .insert(importMappingPresets)
+      .values(preset)
+      .onConflictDoUpdate({
+        target: [importMappingPresets.clinicId, importMappingPresets.name],
+        set: { mapping: preset.mapping, createdBy: preset.createdBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteImportMappingPreset(id: string, clinicId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(importMappingPresets)
+      .where(and(eq(importMappingPresets.id, id), eq(importMappingPresets.clinicId, clinicId)))
+      .returning({ id: importMappingPresets.id });
+    return deleted.length > 0;
+  }
+
+  async getReportTemplates(clinicId?: string): Promise<ReportTemplate[]> {
+    return await db
+      .select()
+      .from(reportTemplates)
+      .where(clinicId
+        ? or(eq(reportTemplates.clinicId, clinicId), isNull(reportTemplates.clinicId))
+        : isNull(reportTemplates.clinicId))
+      .orderBy(desc(reportTemplates.isSystem), asc(reportTemplates.name));
+  }
+
+  async getReportTemplateById(id: string): Promise<ReportTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(reportTemplates)
+      .where(eq(reportTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createReportTemplate(template: InsertReportTemplate): Promise<ReportTemplate> {
+    const [newTemplate] = await db.insert(reportTemplates).values(template).returning();
+    return newTemplate;
+  }
+
+  async updateReportTemplate(id: string, updates: Partial<InsertReportTemplate>): Promise<ReportTemplate> {
+    const [updatedTemplate] = await db
+      .update(reportTemplates)
+      .set(updates)
+      .where(eq(reportTemplates.id, id))
+      .returning();
+    return updatedTemplate;
+  }
+
+  async createReportInstance(instance: InsertReportInstance): Promise<ReportInstance> {
+    const [newInstance] = await db.insert(reportInstances).values(instance).returning();
+    return newInstance;
+  }
+
+  async updateReportInstance(id: string, updates: Partial<ReportInstance>): Promise<ReportInstance> {
+    const [updatedInstance] = await db
+      .update(reportInstances)
+      .set(updates)
+      .where(eq(reportInstances.id, id))
+      .returning();
+    return updatedInstance;
+  }
+
+  async getReportInstanceById(id: string): Promise<ReportInstance | undefined> {
+    const [instance] = await db
+      .select()
+      .from(reportInstances)
+      .where(eq(reportInstances.id, id));
+    return instance || undefined;
+  }
+
+  async getReportInstances(clinicId: string, limit: number = 50, redactedFor?: string[]): Promise<ReportInstanceWithTemplate[]> {
+    const results = await db
+      .select({
+        instance: reportInstances,
+        templateName: reportTemplates.name,
+      })
+      .from(reportInstances)
+      .innerJoin(reportTemplates, eq(reportInstances.templateId, reportTemplates.id))
+      .where(and(
+        eq(reportInstances.clinicId, clinicId),
+        redactedFor ? inArray(reportInstances.redactedFor, redactedFor as any) : undefined,
+      ))
+      .orderBy(desc(reportInstances.createdAt))
+      .limit(limit);
+
+    return results.map(r => ({
+      ...r.instance,
+      templateName: r.templateName,
+    }));
+  }
+
+  async getScheduledReports(clinicId: string): Promise<ScheduledReportWithTemplate[]> {
+    const results = await db
+      .select({
+        schedule: scheduledReports,
+        templateName: reportTemplates.name,
+      })
+      .from(scheduledReports)
+      .innerJoin(reportTemplates, eq(scheduledReports.templateId, reportTemplates.id))
+      .where(eq(scheduledReports.clinicId, clinicId))
+      .orderBy(asc(scheduledReports.name));
+
+    return results.map(r => ({
+      ...r.schedule,
+      templateName: r.templateName,
+    }));
+  }
+
+  async getScheduledReportById(id: string): Promise<ScheduledReport | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(scheduledReports)
+      .where(eq(scheduledReports.id, id));
+    return schedule || undefined;
+  }
+
+  async createScheduledReport(schedule: InsertScheduledReport): Promise<ScheduledReport> {
+    const [newSchedule] = await db.insert(scheduledReports).values(schedule).returning();
+    return newSchedule;
+  }
+
+  async updateScheduledReport(id: string, updates: Partial<ScheduledReport>): Promise<ScheduledReport> {
+    const [updatedSchedule] = await db
+      .update(scheduledReports)
+      .set(updates)
+      .where(eq(scheduledReports.id, id))
+      .returning();
+    return updatedSchedule;
+  }
+
+  async deleteScheduledReport(id: string, clinicId: string): Promise<void> {
+    await db
+      .delete(scheduledReports)
+      .where(and(
+        eq(scheduledReports.id, id),
+        eq(scheduledReports.clinicId, clinicId)
+      ));
+  }
+
+  async getDueScheduledReports(now: Date): Promise<ScheduledReport[]> {
+    return await db
+      .select()
+      .from(scheduledReports)
+      .where(and(
+        eq(scheduledReports.isActive, true),
+        lte(scheduledReports.nextRunAt, now)
+      ))
+      .orderBy(asc(scheduledReports.nextRunAt));
+  }
+
+  // Moves nextRunAt forward only if no other process has already done so,
+  // so a due schedule runs once even with several server instances polling
+  async claimScheduledReport(id: string, expectedNextRunAt: Date, nextRunAt: Date): Promise<ScheduledReport | undefined> {
+    const [claimed] = await db
+      .update(scheduledReports)
+      .set({ nextRunAt })
+      .where(and(
+        eq(scheduledReports.id, id),
+        eq(scheduledReports.nextRunAt, expectedNextRunAt)
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async createBackgroundJob(job: InsertBackgroundJob): Promise<BackgroundJob> {
+    const [created] = await db.insert(backgroundJobs).values(job).returning();
+    return created;
+  }
+
+  // Moves an import in one of fromStatuses to VALIDATING and queues its validation in one
+  // transaction. Returns undefined when the import had moved on, e.g. a second validate.
+  async startImportValidation(importJobId: string, fromStatuses: ImportJob['status'][], updates: Partial<ImportJob>, job: InsertBackgroundJob): Promise<ImportJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [started] = await tx
+        .update(importJobs)
+        .set({ ...updates, status: 'VALIDATING' })
+        .where(and(eq(importJobs.id, importJobId), inArray(importJobs.status, fromStatuses)))
+        .returning();
+      if (!started) return undefined;
+
+      await tx.insert(backgroundJobs).values(job);
+      return started;
+    });
+  }
+
+  // Moves a VALIDATED import to PROCESSING and queues its commit in one transaction.
+  // Returns undefined when the import was no longer VALIDATED, e.g. on a double submit.
+  async startImportCommit(importJobId: string, updates: Partial<ImportJob>, job: InsertBackgroundJob): Promise<ImportJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [started] = await tx
+        .update(importJobs)
+        .set({ ...updates, status: 'PROCESSING' })
+        .where(and(eq(importJobs.id, importJobId), eq(importJobs.status, 'VALIDATED')))
+        .returning();
+      if (!started) return undefined;
+
+      await tx.insert(backgroundJobs).values(job);
+      return started;
+    });
+  }
+
+  async getBackgroundJobById(id: string): Promise<BackgroundJob | undefined> {
+    const [job] = await db.select().from(backgroundJobs).where(eq(backgroundJobs.id, id));
+    return job || undefined;
+  }
+
+  async getActiveBackgroundJobForEntity(entityId: string): Promise<BackgroundJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.entityId, entityId),
+        inArray(backgroundJobs.status, ['PENDING', 'RUNNING'])
+      ))
+      .orderBy(desc(backgroundJobs.createdAt))
+      .limit(1);
+    return job || undefined;
+  }
+
+  // For housekeeping jobs that are not tied to an entity
+  async getActiveBackgroundJobOfType(type: string): Promise<BackgroundJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.type, type),
+        inArray(backgroundJobs.status, ['PENDING', 'RUNNING'])
+      ))
+      .limit(1);
+    return job || undefined;
+  }
+
+  // Takes the oldest due job; SKIP LOCKED lets concurrent workers each get a different row
+  async claimBackgroundJob(workerId: string, now: Date): Promise<BackgroundJob | undefined> {
+    const [claimed] = await db
+      .update(backgroundJobs)
+      .set({
+        status: 'RUNNING',
+        lockedBy: workerId,
+        heartbeatAt: now,
+        attempts: sql`${backgroundJobs.attempts} + 1`,
+      })
+      .where(eq(backgroundJobs.id, sql`(
+        select ${backgroundJobs.id} from ${backgroundJobs}
+        where ${backgroundJobs.status} = 'PENDING' and ${backgroundJobs.runAt} <= ${now}
+        order by ${backgroundJobs.runAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async updateBackgroundJob(id: string, updates: Partial<BackgroundJob>): Promise<BackgroundJob> {
+    const [updated] = await db
+      .update(backgroundJobs)
+      .set(updates)
+      .where(eq(backgroundJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Records that a running job is alive and returns it so the worker can see a cancel request
+  async touchBackgroundJob(id: string): Promise<BackgroundJob | undefined> {
+    const [job] = await db
+      .update(backgroundJobs)
+      .set({ heartbeatAt: new Date() })
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.status, 'RUNNING')))
+      .returning();
+    return job || undefined;
+  }
+
+  async getStaleBackgroundJobs(heartbeatBefore: Date): Promise<BackgroundJob[]> {
+    return await db
+      .select()
+      .from(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.status, 'RUNNING'),
+        or(isNull(backgroundJobs.heartbeatAt), lt(backgroundJobs.heartbeatAt, heartbeatBefore))
+      ));
+  }
+
+  // Only applies if the job has not sent a heartbeat since it was found stale
+  async releaseStaleBackgroundJob(id: string, heartbeatAt: Date | null, updates: Partial<BackgroundJob>): Promise<BackgroundJob | undefined> {
+    const [released] = await db
+      .update(backgroundJobs)
+      .set(updates)
+      .where(and(
+        eq(backgroundJobs.id, id),
+        eq(backgroundJobs.status, 'RUNNING'),
+        heartbeatAt ? eq(backgroundJobs.heartbeatAt, heartbeatAt) : isNull(backgroundJobs.heartbeatAt)
+      ))
+      .returning();
+    return released || undefined;
+  }
+
+  // Imports left mid-run by a restart: no queued or running job will ever finish them
+  async getInterruptedImportJobs(): Promise<ImportJob[]> {
+    return await db
+      .select()
+      .from(importJobs)
+      .where(and(
+        inArray(importJobs.status, ['VALIDATING', 'PROCESSING']),
+        notExists(
+          db.select({ id: backgroundJobs.id })
+            .from(backgroundJobs)
+            .where(and(
+              eq(backgroundJobs.entityId, importJobs.id),
+              inArray(backgroundJobs.status, ['PENDING', 'RUNNING'])
+            ))
+        )
+      ));
+  }
+
+  async countImportJobCases(importJobId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(cases)
+      .where(eq(cases.importJobId, importJobId));
+    return result.count;
+  }
+
+  // Update imports match on the case number or on a clinic's own ID kept in `extra`.
+  // Cases are grouped by key value; more than one under a key means it is ambiguous.
+  async findCasesByImportKeys(clinicId: string, matchKey: string, values: string[]): Promise<Map<string, Case[]>> {
+    const matches = new Map<string, Case[]>();
+    if (values.length === 0) return matches;
+
+    const extraField = matchKey.replace(/^extra\./, '');
+    const keyColumn: SQL = matchKey === 'caseNumber' ? sql`${cases.caseNumber}` : sql`${cases.extra} ->> ${extraField}`;
+    const rows = await db
+      .select()
+      .from(cases)
+      .where(and(eq(cases.clinicId, clinicId), caseNotDeleted(), inArray(keyColumn, Array.from(new Set(values)))));
+
+    rows.forEach(row => {
+      const key = matchKey === 'caseNumber' ? row.caseNumber : String((row.extra || {})[extraField]);
+      matches.set(key, [...(matches.get(key) || []), row]);
+    });
+    return matches;
+  }
+
+  // Newest first
+  async getCaseHistory(caseId: string): Promise<CaseHistoryEntry[]> {
+    return await db
+      .select({ ...getTableColumns(auditLogs), actorName: users.name })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .where(and(eq(auditLogs.entityType, 'CASE'), eq(auditLogs.entityId, caseId)))
+      .orderBy(desc(auditLogs.createdAt));
+  }
+
   async createAuditLog(log: {
     actorId?: string;
     clinicId?: string;
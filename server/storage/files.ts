@@ -1,7 +1,9 @@
 import { Storage } from "@google-cloud/storage";
 import { randomUUID } from "crypto";
+import { createWriteStream } from "fs";
 import { mkdir, writeFile, rm } from "fs/promises";
 import path from "path";
+import type { Writable } from "stream";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
@@ -24,6 +26,20 @@ const objectStorageClient = new Storage({
 });
 
 const LOCAL_STORAGE_BASE_PATH = path.join(process.cwd(), "uploads", "case-files-storage");
+// Outside the statically served uploads folder
+const LOCAL_PRIVATE_STORAGE_BASE_PATH = path.join(process.cwd(), "private-storage");
+
+// Objects under these prefixes hold patient or owner data and are only ever sent through an
+// authenticated route, so they are never given a public path
+const PRIVATE_KEY_PREFIXES = ['reports/', 'imports/', 'confidential/'];
+
+function isPrivateKey(key: string): boolean {
+  return PRIVATE_KEY_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+function localPathForKey(key: string): string {
+  return path.join(isPrivateKey(key) ? LOCAL_PRIVATE_STORAGE_BASE_PATH : LOCAL_STORAGE_BASE_PATH, key);
+}
 
 function isObjectStorageConfigured(): boolean {
   return Boolean(process.env.PRIVATE_OBJECT_DIR);
@@ -72,6 +88,19 @@ export const ALLOWED_MIME_TYPES = new Set([
   'text/csv'
 ]);
 
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.csv': 'text/csv',
+};
+
 export const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20 MB
 export const MAX_FILES_PER_CASE = 10;
 
@@ -109,19 +138,24 @@ function sanitizeFilename(filename: string): string {
     .replace(/[^\w\-\.]/g, '');
 }
 
-function generateStorageKey(caseId: string, originalFilename: string): string {
+// Confidential case files, such as owner consent forms, are kept under a private prefix
+function generateStorageKey(caseId: string, originalFilename: string, { confidential = false } = {}): string {
   const timestamp = Date.now();
   const random = randomUUID().substring(0, 8);
   const safeFilename = sanitizeFilename(originalFilename);
-  return `cases/${caseId}/${timestamp}-${random}-${safeFilename}`;
+  return `${confidential ? 'confidential/' : ''}cases/${caseId}/${timestamp}-${random}-${safeFilename}`;
 }
 
 export async function putObject({ key, buffer, contentType }: PutObjectParams): Promise<PutObjectResult> {
   if (!isObjectStorageConfigured()) {
-    const targetPath = path.join(LOCAL_STORAGE_BASE_PATH, key);
+    const targetPath = localPathForKey(key);
     await mkdir(path.dirname(targetPath), { recursive: true });
     await writeFile(targetPath, buffer);
 
+    if (isPrivateKey(key)) {
+      return { publicUrl: key };
+    }
+
     const publicUrlPath = ["/uploads/case-files-storage", key]
       .join("/")
       .replace(/\\+/g, "/")
@@ -148,25 +182,35 @@ export async function putObject({ key, buffer, contentType }: PutObjectParams):
   return { publicUrl: key };
 }
 
+// Streams an object in, for files too large to build in memory. The object is complete
+// once the stream has finished.
+export async function createObjectWriteStream({ key, contentType }: Omit<PutObjectParams, 'buffer'>): Promise<Writable> {
+  if (!isObjectStorageConfigured()) {
+    const targetPath = localPathForKey(key);
+    await mkdir(path.dirname(targetPath), { recursive: true });
+    return createWriteStream(targetPath);
+  }
+
+  const privateObjectDir = getPrivateObjectDir();
+  const fullPath = `${privateObjectDir}/${key}`;
+  const { bucketName, objectName } = parseObjectPath(fullPath);
+
+  const bucket = objectStorageClient.bucket(bucketName);
+  return bucket.file(objectName).createWriteStream({
+    contentType,
+    metadata: {
+      contentType,
+    },
+    resumable: false,
+  });
+}
+
 export async function getObject({ key }: { key: string }): Promise<{ buffer: Buffer; contentType: string }> {
   if (!isObjectStorageConfigured()) {
-    const targetPath = path.join(LOCAL_STORAGE_BASE_PATH, key);
+    const targetPath = localPathForKey(key);
     const buffer = await import('fs/promises').then(fs => fs.readFile(targetPath));
     // Determine content type from file extension
-    const ext = path.extname(key).toLowerCase();
-    const contentTypeMap: Record<string, string> = {
-      '.jpg': 'image/jpeg',
-      '.jpeg': 'image/jpeg',
-      '.png': 'image/png',
-      '.gif': 'image/gif',
-      '.webp': 'image/webp',
-      '.svg': 'image/svg+xml',
-      '.pdf': 'application/pdf',
-      '.doc': 'application/msword',
-      '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      '.csv': 'text/csv',
-    };
-    const contentType = contentTypeMap[ext] || 'application/octet-stream';
+    const contentType = mimeTypeFromFilename(key);
     return { buffer, contentType };
   }
 
@@ -186,7 +230,7 @@ export async function getObject({ key }: { key: string }): Promise<{ buffer: Buf
 
 export async function deleteObject({ key }: DeleteObjectParams): Promise<void> {
   if (!isObjectStorageConfigured()) {
-    const targetPath = path.join(LOCAL_STORAGE_BASE_PATH, key);
+    const targetPath = localPathForKey(key);
     await rm(targetPath, { force: true });
     return;
   }
@@ -201,6 +245,11 @@ export async function deleteObject({ key }: DeleteObjectParams): Promise<void> {
   await file.delete();
 }
 
+// For files without an upload Content-Type, such as entries in an import ZIP
+export function mimeTypeFromFilename(filename: string): string {
+  return EXTENSION_MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
 export function isAllowedMimeType(mimeType: string): boolean {
   return ALLOWED_MIME_TYPES.has(mimeType);
 }
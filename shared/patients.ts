@@ -0,0 +1,46 @@
+import type { Patient } from "./schema";
+
+export interface CaseSignalment {
+  patientName: string | null;
+  species: string;
+  breed: string;
+  sex: Patient["sex"];
+  ageYears?: number | null;
+  ageMonths?: number | null;
+}
+
+// Whole years and months between the date of birth and `on`; null when born after `on`
+export function ageAt(dateOfBirth: Date | string, on: Date | string): { years: number; months: number } | null {
+  const born = new Date(dateOfBirth);
+  const date = new Date(on);
+  let months = (date.getFullYear() - born.getFullYear()) * 12 + date.getMonth() - born.getMonth();
+  if (date.getDate() < born.getDate()) months -= 1;
+  if (months < 0) return null;
+  return { years: Math.floor(months / 12), months: months % 12 };
+}
+
+// e.g. "6y 3m"
+export function formatAge(years: number | null | undefined, months: number | null | undefined): string {
+  if (years == null && months == null) return "";
+  return `${years ?? 0}y ${months ?? 0}m`;
+}
+
+// The signalment a case of this patient carries. The age at diagnosis is only worked
+// out when the date of birth is known; otherwise the case keeps the age entered on it.
+export function caseSignalmentFromPatient(
+  patient: Pick<Patient, "species" | "breed"> & Partial<Pick<Patient, "name" | "sex" | "dateOfBirth">>,
+  diagnosisDate: Date | string,
+): CaseSignalment {
+  const signalment: CaseSignalment = {
+    patientName: patient.name ?? null,
+    species: patient.species,
+    breed: patient.breed,
+    sex: patient.sex ?? null,
+  };
+  const age = patient.dateOfBirth ? ageAt(patient.dateOfBirth, diagnosisDate) : null;
+  if (age) {
+    signalment.ageYears = age.years;
+    signalment.ageMonths = age.months;
+  }
+  return signalment;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, uuid, timestamp, integer, jsonb, pgEnum, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, uuid, timestamp, integer, doublePrecision, jsonb, pgEnum, boolean, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -10,6 +10,13 @@ export const sexEnum = pgEnum("sex", ["MALE_NEUTERED", "MALE_INTACT", "FEMALE_SP
 export const statusEnum = pgEnum("status", ["DRAFT", "ACTIVE", "COMPLETED", "ARCHIVED"]);
 export const outcomeEnum = pgEnum("outcome", ["REMISSION", "TREATMENT_ONGOING", "DECEASED", "LOST_TO_FOLLOWUP"]);
 export const attachmentKindEnum = pgEnum("attachment_kind", ["IMAGE", "PDF", "LAB"]);
+export const treatmentModalityEnum = pgEnum("treatment_modality", ["SURGERY", "CHEMOTHERAPY", "RADIATION", "IMMUNOTHERAPY", "OTHER"]);
+export const treatmentIntentEnum = pgEnum("treatment_intent", ["CURATIVE", "PALLIATIVE"]);
+export const doseUnitEnum = pgEnum("dose_unit", ["MG_PER_M2", "MG_PER_KG"]);
+export const surgicalMarginEnum = pgEnum("surgical_margin", ["COMPLETE", "CLOSE", "INCOMPLETE", "NOT_ASSESSED"]);
+export const pathologySampleTypeEnum = pgEnum("pathology_sample_type", ["FNA", "INCISIONAL_BIOPSY", "EXCISIONAL_BIOPSY"]);
+export const gradingSystemEnum = pgEnum("grading_system", ["PATNAIK", "KIUPEL", "PENA", "OTHER"]);
+export const consentStatusEnum = pgEnum("consent_status", ["PENDING", "GRANTED", "REFUSED", "WITHDRAWN"]);
 export const reportStatusEnum = pgEnum("report_status", ["PENDING", "RUNNING", "COMPLETED", "FAILED"]);
 export const feedStatusEnum = pgEnum("feed_status", ["DRAFT", "PUBLISHED", "MODERATION"]);
 export const geoPoliticalZoneEnum = pgEnum("geo_political_zone", [
@@ -118,6 +125,50 @@ export const anatomicalSites = pgTable("anatomical_sites", {
   nameSpeciesIdx: index("anatomical_sites_name_species_idx").on(table.name, table.species),
 }));
 
+// The person responsible for one or more patients, and whether they agreed to the
+// patients' data being used for research. Owner details identify a member of the public:
+// they are only read through the owner routes, by staff of the owner's clinic, and are
+// never joined into case reads, exports or analytics.
+export const owners = pgTable("owners", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clinicId: uuid("clinic_id").references(() => clinics.id).notNull(),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  lga: text("lga"), // Local Government Area of residence
+  consentStatus: consentStatusEnum("consent_status").default("PENDING").notNull(),
+  consentDate: timestamp("consent_date"),
+  // The scanned form, stored as a confidential file of one of the owner's patients' cases
+  consentFileId: uuid("consent_file_id").references((): AnyPgColumn => caseFiles.id, { onDelete: "set null" }),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clinicIdx: index("owners_clinic_idx").on(table.clinicId),
+}));
+
+// An animal seen by a clinic. The patient owns the signalment; each of its cases keeps
+// a copy so case lists, filters and analytics stay single-table queries.
+export const patients = pgTable("patients", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clinicId: uuid("clinic_id").references(() => clinics.id).notNull(),
+  name: text("name"),
+  species: text("species").notNull(),
+  breed: text("breed").notNull(),
+  sex: sexEnum("sex"),
+  dateOfBirth: timestamp("date_of_birth"),
+  // Unique within a clinic; a referred animal is registered again by the clinic it moves to
+  microchipNumber: text("microchip_number"),
+  ownerId: uuid("owner_id").references(() => owners.id, { onDelete: "set null" }),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clinicIdx: index("patients_clinic_idx").on(table.clinicId),
+  nameIdx: index("patients_name_idx").on(table.name),
+  ownerIdx: index("patients_owner_idx").on(table.ownerId),
+  clinicMicrochipIdx: uniqueIndex("patients_clinic_microchip_idx").on(table.clinicId, table.microchipNumber),
+}));
+
 // Cases - the core entity
 export const cases = pgTable("cases", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -129,12 +180,13 @@ export const cases = pgTable("cases", {
   geoZone: geoPoliticalZoneEnum("geo_zone"),
   state: stateEnum("state"),
   
-  // Patient information
+  // Patient information, copied from the patient when the case has one
+  patientId: uuid("patient_id").references(() => patients.id),
   patientName: text("patient_name"),
   species: text("species").notNull(),
   breed: text("breed").notNull(),
   sex: sexEnum("sex"),
-  ageYears: integer("age_years"),
+  ageYears: integer("age_years"), // age at diagnosis; worked out from the patient's date of birth when known
   ageMonths: integer("age_months"),
   
   // Tumour details
@@ -143,7 +195,13 @@ export const cases = pgTable("cases", {
   anatomicalSiteId: uuid("anatomical_site_id").references(() => anatomicalSites.id),
   anatomicalSiteCustom: text("anatomical_site_custom"),
   laterality: text("laterality"), // left, right, bilateral, central
-  stage: text("stage"),
+  stage: text("stage"), // free text, or the structured stage below formatted for display
+  stagingScheme: text("staging_scheme"), // WHO scheme id from shared/staging.ts
+  tnmT: text("tnm_t"),
+  tnmN: text("tnm_n"),
+  tnmM: text("tnm_m"),
+  clinicalStage: text("clinical_stage"), // stage group, e.g. "III"; derived from TNM where the scheme uses it
+  stageSubstage: text("stage_substage"), // a or b
   
   // Diagnosis
   diagnosisMethod: text("diagnosis_method"),
@@ -161,11 +219,15 @@ export const cases = pgTable("cases", {
   notes: text("notes"),
   status: statusEnum("status").default("DRAFT").notNull(),
   extra: jsonb("extra").$type<Record<string, any>>().default({}),
+  importJobId: uuid("import_job_id").references(() => importJobs.id), // set for cases created by a bulk import
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // in the trash until restored or purged
+  deletedBy: uuid("deleted_by").references(() => users.id),
 }, (table) => ({
   clinicIdx: index("cases_clinic_idx").on(table.clinicId),
+  patientIdx: index("cases_patient_idx").on(table.patientId),
   speciesIdx: index("cases_species_idx").on(table.species),
   tumourTypeIdx: index("cases_tumour_type_idx").on(table.tumourTypeId),
   anatomicalSiteIdx: index("cases_anatomical_site_idx").on(table.anatomicalSiteId),
@@ -173,6 +235,9 @@ export const cases = pgTable("cases", {
   diagnosisDateIdx: index("cases_diagnosis_date_idx").on(table.diagnosisDate),
   geoZoneIdx: index("cases_geo_zone_idx").on(table.geoZone),
   stateIdx: index("cases_state_idx").on(table.state),
+  importJobIdx: index("cases_import_job_idx").on(table.importJobId),
+  deletedIdx: index("cases_deleted_idx").on(table.deletedAt),
+  clinicalStageIdx: index("cases_clinical_stage_idx").on(table.stagingScheme, table.clinicalStage),
 }));
 
 export const attachments = pgTable("attachments", {
@@ -189,6 +254,29 @@ export const attachments = pgTable("attachments", {
   caseIdx: index("attachments_case_idx").on(table.caseId),
 }));
 
+// Individual treatments given for a case; one row per surgery, chemotherapy cycle or radiation course
+export const treatments = pgTable("treatments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: uuid("case_id").references(() => cases.id, { onDelete: "cascade" }).notNull(),
+  modality: treatmentModalityEnum("modality").notNull(),
+  intent: treatmentIntentEnum("intent"),
+  protocolName: text("protocol_name"), // e.g. CHOP, Madison-Wisconsin
+  drug: text("drug"),
+  dose: doublePrecision("dose"),
+  doseUnit: doseUnitEnum("dose_unit"),
+  cycleNumber: integer("cycle_number"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  marginStatus: surgicalMarginEnum("margin_status"), // surgery only
+  notes: text("notes"),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  caseIdx: index("treatments_case_idx").on(table.caseId),
+  modalityIdx: index("treatments_modality_idx").on(table.modality),
+}));
+
 // Case files - for App Storage attachments
 export const caseFiles = pgTable("case_files", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -200,6 +288,7 @@ export const caseFiles = pgTable("case_files", {
   mimeType: text("mime_type").notNull(),
   sizeBytes: integer("size_bytes").notNull(),
   uploadedBy: uuid("uploaded_by").references(() => users.id).notNull(),
+  confidential: boolean("confidential").default(false).notNull(), // owner consent forms; left out of the case's file list
   createdAt: timestamp("created_at").defaultNow().notNull(),
   deletedAt: timestamp("deleted_at"),
 }, (table) => ({
@@ -207,6 +296,27 @@ export const caseFiles = pgTable("case_files", {
   deletedIdx: index("case_files_deleted_idx").on(table.deletedAt),
 }));
 
+// Histopathology and cytology results of a case; the lab's report can be linked as an uploaded PDF
+export const pathologyReports = pgTable("pathology_reports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: uuid("case_id").references(() => cases.id, { onDelete: "cascade" }).notNull(),
+  sampleType: pathologySampleTypeEnum("sample_type").notNull(),
+  labName: text("lab_name"),
+  reportDate: timestamp("report_date").notNull(),
+  gradingSystem: gradingSystemEnum("grading_system"),
+  grade: text("grade"), // one of HISTOLOGIC_GRADES for the system, free text for OTHER
+  mitoticCount: integer("mitotic_count"), // per 10 high-power fields
+  marginStatus: surgicalMarginEnum("margin_status"), // excisional biopsies only
+  pathologistComment: text("pathologist_comment"),
+  caseFileId: uuid("case_file_id").references(() => caseFiles.id, { onDelete: "set null" }),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  caseIdx: index("pathology_reports_case_idx").on(table.caseId),
+  gradeIdx: index("pathology_reports_grade_idx").on(table.gradingSystem, table.grade),
+}));
+
 // Reports system
 export const reportTemplates = pgTable("report_templates", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -232,10 +342,19 @@ export const reportInstances = pgTable("report_instances", {
   runBy: uuid("run_by").references(() => users.id).notNull(),
   status: reportStatusEnum("status").default("PENDING").notNull(),
   params: jsonb("params").$type<Record<string, any>>().default({}),
-  format: text("format").notNull(), // PDF, DOCX, CSV
+  format: text("format").notNull(), // PDF, DOCX, XLSX, CSV
   outputUrl: text("output_url"),
   checksum: text("checksum"),
   queryIds: text("query_ids").array(),
+  // Role the output is redacted for, fixed when the run is requested; only users whose
+  // own role needs no stricter redaction may see or download it
+  redactedFor: roleEnum("redacted_for"),
+  // Redaction applied when the report was rendered, kept as evidence of what was shared
+  redaction: jsonb("redaction").$type<{
+    role: string;
+    fields: string[];
+    masked: Array<{queryId: string; field: string; rows: number}>;
+  }>(),
   error: text("error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
@@ -300,8 +419,8 @@ export const auditLogs = pgTable("audit_logs", {
   clinicId: uuid("clinic_id").references(() => clinics.id),
   entityType: text("entity_type").notNull(),
   entityId: uuid("entity_id").notNull(),
-  action: text("action").notNull(), // CREATE, UPDATE, DELETE
-  diff: jsonb("diff").$type<{before?: any; after?: any}>(),
+  action: text("action").notNull(), // CREATE, UPDATE, DELETE, REVERT, RESTORE, PURGE
+  diff: jsonb("diff").$type<{before?: any; after?: any; revertOf?: string}>(), // revertOf: audit log id of the version restored
   ip: text("ip"),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -317,15 +436,30 @@ export const importJobs = pgTable("import_jobs", {
   clinicId: uuid("clinic_id").references(() => clinics.id).notNull(),
   createdBy: uuid("created_by").references(() => users.id).notNull(),
   filename: text("filename").notNull(),
-  fileUrl: text("file_url").notNull(),
+  fileUrl: text("file_url").notNull(), // the rows file; for ZIP bundles, the manifest extracted from it
+  bundleUrl: text("bundle_url"), // the uploaded ZIP, when the import came with attachments
   mapping: jsonb("mapping").$type<Record<string, string>>().notNull(),
-  status: text("status").notNull(), // PENDING, PROCESSING, COMPLETED, FAILED
+  mode: text("mode").default("CREATE").notNull(), // CREATE adds every row as a new case; UPSERT updates cases matched on matchKey
+  matchKey: text("match_key"), // caseNumber, or extra.<key> for a clinic's own record ID
+  status: text("status").notNull(), // PENDING, VALIDATING, VALIDATED, PROCESSING, COMPLETED, FAILED, CANCELLED, ROLLED_BACK
   totalRows: integer("total_rows"),
   processedRows: integer("processed_rows").default(0),
   successRows: integer("success_rows").default(0),
   errorRows: integer("error_rows").default(0),
   errors: jsonb("errors").$type<Array<{row: number; error: string}>>().default([]),
+  warnings: jsonb("warnings").$type<Array<{row: number; warning: string}>>().default([]),
+  // A row matches either an existing case or, with matchesRow, an earlier row of the same file
+  duplicates: jsonb("duplicates").$type<Array<{row: number; caseId: string | null; caseNumber: string | null; matchesRow?: number; score: number; decision?: ImportDuplicateDecision}>>().default([]),
   errorFileUrl: text("error_file_url"),
+  // Outcome of the last validation run, shown in the wizard's review step
+  validation: jsonb("validation").$type<{
+    validRows: number;
+    warningRows: number;
+    updateRows: number;
+    unchangedRows: number;
+    attachmentCount: number;
+    preview: Array<{row: number; values: Record<string, string>; data: Record<string, any> | null; update: Record<string, any> | null; errors: string[]; warnings: string[]}>;
+  }>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
 }, (table) => ({
@@ -333,9 +467,47 @@ export const importJobs = pgTable("import_jobs", {
   statusIdx: index("import_jobs_status_idx").on(table.status),
 }));
 
+// Saved source-column to case-field mappings, reusable across imports within a clinic
+export const importMappingPresets = pgTable("import_mapping_presets", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  clinicId: uuid("clinic_id").references(() => clinics.id).notNull(),
+  name: text("name").notNull(),
+  mapping: jsonb("mapping").$type<Record<string, string>>().notNull(),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clinicNameIdx: uniqueIndex("import_mapping_presets_clinic_name_idx").on(table.clinicId, table.name),
+}));
+
+// Work run outside the request by the job workers (see server/jobs). Rows are claimed
+// with SKIP LOCKED so several server instances can share the queue.
+export const backgroundJobs = pgTable("background_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // IMPORT_VALIDATE, IMPORT_COMMIT, REPORT_GENERATE, SCHEDULED_REPORT, CASE_PURGE
+  payload: jsonb("payload").$type<Record<string, any>>().default({}).notNull(),
+  clinicId: uuid("clinic_id").references(() => clinics.id),
+  entityId: uuid("entity_id"), // the import job, report instance etc. the work is for
+  status: text("status").default("PENDING").notNull(), // PENDING, RUNNING, COMPLETED, FAILED, CANCELLED
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // not claimed before this time; pushed back between retries
+  lockedBy: text("locked_by"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  cancelRequested: boolean("cancel_requested").default(false).notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  statusRunAtIdx: index("background_jobs_status_run_at_idx").on(table.status, table.runAt),
+  entityIdx: index("background_jobs_entity_idx").on(table.entityId),
+}));
+
 // Relations
 export const clinicsRelations = relations(clinics, ({ many }) => ({
   users: many(users),
+  owners: many(owners),
+  patients: many(patients),
   cases: many(cases),
   tumourTypes: many(tumourTypes),
   anatomicalSites: many(anatomicalSites),
@@ -365,11 +537,43 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   invitations: many(invitations),
 }));
 
+export const ownersRelations = relations(owners, ({ one, many }) => ({
+  clinic: one(clinics, {
+    fields: [owners.clinicId],
+    references: [clinics.id],
+  }),
+  consentFile: one(caseFiles, {
+    fields: [owners.consentFileId],
+    references: [caseFiles.id],
+  }),
+  patients: many(patients),
+}));
+
+export const patientsRelations = relations(patients, ({ one, many }) => ({
+  clinic: one(clinics, {
+    fields: [patients.clinicId],
+    references: [clinics.id],
+  }),
+  owner: one(owners, {
+    fields: [patients.ownerId],
+    references: [owners.id],
+  }),
+  createdBy: one(users, {
+    fields: [patients.createdBy],
+    references: [users.id],
+  }),
+  cases: many(cases),
+}));
+
 export const casesRelations = relations(cases, ({ one, many }) => ({
   clinic: one(clinics, {
     fields: [cases.clinicId],
     references: [clinics.id],
   }),
+  patient: one(patients, {
+    fields: [cases.patientId],
+    references: [patients.id],
+  }),
   createdBy: one(users, {
     fields: [cases.createdBy],
     references: [users.id],
@@ -385,6 +589,8 @@ export const casesRelations = relations(cases, ({ one, many }) => ({
   attachments: many(attachments),
   caseFiles: many(caseFiles),
   followUps: many(followUps),
+  treatments: many(treatments),
+  pathologyReports: many(pathologyReports),
 }));
 
 export const attachmentsRelations = relations(attachments, ({ one }) => ({
@@ -405,6 +611,32 @@ export const caseFilesRelations = relations(caseFiles, ({ one }) => ({
   }),
 }));
 
+export const treatmentsRelations = relations(treatments, ({ one }) => ({
+  case: one(cases, {
+    fields: [treatments.caseId],
+    references: [cases.id],
+  }),
+  createdBy: one(users, {
+    fields: [treatments.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const pathologyReportsRelations = relations(pathologyReports, ({ one }) => ({
+  case: one(cases, {
+    fields: [pathologyReports.caseId],
+    references: [cases.id],
+  }),
+  caseFile: one(caseFiles, {
+    fields: [pathologyReports.caseFileId],
+    references: [caseFiles.id],
+  }),
+  createdBy: one(users, {
+    fields: [pathologyReports.createdBy],
+    references: [users.id],
+  }),
+}));
+
 export const followUpsRelations = relations(followUps, ({ one }) => ({
   case: one(cases, {
     fields: [followUps.caseId],
@@ -434,14 +666,73 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertCaseSchema = createInsertSchema(cases).omit({
   id: true,
   caseNumber: true,
+  importJobId: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   species: z.string().min(1),
   breed: z.string().min(1),
   diagnosisDate: z.string().or(z.date()),
 });
 
+export const insertPatientSchema = createInsertSchema(patients, {
+  name: z.string().trim().nullish(),
+  species: z.string().min(1),
+  breed: z.string().min(1),
+  dateOfBirth: z.coerce.date().nullish(),
+  microchipNumber: z.string().trim().regex(/^[0-9A-Za-z]{9,15}$/, "Microchip numbers are 9 to 15 letters or digits").nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Fields a user enters for a patient; the clinic and creator come from the session
+export const patientInputSchema = insertPatientSchema
+  .omit({ clinicId: true, createdBy: true, ownerId: true })
+  .refine(patient => !patient.dateOfBirth || patient.dateOfBirth <= new Date(), {
+    message: "Date of birth cannot be in the future",
+    path: ["dateOfBirth"],
+  });
+
+// Groups of unlinked cases a manager approved in the patient review; each group becomes one patient
+export const patientMigrationSchema = z.object({
+  groups: z.array(z.object({
+    caseIds: z.array(z.string().uuid()).min(1),
+  })).min(1),
+});
+
+export const insertOwnerSchema = createInsertSchema(owners, {
+  name: z.string().trim().min(1, "Owner name is required"),
+  phone: z.string().trim().regex(/^\+?[0-9][0-9 -]{6,18}$/, "Enter a valid phone number").nullish(),
+  lga: z.string().trim().nullish(),
+  consentDate: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  consentFileId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Fields a user enters for an owner; a recorded decision needs the date it was given
+export const ownerInputSchema = insertOwnerSchema
+  .omit({ clinicId: true, createdBy: true })
+  .refine(owner => owner.consentStatus === undefined || owner.consentStatus === "PENDING" || !!owner.consentDate, {
+    message: "Consent date is required once consent is granted, refused or withdrawn",
+    path: ["consentDate"],
+  })
+  .refine(owner => !owner.consentDate || owner.consentDate <= new Date(), {
+    message: "Consent date cannot be in the future",
+    path: ["consentDate"],
+  });
+
+// Links a patient to an owner of its clinic, or unlinks it with null
+export const patientOwnerSchema = z.object({
+  ownerId: z.string().uuid().nullable(),
+});
+
 export const insertTumourTypeSchema = createInsertSchema(tumourTypes).omit({
   id: true,
   createdAt: true,
@@ -483,9 +774,220 @@ export const insertFollowUpSchema = createInsertSchema(followUps).omit({
   completedAt: true,
 });
 
+export const insertTreatmentSchema = createInsertSchema(treatments, {
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullish(),
+  dose: z.number().positive().nullish(),
+  cycleNumber: z.number().int().min(1).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Fields a user enters for a treatment; the case and creator come from the route and session
+export const treatmentInputSchema = insertTreatmentSchema
+  .omit({ caseId: true, createdBy: true })
+  .superRefine((treatment, ctx) => {
+    if ((treatment.dose == null) !== (treatment.doseUnit == null)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Dose and dose unit must be given together", path: ["doseUnit"] });
+    }
+    if (treatment.marginStatus && treatment.modality !== "SURGERY") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Margin status only applies to surgery", path: ["marginStatus"] });
+    }
+    if (treatment.endDate && treatment.endDate < treatment.startDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date cannot be before the start date", path: ["endDate"] });
+    }
+  });
+
+// Grades each histologic grading system allows; OTHER takes the grade as the lab wrote it
+export const HISTOLOGIC_GRADES: Record<string, string[]> = {
+  PATNAIK: ["I", "II", "III"],
+  KIUPEL: ["LOW", "HIGH"],
+  PENA: ["I", "II", "III"],
+};
+
+const GRADING_SYSTEM_NAMES: Record<string, string> = {
+  PATNAIK: "Patnaik",
+  KIUPEL: "Kiupel",
+  PENA: "Peña",
+  OTHER: "Other",
+};
+
+// e.g. "Patnaik grade II" or "Kiupel high grade"
+export function formatHistologicGrade(gradingSystem: string | null, grade: string | null): string {
+  if (!grade) return "";
+  if (!gradingSystem || gradingSystem === "OTHER") return grade;
+  const name = GRADING_SYSTEM_NAMES[gradingSystem] ?? gradingSystem;
+  return gradingSystem === "KIUPEL" ? `${name} ${grade.toLowerCase()} grade` : `${name} grade ${grade}`;
+}
+
+export const insertPathologyReportSchema = createInsertSchema(pathologyReports, {
+  reportDate: z.coerce.date(),
+  mitoticCount: z.number().int().min(0).nullish(),
+  caseFileId: z.string().uuid().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Fields a user enters for a pathology report; the case and creator come from the route and session
+export const pathologyReportInputSchema = insertPathologyReportSchema
+  .omit({ caseId: true, createdBy: true })
+  .superRefine((report, ctx) => {
+    if (report.grade && !report.gradingSystem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose the grading system of the grade", path: ["gradingSystem"] });
+    }
+    const grades = report.gradingSystem ? HISTOLOGIC_GRADES[report.gradingSystem] : undefined;
+    if (grades && report.grade && !grades.includes(report.grade)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Grade must be one of ${grades.join(", ")}`, path: ["grade"] });
+    }
+    if (report.marginStatus && report.sampleType !== "EXCISIONAL_BIOPSY") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Margins are only assessed on excisional biopsies", path: ["marginStatus"] });
+    }
+  });
+
+export const reportFormatSchema = z.enum(["PDF", "DOCX", "XLSX", "CSV"]);
+
+// Relative date ranges used by scheduled reports in place of fixed dates
+export const reportPeriodSchema = z.enum(["previous_day", "previous_week", "previous_month", "previous_quarter", "previous_year"]);
+
+export const reportDefinitionSchema = z.object({
+  inputs: z.array(z.object({
+    name: z.string().min(1),
+    type: z.string().min(1),
+    required: z.boolean(),
+  })),
+  queries: z.array(z.object({
+    id: z.string().min(1),
+    sql: z.string().min(1),
+    params: z.array(z.string()),
+  })).min(1),
+  layout: z.object({
+    sections: z.array(z.object({
+      type: z.string().min(1),
+      config: z.record(z.any()).default({}),
+    })),
+  }),
+  redaction: z.object({
+    fields: z.array(z.string()),
+  }),
+});
+
+export const insertReportTemplateSchema = createInsertSchema(reportTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  definition: reportDefinitionSchema,
+});
+
+export const insertReportInstanceSchema = createInsertSchema(reportInstances).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+  redaction: true,
+});
+
+export const insertScheduledReportSchema = createInsertSchema(scheduledReports).omit({
+  id: true,
+  createdAt: true,
+  lastRunAt: true,
+}).extend({
+  name: z.string().min(1),
+  cron: z.string().min(1),
+  recipients: z.array(z.string().email()).min(1),
+  format: reportFormatSchema,
+  filters: z.object({ period: reportPeriodSchema.optional() }).passthrough().default({}),
+});
+
+// Case fields a bulk import column can be mapped to. Any `extra.<key>` target is
+// also accepted and stored in the case's `extra` JSON.
+export const IMPORT_CASE_FIELDS = [
+  { field: "patientName", label: "Patient Name" },
+  { field: "species", label: "Species", required: true },
+  { field: "breed", label: "Breed", required: true },
+  { field: "sex", label: "Sex" },
+  { field: "ageYears", label: "Age (Years)" },
+  { field: "ageMonths", label: "Age (Months)" },
+  { field: "state", label: "State", required: true },
+  { field: "tumourTypeCustom", label: "Tumour Type" },
+  { field: "anatomicalSiteCustom", label: "Anatomical Site" },
+  { field: "laterality", label: "Laterality" },
+  { field: "stage", label: "Stage" },
+  { field: "diagnosisMethod", label: "Diagnosis Method" },
+  { field: "diagnosisDate", label: "Diagnosis Date", required: true },
+  { field: "treatmentPlan", label: "Treatment Plan" },
+  { field: "treatmentStart", label: "Treatment Start Date" },
+  { field: "outcome", label: "Outcome" },
+  { field: "lastFollowUp", label: "Last Follow-up Date" },
+  { field: "status", label: "Record Status" },
+  { field: "notes", label: "Notes" },
+] as const;
+
+export type ImportCaseField = typeof IMPORT_CASE_FIELDS[number]["field"];
+
+export const EXTRA_FIELD_PREFIX = "extra.";
+
+// Columns holding paths of files inside a ZIP bundle; several columns may use it
+export const ATTACHMENT_MAPPING_TARGET = "attachments";
+
+// Identifies an existing case in update imports; never written to the case
+export const CASE_NUMBER_MAPPING_TARGET = "caseNumber";
+
+export const isImportMappingTarget = (target: string) =>
+  IMPORT_CASE_FIELDS.some(f => f.field === target) ||
+  target === ATTACHMENT_MAPPING_TARGET ||
+  target === CASE_NUMBER_MAPPING_TARGET ||
+  (target.startsWith(EXTRA_FIELD_PREFIX) && /^[A-Za-z0-9_]+$/.test(target.slice(EXTRA_FIELD_PREFIX.length)));
+
+// Extra fields are stored on the case, which every clinic can read, so columns of owner
+// details (named `owner*`, as report redaction also treats them) cannot be kept there
+export const isOwnerExtraField = (target: string) =>
+  target.startsWith(EXTRA_FIELD_PREFIX) && /^owner/i.test(target.slice(EXTRA_FIELD_PREFIX.length));
+
+// What to do with an import row that probably duplicates an existing case
+export const importDuplicateDecisionSchema = z.enum(["skip", "merge", "keep"]);
+
+export const importMappingSchema = z.record(
+  z.string()
+    .refine(isImportMappingTarget, { message: "Unknown case field" })
+    .refine(target => !isOwnerExtraField(target), { message: "Owner details cannot be imported into cases; record them on the patient's owner" })
+);
+
+export const importModeSchema = z.enum(["CREATE", "UPSERT"]);
+
+// Update imports find existing cases by case number or by an ID kept in `extra`
+export const importMatchKeySchema = z.string().refine(
+  key => key === CASE_NUMBER_MAPPING_TARGET || (key.startsWith(EXTRA_FIELD_PREFIX) && isImportMappingTarget(key)),
+  { message: "Match on the case number or an extra field" }
+);
+
+export const insertImportMappingPresetSchema = createInsertSchema(importMappingPresets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  mapping: importMappingSchema,
+});
+
+export const insertBackgroundJobSchema = createInsertSchema(backgroundJobs).pick({
+  type: true,
+  payload: true,
+  clinicId: true,
+  entityId: true,
+  maxAttempts: true,
+  runAt: true,
+}).extend({
+  payload: z.record(z.any()),
+});
+
 // Types
 export type Clinic = typeof clinics.$inferSelect;
 export type User = typeof users.$inferSelect;
+export type Owner = typeof owners.$inferSelect;
+export type Patient = typeof patients.$inferSelect;
 export type Case = typeof cases.$inferSelect;
 export type TumourType = typeof tumourTypes.$inferSelect;
 export type AnatomicalSite = typeof anatomicalSites.$inferSelect;
@@ -496,12 +998,20 @@ export type ReportInstance = typeof reportInstances.$inferSelect;
 export type ScheduledReport = typeof scheduledReports.$inferSelect;
 export type FeedPost = typeof feedPosts.$inferSelect;
 export type FollowUp = typeof followUps.$inferSelect;
+export type Treatment = typeof treatments.$inferSelect;
+export type PathologyReport = typeof pathologyReports.$inferSelect;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type ImportJob = typeof importJobs.$inferSelect;
+export type ImportMappingPreset = typeof importMappingPresets.$inferSelect;
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
 export type Invitation = typeof invitations.$inferSelect;
 
 export type InsertClinic = z.infer<typeof insertClinicSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertOwner = z.infer<typeof insertOwnerSchema>;
+export type OwnerInput = z.infer<typeof ownerInputSchema>;
+export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type PatientInput = z.infer<typeof patientInputSchema>;
 export type InsertCase = z.infer<typeof insertCaseSchema>;
 export type InsertTumourType = z.infer<typeof insertTumourTypeSchema>;
 export type InsertAnatomicalSite = z.infer<typeof insertAnatomicalSiteSchema>;
@@ -509,6 +1019,20 @@ export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
 export type InsertCaseFile = z.infer<typeof insertCaseFileSchema>;
 export type InsertFeedPost = z.infer<typeof insertFeedPostSchema>;
 export type InsertFollowUp = z.infer<typeof insertFollowUpSchema>;
+export type InsertTreatment = z.infer<typeof insertTreatmentSchema>;
+export type TreatmentInput = z.infer<typeof treatmentInputSchema>;
+export type InsertPathologyReport = z.infer<typeof insertPathologyReportSchema>;
+export type PathologyReportInput = z.infer<typeof pathologyReportInputSchema>;
+export type InsertReportTemplate = z.infer<typeof insertReportTemplateSchema>;
+export type InsertReportInstance = z.infer<typeof insertReportInstanceSchema>;
+export type InsertScheduledReport = z.infer<typeof insertScheduledReportSchema>;
+export type ReportDefinition = z.infer<typeof reportDefinitionSchema>;
+export type ReportFormat = z.infer<typeof reportFormatSchema>;
+export type ReportPeriod = z.infer<typeof reportPeriodSchema>;
+export type ImportDuplicateDecision = z.infer<typeof importDuplicateDecisionSchema>;
+export type ImportMode = z.infer<typeof importModeSchema>;
+export type InsertImportMappingPreset = z.infer<typeof insertImportMappingPresetSchema>;
+export type InsertBackgroundJob = z.infer<typeof insertBackgroundJobSchema>;
 
 // User with clinic data
 export type UserWithClinic = User & {
@@ -527,6 +1051,55 @@ export type CaseWithDetails = Case & {
   firstImageUrl?: string;
 };
 
+// Patient with how many (not deleted) cases it has, for the patient list
+export type PatientWithCaseCount = Patient & {
+  caseCount: number;
+};
+
+// Patient with its clinic and cases, for the patient page
+export type PatientWithCases = Patient & {
+  clinic: { id: string; name: string };
+  cases: Array<Case & { tumourTypeName: string | null }>;
+};
+
+// Owner with the consent form on file, for the owner card of the patient page
+export type OwnerWithConsentForm = Owner & {
+  consentForm: { id: string; caseId: string; originalName: string; createdAt: Date } | null;
+};
+
+// A case in the trash, as listed for restoring
+export type DeletedCase = Case & {
+  deletedByName: string | null;
+  tumourTypeName: string | null;
+  // Kept past its purge date while one of its files is an owner's consent form
+  holdsConsentForm: boolean;
+};
+
+// Treatment with the name of the user who recorded it, for the case timeline
+export type TreatmentWithCreator = Treatment & {
+  createdByName: string | null;
+};
+
+// Pathology report with the recorder's name and the linked PDF, unless that file was deleted
+export type PathologyReportWithFile = PathologyReport & {
+  createdByName: string | null;
+  file: { id: string; originalName: string } | null;
+};
+
+// Audit entry of a case with the name of the user who made the change
+export type CaseHistoryEntry = AuditLog & {
+  actorName: string | null;
+};
+
+// Report run with its template name for history listings
+export type ReportInstanceWithTemplate = ReportInstance & {
+  templateName: string;
+};
+
+export type ScheduledReportWithTemplate = ScheduledReport & {
+  templateName: string;
+};
+
 // Session table for express-session
 export const session = pgTable("session", {
   sid: varchar("sid").primaryKey(),
@@ -543,6 +1116,7 @@ export type DashboardStats = {
   casesByMonth: Array<{month: string; count: number}>;
   topTumourTypes: Array<{name: string; count: number}>;
   casesByState: Array<{state: string; count: number}>;
+  casesByGrade?: Array<{grade: string; count: number}>; // latest graded pathology report per case; shared stats only
   recentActivity: Array<{
     id: string;
     type: string;
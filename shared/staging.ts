@@ -0,0 +1,226 @@
+// WHO clinical staging schemes used in veterinary oncology (Owen, 1980, and the
+// modified schemes in current use). A scheme applies to a case by tumour type name
+// and species; cases of other tumour types keep the free-text stage.
+
+export interface StagingOption {
+  value: string;
+  label: string;
+  description: string;
+}
+
+export interface StagingScheme {
+  id: string;
+  name: string;
+  species: string;
+  // Matched against the tumour type name, so vocabulary and custom names both resolve
+  tumourPattern: RegExp;
+  // TNM categories; when present the stage group is derived from them
+  tnm?: {
+    t: StagingOption[];
+    n: StagingOption[];
+    m: StagingOption[];
+  };
+  stages: StagingOption[];
+  substages?: StagingOption[];
+  stageFromTnm?: (t: string, n: string, m: string) => string;
+}
+
+// The structured staging columns of a case
+export interface CaseStaging {
+  stagingScheme: string | null;
+  tnmT: string | null;
+  tnmN: string | null;
+  tnmM: string | null;
+  clinicalStage: string | null;
+  stageSubstage: string | null;
+}
+
+export const STAGING_FIELDS = ["stagingScheme", "tnmT", "tnmN", "tnmM", "clinicalStage", "stageSubstage"] as const;
+
+const SYSTEMIC_SUBSTAGES: StagingOption[] = [
+  { value: "a", label: "a", description: "Without systemic signs" },
+  { value: "b", label: "b", description: "With systemic signs" },
+];
+
+const REGIONAL_NODES: StagingOption[] = [
+  { value: "N0", label: "N0", description: "No regional lymph node metastasis" },
+  { value: "N1", label: "N1", description: "Regional lymph node metastasis" },
+];
+
+const DISTANT_METASTASIS: StagingOption[] = [
+  { value: "M0", label: "M0", description: "No distant metastasis" },
+  { value: "M1", label: "M1", description: "Distant metastasis" },
+];
+
+export const STAGING_SCHEMES: StagingScheme[] = [
+  {
+    id: "WHO_CANINE_LYMPHOMA",
+    name: "WHO canine lymphoma",
+    species: "Dog",
+    tumourPattern: /lymphoma|lymphosarcoma/i,
+    stages: [
+      { value: "I", label: "Stage I", description: "Single lymph node or lymphoid tissue in a single organ" },
+      { value: "II", label: "Stage II", description: "Several lymph nodes in a regional area" },
+      { value: "III", label: "Stage III", description: "Generalised lymph node involvement" },
+      { value: "IV", label: "Stage IV", description: "Liver and/or spleen involvement, with or without stage III" },
+      { value: "V", label: "Stage V", description: "Blood, bone marrow or other organ involvement" },
+    ],
+    substages: SYSTEMIC_SUBSTAGES,
+  },
+  {
+    id: "WHO_CANINE_MAST_CELL",
+    name: "WHO canine mast cell tumour",
+    species: "Dog",
+    tumourPattern: /mast\s*cell/i,
+    stages: [
+      { value: "0", label: "Stage 0", description: "One tumour incompletely excised from the dermis, no regional node involvement" },
+      { value: "I", label: "Stage I", description: "One tumour confined to the dermis, no regional node involvement" },
+      { value: "II", label: "Stage II", description: "One tumour confined to the dermis, with regional node involvement" },
+      { value: "III", label: "Stage III", description: "Multiple dermal tumours, or a large infiltrating tumour with or without node involvement" },
+      { value: "IV", label: "Stage IV", description: "Any tumour with distant metastasis or recurrence with metastasis" },
+    ],
+    substages: SYSTEMIC_SUBSTAGES,
+  },
+  {
+    id: "WHO_CANINE_MAMMARY",
+    name: "Modified WHO canine mammary tumour",
+    species: "Dog",
+    tumourPattern: /mammary/i,
+    tnm: {
+      t: [
+        { value: "T1", label: "T1", description: "Tumour under 3 cm" },
+        { value: "T2", label: "T2", description: "Tumour 3 to 5 cm" },
+        { value: "T3", label: "T3", description: "Tumour over 5 cm" },
+      ],
+      n: REGIONAL_NODES,
+      m: DISTANT_METASTASIS,
+    },
+    stages: [
+      { value: "I", label: "Stage I", description: "T1 N0 M0" },
+      { value: "II", label: "Stage II", description: "T2 N0 M0" },
+      { value: "III", label: "Stage III", description: "T3 N0 M0" },
+      { value: "IV", label: "Stage IV", description: "Any T, N1, M0" },
+      { value: "V", label: "Stage V", description: "Any T, any N, M1" },
+    ],
+    stageFromTnm: (t, n, m) => {
+      if (m === "M1") return "V";
+      if (n === "N1") return "IV";
+      return { T1: "I", T2: "II", T3: "III" }[t] ?? "";
+    },
+  },
+  {
+    id: "WHO_FELINE_MAMMARY",
+    name: "Modified WHO feline mammary tumour",
+    species: "Cat",
+    tumourPattern: /mammary/i,
+    tnm: {
+      t: [
+        { value: "T1", label: "T1", description: "Tumour under 2 cm" },
+        { value: "T2", label: "T2", description: "Tumour 2 to 3 cm" },
+        { value: "T3", label: "T3", description: "Tumour over 3 cm" },
+      ],
+      n: REGIONAL_NODES,
+      m: DISTANT_METASTASIS,
+    },
+    stages: [
+      { value: "I", label: "Stage I", description: "T1 N0 M0" },
+      { value: "II", label: "Stage II", description: "T2 N0 M0" },
+      { value: "III", label: "Stage III", description: "T1 or T2 with N1, or T3 with any N; M0" },
+      { value: "IV", label: "Stage IV", description: "Any T, any N, M1" },
+    ],
+    stageFromTnm: (t, n, m) => {
+      if (m === "M1") return "IV";
+      if (t === "T3" || n === "N1") return "III";
+      return { T1: "I", T2: "II" }[t] ?? "";
+    },
+  },
+];
+
+export const getStagingScheme = (id: string | null | undefined) =>
+  STAGING_SCHEMES.find(scheme => scheme.id === id);
+
+export function findStagingScheme(
+  tumourTypeName: string | null | undefined,
+  species: string | null | undefined,
+): StagingScheme | undefined {
+  if (!tumourTypeName || !species) return undefined;
+  return STAGING_SCHEMES.find(scheme =>
+    scheme.species.toLowerCase() === species.trim().toLowerCase() && scheme.tumourPattern.test(tumourTypeName),
+  );
+}
+
+export const emptyStaging = (): CaseStaging => ({
+  stagingScheme: null,
+  tnmT: null,
+  tnmN: null,
+  tnmM: null,
+  clinicalStage: null,
+  stageSubstage: null,
+});
+
+// e.g. "Stage IIIb" or "Stage IV (T2 N1 M0)"
+export function formatStaging(staging: Partial<CaseStaging>): string {
+  const scheme = getStagingScheme(staging.stagingScheme);
+  if (!scheme || !staging.clinicalStage) return "";
+  const stage = `Stage ${staging.clinicalStage}${staging.stageSubstage ?? ""}`;
+  return scheme.tnm ? `${stage} (${staging.tnmT} ${staging.tnmN} ${staging.tnmM})` : stage;
+}
+
+const optionValues = (options: StagingOption[] | undefined) => new Set((options ?? []).map(o => o.value));
+
+// Checks staging against the scheme of the case's tumour type and species. Returns the
+// staging to store, with the stage group worked out from TNM where the scheme defines it.
+export function validateStaging(
+  scheme: StagingScheme | undefined,
+  input: Partial<CaseStaging>,
+): { staging: CaseStaging } | { error: string } {
+  const staging = { ...emptyStaging(), ...input };
+  // The scheme alone, without a stage or TNM category, records nothing
+  const hasStaging = STAGING_FIELDS.some(field => field !== "stagingScheme" && staging[field]);
+  if (!hasStaging) return { staging: emptyStaging() };
+
+  if (!scheme) {
+    return { error: "Structured staging is not defined for this tumour type and species; use the free-text stage instead" };
+  }
+  if (staging.stagingScheme && staging.stagingScheme !== scheme.id) {
+    return { error: `This tumour type is staged with the ${scheme.name} scheme` };
+  }
+
+  if (scheme.tnm) {
+    const { t, n, m } = scheme.tnm;
+    if (!staging.tnmT || !staging.tnmN || !staging.tnmM) {
+      return { error: `T, N and M are all needed for ${scheme.name} staging` };
+    }
+    if (!optionValues(t).has(staging.tnmT) || !optionValues(n).has(staging.tnmN) || !optionValues(m).has(staging.tnmM)) {
+      return { error: `Invalid TNM category for ${scheme.name} staging` };
+    }
+    return {
+      staging: {
+        ...emptyStaging(),
+        stagingScheme: scheme.id,
+        tnmT: staging.tnmT,
+        tnmN: staging.tnmN,
+        tnmM: staging.tnmM,
+        clinicalStage: scheme.stageFromTnm!(staging.tnmT, staging.tnmN, staging.tnmM),
+      },
+    };
+  }
+
+  if (staging.tnmT || staging.tnmN || staging.tnmM) {
+    return { error: `${scheme.name} staging does not use TNM categories` };
+  }
+  if (!staging.clinicalStage || !optionValues(scheme.stages).has(staging.clinicalStage)) {
+    return { error: `Choose a ${scheme.name} stage` };
+  }
+  if (staging.stageSubstage && !optionValues(scheme.substages).has(staging.stageSubstage)) {
+    return { error: `Invalid substage for ${scheme.name} staging` };
+  }
+  return {
+    staging: {
+      ...emptyStaging(),
+      stagingScheme: scheme.id,
+      clinicalStage: staging.clinicalStage,
+      stageSubstage: staging.stageSubstage || null,
+    },
+  };
+}